@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api/errors";
+import { authorize, getApiKeyStore } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+/** Returns the key with its usage counters. */
+export async function GET(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  const key = await getApiKeyStore().get(params.id);
+  if (!key) return apiError("not_found", "API key not found.");
+  return NextResponse.json(key);
+}
+
+/** Revokes the key. It stays listed, with its usage, but no longer authenticates. */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  try {
+    const key = await getApiKeyStore().revoke(params.id);
+    if (!key) return apiError("not_found", "API key not found.");
+    return NextResponse.json(key);
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Could not revoke the API key.");
+  }
+}
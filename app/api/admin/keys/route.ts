@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import { API_KEY_SCOPES, authorize, getApiKeyStore, isScope, type ApiKeyInput } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+const MAX_NAME_LENGTH = 100;
+
+function readKeyInput(body: unknown): ApiKeyInput | string {
+  const input = body as { name?: unknown; scopes?: unknown } | null;
+  const name = typeof input?.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `Give the key a name of 1–${MAX_NAME_LENGTH} characters.`;
+  }
+  const scopes = input?.scopes ?? ["chat"];
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isScope)) {
+    return `Scopes must be a non-empty list of ${API_KEY_SCOPES.map((scope) => `"${scope}"`).join(", ")}.`;
+  }
+  return { name, scopes };
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  try {
+    return NextResponse.json({ keys: await getApiKeyStore().list() });
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Could not read the API keys.");
+  }
+}
+
+/** Creates a key. The secret is only ever returned in this response. */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+  const input = readKeyInput(read.body);
+  if (typeof input === "string") return apiError("invalid_request", input);
+  try {
+    const { key, secret } = await getApiKeyStore().create(input);
+    return NextResponse.json({ key, secret }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Could not create the API key.");
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/api/request";
+import { authorize } from "@/lib/auth";
+import { getKnowledgeBase, isSafeId, toEntryInput } from "@/lib/knowledge";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+export async function GET(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  const entry = await getKnowledgeBase().get(params.id);
+  if (!entry) {
+    return NextResponse.json({ error: "Knowledge entry not found." }, { status: 404 });
+  }
+  return NextResponse.json(entry);
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  if (!isSafeId(params.id)) {
+    return NextResponse.json(
+      { error: "Entry ids use lower-case letters, digits and dashes." },
+      { status: 400 }
+    );
+  }
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+  try {
+    const input = toEntryInput(read.body);
+    if (!input) {
+      return NextResponse.json(
+        { error: "Please provide a title and Markdown content (optional tags)." },
+        { status: 400 }
+      );
+    }
+    const { entry, created } = await getKnowledgeBase().upsert({ ...input, id: params.id });
+    return NextResponse.json(entry, { status: created ? 201 : 200 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not save the knowledge entry." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  try {
+    const removed = await getKnowledgeBase().remove(params.id);
+    if (!removed) {
+      return NextResponse.json({ error: "Knowledge entry not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not remove the knowledge entry." }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getKnowledgeBase } from "@/lib/knowledge";
+
+export const runtime = "nodejs";
+
+/** Re-reads the knowledge directory, e.g. after files were edited on disk. */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  try {
+    return NextResponse.json(await getKnowledgeBase().rebuild());
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not rebuild the knowledge index." }, { status: 500 });
+  }
+}
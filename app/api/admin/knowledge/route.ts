@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/api/request";
+import { authorize } from "@/lib/auth";
+import { getKnowledgeBase, toEntryInput } from "@/lib/knowledge";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  try {
+    const knowledge = getKnowledgeBase();
+    const entries = await knowledge.list();
+    return NextResponse.json({
+      entries: entries.map(({ id, title, tags, source }) => ({ id, title, tags, source })),
+      index: await knowledge.stats()
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not read the knowledge base." }, { status: 500 });
+  }
+}
+
+/** Adds an entry, or replaces the one with the same id (derived from the title if omitted). */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "admin");
+  if ("response" in auth) return auth.response;
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+  try {
+    const input = toEntryInput(read.body);
+    if (!input) {
+      return NextResponse.json(
+        { error: "Please provide a title and Markdown content (optional id and tags)." },
+        { status: 400 }
+      );
+    }
+    const { entry, created } = await getKnowledgeBase().upsert(input);
+    return NextResponse.json(entry, { status: created ? 201 : 200 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not save the knowledge entry." }, { status: 500 });
+  }
+}
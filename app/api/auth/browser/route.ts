@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api/errors";
+import {
+  BROWSER_COOKIE,
+  BROWSER_COOKIE_MAX_AGE,
+  createBrowserCookie,
+  isSameSite,
+  readBrowserCookie
+} from "@/lib/auth";
+import { clientKey, limitRequest } from "@/lib/limits";
+
+export const runtime = "nodejs";
+
+/**
+ * Gives the app's pages the signed, HttpOnly, SameSite=Strict cookie that
+ * lets them use the chat and session routes without an API key. Only
+ * requests that browsers mark as same-origin, or whose Origin matches, get
+ * one. A page that already has a valid cookie keeps it; new cookies are
+ * counted per address in a bucket of their own, apart from the chat limit.
+ */
+export async function POST(request: NextRequest) {
+  if (!isSameSite(request)) {
+    return apiError("forbidden", "Browser sessions are only issued to the app's own pages.");
+  }
+  const response = new NextResponse(null, { status: 204 });
+  if (readBrowserCookie(request)) return response;
+  const limited = await limitRequest(request, `cookie:${clientKey(request)}`);
+  if (limited) return limited;
+
+  response.cookies.set(BROWSER_COOKIE, createBrowserCookie().value, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/",
+    maxAge: BROWSER_COOKIE_MAX_AGE
+  });
+  return response;
+}
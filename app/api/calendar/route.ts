@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import type { AgentData } from "@/lib/agent";
+import { apiError, invalidRequest } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import { calendarRequestSchema, validate } from "@/lib/api/schema";
+import { authorize, limitKey } from "@/lib/auth";
+import {
+  blocksForPlan,
+  blocksForTasks,
+  defaultWorkingHours,
+  parseWorkingHours,
+  toICalendar
+} from "@/lib/calendar";
+import { limitRequest } from "@/lib/limits";
+import { DEFAULT_NAME, type AssistantSettings } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+/**
+ * Turns the structured `data` of an agent reply (a plan or ranked tasks)
+ * into a downloadable `.ics` file. `workingHours` ("09:00-17:00") overrides
+ * the configured window for this export, and the conversation's `settings`
+ * name the calendar after the assistant. Callers need the chat scope, are
+ * rate limited like chat, and plans and tasks are checked against
+ * `calendarRequestSchema`, which bounds their size and effort.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "chat");
+  if ("response" in auth) return auth.response;
+
+  const limited = await limitRequest(request, limitKey(auth.principal, request));
+  if (limited) return limited;
+
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+
+  const issue = validate(calendarRequestSchema, read.body);
+  if (issue) return invalidRequest(issue);
+  const body = read.body as {
+    data: AgentData;
+    workingHours?: string;
+    settings?: AssistantSettings;
+  };
+  const { data } = body;
+
+  if (!data.plan && !data.tasks?.length) {
+    return apiError(
+      "invalid_request",
+      "Provide a reply's `data` with a plan or ranked tasks to export.",
+      "data"
+    );
+  }
+
+  let hours = defaultWorkingHours();
+  if (body.workingHours !== undefined) {
+    const parsed = parseWorkingHours(body.workingHours);
+    if (!parsed) {
+      return apiError(
+        "invalid_request",
+        "`workingHours` must look like 09:00-17:00.",
+        "workingHours"
+      );
+    }
+    hours = parsed;
+  }
+
+  try {
+    const blocks = [
+      ...(data.plan ? blocksForPlan(data.plan, hours) : []),
+      ...(data.tasks?.length ? blocksForTasks(data.tasks, hours) : [])
+    ];
+    const assistant = body.settings?.name?.trim() || DEFAULT_NAME;
+    const name = data.plan ? `${assistant}: ${data.plan.goal}` : `${assistant}: priorities`;
+
+    return new Response(toICalendar(blocks, name, new Date(), assistant), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${data.plan ? "radius-plan" : "radius-tasks"}.ics"`
+      }
+    });
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Could not build the calendar file. Please try again.");
+  }
+}
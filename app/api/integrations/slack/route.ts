@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAgent } from "@/lib/agent";
+import { apiError } from "@/lib/api/errors";
+import { readTextBody } from "@/lib/api/request";
+import { MAX_CONTENT_LENGTH } from "@/lib/api/schema";
+import {
+  ACK_MS,
+  deliverLater,
+  isAllowedDestination,
+  isSslCheck,
+  parseSlashCommand,
+  slackHosts,
+  toSlackMessage,
+  verifySlackSignature,
+  within,
+  type SlackMessage
+} from "@/lib/integrations";
+import { limitRequest } from "@/lib/limits";
+import { resolveLocale } from "@/lib/locale";
+
+export const runtime = "nodejs";
+
+function notice(text: string): SlackMessage {
+  return { response_type: "ephemeral", text };
+}
+
+/**
+ * Slack slash commands (`application/x-www-form-urlencoded`), verified with
+ * `RADIUS_SLACK_SIGNING_SECRET`. Replies that take longer than Slack's
+ * three-second window are acknowledged at once and posted to `response_url`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.RADIUS_SLACK_SIGNING_SECRET;
+  if (!secret) {
+    return apiError(
+      "not_configured",
+      "Slack commands are disabled. Set RADIUS_SLACK_SIGNING_SECRET to enable them."
+    );
+  }
+
+  const read = await readTextBody(request);
+  if ("response" in read) return read.response;
+
+  const check = verifySlackSignature(
+    read.text,
+    request.headers.get("x-slack-request-timestamp"),
+    request.headers.get("x-slack-signature"),
+    secret
+  );
+  if (!check.ok) return apiError("unauthorized", check.reason);
+  if (isSslCheck(read.text)) return new NextResponse(null, { status: 200 });
+
+  const command = parseSlashCommand(read.text);
+  const limited = await limitRequest(
+    request,
+    `slack:${command.teamId ?? "unknown"}:${command.userId ?? "unknown"}`
+  );
+  if (limited) {
+    return NextResponse.json(notice("You're sending commands too quickly. Try again in a minute."));
+  }
+
+  if (!command.text) {
+    return NextResponse.json(
+      notice(
+        `Ask me anything after the command, e.g. \`${command.command} plan a product launch by Friday\` or \`${command.command} what's 1200 * 12?\``
+      )
+    );
+  }
+  if (command.text.length > MAX_CONTENT_LENGTH) {
+    return NextResponse.json(
+      notice(`That's too long for me. Keep it under ${MAX_CONTENT_LENGTH} characters.`)
+    );
+  }
+
+  const inChannel = process.env.RADIUS_SLACK_RESPONSE_TYPE === "in_channel";
+  // Slack does not say which language the user reads, so the server default applies.
+  const work = runAgent([{ role: "user", content: command.text }], {
+    locale: resolveLocale()
+  }).then((reply) => toSlackMessage(reply, { command: command.command, inChannel }));
+  const failure = notice("Sorry, something went wrong on my side. Please try again.");
+
+  // A response_url off Slack's hosts is ignored and the reply is sent inline.
+  const responseUrl =
+    command.responseUrl && isAllowedDestination(command.responseUrl, slackHosts())
+      ? command.responseUrl
+      : undefined;
+  if (!responseUrl) {
+    try {
+      return NextResponse.json(await work);
+    } catch (error) {
+      console.error(error);
+      return NextResponse.json(failure);
+    }
+  }
+
+  const message = await within(
+    work.catch(() => null),
+    ACK_MS
+  );
+  if (message) return NextResponse.json(message);
+
+  deliverLater(responseUrl, work, failure);
+  return NextResponse.json(notice("Working on it…"));
+}
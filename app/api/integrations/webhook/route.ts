@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAgent } from "@/lib/agent";
+import { apiError, invalidRequest } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import { validate, webhookRequestSchema } from "@/lib/api/schema";
+import type { AgentMessage, WebhookRequest } from "@/lib/api/types";
+import { authorize, limitKey, recordUsage } from "@/lib/auth";
+import {
+  deliverLater,
+  formatReply,
+  isAllowedDestination,
+  webhookHosts
+} from "@/lib/integrations";
+import { limitRequest } from "@/lib/limits";
+import { resolveLocale } from "@/lib/locale";
+
+export const runtime = "nodejs";
+
+const AGENT_ERROR = "Unexpected agent error. Please try again.";
+
+/**
+ * Generic JSON webhook for chat tools and automations. Callers need an API
+ * key with the chat scope. With `response_url` (on a host allowed by
+ * `RADIUS_WEBHOOK_ALLOWED_HOSTS`) the request is accepted with 202 and the
+ * reply is POSTed there in the requested `format`.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "chat");
+  if ("response" in auth) return auth.response;
+  const { principal } = auth;
+
+  const limited = await limitRequest(request, limitKey(principal, request));
+  if (limited) return limited;
+
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+
+  const issue = validate(webhookRequestSchema, read.body);
+  if (issue) return invalidRequest(issue);
+  const body = read.body as WebhookRequest;
+
+  const messages: AgentMessage[] =
+    body.messages ?? (body.text ? [{ role: "user", content: body.text }] : []);
+  if (messages.length === 0) {
+    return apiError("missing_messages", "Send the question as `text` or a list of `messages`.");
+  }
+
+  if (body.response_url && !isAllowedDestination(body.response_url, webhookHosts())) {
+    return apiError(
+      "invalid_request",
+      "`response_url` must be on a host listed in RADIUS_WEBHOOK_ALLOWED_HOSTS.",
+      "response_url"
+    );
+  }
+
+  const format = body.format ?? "json";
+  const tools: string[] = [];
+  const work = runAgent(messages, {
+    state: body.state ?? {},
+    locale: resolveLocale(body.locale, request.headers.get("accept-language")),
+    settings: body.settings,
+    onTool: (id) => tools.push(id)
+  }).finally(() => recordUsage(principal, tools));
+
+  if (body.response_url) {
+    const failure =
+      format === "json"
+        ? { error: AGENT_ERROR, code: "internal_error" }
+        : formatReply(
+            { role: "assistant", content: AGENT_ERROR, steps: [], suggestions: [] },
+            format
+          );
+    deliverLater(
+      body.response_url,
+      work.then((reply) => formatReply(reply, format)),
+      failure
+    );
+    return NextResponse.json({ accepted: true }, { status: 202 });
+  }
+
+  try {
+    return NextResponse.json(formatReply(await work, format));
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", AGENT_ERROR);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, invalidRequest } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import { MAX_MESSAGES, sessionMessageRequestSchema, validate } from "@/lib/api/schema";
+import { authorize, limitKey, principalId, recordUsage } from "@/lib/auth";
+import { limitRequest } from "@/lib/limits";
+import { resolveLocale } from "@/lib/locale";
+import type { AssistantSettings } from "@/lib/settings";
+import { getSessionStore, sendMessage, sessionsOwnedBy } from "@/lib/sessions";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+export async function POST(request: NextRequest, { params }: Params) {
+  const auth = await authorize(request, "sessions");
+  if ("response" in auth) return auth.response;
+  const { principal } = auth;
+
+  const limited = await limitRequest(request, limitKey(principal, request));
+  if (limited) return limited;
+
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+  const invalid = validate(sessionMessageRequestSchema, read.body);
+  if (invalid) return invalidRequest(invalid);
+
+  try {
+    const body = read.body as { content: string; locale?: string; settings?: AssistantSettings };
+    const content = body.content.trim();
+
+    const store = sessionsOwnedBy(getSessionStore(), principalId(principal));
+    const session = await store.get(params.id);
+    if (!session) return apiError("session_not_found", "Session not found.");
+    // Each exchange stores the message and the reply.
+    if (session.messages.length + 2 > MAX_MESSAGES) {
+      return apiError(
+        "too_many_messages",
+        `A session holds at most ${MAX_MESSAGES} messages; start a new one to continue.`,
+        "content"
+      );
+    }
+
+    const tools: string[] = [];
+    const result = await sendMessage(store, params.id, content, {
+      locale: resolveLocale(body.locale, request.headers.get("accept-language")),
+      settings: body.settings,
+      onTool: (id) => tools.push(id)
+    });
+    await recordUsage(principal, tools);
+    if (!result) return apiError("session_not_found", "Session not found.");
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Unexpected agent error. Please try again.");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { apiError } from "@/lib/api/errors";
+import { authorize, principalId } from "@/lib/auth";
+import { getSessionStore, sessionsOwnedBy } from "@/lib/sessions";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "sessions");
+  if ("response" in auth) return auth.response;
+
+  const store = sessionsOwnedBy(getSessionStore(), principalId(auth.principal));
+  const session = await store.get(params.id);
+  if (!session) return apiError("session_not_found", "Session not found.");
+  return NextResponse.json(session);
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "sessions");
+  if ("response" in auth) return auth.response;
+
+  const store = sessionsOwnedBy(getSessionStore(), principalId(auth.principal));
+  const removed = await store.remove(params.id);
+  if (!removed) return apiError("session_not_found", "Session not found.");
+  return new NextResponse(null, { status: 204 });
+}
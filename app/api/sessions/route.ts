@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, invalidRequest } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import { sessionRequestSchema, validate } from "@/lib/api/schema";
+import { authorize, limitKey, principalId, recordUsage } from "@/lib/auth";
+import { limitRequest } from "@/lib/limits";
+import { resolveLocale } from "@/lib/locale";
+import type { AssistantSettings } from "@/lib/settings";
+import { getSessionStore, sendMessage, sessionsOwnedBy } from "@/lib/sessions";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "sessions");
+  if ("response" in auth) return auth.response;
+
+  const store = sessionsOwnedBy(getSessionStore(), principalId(auth.principal));
+  const sessions = await store.list();
+  return NextResponse.json({ sessions });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "sessions");
+  if ("response" in auth) return auth.response;
+  const { principal } = auth;
+
+  const limited = await limitRequest(request, limitKey(principal, request));
+  if (limited) return limited;
+
+  const read = await readJsonBody(request, {});
+  if ("response" in read) return read.response;
+  const invalid = validate(sessionRequestSchema, read.body);
+  if (invalid) return invalidRequest(invalid);
+
+  try {
+    const body = read.body as {
+      title?: string;
+      message?: string;
+      locale?: string;
+      settings?: AssistantSettings;
+    };
+    const title = body.title;
+    const message = body.message?.trim() ?? "";
+
+    const store = sessionsOwnedBy(getSessionStore(), principalId(principal));
+    const session = await store.create({ title });
+    if (!message) {
+      return NextResponse.json(session, { status: 201 });
+    }
+
+    const tools: string[] = [];
+    const result = await sendMessage(store, session.id, message, {
+      locale: resolveLocale(body.locale, request.headers.get("accept-language")),
+      settings: body.settings,
+      onTool: (id) => tools.push(id)
+    });
+    await recordUsage(principal, tools);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", "Unexpected session error. Please try again.");
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAgent, type AgentReply, type AgentState } from "@/lib/agent";
+import { apiError, invalidRequest } from "@/lib/api/errors";
+import { readJsonBody } from "@/lib/api/request";
+import {
+  MAX_MESSAGES,
+  agentReplySchema,
+  chatRequestSchema,
+  streamEventSchema,
+  validate
+} from "@/lib/api/schema";
+import type { ChatRequest, StreamEvent } from "@/lib/api/types";
+import { authorize, limitKey, recordUsage, type Principal } from "@/lib/auth";
+import { limitRequest } from "@/lib/limits";
+import { resolveLocale, type Locale } from "@/lib/locale";
+import { transcriptHistory } from "@/lib/transcript";
+
+export const runtime = "nodejs";
+
+const NDJSON = "application/x-ndjson";
+const AGENT_ERROR = "Unexpected agent error. Please try again.";
+
+function wantsStream(request: NextRequest, body: ChatRequest): boolean {
+  if (body.stream === true) return true;
+  return request.headers.get("accept")?.includes(NDJSON) ?? false;
+}
+
+/** Session state sent back by the client; unrecognised parts are ignored. */
+function readState(body: ChatRequest): AgentState {
+  const todos = body.state?.todos;
+  return todos ? { todos } : {};
+}
+
+/**
+ * Puts an imported transcript's messages ahead of the new ones. Its state and
+ * settings are used unless the request sends newer ones.
+ */
+function withTranscript(body: ChatRequest): ChatRequest {
+  const { transcript, ...rest } = body;
+  if (!transcript) return body;
+  return {
+    ...rest,
+    messages: [...transcriptHistory(transcript), ...body.messages],
+    state: body.state ?? transcript.state,
+    settings: body.settings ?? transcript.settings
+  };
+}
+
+/** Replies are checked against the published schema before they leave the server. */
+function checkReply(reply: AgentReply): AgentReply {
+  const issue = validate(agentReplySchema, reply, "reply");
+  if (issue) throw new Error(`Agent reply does not match the schema: ${issue.message}`);
+  return reply;
+}
+
+function streamAgent(body: ChatRequest, principal: Principal, locale: Locale): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; the run still finishes and is counted.
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        const issue = validate(streamEventSchema, event, "event");
+        if (issue) throw new Error(`Stream event does not match the schema: ${issue.message}`);
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          closed = true;
+        }
+      };
+      const tools: string[] = [];
+      try {
+        const reply = checkReply(
+          await runAgent(body.messages, {
+            state: readState(body),
+            locale,
+            settings: body.settings,
+            onStep: (step) => send({ type: "step", step }),
+            onTool: (id) => tools.push(id)
+          })
+        );
+        send({ type: "content", content: reply.content });
+        send({ type: "suggestions", suggestions: reply.suggestions });
+        if (reply.data) send({ type: "data", data: reply.data });
+        if (reply.state) send({ type: "state", state: reply.state });
+        send({ type: "done" });
+      } catch (error) {
+        console.error(error);
+        send({ type: "error", error: AGENT_ERROR, code: "internal_error" });
+      } finally {
+        await recordUsage(principal, tools);
+        if (!closed) {
+          try {
+            controller.close();
+          } catch {
+            // The client went away after the last event.
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": `${NDJSON}; charset=utf-8`,
+      "Cache-Control": "no-cache"
+    }
+  });
+}
+
+/**
+ * Version 1 of the chat API. Requests and replies follow the schemas in
+ * `lib/api/schema.ts`, published at `/api/v1/openapi`. Callers need an API
+ * key with the chat scope (or the app's signed browser cookie), are rate
+ * limited per key or address, and bodies are capped before anything is
+ * parsed. Replies use the body's `locale`, else the `Accept-Language` header.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "chat");
+  if ("response" in auth) return auth.response;
+  const { principal } = auth;
+
+  const limited = await limitRequest(request, limitKey(principal, request));
+  if (limited) return limited;
+
+  const read = await readJsonBody(request);
+  if ("response" in read) return read.response;
+
+  const issue = validate(chatRequestSchema, read.body);
+  if (issue) return invalidRequest(issue);
+  const chat = withTranscript(read.body as ChatRequest);
+  if (chat.messages.length > MAX_MESSAGES) {
+    return apiError(
+      "too_many_messages",
+      `The transcript and messages together must have at most ${MAX_MESSAGES} items.`,
+      "messages"
+    );
+  }
+
+  const locale = resolveLocale(chat.locale, request.headers.get("accept-language"));
+  if (wantsStream(request, chat)) {
+    return streamAgent(chat, principal, locale);
+  }
+
+  const tools: string[] = [];
+  try {
+    const reply = checkReply(
+      await runAgent(chat.messages, {
+        state: readState(chat),
+        locale,
+        settings: chat.settings,
+        onTool: (id) => tools.push(id)
+      })
+    );
+    return NextResponse.json(reply);
+  } catch (error) {
+    console.error(error);
+    return apiError("internal_error", AGENT_ERROR);
+  } finally {
+    await recordUsage(principal, tools);
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+export const runtime = "nodejs";
+
+/** Serves the OpenAPI document generated from the runtime request and reply schemas. */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
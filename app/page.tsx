@@ -1,8 +1,19 @@
 "use client";
 
+import { useEffect } from "react";
+import { ensureBrowserSession } from "@/components/browserSession";
 import Chat from "@/components/Chat";
+import Sidebar from "@/components/Sidebar";
+import { useConversations } from "@/components/useConversations";
 
 export default function Home() {
+  const conversations = useConversations();
+  const { active } = conversations;
+
+  useEffect(() => {
+    ensureBrowserSession().catch((error) => console.error(error));
+  }, []);
+
   return (
     <main className="page">
       <div className="page__hero">
@@ -17,14 +28,43 @@ export default function Home() {
         </div>
       </div>
 
-      <Chat />
+      <div className="page__workspace">
+        <Sidebar
+          activeId={active.id}
+          results={conversations.results}
+          query={conversations.query}
+          onQueryChange={conversations.setQuery}
+          onNew={conversations.startNew}
+          onSelect={conversations.select}
+          onRename={conversations.rename}
+          onDelete={conversations.remove}
+        />
+        <Chat
+          key={active.id}
+          title={active.title}
+          createdAt={active.createdAt}
+          messages={active.messages}
+          onMessagesChange={conversations.updateMessages(active.id)}
+          state={active.state}
+          onStateChange={conversations.updateState(active.id)}
+          settings={active.settings}
+          onSettingsChange={conversations.updateSettings(active.id)}
+          onImport={conversations.importTranscript}
+        />
+      </div>
 
       <style jsx>{`
         .page {
-          width: min(960px, 100%);
+          width: min(1240px, 100%);
           display: grid;
           gap: 2rem;
         }
+        .page__workspace {
+          display: grid;
+          grid-template-columns: 260px minmax(0, 1fr);
+          gap: 1.5rem;
+          align-items: start;
+        }
         .page__hero {
           background: var(--surface);
           border: 1px solid var(--border);
@@ -57,6 +97,12 @@ export default function Home() {
           font-size: 1.05rem;
         }
 
+        @media (max-width: 900px) {
+          .page__workspace {
+            grid-template-columns: 1fr;
+          }
+        }
+
         @media (max-width: 640px) {
           .page__hero {
             padding: 1.75rem;
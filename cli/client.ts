@@ -0,0 +1,56 @@
+import { runAgent, type AgentMessage, type AgentReply, type AgentState } from "../lib/agent";
+import type { ApiError, ChatRequest } from "../lib/api/types";
+import type { Locale } from "../lib/locale";
+
+/** Sends a conversation to the agent, in this process or on a server. */
+export type AgentClient = {
+  /** Where replies come from, for the REPL banner. */
+  target: string;
+  send: (messages: AgentMessage[], state: AgentState) => Promise<AgentReply>;
+};
+
+export function createLocalClient(locale?: Locale): AgentClient {
+  return {
+    target: "local agent",
+    send: (messages, state) => runAgent(messages, { state, locale })
+  };
+}
+
+/** Accepts a server origin (`http://localhost:3000`) or a full chat endpoint URL. */
+export function chatEndpoint(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.pathname === "/" || parsed.pathname === "") parsed.pathname = "/api/v1/chat";
+  return parsed.toString();
+}
+
+/**
+ * Calls a running Radius server. Keys come from `--key` or `RADIUS_API_KEY`;
+ * servers with `RADIUS_API_KEYS=off` need none.
+ */
+export function createRemoteClient(url: string, apiKey?: string, locale?: Locale): AgentClient {
+  const endpoint = chatEndpoint(url);
+  return {
+    target: endpoint,
+    async send(messages, state) {
+      const body: ChatRequest = { messages, state, ...(locale && { locale }) };
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+        },
+        body: JSON.stringify(body)
+      }).catch((error: Error) => {
+        const cause = (error.cause as Error | undefined)?.message ?? error.message;
+        throw new Error(`Could not reach ${endpoint}: ${cause}`);
+      });
+      if (!response.ok) {
+        const error = (await response.json().catch(() => null)) as ApiError | null;
+        throw new Error(
+          error ? `${error.error} (${error.code})` : `The server answered ${response.status}.`
+        );
+      }
+      return (await response.json()) as AgentReply;
+    }
+  };
+}
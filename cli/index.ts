@@ -0,0 +1,210 @@
+import { readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import readline from "node:readline";
+import { parseArgs } from "node:util";
+import type { AgentMessage, AgentReply, AgentState } from "../lib/agent";
+import type { DisplayMessage } from "../lib/api/types";
+import { resolveLocale } from "../lib/locale";
+import { createTranscript } from "../lib/transcript";
+import { createLocalClient, createRemoteClient, type AgentClient } from "./client";
+import { renderReply, style, useColor } from "./render";
+
+const USAGE = `Usage: npm run radius -- [ask [question]] [options]
+
+  (no command)     Start an interactive session
+  ask [question]   Ask once and exit; piped stdin is appended to the question,
+                   e.g. cat tasks.txt | npm run radius -- ask "Prioritise:"
+
+Options:
+  --url <url>      Use a running server (origin or chat endpoint) instead of the local agent
+  --key <key>      API key for --url (default: RADIUS_API_KEY)
+  --locale <tag>   Reply language: en, es, de or fr (default: LC_ALL or LANG)
+  --steps          Show the reasoning steps
+  --json           Print each reply as JSON
+  -h, --help       Show this help`;
+
+const REPL_HELP = `Commands:
+  /steps        Show or hide reasoning steps
+  /json         Switch JSON output on or off
+  /new          Start a new conversation
+  /save <file>  Save the conversation as a JSON transcript
+  /exit         Quit (or press Ctrl+D)`;
+
+const HISTORY_FILE = path.join(os.homedir(), ".radius_history");
+const HISTORY_SIZE = 500;
+
+type Settings = {
+  steps: boolean;
+  json: boolean;
+  color: boolean;
+};
+
+function print(reply: AgentReply, settings: Settings): string {
+  return settings.json ? JSON.stringify(reply, null, 2) : renderReply(reply, settings);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function ask(client: AgentClient, question: string, settings: Settings): Promise<number> {
+  const piped = process.stdin.isTTY ? "" : (await readStdin()).trim();
+  const content = [question.trim(), piped].filter(Boolean).join("\n");
+  if (!content) {
+    console.error("Nothing to ask. Pass a question or pipe text into `ask`.\n");
+    console.error(USAGE);
+    return 2;
+  }
+  const reply = await client.send([{ role: "user", content }], {});
+  console.log(print(reply, settings));
+  return 0;
+}
+
+async function loadHistory(): Promise<string[]> {
+  try {
+    return (await readFile(HISTORY_FILE, "utf8")).split("\n").filter(Boolean).reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Interactive session. The conversation and task list carry over between
+ * prompts, and typed lines are kept in `~/.radius_history` for the arrow keys.
+ */
+async function repl(client: AgentClient, settings: Settings): Promise<number> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history: await loadHistory(),
+    historySize: HISTORY_SIZE,
+    prompt: style("you › ", "bold", settings.color)
+  });
+  rl.on("history", (lines: string[]) => {
+    writeFile(HISTORY_FILE, `${[...lines].reverse().join("\n")}\n`).catch(() => undefined);
+  });
+
+  let messages: AgentMessage[] = [];
+  let shown: DisplayMessage[] = [];
+  let state: AgentState = {};
+  const say = (text: string) => console.log(style(text, "dim", settings.color));
+
+  say(`Radius (${client.target}). Type /help for commands.`);
+  rl.prompt();
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (!line) {
+      rl.prompt();
+      continue;
+    }
+
+    const [command, ...rest] = line.split(/\s+/);
+    if (command === "/exit" || command === "/quit") break;
+    if (command === "/help") {
+      say(REPL_HELP);
+    } else if (command === "/steps") {
+      settings.steps = !settings.steps;
+      say(`Steps ${settings.steps ? "shown" : "hidden"}.`);
+    } else if (command === "/json") {
+      settings.json = !settings.json;
+      say(`JSON output ${settings.json ? "on" : "off"}.`);
+    } else if (command === "/new") {
+      messages = [];
+      shown = [];
+      state = {};
+      say("Started a new conversation.");
+    } else if (command === "/save") {
+      const file = rest.join(" ") || "radius-conversation.json";
+      const title = shown.find((message) => message.role === "user")?.content.slice(0, 48);
+      const transcript = createTranscript({
+        title: title ?? "Terminal chat",
+        messages: shown,
+        state
+      });
+      try {
+        await writeFile(file, JSON.stringify(transcript, null, 2));
+        say(`Saved ${shown.length} messages to ${file}.`);
+      } catch (error) {
+        console.error(`Could not save: ${(error as Error).message}`);
+      }
+    } else if (/^\/[a-z]+$/i.test(command)) {
+      say(`Unknown command ${command}. Type /help for commands.`);
+    } else {
+      const next: AgentMessage[] = [...messages, { role: "user", content: line }];
+      try {
+        const reply = await client.send(next, state);
+        messages = [...next, { role: "assistant", content: reply.content }];
+        shown = [...shown, { role: "user", content: line }, reply];
+        if (reply.state) state = reply.state;
+        console.log(`\n${print(reply, settings)}\n`);
+      } catch (error) {
+        console.error(style(`Error: ${(error as Error).message}`, "bold", settings.color));
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+  return 0;
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        url: { type: "string" },
+        key: { type: "string" },
+        locale: { type: "string" },
+        steps: { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false }
+      }
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // The terminal's language plays the part of a browser's Accept-Language.
+  const locale = resolveLocale(
+    values.locale,
+    process.env.LC_ALL || process.env.LC_MESSAGES || process.env.LANG
+  );
+  const client = values.url
+    ? createRemoteClient(values.url, values.key ?? process.env.RADIUS_API_KEY, locale)
+    : createLocalClient(locale);
+  const settings: Settings = {
+    steps: Boolean(values.steps),
+    json: Boolean(values.json),
+    color: useColor(process.stdout)
+  };
+
+  const [command, ...words] = positionals;
+  if (command === "ask") return ask(client, words.join(" "), settings);
+  if (command) {
+    console.error(`Unknown command "${command}".\n\n${USAGE}`);
+    return 2;
+  }
+  // Piped input without a command is a one-shot question too.
+  if (!process.stdin.isTTY) return ask(client, "", settings);
+  return repl(client, settings);
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,50 @@
+import type { AgentReply } from "../lib/agent";
+
+export type RenderOptions = {
+  steps: boolean;
+  color: boolean;
+};
+
+const STYLES = {
+  bold: ["\u001b[1m", "\u001b[22m"],
+  dim: ["\u001b[2m", "\u001b[22m"],
+  cyan: ["\u001b[36m", "\u001b[39m"]
+} as const;
+
+export function style(text: string, name: keyof typeof STYLES, color: boolean): string {
+  return color ? `${STYLES[name][0]}${text}${STYLES[name][1]}` : text;
+}
+
+/** Colours are used on terminals unless `NO_COLOR` is set. */
+export function useColor(stream: NodeJS.WriteStream): boolean {
+  return Boolean(stream.isTTY) && !process.env.NO_COLOR;
+}
+
+/** Shows Markdown emphasis and headings as bold text and leaves the rest as written. */
+function renderMarkdown(markdown: string, color: boolean): string {
+  return markdown
+    .split("\n")
+    .map((line) => {
+      const heading = line.match(/^#{1,6}\s+(.*)$/);
+      if (heading) return style(heading[1], "bold", color);
+      return line.replace(/\*\*([^*\n]+)\*\*/g, (_, text: string) => style(text, "bold", color));
+    })
+    .join("\n");
+}
+
+/** Formats a reply for the terminal: content, optional steps, then suggestions. */
+export function renderReply(reply: AgentReply, options: RenderOptions): string {
+  const { color } = options;
+  const sections = [renderMarkdown(reply.content.trim(), color)];
+  if (options.steps && reply.steps.length > 0) {
+    sections.push(
+      reply.steps
+        .map((step) => style(`· ${step.title}: ${step.content.replace(/\*\*/g, "")}`, "dim", color))
+        .join("\n")
+    );
+  }
+  if (reply.suggestions.length > 0) {
+    sections.push(reply.suggestions.map((item) => style(`→ ${item}`, "cyan", color)).join("\n"));
+  }
+  return sections.join("\n\n");
+}
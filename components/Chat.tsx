@@ -1,23 +1,30 @@
-import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
+import type {
+  AgentData,
+  AgentState,
+  ApiError,
+  AssistantSettings,
+  DisplayMessage,
+  StreamEvent,
+  Transcript
+} from "@/lib/api/types";
+import { DEFAULT_NAME } from "@/lib/settings";
+import {
+  createTranscript,
+  parseTranscript,
+  transcriptFilename,
+  transcriptToMarkdown
+} from "@/lib/transcript";
+import { apiFetch } from "./browserSession";
 import MessageBubble from "./MessageBubble";
-
-type CoreMessage = {
-  role: "user" | "assistant";
-  content: string;
-};
-
-type AgentStep = {
-  title: string;
-  content: string;
-};
-
-type AgentReply = CoreMessage & {
-  steps?: AgentStep[];
-  suggestions?: string[];
-};
-
-type ConversationMessage = AgentReply & { id: string };
+import SettingsPanel from "./SettingsPanel";
+import {
+  createId,
+  type ConversationMessage,
+  type CoreMessage,
+  type MessagesUpdater
+} from "./useConversations";
 
 const SAMPLE_PROMPTS = [
   "Help me plan a focused 30-minute workout that alternates cardio and strength.",
@@ -26,30 +33,125 @@ const SAMPLE_PROMPTS = [
   "Solve: If I invest $150 monthly at 5% annual interest, what's the balance after 3 years?"
 ];
 
-function createId() {
-  if (typeof crypto !== "undefined" && crypto.randomUUID) {
-    return crypto.randomUUID();
+const GLITCH =
+  "I ran into a glitch while thinking. Try again in a moment or rephrase your request.";
+
+/** Turns an error response from the chat API into a message for the conversation. */
+async function describeFailure(response: Response): Promise<string> {
+  const body = (await response.json().catch(() => null)) as ApiError | null;
+  switch (body?.code) {
+    case "rate_limited": {
+      const seconds = Number(response.headers.get("Retry-After"));
+      const wait = seconds > 0 ? `about ${seconds} second${seconds === 1 ? "" : "s"}` : "a moment";
+      return `You're sending messages faster than I can keep up. Give me ${wait} and try again.`;
+    }
+    case "content_too_long":
+      return "That message is too long for me to read in one go. Try splitting it into smaller parts.";
+    case "payload_too_large":
+    case "too_many_messages":
+      return "This conversation has grown too long to send in one request. Start a new chat to keep going.";
+    case "empty_content":
+      return "That message looks empty. Type something and send it again.";
+    case "invalid_settings":
+      return "I couldn't use this conversation's settings. Open Settings and check them, or reset them.";
+    default:
+      return GLITCH;
   }
-  return Math.random().toString(36).slice(2, 10);
 }
 
-export default function Chat() {
-  const [messages, setMessages] = useState<ConversationMessage[]>(() => [
-    {
-      id: createId(),
-      role: "assistant",
-      content:
-        "Hi, I am Radius. I can break down your goals, crunch quick numbers, and suggest concrete next steps. What should we work on?",
-      suggestions: [
-        "Plan my afternoon to finish two tasks",
-        "Draft a friendly follow-up email",
-        "Help me estimate a monthly budget"
-      ]
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+async function readAgentStream(
+  response: Response,
+  onUpdate: (reply: DisplayMessage) => void,
+  onState: (state: AgentState) => void
+): Promise<DisplayMessage> {
+  if (!response.body) {
+    throw new Error("The agent response could not be streamed.");
+  }
+
+  let reply: DisplayMessage = { role: "assistant", content: "", steps: [], suggestions: [] };
+  const apply = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as StreamEvent;
+    switch (event.type) {
+      case "step":
+        reply = { ...reply, steps: [...(reply.steps ?? []), event.step] };
+        break;
+      case "content":
+        reply = { ...reply, content: event.content };
+        break;
+      case "suggestions":
+        reply = { ...reply, suggestions: event.suggestions };
+        break;
+      case "data":
+        reply = { ...reply, data: event.data };
+        break;
+      case "state":
+        onState(event.state);
+        return;
+      case "error":
+        throw new Error(event.error);
+      default:
+        return;
     }
-  ]);
+    onUpdate(reply);
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(apply);
+  }
+  apply(buffer + decoder.decode());
+  return reply;
+}
+
+type ChatProps = {
+  title: string;
+  createdAt?: string;
+  messages: ConversationMessage[];
+  onMessagesChange: MessagesUpdater;
+  state?: AgentState;
+  onStateChange: (state: AgentState) => void;
+  /** Name, tone, verbosity, tools and framework for this conversation. */
+  settings?: AssistantSettings;
+  onSettingsChange: (settings: AssistantSettings) => void;
+  /** Opens an imported transcript as a new conversation. */
+  onImport: (transcript: Transcript) => void;
+};
+
+export default function Chat({
+  title,
+  createdAt,
+  messages,
+  onMessagesChange: setMessages,
+  state,
+  onStateChange,
+  settings = {},
+  onSettingsChange,
+  onImport
+}: ChatProps) {
   const [input, setInput] = useState("");
   const [pending, setPending] = useState(false);
+  const [draft, setDraft] = useState<DisplayMessage | null>(null);
+  const [notice, setNotice] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
   const listRef = useRef<HTMLDivElement | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     const container = listRef.current;
@@ -58,39 +160,47 @@ export default function Chat() {
       top: container.scrollHeight,
       behavior: "smooth"
     });
-  }, [messages]);
+  }, [messages, draft]);
+
+  const assistantName = settings.name?.trim() || DEFAULT_NAME;
 
   const roundedMessages = useMemo<CoreMessage[]>(() => {
     return messages.map(({ role, content }) => ({ role, content }));
   }, [messages]);
 
-  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    if (!input.trim() || pending) return;
+  async function sendMessage(text: string) {
+    if (!text.trim() || pending) return;
 
     const userMessage: ConversationMessage = {
       id: createId(),
       role: "user",
-      content: input.trim()
+      content: text.trim()
     };
-    setInput("");
     setMessages((prev) => [...prev, userMessage]);
     setPending(true);
 
     try {
-      const response = await fetch("/api/chat", {
+      const response = await apiFetch("/api/v1/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          messages: [...roundedMessages, { role: "user", content: userMessage.content }]
+          messages: [...roundedMessages, { role: "user", content: userMessage.content }],
+          state,
+          settings,
+          stream: true
         })
       });
 
       if (!response.ok) {
-        throw new Error("Failed to reach the agent.");
+        const notice = await describeFailure(response);
+        setMessages((prev) => [
+          ...prev,
+          { id: createId(), role: "assistant", content: notice }
+        ]);
+        return;
       }
 
-      const payload: AgentReply = await response.json();
+      const payload = await readAgentStream(response, setDraft, onStateChange);
       setMessages((prev) => [
         ...prev,
         {
@@ -104,16 +214,76 @@ export default function Chat() {
         {
           id: createId(),
           role: "assistant",
-          content:
-            "I ran into a glitch while thinking. Try again in a moment or rephrase your request."
+          content: GLITCH
         }
       ]);
       console.error(error);
     } finally {
+      setDraft(null);
       setPending(false);
     }
   }
 
+  async function exportCalendar(data: AgentData) {
+    try {
+      const response = await apiFetch("/api/calendar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data, settings })
+      });
+      if (!response.ok) {
+        throw new Error("Failed to export the calendar.");
+      }
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+        "radius.ics";
+      downloadBlob(await response.blob(), filename);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  function transcript() {
+    return createTranscript({ title, createdAt, messages, state, settings });
+  }
+
+  async function copyMarkdown() {
+    try {
+      await navigator.clipboard.writeText(transcriptToMarkdown(transcript()));
+      setNotice("Copied as Markdown.");
+    } catch (error) {
+      console.error(error);
+      setNotice("Copying failed. Try downloading the Markdown instead.");
+    }
+  }
+
+  function exportTranscript(format: "md" | "json") {
+    const exported = transcript();
+    const blob =
+      format === "md"
+        ? new Blob([transcriptToMarkdown(exported)], { type: "text/markdown;charset=utf-8" })
+        : new Blob([JSON.stringify(exported, null, 2)], { type: "application/json" });
+    downloadBlob(blob, transcriptFilename(title, format));
+  }
+
+  async function importTranscript(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      onImport(parseTranscript(await file.text()));
+    } catch (error) {
+      setNotice(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!input.trim() || pending) return;
+    setInput("");
+    sendMessage(input);
+  }
+
   function handlePromptSelect(prompt: string) {
     if (pending) return;
     setInput(prompt);
@@ -122,11 +292,55 @@ export default function Chat() {
   return (
     <section className="chat">
       <div className="chat__body">
+        <div className="chat__toolbar" aria-label="Conversation actions">
+          <button type="button" onClick={copyMarkdown}>
+            Copy Markdown
+          </button>
+          <button type="button" onClick={() => exportTranscript("md")}>
+            Export .md
+          </button>
+          <button type="button" onClick={() => exportTranscript("json")}>
+            Export .json
+          </button>
+          <button type="button" onClick={() => fileRef.current?.click()} disabled={pending}>
+            Import…
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSettings((shown) => !shown)}
+            aria-expanded={showSettings}
+            className={clsx({ "chat__toolbar-active": showSettings })}
+          >
+            Settings
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importTranscript}
+            hidden
+          />
+          {notice && (
+            <span className="chat__notice" role="status">
+              {notice}
+            </span>
+          )}
+        </div>
+
+        {showSettings && <SettingsPanel settings={settings} onChange={onSettingsChange} />}
+
         <div className="chat__messages" ref={listRef} role="log" aria-live="polite">
           {messages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
+            <MessageBubble
+              key={message.id}
+              message={message}
+              onSuggestionSelect={pending ? undefined : sendMessage}
+              onCalendarExport={exportCalendar}
+              assistantName={assistantName}
+            />
           ))}
-          {pending && (
+          {draft && <MessageBubble message={draft} assistantName={assistantName} />}
+          {pending && !draft?.content && (
             <div className="chat__thinking">
               <span className="dot" />
               <span className="dot" />
@@ -140,7 +354,7 @@ export default function Chat() {
             value={input}
             onChange={(event) => setInput(event.target.value)}
             placeholder="Ask for a plan, a calculation, or a creative brainstorm..."
-            aria-label="Message Radius"
+            aria-label={`Message ${assistantName}`}
             rows={3}
             disabled={pending}
           />
@@ -153,7 +367,7 @@ export default function Chat() {
               {pending ? "Thinking..." : "Send"}
             </button>
             <span className="chat__hint">
-              Radius picks tools automatically — try combining tasks in one request.
+              {assistantName} picks tools automatically — try combining tasks in one request.
             </span>
           </div>
         </form>
@@ -187,6 +401,43 @@ export default function Chat() {
           box-shadow: 0 35px 70px rgba(9, 12, 26, 0.45);
         }
 
+        .chat__toolbar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .chat__toolbar button {
+          background: none;
+          border: 1px solid rgba(255, 255, 255, 0.12);
+          color: var(--text-secondary);
+          border-radius: 10px;
+          padding: 0.35rem 0.8rem;
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .chat__toolbar button:hover:not(:disabled) {
+          border-color: rgba(79, 70, 229, 0.6);
+          color: var(--text-primary);
+        }
+
+        .chat__toolbar button.chat__toolbar-active {
+          border-color: rgba(79, 70, 229, 0.6);
+          color: var(--text-primary);
+        }
+
+        .chat__toolbar button:disabled {
+          cursor: not-allowed;
+          opacity: 0.6;
+        }
+
+        .chat__notice {
+          color: var(--text-muted);
+          font-size: 0.8rem;
+        }
+
         .chat__messages {
           max-height: min(420px, 50vh);
           overflow-y: auto;
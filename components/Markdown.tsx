@@ -0,0 +1,380 @@
+import { ReactNode } from "react";
+
+type Align = "left" | "center" | "right" | undefined;
+
+type ListItem = {
+  text: string;
+  children: ListLine[];
+};
+
+type ListLine = {
+  indent: number;
+  ordered: boolean;
+  number: number;
+  text: string;
+};
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const SAFE_URL = /^(?:https?:\/\/|mailto:|\/(?!\/)|#)/i;
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|(^|[^\w*])\*([^*\s][^*]*?)\*(?![\w*])|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/;
+
+/**
+ * Renders inline Markdown (code, emphasis, strikethrough and links) to React
+ * elements. Text is never interpreted as HTML, and links are limited to
+ * http(s), mailto and same-site targets.
+ */
+export function renderInline(text: string, keyPrefix = "i"): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+
+    const key = `${keyPrefix}-${index}`;
+    const [whole, code, strong, strongAlt, strike, emPrefix, em, linkText, href, bareUrl] = match;
+    if (code !== undefined) {
+      nodes.push(<code key={key}>{code}</code>);
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(strong ?? strongAlt, key)}</strong>);
+    } else if (strike !== undefined) {
+      nodes.push(<del key={key}>{renderInline(strike, key)}</del>);
+    } else if (em !== undefined) {
+      // Single asterisks only emphasise outside words, so `2*3*4` stays maths.
+      if (emPrefix) nodes.push(emPrefix);
+      nodes.push(<em key={key}>{renderInline(em, key)}</em>);
+    } else if (linkText !== undefined) {
+      nodes.push(
+        SAFE_URL.test(href) ? (
+          <a key={key} href={href} target="_blank" rel="noopener noreferrer">
+            {renderInline(linkText, key)}
+          </a>
+        ) : (
+          <span key={key}>{renderInline(linkText, key)}</span>
+        )
+      );
+    } else if (bareUrl !== undefined) {
+      nodes.push(
+        <a key={key} href={bareUrl} target="_blank" rel="noopener noreferrer">
+          {bareUrl}
+        </a>
+      );
+    }
+
+    rest = rest.slice(match.index + whole.length);
+    index += 1;
+  }
+
+  return nodes;
+}
+
+const ESCAPED_PIPE = "\u0000";
+
+function splitRow(line: string): string[] {
+  const trimmed = line.replace(/\\\|/g, ESCAPED_PIPE).trim().replace(/^\|/, "").replace(/\|$/, "");
+  return trimmed.split("|").map((cell) => cell.trim().split(ESCAPED_PIPE).join("|"));
+}
+
+function parseAlignment(divider: string): Align[] {
+  return splitRow(divider).map((cell) => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return "center";
+    if (right) return "right";
+    if (left) return "left";
+    return undefined;
+  });
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].includes("|") &&
+    index + 1 < lines.length &&
+    TABLE_DIVIDER.test(lines[index + 1]) &&
+    lines[index + 1].includes("-")
+  );
+}
+
+function toListLine(line: string): ListLine | null {
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+  return {
+    indent: match[1].replace(/\t/g, "  ").length,
+    ordered: match[3] !== undefined,
+    number: match[3] ? Number(match[3]) : 1,
+    text: match[4]
+  };
+}
+
+function buildList(lines: ListLine[], key: string): ReactNode {
+  const [first] = lines;
+  const items: ListItem[] = [];
+  for (const line of lines) {
+    if (line.indent > first.indent && items.length) {
+      items[items.length - 1].children.push(line);
+    } else {
+      items.push({ text: line.text, children: [] });
+    }
+  }
+
+  const children = items.map((item, index) => (
+    <li key={index}>
+      {renderInline(item.text, `${key}-${index}`)}
+      {item.children.length > 0 && buildList(item.children, `${key}-${index}`)}
+    </li>
+  ));
+
+  return first.ordered ? (
+    <ol key={key} start={first.number === 1 ? undefined : first.number}>
+      {children}
+    </ol>
+  ) : (
+    <ul key={key}>{children}</ul>
+  );
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function renderBlocks(content: string): ReactNode[] {
+  const lines = content.replace(/\r\n?/g, "\n").trim().split("\n");
+  const blocks: ReactNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const key = `b-${blocks.length}`;
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push(
+        <pre key={key}>
+          <code data-language={fence[1] || undefined}>{code.join("\n")}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = Math.min(heading[1].length + 2, 6);
+      const Tag = `h${level}` as "h3" | "h4" | "h5" | "h6";
+      blocks.push(<Tag key={key}>{renderInline(heading[2], key)}</Tag>);
+      index += 1;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitRow(line);
+      const align = parseAlignment(lines[index + 1]);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes("|") && lines[index].trim()) {
+        rows.push(splitRow(lines[index]));
+        index += 1;
+      }
+      blocks.push(
+        <div className="table" key={key}>
+          <table>
+            <thead>
+              <tr>
+                {header.map((cell, column) => (
+                  <th key={column} style={{ textAlign: align[column] }}>
+                    {renderInline(cell, `${key}-h${column}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {header.map((_, column) => (
+                    <td key={column} style={{ textAlign: align[column] }}>
+                      {renderInline(row[column] ?? "", `${key}-${rowIndex}-${column}`)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE, "$1"));
+        index += 1;
+      }
+      blocks.push(<blockquote key={key}>{renderBlocks(quoted.join("\n"))}</blockquote>);
+      continue;
+    }
+
+    const listLine = toListLine(line);
+    if (listLine) {
+      const items: ListLine[] = [listLine];
+      index += 1;
+      while (index < lines.length) {
+        const next = toListLine(lines[index]);
+        if (next && (next.indent > listLine.indent || next.ordered === listLine.ordered)) {
+          items.push(next);
+        } else if (lines[index].trim() && /^\s{2,}/.test(lines[index]) && !next) {
+          items[items.length - 1].text += ` ${lines[index].trim()}`;
+        } else {
+          break;
+        }
+        index += 1;
+      }
+      blocks.push(buildList(items, key));
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    index += 1;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines, index)) {
+      paragraph.push(lines[index].trim());
+      index += 1;
+    }
+    blocks.push(<p key={key}>{renderInline(paragraph.join(" "), key)}</p>);
+  }
+
+  return blocks;
+}
+
+export default function Markdown({ content }: { content: string }) {
+  return (
+    <div className="markdown">
+      {renderBlocks(content)}
+
+      <style jsx>{`
+        .markdown {
+          display: grid;
+          gap: 0.45rem;
+          min-width: 0;
+        }
+
+        .markdown :global(p),
+        .markdown :global(h3),
+        .markdown :global(h4),
+        .markdown :global(h5),
+        .markdown :global(h6),
+        .markdown :global(blockquote) {
+          margin: 0;
+        }
+
+        .markdown :global(h3),
+        .markdown :global(h4),
+        .markdown :global(h5),
+        .markdown :global(h6) {
+          color: var(--text-primary);
+          font-size: 1rem;
+        }
+
+        .markdown :global(ul),
+        .markdown :global(ol) {
+          margin: 0;
+          padding-left: 1.25rem;
+          display: grid;
+          gap: 0.25rem;
+        }
+
+        .markdown :global(li::marker) {
+          color: var(--accent);
+        }
+
+        .markdown :global(strong) {
+          color: var(--text-primary);
+        }
+
+        .markdown :global(a) {
+          color: rgba(170, 177, 255, 0.95);
+          text-decoration: underline;
+        }
+
+        .markdown :global(code) {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 0.88em;
+          background: rgba(15, 18, 31, 0.85);
+          border-radius: 6px;
+          padding: 0.1rem 0.35rem;
+        }
+
+        .markdown :global(pre) {
+          margin: 0;
+          padding: 0.75rem 0.9rem;
+          border-radius: 12px;
+          background: rgba(15, 18, 31, 0.85);
+          border: 1px solid rgba(255, 255, 255, 0.05);
+          overflow-x: auto;
+        }
+
+        .markdown :global(pre code) {
+          padding: 0;
+          background: none;
+        }
+
+        .markdown :global(blockquote) {
+          border-left: 3px solid rgba(79, 70, 229, 0.5);
+          padding-left: 0.8rem;
+          color: var(--text-muted);
+        }
+
+        .markdown :global(.table) {
+          overflow-x: auto;
+        }
+
+        .markdown :global(table) {
+          border-collapse: collapse;
+          font-size: 0.9rem;
+          min-width: 100%;
+        }
+
+        .markdown :global(th),
+        .markdown :global(td) {
+          padding: 0.4rem 0.65rem;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+          text-align: left;
+          white-space: nowrap;
+        }
+
+        .markdown :global(th) {
+          color: var(--text-primary);
+          font-weight: 600;
+        }
+      `}</style>
+    </div>
+  );
+}
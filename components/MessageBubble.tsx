@@ -1,41 +1,26 @@
 import clsx from "clsx";
-import { ReactNode } from "react";
-
-type AgentStep = {
-  title: string;
-  content: string;
-};
-
-type Message = {
-  role: "user" | "assistant";
-  content: string;
-  steps?: AgentStep[];
-  suggestions?: string[];
+import type { AgentData, DisplayMessage } from "@/lib/api/types";
+import { DEFAULT_NAME } from "@/lib/settings";
+import Markdown from "./Markdown";
+
+type MessageBubbleProps = {
+  message: DisplayMessage;
+  /** Sends a suggestion as the next message. Chips are inert without it. */
+  onSuggestionSelect?: (suggestion: string) => void;
+  /** Downloads the reply's plan or tasks as a calendar file. */
+  onCalendarExport?: (data: AgentData) => void;
+  /** Shown above replies; the conversation settings can rename the assistant. */
+  assistantName?: string;
 };
 
-function formatContent(content: string): ReactNode {
-  const paragraphs = content.trim().split(/\n{2,}/);
-  return paragraphs.map((paragraph, index) => {
-    const isList = paragraph.trim().startsWith("- ") || paragraph.includes("\n- ");
-    if (isList) {
-      const items = paragraph
-        .split("\n")
-        .map((line) => line.replace(/^-+\s*/, "").trim())
-        .filter(Boolean);
-      return (
-        <ul key={`list-${index}`}>
-          {items.map((item, idx) => (
-            <li key={idx}>{item}</li>
-          ))}
-        </ul>
-      );
-    }
-    return <p key={`para-${index}`}>{paragraph}</p>;
-  });
-}
-
-export default function MessageBubble({ message }: { message: Message }) {
+export default function MessageBubble({
+  message,
+  onSuggestionSelect,
+  onCalendarExport,
+  assistantName = DEFAULT_NAME
+}: MessageBubbleProps) {
   const isUser = message.role === "user";
+  const exportable = Boolean(message.data?.plan || message.data?.tasks?.length);
 
   return (
     <article
@@ -45,27 +30,47 @@ export default function MessageBubble({ message }: { message: Message }) {
       })}
     >
       <div className="bubble__role" aria-hidden>
-        {isUser ? "You" : "Radius"}
+        {isUser ? "You" : assistantName}
       </div>
-      <div className="bubble__content">{formatContent(message.content)}</div>
+      {message.content && (
+        <div className="bubble__content">
+          <Markdown content={message.content} />
+        </div>
+      )}
 
       {!isUser && message.steps && message.steps.length > 0 && (
         <div className="bubble__steps" aria-label="Agent reasoning">
-          {message.steps.map((step) => (
-            <div className="step" key={step.title}>
+          {message.steps.map((step, index) => (
+            <div className="step" key={`${step.title}-${index}`}>
               <span className="step__title">{step.title}</span>
-              <p className="step__body">{step.content}</p>
+              <div className="step__body">
+                <Markdown content={step.content} />
+              </div>
             </div>
           ))}
         </div>
       )}
 
+      {!isUser && exportable && onCalendarExport && message.data && (
+        <div className="bubble__actions">
+          <button type="button" onClick={() => onCalendarExport(message.data!)}>
+            Download .ics
+          </button>
+        </div>
+      )}
+
       {!isUser && message.suggestions && message.suggestions.length > 0 && (
         <div className="bubble__suggestions" aria-label="Follow-up ideas">
           {message.suggestions.map((item) => (
-            <span className="chip" key={item}>
+            <button
+              type="button"
+              className="chip"
+              key={item}
+              onClick={() => onSuggestionSelect?.(item)}
+              disabled={!onSuggestionSelect}
+            >
               {item}
-            </span>
+            </button>
           ))}
         </div>
       )}
@@ -100,25 +105,9 @@ export default function MessageBubble({ message }: { message: Message }) {
         }
 
         .bubble__content {
-          display: grid;
-          gap: 0.45rem;
           color: var(--text-secondary);
           line-height: 1.55;
-        }
-
-        .bubble__content p {
-          margin: 0;
-        }
-
-        ul {
-          margin: 0;
-          padding-left: 1.1rem;
-          display: grid;
-          gap: 0.25rem;
-        }
-
-        li::marker {
-          color: var(--accent);
+          min-width: 0;
         }
 
         .bubble__steps {
@@ -146,11 +135,25 @@ export default function MessageBubble({ message }: { message: Message }) {
         }
 
         .step__body {
-          margin: 0;
           font-size: 0.95rem;
           color: var(--text-secondary);
         }
 
+        .bubble__actions button {
+          background: none;
+          border: 1px solid rgba(255, 255, 255, 0.12);
+          color: var(--text-secondary);
+          border-radius: 10px;
+          padding: 0.35rem 0.8rem;
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .bubble__actions button:hover {
+          border-color: rgba(79, 70, 229, 0.6);
+          color: var(--text-primary);
+        }
+
         .bubble__suggestions {
           display: flex;
           flex-wrap: wrap;
@@ -166,6 +169,17 @@ export default function MessageBubble({ message }: { message: Message }) {
           padding: 0.3rem 0.75rem;
           font-size: 0.75rem;
           letter-spacing: 0.01em;
+          cursor: pointer;
+          transition: border-color 0.2s ease, background 0.2s ease;
+        }
+
+        .chip:hover:not(:disabled) {
+          border-color: rgba(79, 70, 229, 0.6);
+          background: rgba(79, 70, 229, 0.2);
+        }
+
+        .chip:disabled {
+          cursor: default;
         }
       `}</style>
     </article>
@@ -0,0 +1,215 @@
+import type { AssistantSettings } from "@/lib/api/types";
+import { t, toolLabel } from "@/lib/locale";
+import {
+  DEFAULT_NAME,
+  FRAMEWORK_IDS,
+  MAX_NAME_LENGTH,
+  OPTIONAL_TOOLS,
+  TONES,
+  VERBOSITIES,
+  type Tone,
+  type Verbosity
+} from "@/lib/settings";
+
+const TONE_LABELS: Record<Tone, string> = {
+  neutral: "Neutral",
+  friendly: "Friendly",
+  formal: "Formal"
+};
+
+const VERBOSITY_LABELS: Record<Verbosity, string> = {
+  brief: "Brief",
+  normal: "Normal",
+  detailed: "Detailed"
+};
+
+type SettingsPanelProps = {
+  settings: AssistantSettings;
+  onChange: (settings: AssistantSettings) => void;
+};
+
+/** Drops values that match the defaults so only real choices are sent. */
+function compact(settings: AssistantSettings): AssistantSettings {
+  const { name, tone, verbosity, tools, framework } = settings;
+  return {
+    ...(name?.trim() && { name }),
+    ...(tone && tone !== "neutral" && { tone }),
+    ...(verbosity && verbosity !== "normal" && { verbosity }),
+    ...(tools && tools.length < OPTIONAL_TOOLS.length && { tools }),
+    ...(framework && framework !== "weighted" && { framework })
+  };
+}
+
+/**
+ * Per-conversation settings: the assistant's name, tone and reply length,
+ * the tools it may use and the ranking framework used by default.
+ */
+export default function SettingsPanel({ settings, onChange }: SettingsPanelProps) {
+  const enabled = settings.tools ?? OPTIONAL_TOOLS;
+
+  function update(changes: AssistantSettings) {
+    onChange(compact({ ...settings, ...changes }));
+  }
+
+  function toggleTool(id: string, on: boolean) {
+    update({
+      tools: OPTIONAL_TOOLS.filter((tool) => (tool === id ? on : enabled.includes(tool)))
+    });
+  }
+
+  return (
+    <fieldset className="settings">
+      <legend>Conversation settings</legend>
+      <label>
+        Name
+        <input
+          type="text"
+          value={settings.name ?? ""}
+          onChange={(event) => update({ name: event.target.value })}
+          placeholder={DEFAULT_NAME}
+          maxLength={MAX_NAME_LENGTH}
+        />
+      </label>
+      <label>
+        Tone
+        <select
+          value={settings.tone ?? "neutral"}
+          onChange={(event) => update({ tone: event.target.value as Tone })}
+        >
+          {TONES.map((tone) => (
+            <option key={tone} value={tone}>
+              {TONE_LABELS[tone]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Replies
+        <select
+          value={settings.verbosity ?? "normal"}
+          onChange={(event) => update({ verbosity: event.target.value as Verbosity })}
+        >
+          {VERBOSITIES.map((verbosity) => (
+            <option key={verbosity} value={verbosity}>
+              {VERBOSITY_LABELS[verbosity]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Default framework
+        <select
+          value={settings.framework ?? "weighted"}
+          onChange={(event) =>
+            update({ framework: event.target.value as AssistantSettings["framework"] })
+          }
+        >
+          {FRAMEWORK_IDS.map((framework) => (
+            <option key={framework} value={framework}>
+              {t(undefined, `framework.${framework}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="settings__tools" role="group" aria-label="Enabled tools">
+        {OPTIONAL_TOOLS.map((id) => (
+          <label key={id} className="settings__tool">
+            <input
+              type="checkbox"
+              checked={enabled.includes(id)}
+              onChange={(event) => toggleTool(id, event.target.checked)}
+            />
+            {toolLabel(undefined, id) ?? id}
+          </label>
+        ))}
+      </div>
+      <p className="settings__note">
+        Anything left unchecked is answered by the general insight tool instead.
+      </p>
+      <button type="button" onClick={() => onChange({})}>
+        Reset to defaults
+      </button>
+
+      <style jsx>{`
+        .settings {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+          gap: 0.75rem 1rem;
+          margin: 0;
+          padding: 1rem;
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 16px;
+          background: rgba(19, 21, 34, 0.6);
+        }
+
+        legend {
+          padding: 0 0.4rem;
+          color: var(--text-secondary);
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        label {
+          display: grid;
+          gap: 0.35rem;
+          color: var(--text-muted);
+          font-size: 0.8rem;
+        }
+
+        input[type="text"],
+        select {
+          width: 100%;
+          padding: 0.45rem 0.7rem;
+          border-radius: 10px;
+          background: rgba(19, 26, 44, 0.9);
+          border: 1px solid rgba(255, 255, 255, 0.06);
+          color: var(--text-primary);
+        }
+
+        input[type="text"]:focus,
+        select:focus {
+          outline: none;
+          border-color: rgba(79, 70, 229, 0.7);
+        }
+
+        .settings__tools {
+          grid-column: 1 / -1;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem 1rem;
+        }
+
+        .settings__tool {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.4rem;
+          color: var(--text-secondary);
+        }
+
+        .settings__note {
+          grid-column: 1 / -1;
+          margin: 0;
+          color: var(--text-muted);
+          font-size: 0.75rem;
+        }
+
+        button {
+          justify-self: start;
+          background: none;
+          border: 1px solid rgba(255, 255, 255, 0.12);
+          color: var(--text-secondary);
+          border-radius: 10px;
+          padding: 0.35rem 0.8rem;
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        button:hover {
+          border-color: rgba(79, 70, 229, 0.6);
+          color: var(--text-primary);
+        }
+      `}</style>
+    </fieldset>
+  );
+}
@@ -0,0 +1,218 @@
+import { FormEvent, useState } from "react";
+import clsx from "clsx";
+import type { SearchResult } from "./useConversations";
+
+type SidebarProps = {
+  activeId: string;
+  results: SearchResult[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+};
+
+export default function Sidebar({
+  activeId,
+  results,
+  query,
+  onQueryChange,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete
+}: SidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  function startRename(id: string, title: string) {
+    setEditingId(id);
+    setDraftTitle(title);
+  }
+
+  function handleRename(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  }
+
+  function handleDelete(id: string, title: string) {
+    if (window.confirm(`Delete "${title}"? This cannot be undone.`)) {
+      onDelete(id);
+    }
+  }
+
+  return (
+    <aside className="sidebar" aria-label="Conversations">
+      <button type="button" className="sidebar__new" onClick={onNew}>
+        + New chat
+      </button>
+      <input
+        type="search"
+        className="sidebar__search"
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        placeholder="Search conversations"
+        aria-label="Search conversations"
+      />
+
+      <ul className="sidebar__list">
+        {results.length === 0 && <li className="sidebar__empty">No matching conversations.</li>}
+        {results.map(({ conversation, snippet }) => (
+          <li
+            key={conversation.id}
+            className={clsx("sidebar__item", {
+              "sidebar__item--active": conversation.id === activeId
+            })}
+          >
+            {editingId === conversation.id ? (
+              <form onSubmit={handleRename}>
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(event) => setDraftTitle(event.target.value)}
+                  onBlur={() => setEditingId(null)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Escape") setEditingId(null);
+                  }}
+                  aria-label="Conversation title"
+                />
+              </form>
+            ) : (
+              <button
+                type="button"
+                className="sidebar__select"
+                onClick={() => onSelect(conversation.id)}
+              >
+                <span className="sidebar__title">{conversation.title}</span>
+                {snippet && <span className="sidebar__snippet">{snippet}</span>}
+              </button>
+            )}
+            <div className="sidebar__actions">
+              <button
+                type="button"
+                onClick={() => startRename(conversation.id, conversation.title)}
+                aria-label={`Rename ${conversation.title}`}
+              >
+                Rename
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(conversation.id, conversation.title)}
+                aria-label={`Delete ${conversation.title}`}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <style jsx>{`
+        .sidebar {
+          background: var(--surface);
+          border: 1px solid var(--border);
+          border-radius: 24px;
+          padding: 1.1rem;
+          display: grid;
+          gap: 0.75rem;
+          align-content: start;
+          max-height: min(760px, 85vh);
+          overflow-y: auto;
+        }
+
+        .sidebar__new {
+          background: var(--accent);
+          color: white;
+          border: none;
+          border-radius: 999px;
+          padding: 0.55rem 1rem;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        input {
+          width: 100%;
+          padding: 0.55rem 0.8rem;
+          border-radius: 12px;
+          background: rgba(19, 26, 44, 0.9);
+          border: 1px solid rgba(255, 255, 255, 0.06);
+          color: var(--text-primary);
+        }
+
+        input:focus {
+          outline: none;
+          border-color: rgba(79, 70, 229, 0.7);
+        }
+
+        .sidebar__list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: grid;
+          gap: 0.4rem;
+        }
+
+        .sidebar__empty {
+          color: var(--text-muted);
+          font-size: 0.85rem;
+        }
+
+        .sidebar__item {
+          border-radius: 14px;
+          border: 1px solid transparent;
+          padding: 0.5rem 0.6rem;
+          display: grid;
+          gap: 0.3rem;
+        }
+
+        .sidebar__item--active {
+          border-color: rgba(79, 70, 229, 0.35);
+          background: rgba(79, 70, 229, 0.12);
+        }
+
+        .sidebar__select {
+          background: none;
+          border: none;
+          padding: 0;
+          color: var(--text-secondary);
+          text-align: left;
+          cursor: pointer;
+          display: grid;
+          gap: 0.2rem;
+        }
+
+        .sidebar__title {
+          font-weight: 600;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .sidebar__snippet {
+          font-size: 0.8rem;
+          color: var(--text-muted);
+        }
+
+        .sidebar__actions {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .sidebar__actions button {
+          background: none;
+          border: none;
+          padding: 0;
+          color: var(--text-muted);
+          font-size: 0.75rem;
+          cursor: pointer;
+        }
+
+        .sidebar__actions button:hover {
+          color: var(--text-primary);
+        }
+      `}</style>
+    </aside>
+  );
+}
@@ -0,0 +1,30 @@
+let issued: Promise<void> | null = null;
+
+/**
+ * Asks the server for the signed cookie that lets this page use the API
+ * without a key. The request is made once; `renew` asks again, e.g. after a
+ * server restart invalidated the cookie.
+ */
+export function ensureBrowserSession(renew = false): Promise<void> {
+  if (!issued || renew) {
+    issued = fetch("/api/auth/browser", { method: "POST" }).then((response) => {
+      if (!response.ok) throw new Error(`Could not start a browser session (${response.status}).`);
+    });
+    issued.catch(() => {
+      issued = null;
+    });
+  }
+  return issued;
+}
+
+/**
+ * `fetch` for the app's own API: gets the browser cookie first and renews it
+ * once when the server no longer accepts it.
+ */
+export async function apiFetch(url: string, init: RequestInit): Promise<Response> {
+  await ensureBrowserSession().catch((error) => console.error(error));
+  const response = await fetch(url, init);
+  if (response.status !== 401) return response;
+  await ensureBrowserSession(true).catch((error) => console.error(error));
+  return fetch(url, init);
+}
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type {
+  AgentState,
+  AssistantSettings,
+  DisplayMessage,
+  Transcript
+} from "@/lib/api/types";
+import { DEFAULT_NAME } from "@/lib/settings";
+
+export type CoreMessage = Pick<DisplayMessage, "role" | "content">;
+
+export type ConversationMessage = DisplayMessage & { id: string };
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+  /** Tool state for this conversation, such as the task list. */
+  state?: AgentState;
+  /** Persona, tone, verbosity, tools and framework sent with each request. */
+  settings?: AssistantSettings;
+};
+
+export type MessagesUpdater = (
+  update: (previous: ConversationMessage[]) => ConversationMessage[]
+) => void;
+
+const STORAGE_KEY = "radius.conversations.v1";
+const DEFAULT_TITLE = "New chat";
+
+export function createId() {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function createGreeting(name = DEFAULT_NAME): ConversationMessage {
+  return {
+    id: createId(),
+    role: "assistant",
+    content:
+      `Hi, I am ${name}. I can break down your goals, crunch quick numbers, and suggest concrete next steps. What should we work on?`,
+    suggestions: [
+      "Plan my afternoon to finish two tasks",
+      "Draft a friendly follow-up email",
+      "Help me estimate a monthly budget"
+    ]
+  };
+}
+
+function createConversation(): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    title: DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [createGreeting()]
+  };
+}
+
+function hasUserMessages(conversation: Conversation) {
+  return conversation.messages.some((message) => message.role === "user");
+}
+
+/** Until something has been said, the greeting follows the assistant's name. */
+function withSettings(conversation: Conversation, settings: AssistantSettings): Conversation {
+  if (hasUserMessages(conversation)) return { ...conversation, settings };
+  return { ...conversation, settings, messages: [createGreeting(settings.name ?? DEFAULT_NAME)] };
+}
+
+function deriveTitle(conversation: Conversation): string {
+  if (conversation.title !== DEFAULT_TITLE) return conversation.title;
+  const first = conversation.messages.find((message) => message.role === "user");
+  if (!first) return DEFAULT_TITLE;
+  return first.content.replace(/\s+/g, " ").trim().slice(0, 48);
+}
+
+type StoredState = {
+  activeId: string;
+  conversations: Conversation[];
+};
+
+function loadState(): StoredState | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredState;
+    if (!Array.isArray(parsed.conversations) || parsed.conversations.length === 0) {
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+}
+
+function saveState(state: StoredState) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+export type SearchResult = {
+  conversation: Conversation;
+  snippet?: string;
+};
+
+function searchConversations(conversations: Conversation[], query: string): SearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations.map((conversation) => ({ conversation }));
+  return conversations.flatMap((conversation) => {
+    const match = conversation.messages.find((message) =>
+      message.content.toLowerCase().includes(needle)
+    );
+    if (match) {
+      const index = match.content.toLowerCase().indexOf(needle);
+      const start = Math.max(0, index - 24);
+      const snippet = `${start > 0 ? "…" : ""}${match.content
+        .slice(start, index + needle.length + 40)
+        .replace(/\s+/g, " ")}`;
+      return [{ conversation, snippet }];
+    }
+    if (conversation.title.toLowerCase().includes(needle)) return [{ conversation }];
+    return [];
+  });
+}
+
+/**
+ * Conversation list persisted to localStorage. Storage is read after mount so
+ * the server-rendered markup matches the first client render.
+ */
+export function useConversations() {
+  const [state, setState] = useState<StoredState>(() => {
+    const initial = createConversation();
+    return { activeId: initial.id, conversations: [initial] };
+  });
+  const [loaded, setLoaded] = useState(false);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const stored = loadState();
+    if (stored) setState(stored);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveState(state);
+  }, [loaded, state]);
+
+  const conversations = useMemo(
+    () => [...state.conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [state.conversations]
+  );
+
+  const active =
+    state.conversations.find((conversation) => conversation.id === state.activeId) ??
+    state.conversations[0];
+
+  const results = useMemo(() => searchConversations(conversations, query), [
+    conversations,
+    query
+  ]);
+
+  const updateMessages = useCallback(
+    (id: string): MessagesUpdater =>
+      (update) =>
+        setState((previous) => ({
+          ...previous,
+          conversations: previous.conversations.map((conversation) => {
+            if (conversation.id !== id) return conversation;
+            const next = {
+              ...conversation,
+              messages: update(conversation.messages),
+              updatedAt: new Date().toISOString()
+            };
+            return { ...next, title: deriveTitle(next) };
+          })
+        })),
+    []
+  );
+
+  const updateState = useCallback(
+    (id: string) => (agentState: AgentState) =>
+      setState((previous) => ({
+        ...previous,
+        conversations: previous.conversations.map((conversation) =>
+          conversation.id === id ? { ...conversation, state: agentState } : conversation
+        )
+      })),
+    []
+  );
+
+  const updateSettings = useCallback(
+    (id: string) => (settings: AssistantSettings) =>
+      setState((previous) => ({
+        ...previous,
+        conversations: previous.conversations.map((conversation) =>
+          conversation.id === id ? withSettings(conversation, settings) : conversation
+        )
+      })),
+    []
+  );
+
+  const startNew = useCallback(() => {
+    setQuery("");
+    setState((previous) => {
+      const empty = previous.conversations.find((conversation) => !hasUserMessages(conversation));
+      if (empty) return { ...previous, activeId: empty.id };
+      const conversation = createConversation();
+      return {
+        activeId: conversation.id,
+        conversations: [conversation, ...previous.conversations]
+      };
+    });
+  }, []);
+
+  const select = useCallback((id: string) => {
+    setState((previous) => ({ ...previous, activeId: id }));
+  }, []);
+
+  const importTranscript = useCallback((transcript: Transcript) => {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: createId(),
+      title: transcript.title.trim() || DEFAULT_TITLE,
+      createdAt: transcript.createdAt ?? now,
+      updatedAt: now,
+      messages:
+        transcript.messages.length > 0
+          ? transcript.messages.map((message) => ({ ...message, id: createId() }))
+          : [createGreeting(transcript.settings?.name ?? DEFAULT_NAME)],
+      state: transcript.state,
+      settings: transcript.settings
+    };
+    setQuery("");
+    setState((previous) => ({
+      activeId: conversation.id,
+      conversations: [conversation, ...previous.conversations]
+    }));
+  }, []);
+
+  const rename = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setState((previous) => ({
+      ...previous,
+      conversations: previous.conversations.map((conversation) =>
+        conversation.id === id ? { ...conversation, title: trimmed } : conversation
+      )
+    }));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setState((previous) => {
+      const remaining = previous.conversations.filter((conversation) => conversation.id !== id);
+      if (remaining.length === 0) {
+        const conversation = createConversation();
+        return { activeId: conversation.id, conversations: [conversation] };
+      }
+      const activeId =
+        previous.activeId === id
+          ? [...remaining].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0].id
+          : previous.activeId;
+      return { activeId, conversations: remaining };
+    });
+  }, []);
+
+  return {
+    active,
+    results,
+    query,
+    setQuery,
+    updateMessages,
+    updateState,
+    updateSettings,
+    startNew,
+    select,
+    importTranscript,
+    rename,
+    remove
+  };
+}
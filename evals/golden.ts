@@ -0,0 +1,246 @@
+import type { GoldenCase } from "../lib/evaluation";
+
+/**
+ * Golden transcripts for routing and tool output. Add a case whenever a
+ * prompt is misrouted, so the fix stays fixed; keep assertions to text that
+ * does not depend on today's date.
+ */
+export const goldenCases: GoldenCase[] = [
+  // Calculator
+  {
+    name: "arithmetic",
+    prompt: "What is 2 + 2?",
+    expect: { tools: ["math"], contains: ["4"] }
+  },
+  {
+    name: "arithmetic with brackets",
+    prompt: "(12 * 7) - 4",
+    expect: { tools: ["math"], contains: ["80"] }
+  },
+  {
+    name: "unit conversion",
+    prompt: "5 km to miles",
+    expect: { tools: ["math"], contains: ["mi"] }
+  },
+  {
+    name: "variables carry over",
+    history: ["rent = 1200"],
+    prompt: "rent * 12",
+    expect: { tools: ["math"], contains: ["14,400"] }
+  },
+  {
+    name: "counts are not arithmetic",
+    prompt: "I have 2 meetings and 3 calls today",
+    expect: { tools: ["insight"] }
+  },
+
+  // Finance
+  {
+    name: "savings with monthly contributions",
+    prompt:
+      "Solve: If I invest $150 monthly at 5% annual interest, what's the balance after 3 years?",
+    expect: { tools: ["finance"], contains: ["$5,8"] }
+  },
+  {
+    name: "loan payment",
+    prompt: "What's the monthly payment on a $20,000 loan at 6% over 5 years?",
+    expect: { tools: ["finance"], contains: ["$386.66"] }
+  },
+  {
+    name: "time to a savings goal",
+    prompt: "How long to save $10,000 if I put away $300 a month at 4%?",
+    expect: { tools: ["finance"], contains: ["32 months"] }
+  },
+
+  // Planning
+  {
+    name: "deadline plan",
+    prompt: "Plan a product launch by Friday",
+    expect: { tools: ["plan"], contains: ["product launch"], data: ["plan"] }
+  },
+  {
+    name: "roadmap",
+    prompt: "Create a roadmap for migrating our blog to a new CMS",
+    expect: { tools: ["plan"], data: ["plan"] }
+  },
+
+  // Brainstorming
+  {
+    name: "brainstorm ideas",
+    prompt: "Brainstorm ideas for a team offsite",
+    expect: { tools: ["brainstorm"], contains: ["team offsite"] }
+  },
+  {
+    name: "naming request",
+    prompt: "Suggest names for a zero-waste coffee brand",
+    expect: { tools: ["brainstorm"] }
+  },
+  {
+    name: "names as a noun are not brainstorming",
+    prompt: "How do I remember the names of everyone on my new team?",
+    expect: { tools: ["insight"] }
+  },
+  {
+    name: "ideally is not an idea",
+    prompt: "Ideally I would finish early on Fridays. How do I protect focus time?",
+    expect: { tools: ["insight"] }
+  },
+
+  // Summaries
+  {
+    name: "pasted notes",
+    prompt:
+      "Summarize: Alice: we decided to ship the beta on Friday. Bob will update the docs by Thursday. What about the pricing page?",
+    expect: {
+      tools: ["summarize"],
+      contains: ["Decisions", "Bob", "pricing page"],
+      data: ["summary"]
+    }
+  },
+  {
+    name: "conversation recap",
+    history: ["Plan a product launch by Friday"],
+    prompt: "Summarize our conversation so far in bullet points.",
+    expect: { tools: ["summarize"], contains: ["launch"], data: ["summary"] }
+  },
+
+  // Task list
+  {
+    name: "add items",
+    prompt: "add milk and eggs to my list",
+    expect: { tools: ["todo"], contains: ["Milk", "Eggs"] }
+  },
+  {
+    name: "complete an item",
+    history: ["add milk and eggs to my list"],
+    prompt: "mark milk done",
+    expect: { tools: ["todo"], contains: ["1 left"] }
+  },
+  {
+    name: "what is left",
+    history: ["add call the bank to my list"],
+    prompt: "what's left?",
+    expect: { tools: ["todo"], contains: ["Call the bank"] }
+  },
+
+  // Prioritisation
+  {
+    name: "weighted prioritisation",
+    prompt: "Prioritise: write report due Friday 2h; call the bank 15m; plan vacation",
+    expect: { tools: ["prioritize"], contains: ["write report"], data: ["tasks"] }
+  },
+  {
+    name: "RICE framework",
+    prompt:
+      "Rank with RICE: onboarding emails reach 500 impact 2 confidence 80% effort 3; dark mode reach 200 impact 1 confidence 50% effort 5",
+    expect: { tools: ["prioritize"], contains: ["RICE", "onboarding emails"], data: ["tasks"] }
+  },
+
+  // Open questions
+  {
+    name: "advice from the playbooks",
+    prompt: "How can I stay focused while working from home?",
+    expect: { tools: ["insight"] }
+  },
+
+  // Follow-ups
+  {
+    name: "plan follow-up",
+    history: ["Plan a product launch by Friday"],
+    prompt: "Ask for the single most important milestone",
+    expect: { tools: ["follow-up"] }
+  },
+  {
+    name: "brainstorm follow-up",
+    history: ["Brainstorm ideas for a team offsite"],
+    prompt: "Narrow ideas down to one standout concept",
+    expect: { tools: ["follow-up"] }
+  },
+
+  // Compound requests
+  {
+    name: "calculation and task",
+    prompt: "What is 12 * 7? Also add call mom to my list",
+    expect: { tools: ["math", "todo"], contains: ["84", "Call mom"] }
+  },
+  {
+    name: "plan and brainstorm",
+    prompt: "Plan a team offsite for next month and brainstorm ideas for activities",
+    expect: { tools: ["plan", "brainstorm"], data: ["plan"] }
+  },
+
+  // Other languages
+  {
+    name: "German decimal comma",
+    locale: "de",
+    prompt: "3,5 * 2",
+    expect: { tools: ["math"], contains: ["ergibt **7**"] }
+  },
+  {
+    name: "French grouped result",
+    locale: "fr",
+    prompt: "1250,5 * 4",
+    expect: { tools: ["math"], contains: ["5\u202f002"] }
+  },
+  {
+    name: "Spanish plan",
+    locale: "es",
+    prompt: "Planifica el lanzamiento de la tienda para el viernes",
+    expect: {
+      tools: ["plan"],
+      contains: ["Plan para **lanzamiento de la tienda**"],
+      data: ["plan"]
+    }
+  },
+  {
+    name: "German task list",
+    locale: "de",
+    prompt: "Füge Milch kaufen und Zahnarzt anrufen zu meiner Liste hinzu",
+    expect: { tools: ["todo"], contains: ["Milch kaufen", "Zahnarzt anrufen", "2 offen"] }
+  },
+  {
+    name: "French priorities",
+    locale: "fr",
+    prompt: "Priorise : appeler le client aujourd'hui, ranger le bureau",
+    expect: { tools: ["prioritize"], contains: ["1. appeler le client"], data: ["tasks"] }
+  },
+  {
+    name: "Spanish brainstorm",
+    locale: "es",
+    prompt: "Dame ideas creativas para una cafetería",
+    expect: { tools: ["brainstorm"], contains: ["en concreto para"] }
+  },
+  {
+    name: "translated suggestion follow-up",
+    locale: "es",
+    history: ["Planifica el lanzamiento de la tienda para el viernes"],
+    prompt: "Pregunta por el hito más importante",
+    expect: { tools: ["follow-up"] }
+  },
+
+  // Settings and system messages
+  {
+    name: "formal persona from a system message",
+    system: "You are Ada, an operations assistant. Be formal.",
+    prompt: "Add book the venue to my list",
+    expect: { tools: ["todo"], contains: ["Please let me know if you require"] }
+  },
+  {
+    name: "brief replies drop the score table",
+    system: "verbosity: brief",
+    prompt: "Prioritize: write the report urgent, clean the desk",
+    expect: { tools: ["prioritize"], contains: ["1. write the report"], excludes: ["| Task"] }
+  },
+  {
+    name: "default framework from settings",
+    settings: { framework: "eisenhower" },
+    prompt: "Prioritize: write the report urgent, clean the desk",
+    expect: { tools: ["prioritize"], contains: ["Eisenhower matrix"] }
+  },
+  {
+    name: "disabled tool falls back to insight",
+    settings: { tools: ["plan", "math"] },
+    prompt: "Brainstorm ideas for a team offsite",
+    expect: { tools: ["insight"] }
+  }
+];
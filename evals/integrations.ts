@@ -0,0 +1,185 @@
+import { createHmac } from "node:crypto";
+import { NextRequest } from "next/server";
+import { POST as slackCommand } from "../app/api/integrations/slack/route";
+import { deliverLater } from "../lib/integrations";
+import { runChecks, startStub, type Stub } from "./stub";
+
+const SECRET = "stub-signing-secret";
+// Slow enough that the command is acknowledged first and answered later.
+const MODEL_DELAY_MS = 3500;
+
+function sign(body: string, timestamp: number, secret = SECRET): string {
+  return `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+}
+
+function command(text: string, responseUrl?: string): string {
+  return new URLSearchParams({
+    command: "/radius",
+    text,
+    team_id: "T1",
+    user_id: `U${Math.random().toString(36).slice(2, 8)}`,
+    ...(responseUrl && { response_url: responseUrl })
+  }).toString();
+}
+
+function post(body: string, headers: Record<string, string>): Promise<Response> {
+  return slackCommand(
+    new NextRequest("http://localhost/api/integrations/slack", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+      body
+    })
+  );
+}
+
+function signed(body: string, timestamp = Math.floor(Date.now() / 1000)): Promise<Response> {
+  return post(body, {
+    "X-Slack-Request-Timestamp": String(timestamp),
+    "X-Slack-Signature": sign(body, timestamp)
+  });
+}
+
+/** Waits until the stub has received `count` requests on `path`. */
+async function received(stub: Stub, path: string, count: number, ms: number) {
+  const deadline = Date.now() + ms;
+  for (;;) {
+    const hits = stub.requests.filter((request) => request.url === path);
+    if (hits.length >= count || Date.now() > deadline) return hits;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function expect(failures: string[], condition: boolean, message: string) {
+  if (!condition) failures.push(message);
+}
+
+/**
+ * Checks the Slack command route and delayed delivery against a local stub
+ * that plays both Slack's `response_url` and a slow `/chat/completions`
+ * model: `npm run eval:integrations`.
+ */
+async function main() {
+  const stub = await startStub(async (request, response) => {
+    if (request.url === "/chat/completions") {
+      await new Promise((resolve) => setTimeout(resolve, MODEL_DELAY_MS));
+      response
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ choices: [{ message: { content: "A slow, considered answer." } }] }));
+      return;
+    }
+    response.writeHead(request.url === "/broken" ? 500 : 200).end();
+  });
+  const host = new URL(stub.url).hostname;
+  process.env.RADIUS_SLACK_SIGNING_SECRET = SECRET;
+  process.env.RADIUS_SLACK_ALLOWED_HOSTS = host;
+  process.env.RADIUS_DELIVERY_ALLOW_PRIVATE = "true";
+  process.env.RADIUS_LLM_BASE_URL = stub.url;
+  process.env.RADIUS_LLM_MODEL = "stub";
+  process.env.RADIUS_RATE_LIMIT = "0";
+
+  try {
+    await runChecks([
+      {
+        name: "answers a correctly signed command inline",
+        run: async () => {
+          const failures: string[] = [];
+          const response = await signed(command("what's 1200 * 12?"));
+          const body = (await response.json()) as { text?: string };
+          expect(failures, response.status === 200, `status was ${response.status}`);
+          expect(failures, body.text?.includes("14,400") ?? false, `reply was "${body.text}"`);
+          return failures;
+        }
+      },
+      {
+        name: "refuses a stale timestamp",
+        run: async () => {
+          const failures: string[] = [];
+          const response = await signed(command("hi"), Math.floor(Date.now() / 1000) - 10 * 60);
+          const body = (await response.json()) as { error?: string };
+          expect(failures, response.status === 401, `status was ${response.status}`);
+          expect(failures, /too old/.test(body.error ?? ""), `error was "${body.error}"`);
+          return failures;
+        }
+      },
+      {
+        name: "refuses a bad or missing signature",
+        run: async () => {
+          const failures: string[] = [];
+          const body = command("hi");
+          const timestamp = Math.floor(Date.now() / 1000);
+          const forged = await post(body, {
+            "X-Slack-Request-Timestamp": String(timestamp),
+            "X-Slack-Signature": sign(body, timestamp, "wrong-secret")
+          });
+          const unsigned = await post(body, {});
+          expect(failures, forged.status === 401, `forged status was ${forged.status}`);
+          expect(failures, unsigned.status === 401, `unsigned status was ${unsigned.status}`);
+          return failures;
+        }
+      },
+      {
+        name: "acknowledges a slow command and posts the reply to response_url",
+        run: async () => {
+          const failures: string[] = [];
+          const response = await signed(command("Tips for deep work", `${stub.url}/hook`));
+          const ack = (await response.json()) as { text?: string };
+          expect(failures, /Working on it/.test(ack.text ?? ""), `ack was "${ack.text}"`);
+          const [delivery] = await received(stub, "/hook", 1, MODEL_DELAY_MS * 2);
+          expect(failures, Boolean(delivery), "nothing was posted to response_url");
+          if (delivery) {
+            const message = JSON.parse(delivery.body) as { text?: string };
+            expect(
+              failures,
+              message.text?.includes("considered answer") ?? false,
+              `delivered "${message.text}"`
+            );
+          }
+          return failures;
+        }
+      },
+      {
+        name: "answers inline when response_url is not on an allowed host",
+        run: async () => {
+          const failures: string[] = [];
+          const before = stub.requests.length;
+          const response = await signed(command("what's 2 + 2?", `http://example.invalid/hook`));
+          const body = (await response.json()) as { text?: string };
+          expect(failures, body.text?.includes("4") ?? false, `reply was "${body.text}"`);
+          expect(failures, stub.requests.length === before, "something was delivered");
+          return failures;
+        }
+      },
+      {
+        name: "posts the failure notice when the reply cannot be produced",
+        run: async () => {
+          const failures: string[] = [];
+          deliverLater(`${stub.url}/failed`, Promise.reject(new Error("boom")), {
+            text: "Sorry"
+          });
+          const [delivery] = await received(stub, "/failed", 1, 2000);
+          expect(failures, delivery?.body === JSON.stringify({ text: "Sorry" }), "no notice");
+          return failures;
+        }
+      },
+      {
+        name: "refuses to deliver to internal addresses unless allowed",
+        run: async () => {
+          const failures: string[] = [];
+          delete process.env.RADIUS_DELIVERY_ALLOW_PRIVATE;
+          deliverLater(`${stub.url}/internal`, Promise.resolve({ text: "hi" }), {});
+          const hits = await received(stub, "/internal", 1, 500);
+          process.env.RADIUS_DELIVERY_ALLOW_PRIVATE = "true";
+          expect(failures, hits.length === 0, "delivered to a loopback address");
+          return failures;
+        }
+      }
+    ]);
+  } finally {
+    await stub.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
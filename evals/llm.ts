@@ -0,0 +1,101 @@
+import { runAgent, type AgentReply } from "../lib/agent";
+import { createLlmClient } from "../lib/llm";
+import { runChecks, startStub, type Stub } from "./stub";
+
+const DRAFT = "Block two focus hours each morning and close chat while they run.";
+const TIMEOUT_MS = 200;
+const PROMPT = "How should I handle procrastination?";
+
+type Mode = "reply" | "slow" | "error";
+let mode: Mode = "reply";
+
+function ask(stub: Stub, next: Mode): Promise<AgentReply> {
+  mode = next;
+  const llm = createLlmClient({ baseUrl: stub.url, model: "stub", timeoutMs: TIMEOUT_MS });
+  return runAgent([{ role: "user", content: PROMPT }], { llm });
+}
+
+function stepTitles(reply: AgentReply): string[] {
+  return reply.steps.map((step) => step.title);
+}
+
+function expect(failures: string[], condition: boolean, message: string) {
+  if (!condition) failures.push(message);
+}
+
+/**
+ * Runs the insight tool against a stub `/chat/completions` server:
+ * `npm run eval:llm`. Covers a drafted reply, a timeout and an error, each
+ * of which must keep the knowledge passages the reply draws on.
+ */
+async function main() {
+  const stub = await startStub(async (request, response) => {
+    if (mode === "slow") await new Promise((resolve) => setTimeout(resolve, TIMEOUT_MS * 5));
+    if (mode === "error" || request.url !== "/chat/completions") {
+      response.writeHead(500).end();
+      return;
+    }
+    response
+      .writeHead(200, { "Content-Type": "application/json" })
+      .end(JSON.stringify({ choices: [{ message: { role: "assistant", content: DRAFT } }] }));
+  });
+
+  try {
+    await runChecks([
+      {
+        name: "drafts the reply with the model and keeps the knowledge step",
+        run: async () => {
+          const failures: string[] = [];
+          const reply = await ask(stub, "reply");
+          const sent = JSON.parse(stub.requests[stub.requests.length - 1]?.body ?? "{}") as {
+            messages?: Array<{ role: string; content: string }>;
+          };
+          expect(failures, reply.content.includes(DRAFT), `reply was "${reply.content}"`);
+          expect(
+            failures,
+            reply.steps.some((step) => step.content.startsWith("Drafted the reply")),
+            "no Model step naming the drafting model"
+          );
+          expect(failures, stepTitles(reply).includes("Knowledge"), "no Knowledge step");
+          expect(
+            failures,
+            sent.messages?.[0]?.content.includes("Reference material") ?? false,
+            "the prompt did not carry the reference passages"
+          );
+          return failures;
+        }
+      },
+      {
+        name: "falls back to the passages when the model times out",
+        run: async () => {
+          const failures: string[] = [];
+          const reply = await ask(stub, "slow");
+          const model = reply.steps.find((step) => step.title === "Model");
+          expect(failures, !reply.content.includes(DRAFT), "the late draft was used");
+          expect(failures, model?.content.includes("timed out") ?? false, "no timeout note");
+          expect(failures, stepTitles(reply).includes("Knowledge"), "no Knowledge step");
+          return failures;
+        }
+      },
+      {
+        name: "falls back to the passages when the model errors",
+        run: async () => {
+          const failures: string[] = [];
+          const reply = await ask(stub, "error");
+          const model = reply.steps.find((step) => step.title === "Model");
+          expect(failures, !reply.content.includes(DRAFT), "the failed draft was used");
+          expect(failures, model?.content.includes("status 500") ?? false, "no error note");
+          expect(failures, stepTitles(reply).includes("Knowledge"), "no Knowledge step");
+          return failures;
+        }
+      }
+    ]);
+  } finally {
+    await stub.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,18 @@
+import { evaluateCases, formatReport } from "../lib/evaluation";
+import { goldenCases } from "./golden";
+
+/**
+ * Runs the golden transcripts: `npm run eval`, or `npm run eval -- --json`
+ * for the raw report. Exits with 1 when any case fails.
+ */
+async function main() {
+  const report = await evaluateCases(goldenCases);
+  const json = process.argv.includes("--json");
+  console.log(json ? JSON.stringify(report, null, 2) : formatReport(report));
+  process.exitCode = report.passed === report.total ? 0 : 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,61 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type StubRequest = { method: string; url: string; body: string };
+
+export type Stub = {
+  /** `http://127.0.0.1:<port>`, without a trailing slash. */
+  url: string;
+  /** Every request received so far, oldest first. */
+  requests: StubRequest[];
+  close: () => Promise<void>;
+};
+
+export type Check = {
+  name: string;
+  /** Returns the failed expectations; empty when the check passed. */
+  run: () => Promise<string[]>;
+};
+
+/** Starts a local HTTP server that records each request and answers with `handle`. */
+export async function startStub(
+  handle: (request: StubRequest, response: ServerResponse) => void | Promise<void>
+): Promise<Stub> {
+  const requests: StubRequest[] = [];
+  const server = createServer(async (incoming: IncomingMessage, response) => {
+    let body = "";
+    for await (const chunk of incoming) body += chunk;
+    const request = { method: incoming.method ?? "GET", url: incoming.url ?? "/", body };
+    requests.push(request);
+    await handle(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      })
+  };
+}
+
+/** Runs the checks in order, prints one line per check and sets the exit code. */
+export async function runChecks(checks: Check[]): Promise<void> {
+  let passed = 0;
+  for (const check of checks) {
+    let failures: string[];
+    try {
+      failures = await check.run();
+    } catch (error) {
+      failures = [error instanceof Error ? error.message : String(error)];
+    }
+    if (failures.length === 0) passed += 1;
+    console.log(`${failures.length === 0 ? "✓" : "✗"} ${check.name}`);
+    failures.forEach((failure) => console.log(`    ${failure}`));
+  }
+  console.log(`\n${passed}/${checks.length} checks passed.`);
+  process.exitCode = passed === checks.length ? 0 : 1;
+}
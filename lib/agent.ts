@@ -1,4 +1,13 @@
-import { Parser } from "expr-eval";
+import { routeRequest } from "./compound";
+import { getLlmClient, type LlmClient } from "./llm";
+import { findSuggestion, localSuggestions, t, toolLabel, type Locale } from "./locale";
+import type { Plan } from "./planner";
+import type { SessionStore } from "./sessions/store";
+import type { RankedTask } from "./priorities";
+import { resolveSettings, toolEnabled, type AssistantSettings } from "./settings";
+import type { ConversationSummary } from "./summarizer";
+import type { TodoItem } from "./todos";
+import { createToolRegistry, defaultRegistry, type ToolRegistry } from "./tools";
 
 export type AgentRole = "system" | "user" | "assistant";
 
@@ -12,299 +21,241 @@ export type AgentStep = {
   content: string;
 };
 
+/** Structured results that tools return alongside their text. */
+export type AgentData = {
+  plan?: Plan;
+  tasks?: RankedTask[];
+  summary?: ConversationSummary;
+};
+
+/** State kept per session and handed to every tool, e.g. the task list. */
+export type AgentState = {
+  todos?: TodoItem[];
+};
+
 export type AgentReply = {
   role: "assistant";
   content: string;
   steps: AgentStep[];
   suggestions: string[];
+  data?: AgentData;
+  /** The updated session state, present only when a tool changed it. */
+  state?: AgentState;
 };
 
-type Intent =
-  | "math"
-  | "plan"
-  | "brainstorm"
-  | "summarize"
-  | "prioritize"
-  | "insight";
+export type AgentInput = AgentMessage[] | { sessionId: string };
 
-const parser = new Parser();
+export type AgentOptions = {
+  registry?: ToolRegistry;
+  /** Store used to load history when the input is a session id; the shared store by default. */
+  sessions?: SessionStore;
+  /**
+   * Messages appended to a session's stored history for this run only, such
+   * as the user message a reply is for. Nothing is written to the store.
+   */
+  pending?: AgentMessage[];
+  /** Session state for message-array input; session ids load the stored state. */
+  state?: AgentState;
+  /**
+   * Language model for free-form insight and drafting. Defaults to the one
+   * configured by `RADIUS_LLM_*`; pass null to use the heuristics only.
+   */
+  llm?: LlmClient | null;
+  /** Called with each reasoning step as soon as it is produced. */
+  onStep?: (step: AgentStep) => void;
+  /** Called with the id of each tool that handles part of the request. */
+  onTool?: (id: string) => void;
+  /** Language for replies, steps and suggestions; English when absent. */
+  locale?: Locale;
+  /** Persona, tone, verbosity, tools and framework; applied over any system messages. */
+  settings?: AssistantSettings;
+};
 
-const KNOWLEDGE_BASE: Array<{ triggers: RegExp[]; response: string }> = [
-  {
-    triggers: [/productivity|focus|deep work/i],
-    response:
-      "- Alternate 50 minutes of focus with 10-minute resets.\n- Decide the single critical output before you start.\n- Park distracting ideas in an inbox so you can return without losing flow."
-  },
-  {
-    triggers: [/marketing|campaign|launch/i],
-    response:
-      "- Anchor on one memorable story per audience segment.\n- Repurpose high-performing assets into quick experiments on new channels.\n- Blend a fast feedback metric (CTR) with a slower health metric (share of conversation)."
-  },
-  {
-    triggers: [/learning|study|exam/i],
-    response:
-      "- Begin with a spaced repetition sweep to surface weak spots.\n- Convert theories into applied micro-projects within 24 hours.\n- Teach the concept back to someone (or your notes) in plain language."
-  }
+const IDLE_SUGGESTIONS = [
+  "Give me a goal with a tight deadline",
+  "Ask me to condense a long message",
+  "Share tasks and I will prioritise them"
 ];
 
-function cleanExpression(input: string): string | null {
-  const candidate = input
-    .replace(/[^0-9+\-*/%^().,\s]/g, "")
-    .replace(/,/g, "");
-  if (!candidate.trim()) return null;
-  if (!/[0-9]/.test(candidate)) return null;
-  return candidate;
-}
-
-function calculateExpression(input: string): string {
-  const expression = cleanExpression(input);
-  if (!expression) {
-    return "I could not detect a solvable expression. Try something like `3 * (12 + 4)`.";
-  }
-  try {
-    const result = parser.evaluate(expression);
-    if (typeof result === "number" && Number.isFinite(result)) {
-      const formatted =
-        Math.abs(result) >= 1_000
-          ? result.toLocaleString(undefined, { maximumFractionDigits: 4 })
-          : Number(result.toPrecision(8)).toString();
-      return `The expression ${expression.trim()} evaluates to **${formatted}**.`;
-    }
-    return "That expression resolves to a non-numeric result, which I do not support yet.";
-  } catch (error) {
-    return "That expression seems malformed. Try using only numbers and standard operators.";
-  }
-}
-
-function buildPlan(goal: string): string {
-  const trimmed = goal.trim();
-  const tasks = [
-    `Clarify the true objective and define a measurable finish line for "${trimmed}".`,
-    "List the constraints (time, budget, collaborators) so we can work within them.",
-    "Break the work into 3-5 atomic actions that can each be completed in one sitting.",
-    "Sequence the actions by impact and dependency, then block time for the first step.",
-    "Create a feedback hook — what evidence will tell us we can adjust or stop?"
-  ];
-  return tasks.map((task, index) => `${index + 1}. ${task}`).join("\n");
+/**
+ * Swaps a translated suggestion the user picked for its English original,
+ * which is what the follow-up tool recognises.
+ */
+function canonicalSuggestion(message: AgentMessage, registry: ToolRegistry): AgentMessage {
+  if (message.role !== "user") return message;
+  const found = findSuggestion(message.content);
+  if (!found) return message;
+  const original =
+    found.id === "idle"
+      ? IDLE_SUGGESTIONS[found.index]
+      : registry.get(found.id)?.suggestions[found.index];
+  return original ? { ...message, content: original } : message;
 }
 
-function brainstormIdeas(topic: string): string {
-  const angles = [
-    "Unexpected partnerships or audiences",
-    "Moments in the customer journey you can delight",
-    "Small experiments you can ship this week",
-    "Signals that prove the idea is working"
-  ];
-  const ideas = angles.map(
-    (angle, idx) =>
-      `${idx + 1}. ${angle} — specifically for "${topic.trim()}". Think about what would feel refreshing compared to the status quo.`
-  );
-  return ideas.join("\n");
+/** The registry without the tools the settings switch off. */
+function enabledTools(registry: ToolRegistry, settings: AssistantSettings): ToolRegistry {
+  if (!settings.tools) return registry;
+  return createToolRegistry(registry.list().filter((tool) => toolEnabled(settings, tool)));
 }
 
-function summarizeConversation(history: AgentMessage[]): string {
-  const lastFew = history.slice(-6).filter((item) => item.role !== "system");
-  if (!lastFew.length) {
-    return "We've just started chatting, so there's nothing to summarise yet.";
-  }
-  const bulletPoints = lastFew.map((item) => {
-    const speaker = item.role === "assistant" ? "Radius" : "You";
-    return `- ${speaker}: ${item.content.replace(/\s+/g, " ").trim()}`;
-  });
-  return ["Here's what we covered recently:", ...bulletPoints].join("\n");
+/** Ends heuristic replies in the configured tone; model replies already follow it. */
+function withTone(content: string, settings: AssistantSettings, locale?: Locale): string {
+  if (!settings.tone || settings.tone === "neutral") return content;
+  return `${content}\n\n${t(locale, `tone.${settings.tone}`)}`;
 }
 
-function prioritiseTasks(input: string): string {
-  const lines = input
-    .split(/\n|,|;/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 4);
-  if (lines.length === 0) {
-    return "Please provide a list of tasks separated by commas or new lines so I can rank them.";
-  }
-  const ranked = lines.map((task, index) => {
-    const urgencyScore = /today|urgent|now|soon|asap/i.test(task) ? 3 : 1;
-    const impactScore = /launch|client|revenue|milestone|deadline/i.test(task)
-      ? 3
-      : /review|prep|draft/i.test(task)
-      ? 2
-      : 1;
-    const score = urgencyScore * 2 + impactScore;
-    return { task, score, index };
-  });
-  ranked.sort((a, b) => b.score - a.score || a.index - b.index);
-  return ranked
-    .map((item, position) => `${position + 1}. ${item.task} — priority score ${item.score}`)
-    .join("\n");
-}
-
-function matchKnowledge(input: string): string | null {
-  const entry = KNOWLEDGE_BASE.find(({ triggers }) =>
-    triggers.some((regex) => regex.test(input))
-  );
-  return entry ? entry.response : null;
-}
-
-function classifyIntent(input: string): Intent {
-  if (/[0-9][0-9+\-*/%^().\s]+[0-9]/.test(input)) return "math";
-  if (/plan|schedule|roadmap|steps|strategy/i.test(input)) return "plan";
-  if (/idea|ideas|brainstorm|creative|names?/i.test(input)) return "brainstorm";
-  if (/summarise|summarize|recap|tl;dr/i.test(input)) return "summarize";
-  if (/prioriti[sz]e|ranking|order.*tasks|what to do first/i.test(input)) {
-    return "prioritize";
-  }
-  return "insight";
-}
-
-function followUpSuggestions(intent: Intent): string[] {
-  switch (intent) {
-    case "math":
-      return [
-        "Compare this result with another scenario",
-        "Ask me to turn the numbers into a short explanation",
-        "Create a table of outcomes with different variables"
-      ];
-    case "plan":
-      return [
-        "Request a 7-day timeline for the plan",
-        "Ask for the single most important milestone",
-        "Turn the plan into calendar-friendly blocks"
-      ];
-    case "brainstorm":
-      return [
-        "Narrow ideas down to one standout concept",
-        "Turn this concept into a user journey",
-        "Draft a 3-sentence pitch for the top idea"
-      ];
-    case "summarize":
-      return [
-        "Extract action items from the summary",
-        "Highlight risks or open questions",
-        "Refine the summary for a stakeholder update"
-      ];
-    case "prioritize":
-      return [
-        "Group tasks by effort versus impact",
-        "Schedule the top task with a realistic time slot",
-        "Delegate or defer the lowest priorities"
-      ];
-    default:
-      return [
-        "Ask me to dive deeper into one takeaway",
-        "Layer in real constraints (time, budget, audience)",
-        "Convert this into an actionable checklist"
-      ];
+async function loadConversation(
+  input: AgentInput,
+  options: AgentOptions
+): Promise<{ messages: AgentMessage[]; state: AgentState }> {
+  if (Array.isArray(input)) return { messages: input, state: options.state ?? {} };
+  // Imported on demand: the sessions module runs the agent, so a static import would be circular.
+  const sessions = options.sessions ?? (await import("./sessions")).getSessionStore();
+  const session = await sessions.get(input.sessionId);
+  if (!session) {
+    throw new Error(`Session "${input.sessionId}" does not exist.`);
   }
+  return {
+    messages: [
+      ...session.messages.map(({ role, content }) => ({ role, content })),
+      ...(options.pending ?? [])
+    ],
+    state: options.state ?? session.state ?? {}
+  };
 }
 
-export async function runAgent(messages: AgentMessage[]): Promise<AgentReply> {
+export async function runAgent(
+  input: AgentInput,
+  options: AgentOptions = {}
+): Promise<AgentReply> {
+  const { locale } = options;
+  const conversation = await loadConversation(input, options);
+  const available = options.registry ?? defaultRegistry;
+  const settings = resolveSettings(conversation.messages, options.settings);
+  const registry = enabledTools(available, settings);
+  const messages = conversation.messages.map((message) => canonicalSuggestion(message, available));
+  let state = conversation.state;
+  const llm = (options.llm === undefined ? getLlmClient() : options.llm) ?? undefined;
   const last = [...messages]
     .reverse()
     .find((message) => message.role === "user");
 
   const steps: AgentStep[] = [];
+  const record = (...produced: AgentStep[]) => {
+    for (const step of produced) {
+      steps.push(step);
+      options.onStep?.(step);
+    }
+  };
 
   if (!last) {
+    record({
+      title: t(locale, "step.status"),
+      content: t(locale, "agent.idle.status")
+    });
     return {
       role: "assistant",
-      content: "I'm ready whenever you are.",
-      steps: [
-        {
-          title: "Status",
-          content: "No user input detected, so I am idling."
-        }
-      ],
-      suggestions: [
-        "Give me a goal with a tight deadline",
-        "Ask me to condense a long message",
-        "Share tasks and I will prioritise them"
-      ]
+      content: t(locale, "agent.idle.reply"),
+      steps,
+      suggestions: localSuggestions(locale, "idle", IDLE_SUGGESTIONS)
     };
   }
 
   const userText = last.content.trim();
-  const intent = classifyIntent(userText);
-  steps.push({
-    title: "Intent Detection",
-    content: `Input suggests a **${intent}** style response.`
+  const routed = routeRequest(userText, registry);
+  if (routed.length === 0) {
+    record({
+      title: t(locale, "step.status"),
+      content: t(locale, "agent.empty.status")
+    });
+    return {
+      role: "assistant",
+      content: t(locale, "agent.empty.reply"),
+      steps,
+      suggestions: []
+    };
+  }
+
+  if (routed.length === 1) {
+    const [{ tool }] = routed;
+    record({
+      title: t(locale, "agent.intent.title"),
+      content: t(locale, "agent.intent.single", { tool: tool.id })
+    });
+
+    options.onTool?.(tool.id);
+    const result = await tool.run({ input: userText, messages, state, llm, locale, settings });
+    if (result.state) state = { ...state, ...result.state };
+    record(...result.steps);
+    record({
+      title: t(locale, "agent.next.title"),
+      content: t(locale, "agent.next.single")
+    });
+
+    return {
+      role: "assistant",
+      content: result.drafted ? result.content : withTone(result.content, settings, locale),
+      steps,
+      suggestions: localSuggestions(locale, tool.id, tool.suggestions),
+      ...(result.data && { data: result.data }),
+      ...(state !== conversation.state && { state })
+    };
+  }
+
+  record({
+    title: t(locale, "agent.intent.title"),
+    content: t(locale, "agent.intent.compound", {
+      count: routed.length,
+      tools: routed.map(({ tool }) => `**${tool.id}**`).join(", ")
+    })
   });
 
-  let content: string;
-  switch (intent) {
-    case "math": {
-      content = calculateExpression(userText);
-      steps.push({
-        title: "Tool",
-        content: "Evaluated arithmetic expression using the safe math parser."
-      });
-      break;
-    }
-    case "plan": {
-      content = buildPlan(userText);
-      steps.push({
-        title: "Method",
-        content: "Expanded request into a structured plan with five sequenced actions."
-      });
-      break;
-    }
-    case "brainstorm": {
-      content = brainstormIdeas(userText);
-      steps.push({
-        title: "Method",
-        content: "Generated four contrasting idea angles to encourage divergent thinking."
-      });
-      break;
-    }
-    case "summarize": {
-      content = summarizeConversation(messages);
-      steps.push({
-        title: "Method",
-        content: "Compressed the last exchanges into a concise bullet-point recap."
-      });
-      break;
-    }
-    case "prioritize": {
-      content = prioritiseTasks(userText);
-      steps.push({
-        title: "Method",
-        content:
-          "Ranked supplied tasks based on urgency and impact heuristics to highlight what to do first."
-      });
-      break;
-    }
-    default: {
-      const insight = matchKnowledge(userText);
-      if (insight) {
-        content = insight;
-        steps.push({
-          title: "Knowledge",
-          content: "Matched the topic against the curated playbook and surfaced relevant tactics."
-        });
-      } else {
-        content =
-          "- Reflect your objective in one sentence to confirm I understood it correctly.\n" +
-          "- Identify one blocker or variable that worries you.\n" +
-          "- Ask for a concrete artefact: plan, outline, script, calculation, or critique.";
-        steps.push({
-          title: "Fallback",
-          content:
-            "No direct tool matched, so I offered a structured prompt to refine the conversation."
-        });
-      }
-      break;
-    }
+  const sections: string[] = [];
+  let data: AgentData | undefined;
+  let drafted = true;
+  for (const { tool, input: segment } of routed) {
+    const label = toolLabel(locale, tool.id) ?? tool.label ?? tool.id;
+    options.onTool?.(tool.id);
+    const result = await tool.run({ input: segment, messages, state, llm, locale, settings });
+    if (result.state) state = { ...state, ...result.state };
+    sections.push(`**${label}**\n\n${result.content}`);
+    drafted &&= Boolean(result.drafted);
+    if (result.data) data = { ...data, ...result.data };
+    record({
+      title: label,
+      content: `${t(locale, "agent.handled", { segment })} ${result.steps
+        .map((step) => step.content)
+        .join(" ")}`
+    });
   }
 
-  const suggestions = followUpSuggestions(intent);
-  steps.push({
-    title: "Next Move",
-    content: "Suggested follow-up paths to continue the session."
+  record({
+    title: t(locale, "agent.next.title"),
+    content: t(locale, "agent.next.compound")
   });
 
   return {
     role: "assistant",
-    content,
+    content: drafted ? sections.join("\n\n") : withTone(sections.join("\n\n"), settings, locale),
     steps,
-    suggestions
+    suggestions: mergeSuggestions(
+      routed.map(({ tool }) => localSuggestions(locale, tool.id, tool.suggestions))
+    ),
+    ...(data && { data }),
+    ...(state !== conversation.state && { state })
   };
 }
+
+const MAX_COMPOUND_SUGGESTIONS = 4;
+
+function mergeSuggestions(groups: string[][]): string[] {
+  const merged: string[] = [];
+  const longest = Math.max(...groups.map((group) => group.length));
+  for (let index = 0; index < longest; index += 1) {
+    for (const group of groups) {
+      const item = group[index];
+      if (item && !merged.includes(item)) merged.push(item);
+    }
+  }
+  return merged.slice(0, MAX_COMPOUND_SUGGESTIONS);
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type { ValidationIssue } from "./schema";
+import type { ApiError, ApiErrorCode } from "./types";
+
+const STATUS: Record<ApiErrorCode, number> = {
+  invalid_json: 400,
+  invalid_request: 400,
+  missing_messages: 400,
+  too_many_messages: 400,
+  invalid_role: 400,
+  empty_content: 400,
+  content_too_long: 400,
+  invalid_state: 400,
+  invalid_transcript: 400,
+  invalid_settings: 400,
+  payload_too_large: 413,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  session_not_found: 404,
+  rate_limited: 429,
+  internal_error: 500,
+  not_configured: 503
+};
+
+/** Builds the JSON error response every versioned route returns. */
+export function apiError(
+  code: ApiErrorCode,
+  error: string,
+  path?: string,
+  headers?: Record<string, string>
+): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error, code, ...(path && { path }) },
+    { status: STATUS[code], headers }
+  );
+}
+
+export function invalidRequest(issue: ValidationIssue): NextResponse<ApiError> {
+  return apiError(issue.code, issue.message, issue.path);
+}
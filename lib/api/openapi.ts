@@ -0,0 +1,215 @@
+import {
+  agentReplySchema,
+  apiErrorSchema,
+  chatRequestSchema,
+  messageSchema,
+  sessionMessageRequestSchema,
+  sessionRequestSchema,
+  settingsSchema,
+  stateSchema,
+  streamEventSchema,
+  transcriptSchema,
+  type JsonSchema
+} from "./schema";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/** Drops the internal `x-error-codes` hints, which are not part of OpenAPI. */
+function publish(schema: JsonSchema): Record<string, unknown> {
+  const { "x-error-codes": _codes, properties, items, oneOf, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties && {
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, publish(value)])
+      )
+    }),
+    ...(items && { items: publish(items) }),
+    ...(oneOf && { oneOf: oneOf.map(publish) })
+  };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { "application/json": { schema: ref("Error") } } };
+}
+
+const sessionId = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "The session id returned when it was created.",
+  schema: { type: "string" }
+};
+
+/** Errors shared by every session route. */
+const sessionErrors = {
+  "401": errorResponse("The API key is missing, unknown or revoked."),
+  "403": errorResponse('The API key lacks the "sessions" scope.')
+};
+
+/** Errors from the body cap and the rate limit, which the session routes share with chat. */
+const sessionLimits = {
+  "413": errorResponse("The body is larger than the server accepts."),
+  "429": errorResponse("The caller sent too many requests in the current window.")
+};
+
+const sessionNotFound = errorResponse(
+  "No session with that id belongs to the caller; `code` is `session_not_found`."
+);
+
+/** Builds the OpenAPI 3.1 document for the versioned API from the runtime schemas. */
+export function buildOpenApiDocument(serverUrl?: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Radius API",
+      version: "1.0.0",
+      description:
+        "Rule-based productivity agent. Errors carry a readable `error` and a stable `code`."
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    paths: {
+      "/api/v1/chat": {
+        post: {
+          operationId: "chat",
+          summary: "Run the agent over a conversation",
+          security: [{ apiKey: [] }],
+          parameters: [
+            {
+              name: "Accept-Language",
+              in: "header",
+              required: false,
+              description:
+                "Preferred reply languages; the `locale` field wins when both are sent. English, Spanish, German and French are supported.",
+              schema: { type: "string" }
+            }
+          ],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("ChatRequest") } }
+          },
+          responses: {
+            "200": {
+              description:
+                "The agent reply, or newline-delimited stream events when `stream` is true or `Accept` is `application/x-ndjson`.",
+              content: {
+                "application/json": { schema: ref("AgentReply") },
+                "application/x-ndjson": { schema: ref("StreamEvent") }
+              }
+            },
+            "400": errorResponse("The request failed validation; see `code` and `path`."),
+            "401": errorResponse("The API key is missing, unknown or revoked."),
+            "403": errorResponse('The API key lacks the "chat" scope.'),
+            "413": errorResponse("The body is larger than the server accepts."),
+            "429": {
+              ...errorResponse("The caller sent too many requests in the current window."),
+              headers: {
+                "Retry-After": {
+                  description: "Seconds until requests are accepted again.",
+                  schema: { type: "integer" }
+                }
+              }
+            },
+            "500": errorResponse("The agent failed to produce a valid reply.")
+          }
+        }
+      },
+      "/api/sessions": {
+        get: {
+          operationId: "listSessions",
+          summary: "List the caller's sessions",
+          security: [{ apiKey: [] }],
+          responses: {
+            "200": { description: "`{ sessions }`, a summary of each session." },
+            ...sessionErrors
+          }
+        },
+        post: {
+          operationId: "createSession",
+          summary: "Start a session, optionally with its first message",
+          security: [{ apiKey: [] }],
+          requestBody: {
+            required: false,
+            content: { "application/json": { schema: ref("SessionRequest") } }
+          },
+          responses: {
+            "201": {
+              description:
+                "The new session, or `{ session, reply }` when a first `message` was sent."
+            },
+            "400": errorResponse("The request failed validation; see `code` and `path`."),
+            ...sessionErrors,
+            ...sessionLimits,
+            "500": errorResponse("The agent failed to answer the first message.")
+          }
+        }
+      },
+      "/api/sessions/{id}": {
+        get: {
+          operationId: "getSession",
+          summary: "Read a session with its messages and state",
+          security: [{ apiKey: [] }],
+          parameters: [sessionId],
+          responses: {
+            "200": { description: "The session." },
+            ...sessionErrors,
+            "404": sessionNotFound
+          }
+        },
+        delete: {
+          operationId: "deleteSession",
+          summary: "Delete a session",
+          security: [{ apiKey: [] }],
+          parameters: [sessionId],
+          responses: {
+            "204": { description: "Deleted." },
+            ...sessionErrors,
+            "404": sessionNotFound
+          }
+        }
+      },
+      "/api/sessions/{id}/messages": {
+        post: {
+          operationId: "sendSessionMessage",
+          summary: "Send the next message and store it with the reply",
+          security: [{ apiKey: [] }],
+          parameters: [sessionId],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("SessionMessageRequest") } }
+          },
+          responses: {
+            "201": { description: "`{ session, reply }` once both messages are stored." },
+            "400": errorResponse("The request failed validation; see `code` and `path`."),
+            ...sessionErrors,
+            "404": sessionNotFound,
+            ...sessionLimits,
+            "500": errorResponse("The agent failed to produce a valid reply; nothing was stored.")
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "An API key with the chat or sessions scope, as the route needs, created through /api/admin/keys."
+        }
+      },
+      schemas: {
+        ChatRequest: publish(chatRequestSchema),
+        SessionRequest: publish(sessionRequestSchema),
+        SessionMessageRequest: publish(sessionMessageRequestSchema),
+        Message: publish(messageSchema),
+        State: publish(stateSchema),
+        Settings: publish(settingsSchema),
+        Transcript: publish(transcriptSchema),
+        AgentReply: publish(agentReplySchema),
+        StreamEvent: publish(streamEventSchema),
+        Error: publish(apiErrorSchema)
+      }
+    }
+  };
+}
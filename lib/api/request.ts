@@ -0,0 +1,59 @@
+import type { NextResponse } from "next/server";
+import { maxBodyBytes } from "../limits";
+import { apiError } from "./errors";
+import type { ApiError } from "./types";
+
+/**
+ * Reads a body no larger than `RADIUS_MAX_BODY_BYTES`, checking the declared
+ * length first and counting bytes as they stream in, so a chunked body is cut
+ * off as soon as it passes the limit instead of being buffered whole.
+ */
+export async function readTextBody(
+  request: Request
+): Promise<{ text: string } | { response: NextResponse<ApiError> }> {
+  const limit = maxBodyBytes();
+  const tooLarge = () => ({
+    response: apiError(
+      "payload_too_large",
+      `The request body must be at most ${limit.toLocaleString("en-US")} bytes.`
+    )
+  });
+
+  const declared = Number(request.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > limit) return tooLarge();
+
+  if (!request.body) return { text: "" };
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel().catch(() => undefined);
+      return tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return { text: text + decoder.decode() };
+}
+
+/**
+ * Reads a size-capped body and parses it as JSON. An empty body becomes
+ * `empty` when one is given, for routes whose body is optional.
+ */
+export async function readJsonBody(
+  request: Request,
+  empty?: unknown
+): Promise<{ body: unknown } | { response: NextResponse<ApiError> }> {
+  const read = await readTextBody(request);
+  if ("response" in read) return read;
+  if (empty !== undefined && !read.text.trim()) return { body: empty };
+  try {
+    return { body: JSON.parse(read.text) as unknown };
+  } catch {
+    return { response: apiError("invalid_json", "The request body must be valid JSON.") };
+  }
+}
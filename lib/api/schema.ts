@@ -0,0 +1,435 @@
+import { MAX_CALENDAR_ITEMS, MAX_EFFORT_MINUTES } from "../calendar";
+import { FRAMEWORK_IDS, MAX_NAME_LENGTH, TONES, VERBOSITIES } from "../settings";
+import { MAX_TODOS } from "../todos";
+import { API_ERROR_CODES, TRANSCRIPT_FORMAT, TRANSCRIPT_VERSION, type ApiErrorCode } from "./types";
+
+/**
+ * The subset of JSON Schema the API uses. The same objects validate requests
+ * and replies at runtime and are published in the OpenAPI document;
+ * `x-error-codes` maps a failed keyword to the code sent back to clients, and
+ * a code given for `type` also applies to everything nested inside.
+ */
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  enum?: Array<string | number | boolean>;
+  oneOf?: JsonSchema[];
+  "x-error-codes"?: Partial<Record<Keyword, ApiErrorCode>>;
+};
+
+type Keyword =
+  | "type"
+  | "required"
+  | "additionalProperties"
+  | "minItems"
+  | "maxItems"
+  | "minLength"
+  | "maxLength"
+  | "minimum"
+  | "maximum"
+  | "pattern"
+  | "enum"
+  | "oneOf";
+
+export type ValidationIssue = {
+  code: ApiErrorCode;
+  path: string;
+  message: string;
+};
+
+export const MAX_MESSAGES = 200;
+export const MAX_CONTENT_LENGTH = 8000;
+const NOT_BLANK = "\\S";
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(type: JsonSchema["type"], value: unknown): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/** Checks a value against a schema and returns the first problem found, if any. */
+export function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path = "",
+  fallback: ApiErrorCode = "invalid_request"
+): ValidationIssue | null {
+  const fail = (keyword: Keyword, message: string): ValidationIssue => ({
+    code: schema["x-error-codes"]?.[keyword] ?? fallback,
+    path: path || "body",
+    message: `${path || "The request body"} ${message}.`
+  });
+
+  if (schema.oneOf) {
+    const passes = schema.oneOf.some((option) => !validate(option, value, path, fallback));
+    return passes ? null : fail("oneOf", "does not match any allowed shape");
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    const article = /^[aeiou]/.test(schema.type) ? "an" : "a";
+    return fail("type", `must be ${article} ${schema.type}`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return fail("enum", `must be one of ${schema.enum.map((item) => `"${item}"`).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return fail("minLength", `must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return fail("maxLength", `must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      return fail(
+        "pattern",
+        schema.pattern === NOT_BLANK ? "must not be blank" : "does not have the expected format"
+      );
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return fail("minimum", `must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return fail("maximum", `must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return fail(
+        "minItems",
+        `must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`
+      );
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return fail("maxItems", `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      for (let index = 0; index < value.length; index += 1) {
+        const issue = validate(schema.items, value[index], `${path}[${index}]`, fallback);
+        if (issue) return issue;
+      }
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const nested = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        return { ...fail("required", `is missing "${key}"`), path: nested(key) };
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (!property) {
+        if (schema.additionalProperties === false) {
+          return fail("additionalProperties", `has an unknown field "${key}"`);
+        }
+        continue;
+      }
+      if (item === undefined) continue;
+      const issue = validate(
+        property,
+        item,
+        nested(key),
+        schema["x-error-codes"]?.type ?? fallback
+      );
+      if (issue) return issue;
+    }
+  }
+  return null;
+}
+
+const stepSchema: JsonSchema = {
+  type: "object",
+  required: ["title", "content"],
+  properties: { title: { type: "string" }, content: { type: "string" } }
+};
+
+/** Text of one message, as sent by chat, session and webhook callers. */
+export const contentSchema: JsonSchema = {
+  type: "string",
+  pattern: NOT_BLANK,
+  maxLength: MAX_CONTENT_LENGTH,
+  "x-error-codes": { pattern: "empty_content", maxLength: "content_too_long" }
+};
+
+export const messageSchema: JsonSchema = {
+  type: "object",
+  required: ["role", "content"],
+  properties: {
+    role: {
+      type: "string",
+      enum: ["system", "user", "assistant"],
+      "x-error-codes": { type: "invalid_role", enum: "invalid_role" }
+    },
+    content: contentSchema
+  }
+};
+
+const todoSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "text", "done"],
+  properties: {
+    id: { type: "string" },
+    text: { type: "string" },
+    done: { type: "boolean" },
+    due: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+    createdAt: { type: "string" },
+    completedAt: { type: "string" }
+  }
+};
+
+export const stateSchema: JsonSchema = {
+  type: "object",
+  description: "Session state kept by the client and sent back with each request.",
+  properties: { todos: { type: "array", maxItems: MAX_TODOS, items: todoSchema } },
+  "x-error-codes": { type: "invalid_state" }
+};
+
+export const settingsSchema: JsonSchema = {
+  type: "object",
+  description:
+    "How the assistant presents itself: its name, tone, reply length, the tools it may use and the default ranking framework. Overrides any system messages.",
+  properties: {
+    name: { type: "string", pattern: NOT_BLANK, maxLength: MAX_NAME_LENGTH },
+    tone: { type: "string", enum: TONES },
+    verbosity: { type: "string", enum: VERBOSITIES },
+    tools: {
+      type: "array",
+      description: "Ids of the tools the assistant may use; insight is always available.",
+      maxItems: 50,
+      items: { type: "string" }
+    },
+    framework: { type: "string", enum: FRAMEWORK_IDS }
+  },
+  "x-error-codes": { type: "invalid_settings" }
+};
+
+export const transcriptSchema: JsonSchema = {
+  type: "object",
+  description: `An exported conversation (format "${TRANSCRIPT_FORMAT}", version ${TRANSCRIPT_VERSION}).`,
+  required: ["format", "version", "title", "messages"],
+  properties: {
+    format: { type: "string", enum: [TRANSCRIPT_FORMAT] },
+    version: { type: "integer", enum: [TRANSCRIPT_VERSION] },
+    title: { type: "string", maxLength: 200 },
+    exportedAt: { type: "string" },
+    createdAt: { type: "string" },
+    messages: {
+      type: "array",
+      maxItems: MAX_MESSAGES,
+      items: {
+        type: "object",
+        required: ["role", "content"],
+        properties: {
+          role: { type: "string", enum: ["user", "assistant"] },
+          content: { type: "string", maxLength: MAX_CONTENT_LENGTH },
+          steps: { type: "array", items: stepSchema },
+          suggestions: { type: "array", items: { type: "string" } },
+          data: { type: "object" }
+        }
+      },
+      "x-error-codes": { maxItems: "too_many_messages" }
+    },
+    state: stateSchema,
+    settings: settingsSchema
+  },
+  "x-error-codes": { type: "invalid_transcript" }
+};
+
+export const localeSchema: JsonSchema = {
+  type: "string",
+  description:
+    "Reply language as a BCP 47 tag such as `es` or `de-AT`. English, Spanish, German and French are supported; other languages fall back to `Accept-Language`, then English.",
+  pattern: "^[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{1,8})*$",
+  maxLength: 35
+};
+
+export const chatRequestSchema: JsonSchema = {
+  type: "object",
+  required: ["messages"],
+  properties: {
+    messages: {
+      type: "array",
+      description: "The conversation so far, ending with the user's latest message.",
+      minItems: 1,
+      maxItems: MAX_MESSAGES,
+      items: messageSchema,
+      "x-error-codes": { minItems: "missing_messages", maxItems: "too_many_messages" }
+    },
+    transcript: transcriptSchema,
+    state: stateSchema,
+    stream: { type: "boolean", description: "Stream newline-delimited events." },
+    locale: localeSchema,
+    settings: settingsSchema
+  }
+};
+
+/** `POST /api/sessions`: an optional title and first message. */
+export const sessionRequestSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", maxLength: 200 },
+    message: contentSchema,
+    locale: localeSchema,
+    settings: settingsSchema
+  }
+};
+
+/** `POST /api/sessions/:id/messages`: the next user message. */
+export const sessionMessageRequestSchema: JsonSchema = {
+  type: "object",
+  required: ["content"],
+  properties: { content: contentSchema, locale: localeSchema, settings: settingsSchema }
+};
+
+/** Generic webhooks send either one `text` or a whole conversation. */
+export const webhookRequestSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    text: contentSchema,
+    messages: chatRequestSchema.properties?.messages ?? {},
+    state: stateSchema,
+    format: { type: "string", enum: ["json", "plain", "slack"] },
+    locale: localeSchema,
+    settings: settingsSchema,
+    response_url: {
+      type: "string",
+      description: "Where to POST the reply later; the request is answered with 202.",
+      pattern: "^https?://\\S+$"
+    }
+  }
+};
+
+const effortSchema: JsonSchema = {
+  type: "number",
+  minimum: 0,
+  maximum: MAX_EFFORT_MINUTES
+};
+const LOCAL_TIME = "^\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2})?$";
+
+const planSchema: JsonSchema = {
+  type: "object",
+  required: ["goal", "granularity", "start", "constraints", "steps"],
+  properties: {
+    goal: { type: "string", maxLength: 500 },
+    granularity: { type: "string", enum: ["day", "time"] },
+    start: { type: "string", pattern: LOCAL_TIME },
+    deadline: { type: "string", pattern: LOCAL_TIME },
+    constraints: { type: "array", maxItems: 20, items: { type: "string", maxLength: 200 } },
+    weekends: { type: "string", enum: ["only", "included", "excluded"] },
+    notes: { type: "array", items: { type: "string" } },
+    steps: {
+      type: "array",
+      maxItems: MAX_CALENDAR_ITEMS,
+      items: {
+        type: "object",
+        required: ["id", "title", "start", "end", "effortMinutes"],
+        properties: {
+          id: { type: "string", maxLength: 50 },
+          title: { type: "string", maxLength: 500 },
+          start: { type: "string", pattern: LOCAL_TIME },
+          end: { type: "string", pattern: LOCAL_TIME },
+          effortMinutes: effortSchema,
+          dependsOn: { type: "array", items: { type: "string" } },
+          milestone: { type: "boolean" }
+        }
+      }
+    }
+  }
+};
+
+/** A reply's `data` to turn into an `.ics` file, with optional working hours. */
+export const calendarRequestSchema: JsonSchema = {
+  type: "object",
+  required: ["data"],
+  properties: {
+    data: {
+      type: "object",
+      properties: {
+        plan: planSchema,
+        tasks: {
+          type: "array",
+          maxItems: MAX_CALENDAR_ITEMS,
+          items: {
+            type: "object",
+            required: ["task"],
+            properties: {
+              task: { type: "string", pattern: NOT_BLANK, maxLength: 500 },
+              effortMinutes: effortSchema
+            }
+          }
+        }
+      }
+    },
+    workingHours: { type: "string", description: "A window such as `09:00-17:00`." },
+    settings: settingsSchema
+  }
+};
+
+export const agentReplySchema: JsonSchema = {
+  type: "object",
+  required: ["role", "content", "steps", "suggestions"],
+  properties: {
+    role: { type: "string", enum: ["assistant"] },
+    content: { type: "string" },
+    steps: { type: "array", items: stepSchema },
+    suggestions: { type: "array", items: { type: "string" } },
+    data: {
+      type: "object",
+      description: "Structured results such as `plan`, ranked `tasks` or a `summary`."
+    },
+    state: stateSchema
+  }
+};
+
+export const streamEventSchema: JsonSchema = {
+  oneOf: [
+    eventSchema("step", { step: stepSchema }),
+    eventSchema("content", { content: { type: "string" } }),
+    eventSchema("suggestions", { suggestions: { type: "array", items: { type: "string" } } }),
+    eventSchema("data", { data: { type: "object" } }),
+    eventSchema("state", { state: stateSchema }),
+    eventSchema("done", {}),
+    eventSchema("error", { error: { type: "string" }, code: { type: "string" } })
+  ]
+};
+
+function eventSchema(type: string, properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    type: "object",
+    required: ["type", ...Object.keys(properties)],
+    properties: { type: { type: "string", enum: [type] }, ...properties }
+  };
+}
+
+export const apiErrorSchema: JsonSchema = {
+  type: "object",
+  required: ["error", "code"],
+  properties: {
+    error: { type: "string", description: "Readable explanation." },
+    code: { type: "string", enum: [...API_ERROR_CODES] },
+    path: { type: "string", description: "Location of the problem, e.g. `messages[2].role`." }
+  }
+};
@@ -0,0 +1,106 @@
+import type { AgentMessage, AgentReply, AgentState, AgentStep } from "../agent";
+export type { AssistantSettings } from "../settings";
+import type { AssistantSettings } from "../settings";
+
+export type {
+  AgentData,
+  AgentMessage,
+  AgentReply,
+  AgentRole,
+  AgentState,
+  AgentStep
+} from "../agent";
+
+export type ChatRequest = {
+  messages: AgentMessage[];
+  /** An exported conversation to continue; its messages come before `messages`. */
+  transcript?: Transcript;
+  /** Session state from the previous reply, such as the task list. */
+  state?: AgentState;
+  /** Streams newline-delimited `StreamEvent`s instead of one JSON reply. */
+  stream?: boolean;
+  /** Reply language; overrides `Accept-Language`. */
+  locale?: string;
+  /** Persona, tone, verbosity, tools and framework; override any system messages. */
+  settings?: AssistantSettings;
+};
+
+/** Body of `/api/integrations/webhook`: one `text` or a whole conversation. */
+export type WebhookRequest = {
+  text?: string;
+  messages?: AgentMessage[];
+  state?: AgentState;
+  /** `json` (the default) returns the agent reply; `plain` and `slack` are rendered. */
+  format?: "json" | "plain" | "slack";
+  /** Reply language; overrides `Accept-Language`. */
+  locale?: string;
+  settings?: AssistantSettings;
+  /** Answer with 202 and POST the reply here when it is ready. */
+  response_url?: string;
+};
+
+export type StreamEvent =
+  | { type: "step"; step: AgentStep }
+  | { type: "content"; content: string }
+  | { type: "suggestions"; suggestions: string[] }
+  | { type: "data"; data: NonNullable<AgentReply["data"]> }
+  | { type: "state"; state: AgentState }
+  | { type: "done" }
+  | { type: "error"; error: string; code: ApiErrorCode };
+
+export const API_ERROR_CODES = [
+  "invalid_json",
+  "invalid_request",
+  "missing_messages",
+  "too_many_messages",
+  "invalid_role",
+  "empty_content",
+  "content_too_long",
+  "invalid_state",
+  "invalid_transcript",
+  "invalid_settings",
+  "payload_too_large",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "session_not_found",
+  "rate_limited",
+  "internal_error",
+  "not_configured"
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/** Body of every error response: a readable message plus a stable code. */
+export type ApiError = {
+  error: string;
+  code: ApiErrorCode;
+  /** Where in the request the problem is, e.g. `messages[2].role`. */
+  path?: string;
+};
+
+/** A message as the chat UI shows it; a reply may still be streaming in. */
+export type DisplayMessage = {
+  role: "user" | "assistant";
+  content: string;
+} & Partial<Pick<AgentReply, "steps" | "suggestions" | "data">>;
+
+export const TRANSCRIPT_FORMAT = "radius.transcript";
+
+/** Bumped whenever the transcript layout changes in a way older readers cannot load. */
+export const TRANSCRIPT_VERSION = 1;
+
+/**
+ * A lossless export of one conversation, including steps, suggestions, data,
+ * state and settings.
+ */
+export type Transcript = {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  title: string;
+  exportedAt: string;
+  createdAt?: string;
+  messages: DisplayMessage[];
+  state?: AgentState;
+  settings?: AssistantSettings;
+};
@@ -0,0 +1,78 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+
+/** Cookie that identifies the app's own pages to the chat and session routes. */
+export const BROWSER_COOKIE = "radius_browser";
+export const BROWSER_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+// Route modules are bundled separately, so the fallback secret lives on
+// globalThis rather than in module scope.
+const globalForBrowser = globalThis as { radiusBrowserSecret?: string };
+
+/**
+ * Key that signs browser cookies: `RADIUS_SESSION_SECRET`, else a random
+ * one per process, so cookies stop working after a restart and pages ask
+ * for a new one.
+ */
+function secret(): string {
+  const configured = process.env.RADIUS_SESSION_SECRET;
+  if (configured) return configured;
+  globalForBrowser.radiusBrowserSecret ??= randomBytes(32).toString("base64url");
+  return globalForBrowser.radiusBrowserSecret;
+}
+
+function sign(id: string): string {
+  return createHmac("sha256", secret()).update(id).digest("base64url");
+}
+
+/** A new browser id and the signed cookie value that carries it. */
+export function createBrowserCookie(): { id: string; value: string } {
+  const id = randomUUID();
+  return { id, value: `${id}.${sign(id)}` };
+}
+
+/** The browser id from a correctly signed cookie, or null. */
+export function readBrowserCookie(request: Request): string | null {
+  const value = request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${BROWSER_COOKIE}=`))
+    ?.slice(BROWSER_COOKIE.length + 1);
+  const [id, signature] = value?.split(".") ?? [];
+  if (!id || !signature) return null;
+  const given = Buffer.from(signature);
+  const expected = Buffer.from(sign(id));
+  return given.length === expected.length && timingSafeEqual(given, expected) ? id : null;
+}
+
+/**
+ * Browsers label fetches from other sites; those are refused even with a
+ * valid cookie, on top of the cookie's SameSite=Strict.
+ */
+export function isCrossSite(request: Request): boolean {
+  const site = request.headers.get("sec-fetch-site");
+  if (site) return site !== "same-origin";
+  const origin = request.headers.get("origin");
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== request.headers.get("host");
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * The stricter check for minting cookies: the request must show it comes
+ * from the app's own pages, so one without either header is refused.
+ */
+export function isSameSite(request: Request): boolean {
+  const site = request.headers.get("sec-fetch-site");
+  if (site) return site === "same-origin";
+  const origin = request.headers.get("origin");
+  if (!origin) return false;
+  try {
+    return new URL(origin).host === request.headers.get("host");
+  } catch {
+    return false;
+  }
+}
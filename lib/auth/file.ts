@@ -0,0 +1,84 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  createApiKey,
+  hashSecret,
+  toPublicKey,
+  withUsage,
+  type ApiKeyStore,
+  type StoredApiKey
+} from "./store";
+
+/**
+ * Keeps every key in one JSON file. Changes are queued so concurrent requests
+ * in one process do not overwrite each other; writes are not coordinated
+ * across processes.
+ */
+export function createFileApiKeyStore(file: string): ApiKeyStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<StoredApiKey[]> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as StoredApiKey[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async function write(keys: StoredApiKey[]) {
+    await mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    await writeFile(temporary, JSON.stringify(keys, null, 2), "utf8");
+    await rename(temporary, file);
+  }
+
+  function update<T>(change: (keys: StoredApiKey[]) => { keys?: StoredApiKey[]; result: T }) {
+    const next = queue.then(async () => {
+      const { keys, result } = change(await read());
+      if (keys) await write(keys);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    create(input) {
+      const { stored, secret } = createApiKey(input);
+      return update((keys) => ({
+        keys: [...keys, stored],
+        result: { key: toPublicKey(stored), secret }
+      }));
+    },
+    async list() {
+      return (await read()).map(toPublicKey);
+    },
+    async get(id) {
+      const key = (await read()).find((item) => item.id === id);
+      return key ? toPublicKey(key) : null;
+    },
+    async find(secret) {
+      const hash = hashSecret(secret);
+      const key = (await read()).find((item) => item.hash === hash);
+      return key ? toPublicKey(key) : null;
+    },
+    revoke(id) {
+      return update((keys) => {
+        const key = keys.find((item) => item.id === id);
+        if (!key) return { result: null };
+        const revoked = { ...key, revokedAt: key.revokedAt ?? new Date().toISOString() };
+        return {
+          keys: keys.map((item) => (item.id === id ? revoked : item)),
+          result: toPublicKey(revoked)
+        };
+      });
+    },
+    recordUsage(id, tools) {
+      return update((keys) => ({
+        keys: keys.map((item) => (item.id === id ? withUsage(item, tools) : item)),
+        result: undefined
+      }));
+    }
+  };
+}
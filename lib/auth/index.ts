@@ -0,0 +1,143 @@
+import { timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import type { NextResponse } from "next/server";
+import { apiError } from "../api/errors";
+import type { ApiError } from "../api/types";
+import { clientKey } from "../limits";
+import { isCrossSite, readBrowserCookie } from "./browser";
+import { createFileApiKeyStore } from "./file";
+import { createMemoryApiKeyStore } from "./memory";
+import type { ApiKey, ApiKeyScope, ApiKeyStore } from "./store";
+
+export {
+  BROWSER_COOKIE,
+  BROWSER_COOKIE_MAX_AGE,
+  createBrowserCookie,
+  isCrossSite,
+  isSameSite,
+  readBrowserCookie
+} from "./browser";
+export { createFileApiKeyStore } from "./file";
+export { createMemoryApiKeyStore } from "./memory";
+export { API_KEY_SCOPES, isScope } from "./store";
+export type { ApiKey, ApiKeyInput, ApiKeyScope, ApiKeyStore, ApiKeyUsage } from "./store";
+
+/** Who is making a request. */
+export type Principal =
+  | { type: "admin" }
+  | { type: "key"; key: ApiKey }
+  /** The app's own pages, recognised by their signed browser cookie. */
+  | { type: "browser"; id: string }
+  /** Anyone, while `RADIUS_API_KEYS=off`. */
+  | { type: "open" };
+
+// Route modules are bundled separately, so the shared store lives on
+// globalThis rather than in module scope.
+const globalForKeys = globalThis as { radiusApiKeyStore?: ApiKeyStore };
+
+/**
+ * Returns the process-wide key store. Set `RADIUS_API_KEY_STORE=file` (and
+ * optionally `RADIUS_API_KEY_FILE`) to keep keys on disk.
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!globalForKeys.radiusApiKeyStore) {
+    globalForKeys.radiusApiKeyStore =
+      process.env.RADIUS_API_KEY_STORE === "file"
+        ? createFileApiKeyStore(
+            process.env.RADIUS_API_KEY_FILE ?? path.join(process.cwd(), "data", "api-keys.json")
+          )
+        : createMemoryApiKeyStore();
+  }
+  return globalForKeys.radiusApiKeyStore;
+}
+
+function matches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Checks `Authorization: Bearer <token>` against `RADIUS_ADMIN_TOKEN` and the
+ * API keys. Chat and session routes also accept the signed cookie the app's
+ * pages get from `/api/auth/browser`, unless the request comes from another
+ * site; admin routes never do.
+ */
+export async function authorize(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<{ principal: Principal } | { response: NextResponse<ApiError> }> {
+  const adminToken = process.env.RADIUS_ADMIN_TOKEN;
+  const token = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/i)?.[1]
+    ?.trim();
+
+  if (token) {
+    if (adminToken && matches(token, adminToken)) return { principal: { type: "admin" } };
+    const key = await getApiKeyStore().find(token);
+    if (!key || key.revokedAt) {
+      return { response: apiError("unauthorized", "The API key is not valid or was revoked.") };
+    }
+    if (!key.scopes.includes(scope)) {
+      return {
+        response: apiError("forbidden", `This API key does not have the "${scope}" scope.`)
+      };
+    }
+    return { principal: { type: "key", key } };
+  }
+
+  if (scope === "admin") {
+    return {
+      response: adminToken
+        ? apiError("unauthorized", "An admin token or an API key with the admin scope is required.")
+        : apiError(
+            "not_configured",
+            "Admin routes are disabled. Set RADIUS_ADMIN_TOKEN to enable them."
+          )
+    };
+  }
+  if (process.env.RADIUS_API_KEYS === "off") return { principal: { type: "open" } };
+  const browser = readBrowserCookie(request);
+  if (browser && !isCrossSite(request)) return { principal: { type: "browser", id: browser } };
+  return {
+    response: apiError("unauthorized", "An API key is required: send Authorization: Bearer <key>.")
+  };
+}
+
+/**
+ * Whose sessions the caller may use: its key or browser, everyone's in open
+ * mode, and all of them (null) for the admin token.
+ */
+export function principalId(principal: Principal): string | null {
+  switch (principal.type) {
+    case "admin":
+      return null;
+    case "key":
+      return `key:${principal.key.id}`;
+    case "browser":
+      return `browser:${principal.id}`;
+    case "open":
+      return "open";
+  }
+}
+
+/**
+ * Rate-limit bucket for the caller: one per API key or browser cookie,
+ * otherwise one per address (a single shared one without a trusted proxy).
+ */
+export function limitKey(principal: Principal, request: Request): string {
+  if (principal.type === "key") return `key:${principal.key.id}`;
+  if (principal.type === "browser") return `browser:${principal.id}`;
+  return clientKey(request);
+}
+
+/** Counts a request made with an API key; other callers are not tracked. */
+export async function recordUsage(principal: Principal, tools: string[]): Promise<void> {
+  if (principal.type !== "key") return;
+  try {
+    await getApiKeyStore().recordUsage(principal.key.id, tools);
+  } catch (error) {
+    console.error("Could not record API key usage:", error);
+  }
+}
@@ -0,0 +1,43 @@
+import {
+  createApiKey,
+  hashSecret,
+  toPublicKey,
+  withUsage,
+  type ApiKeyStore,
+  type StoredApiKey
+} from "./store";
+
+export function createMemoryApiKeyStore(): ApiKeyStore {
+  const keys = new Map<string, StoredApiKey>();
+
+  return {
+    async create(input) {
+      const { stored, secret } = createApiKey(input);
+      keys.set(stored.id, stored);
+      return { key: toPublicKey(stored), secret };
+    },
+    async list() {
+      return Array.from(keys.values()).map(toPublicKey);
+    },
+    async get(id) {
+      const key = keys.get(id);
+      return key ? toPublicKey(key) : null;
+    },
+    async find(secret) {
+      const hash = hashSecret(secret);
+      const key = Array.from(keys.values()).find((item) => item.hash === hash);
+      return key ? toPublicKey(key) : null;
+    },
+    async revoke(id) {
+      const key = keys.get(id);
+      if (!key) return null;
+      const revoked = { ...key, revokedAt: key.revokedAt ?? new Date().toISOString() };
+      keys.set(id, revoked);
+      return toPublicKey(revoked);
+    },
+    async recordUsage(id, tools) {
+      const key = keys.get(id);
+      if (key) keys.set(id, withUsage(key, tools));
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from "node:crypto";
+
+export const API_KEY_SCOPES = ["chat", "sessions", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKeyUsage = {
+  requests: number;
+  /** Times each tool answered a request made with the key. */
+  tools: Record<string, number>;
+  lastUsedAt?: string;
+};
+
+/** An API key as the admin API shows it; the secret itself is never stored. */
+export type ApiKey = {
+  id: string;
+  name: string;
+  /** First characters of the secret, to tell keys apart. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  revokedAt?: string;
+  usage: ApiKeyUsage;
+};
+
+export type StoredApiKey = ApiKey & {
+  /** SHA-256 of the secret. */
+  hash: string;
+};
+
+export type ApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+};
+
+/**
+ * Persistence boundary for API keys. Every method is async so stores backed
+ * by files or a database can share the same interface.
+ */
+export type ApiKeyStore = {
+  /** Creates a key and returns its secret, which cannot be recovered later. */
+  create: (input: ApiKeyInput) => Promise<{ key: ApiKey; secret: string }>;
+  list: () => Promise<ApiKey[]>;
+  get: (id: string) => Promise<ApiKey | null>;
+  /** Finds the key for a secret, including revoked keys. */
+  find: (secret: string) => Promise<ApiKey | null>;
+  revoke: (id: string) => Promise<ApiKey | null>;
+  /** Counts one request and the tools that answered it. */
+  recordUsage: (id: string, tools: string[]) => Promise<void>;
+};
+
+const SECRET_PREFIX = "rad_";
+const PREFIX_LENGTH = 12;
+
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function isScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+export function createApiKey(input: ApiKeyInput): { stored: StoredApiKey; secret: string } {
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    secret,
+    stored: {
+      id: crypto.randomUUID(),
+      name: input.name.trim(),
+      prefix: secret.slice(0, PREFIX_LENGTH),
+      scopes: Array.from(new Set(input.scopes)),
+      createdAt: new Date().toISOString(),
+      usage: { requests: 0, tools: {} },
+      hash: hashSecret(secret)
+    }
+  };
+}
+
+export function withUsage(key: StoredApiKey, tools: string[]): StoredApiKey {
+  const counts = { ...key.usage.tools };
+  for (const tool of tools) counts[tool] = (counts[tool] ?? 0) + 1;
+  return {
+    ...key,
+    usage: { requests: key.usage.requests + 1, tools: counts, lastUsedAt: new Date().toISOString() }
+  };
+}
+
+export function toPublicKey({ hash: _hash, ...key }: StoredApiKey): ApiKey {
+  return key;
+}
@@ -0,0 +1,494 @@
+import { Parser } from "expr-eval";
+import { DEFAULT_LOCALE, intlTag, t, type Locale } from "./locale";
+import { currencyForSymbol, findUnit, type Unit } from "./units";
+
+export type Quantity = {
+  /** Value expressed in the unit's base (metres, kilograms, US dollars). */
+  base: number;
+  unit: Unit | null;
+};
+
+export type CalculatorScope = {
+  variables: Map<string, Quantity>;
+  results: Quantity[];
+};
+
+export type Evaluation =
+  | { kind: "value"; expression: string; result: Quantity; assigned?: string }
+  | { kind: "error"; message: string }
+  | { kind: "empty" };
+
+type TokenType = "number" | "word" | "operator" | "open" | "close" | "comma" | "other";
+
+type Token = {
+  type: TokenType;
+  text: string;
+  /** Offsets of the raw match within the original message. */
+  index: number;
+  end: number;
+  currency?: string;
+};
+
+type ExprPart = {
+  text: string;
+  token: Token;
+  end: number;
+  /** Set on numbers and variables: the unit they carry, if any. */
+  unit?: Unit | null;
+};
+
+/** The unit an expression (or part of one) comes out in, and where it came from. */
+type Measure = {
+  unit: Unit | null;
+  part: ExprPart;
+};
+
+const parser = new Parser();
+
+const FUNCTIONS = new Set([
+  "abs",
+  "ceil",
+  "floor",
+  "round",
+  "sqrt",
+  "cbrt",
+  "exp",
+  "log",
+  "ln",
+  "log10",
+  "sin",
+  "cos",
+  "tan",
+  "min",
+  "max",
+  "pow"
+]);
+
+/** Functions whose result keeps the unit of their arguments. */
+const UNIT_FUNCTIONS = new Set(["abs", "ceil", "floor", "round", "min", "max"]);
+
+const TOKEN_PATTERN =
+  /([$€£¥])?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?|\.\d+)|([a-z_][a-z0-9_]*)|([+\-*/%^×÷])|(\()|(\))|(,)|(\S)/gi;
+
+/**
+ * Spanish, German and French write "3,5" for three and a half and group
+ * thousands with a dot or a narrow space ("1.250,5"). A dot followed by
+ * anything but three digits still reads as a decimal point, and a comma
+ * separates arguments only when a space follows it ("max(1, 5)").
+ */
+const DECIMAL_COMMA_PATTERN =
+  /([$€£¥])?([1-9]\d{0,2}(?:[.\u00a0\u202f]\d{3})+(?:,\d+)?(?!\d)|\d+(?:[.,]\d+)?|[.,]\d+)|([a-z_][a-z0-9_]*)|([+\-*/%^×÷])|(\()|(\))|(,)|(\S)/gi;
+
+const GROUPED = /^[1-9]\d{0,2}(?:[.\u00a0\u202f]\d{3})+(?:,\d+)?$/;
+
+const ASSIGNMENT = /^\s*(?:let\s+|set\s+)?([a-z_][a-z0-9_]*)\s*=\s*(?=\S)/i;
+const CONVERSION = /\s+(?:in|to|as|into|en|a|nach)\s+([a-z]+)\s*[?.!]?\s*$/i;
+
+export function createScope(): CalculatorScope {
+  return { variables: new Map(), results: [] };
+}
+
+export function usesDecimalComma(locale: Locale = DEFAULT_LOCALE): boolean {
+  return locale !== "en";
+}
+
+/** Rewrites a matched number the way `Number()` reads it. */
+function plainNumber(text: string, locale: Locale): string {
+  if (!usesDecimalComma(locale)) return text.replace(/,/g, "");
+  const digits = GROUPED.test(text) ? text.replace(/[.\u00a0\u202f]/g, "") : text;
+  return digits.replace(",", ".");
+}
+
+/** Reads a number as written in the locale, such as "14,400" or "1.250,5". */
+export function parseNumber(text: string, locale: Locale = DEFAULT_LOCALE): number {
+  return Number(plainNumber(text, locale));
+}
+
+function tokenize(input: string, offset: number, locale: Locale): Token[] {
+  const tokens: Token[] = [];
+  const pattern = usesDecimalComma(locale) ? DECIMAL_COMMA_PATTERN : TOKEN_PATTERN;
+  for (const match of input.matchAll(pattern)) {
+    const [text, currency, number, word, operator, open, close, comma] = match;
+    const index = (match.index ?? 0) + offset;
+    const end = index + text.length;
+    if (number !== undefined) {
+      tokens.push({ type: "number", text: plainNumber(number, locale), index, end, currency });
+    } else if (word !== undefined) {
+      tokens.push({ type: "word", text: word, index, end });
+    } else if (operator !== undefined) {
+      const normalised = operator === "×" ? "*" : operator === "÷" ? "/" : operator;
+      tokens.push({ type: "operator", text: normalised, index, end });
+    } else if (open !== undefined) {
+      tokens.push({ type: "open", text: "(", index, end });
+    } else if (close !== undefined) {
+      tokens.push({ type: "close", text: ")", index, end });
+    } else if (comma !== undefined) {
+      tokens.push({ type: "comma", text: ",", index, end });
+    } else {
+      tokens.push({ type: "other", text, index, end });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * A word counts as a variable reference when an operator binds it to the
+ * rest of the expression; other words are prose and get skipped. A leading
+ * `-` only binds when spaced like a binary minus ("rate - 1", not "is -3").
+ */
+function isBoundByOperator(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  if (previous?.type === "operator") return true;
+  if (next?.type !== "operator") return false;
+  if (next.text !== "-") return true;
+  const after = tokens[index + 2];
+  return after !== undefined && after.index > next.end;
+}
+
+function lookup(name: string, scope: CalculatorScope): Quantity | undefined {
+  const lower = name.toLowerCase();
+  if (lower === "ans") return scope.results[scope.results.length - 1];
+  const numbered = lower.match(/^ans(\d+)$/);
+  if (numbered) return scope.results[Number(numbered[1]) - 1];
+  return scope.variables.get(lower);
+}
+
+function describeError(
+  token: Token,
+  reason: string,
+  locale: Locale,
+  text = token.text
+): Evaluation {
+  return {
+    kind: "error",
+    message: t(locale, "calc.at", { reason, text, position: token.index + 1 })
+  };
+}
+
+export function formatNumber(result: number, locale: Locale = DEFAULT_LOCALE): string {
+  if (Math.abs(result) >= 1_000) {
+    return result.toLocaleString(intlTag(locale), { maximumFractionDigits: 4 });
+  }
+  return usesDecimalComma(locale)
+    ? result.toLocaleString(intlTag(locale), { maximumSignificantDigits: 8 })
+    : Number(result.toPrecision(8)).toString();
+}
+
+export function formatQuantity(quantity: Quantity, locale: Locale = DEFAULT_LOCALE): string {
+  if (!quantity.unit) return formatNumber(quantity.base, locale);
+  return `${formatNumber(quantity.base / quantity.unit.factor, locale)} ${quantity.unit.symbol}`;
+}
+
+/**
+ * Maps an expr-eval error back to the token that caused it. The parser
+ * reports either a column (`[1:10]`) or the unexpected token's text.
+ */
+function locateParseError(parts: ExprPart[], starts: number[], message: string): Token {
+  const column = message.match(/\[\d+:(\d+)\]/);
+  if (column) {
+    const position = Number(column[1]) - 1;
+    let culprit = parts[parts.length - 1];
+    parts.forEach((part, index) => {
+      if (starts[index] <= position) culprit = part;
+    });
+    return culprit.token;
+  }
+
+  const unexpected = message.match(/unexpected \w+: (.+)$/);
+  if (unexpected) {
+    const binds = (part: ExprPart | undefined) =>
+      !part || ["operator", "open", "comma"].includes(part.token.type);
+    const culprit =
+      parts.find((part, index) => part.text === unexpected[1] && binds(parts[index - 1])) ??
+      parts.find((part) => part.text === unexpected[1]);
+    if (culprit) return culprit.token;
+  }
+  return parts[parts.length - 1].token;
+}
+
+/**
+ * Works out the unit of an expression the parser has accepted. Quantities add
+ * and subtract within one dimension, scale by plain numbers and divide into
+ * plain ratios; anything else (area, a number per kilogram) is refused at the
+ * operand that caused it.
+ */
+function measureUnits(parts: ExprPart[], input: string, locale: Locale): Measure | Evaluation {
+  let position = 0;
+  const isOperator = (...texts: string[]) =>
+    parts[position]?.token.type === "operator" && texts.includes(parts[position].text);
+  const isError = (value: Measure | Evaluation): value is Evaluation => "kind" in value;
+  const dimension = (unit: Unit | null) =>
+    t(locale, unit ? `dimension.${unit.dimension}` : "dimension.none");
+  const source = ({ part }: Measure) => input.slice(part.token.index, part.end);
+  const fail = (at: Measure, reason: string) =>
+    describeError(at.part.token, reason, locale, source(at));
+  const cannotCombine = (left: Measure, right: Measure) =>
+    fail(
+      right,
+      t(locale, "calc.combine", {
+        first: dimension(left.unit),
+        text: source(left),
+        second: dimension(right.unit)
+      })
+    );
+
+  const combine = (left: Measure, operator: string, right: Measure): Measure | Evaluation => {
+    const same = left.unit?.dimension === right.unit?.dimension;
+    switch (operator) {
+      case "+":
+      case "-":
+        return same ? left : cannotCombine(left, right);
+      case "*":
+        if (left.unit && right.unit) {
+          return fail(
+            right,
+            t(locale, "calc.multiply", {
+              first: dimension(left.unit),
+              text: source(left),
+              second: dimension(right.unit)
+            })
+          );
+        }
+        return left.unit ? left : right;
+      case "/":
+      case "%":
+        if (!right.unit) return left;
+        if (same) return operator === "/" ? { unit: null, part: left.part } : left;
+        return fail(
+          right,
+          t(locale, "calc.divide", { first: dimension(left.unit), second: dimension(right.unit) })
+        );
+      default: {
+        const quantity = left.unit ? left : right.unit ? right : null;
+        if (!quantity) return left;
+        return fail(quantity, t(locale, "calc.power", { dimension: dimension(quantity.unit) }));
+      }
+    }
+  };
+
+  const call = (name: ExprPart, args: Measure[]): Measure | Evaluation => {
+    const [first, ...rest] = args;
+    if (!UNIT_FUNCTIONS.has(name.text)) {
+      const quantity = args.find((arg) => arg.unit);
+      if (!quantity) return { unit: null, part: name };
+      return fail(
+        quantity,
+        t(locale, "calc.function", { name: name.token.text, dimension: dimension(quantity.unit) })
+      );
+    }
+    const mismatch = rest.find((arg) => arg.unit?.dimension !== first.unit?.dimension);
+    return mismatch ? cannotCombine(first, mismatch) : first;
+  };
+
+  // Precedence follows expr-eval: + and -, then * / %, then unary signs, then ^.
+  const sum = (): Measure | Evaluation => {
+    let left = product();
+    while (!isError(left) && isOperator("+", "-")) {
+      const operator = parts[position++].text;
+      const right = product();
+      left = isError(right) ? right : combine(left, operator, right);
+    }
+    return left;
+  };
+  const product = (): Measure | Evaluation => {
+    let left = signed();
+    while (!isError(left) && isOperator("*", "/", "%")) {
+      const operator = parts[position++].text;
+      const right = signed();
+      left = isError(right) ? right : combine(left, operator, right);
+    }
+    return left;
+  };
+  const signed = (): Measure | Evaluation => {
+    if (!isOperator("+", "-")) return power();
+    position += 1;
+    return signed();
+  };
+  const power = (): Measure | Evaluation => {
+    const base = operand();
+    if (isError(base) || !isOperator("^")) return base;
+    position += 1;
+    const exponent = signed();
+    return isError(exponent) ? exponent : combine(base, "^", exponent);
+  };
+  const operand = (): Measure | Evaluation => {
+    const part = parts[position++];
+    if (part.token.type === "open") {
+      const inner = sum();
+      position += 1;
+      return inner;
+    }
+    if (part.unit !== undefined) return { unit: part.unit, part };
+    position += 1;
+    const args: Measure[] = [];
+    for (;;) {
+      const arg = sum();
+      if (isError(arg)) return arg;
+      args.push(arg);
+      if (parts[position++]?.token.type !== "comma") break;
+    }
+    return call(part, args);
+  };
+
+  return sum();
+}
+
+/**
+ * Evaluates arithmetic embedded in free text. Understands `let name = …`
+ * assignments, `ans`/`ansN` references to earlier results, numbers with
+ * length, mass or currency units, and trailing `in <unit>` conversions.
+ * Numbers and error messages follow `locale`. Successful evaluations are
+ * recorded in `scope`.
+ */
+export function evaluate(
+  input: string,
+  scope: CalculatorScope,
+  locale: Locale = DEFAULT_LOCALE
+): Evaluation {
+  let body = input;
+  let offset = 0;
+  let assigned: string | undefined;
+
+  const assignment = input.match(ASSIGNMENT);
+  if (
+    assignment &&
+    !FUNCTIONS.has(assignment[1].toLowerCase()) &&
+    !/^ans\d*$/i.test(assignment[1])
+  ) {
+    assigned = assignment[1].toLowerCase();
+    offset = assignment[0].length;
+    body = input.slice(offset);
+  }
+
+  let target: Unit | null = null;
+  const conversion = body.match(CONVERSION);
+  if (conversion && findUnit(conversion[1])) {
+    target = findUnit(conversion[1]);
+    body = body.slice(0, conversion.index);
+  }
+
+  const tokens = tokenize(body, offset, locale);
+  const parts: ExprPart[] = [];
+  const values: Record<string, number> = {};
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    switch (token.type) {
+      case "number": {
+        let value = Number(token.text);
+        let tokenUnit = token.currency ? currencyForSymbol(token.currency) : null;
+        let end = token.end;
+        const next = tokens[index + 1];
+        const suffix = next?.type === "word" ? findUnit(next.text) : null;
+        if (!tokenUnit && suffix) {
+          tokenUnit = suffix;
+          end = next.end;
+          index += 1;
+        }
+        if (tokenUnit) value *= tokenUnit.factor;
+        const name = `__q${parts.length}`;
+        values[name] = value;
+        parts.push({ text: name, token, end, unit: tokenUnit });
+        break;
+      }
+      case "word": {
+        const lower = token.text.toLowerCase();
+        const next = tokens[index + 1];
+        if (FUNCTIONS.has(lower) && next?.type === "open") {
+          parts.push({ text: lower === "ln" ? "log" : lower, token, end: token.end });
+          break;
+        }
+        const quantity = lookup(lower, scope);
+        if (quantity) {
+          const name = `__q${parts.length}`;
+          values[name] = quantity.base;
+          parts.push({ text: name, token, end: token.end, unit: quantity.unit });
+          break;
+        }
+        if (isBoundByOperator(tokens, index)) {
+          return describeError(token, t(locale, "calc.unknownVariable"), locale);
+        }
+        break;
+      }
+      case "operator":
+      case "open":
+      case "close":
+      case "comma":
+        parts.push({ text: token.text, token, end: token.end });
+        break;
+      default:
+        break;
+    }
+  }
+
+  while (parts.length && parts[0].token.type === "comma") parts.shift();
+  while (parts.length && parts[parts.length - 1].token.type === "comma") parts.pop();
+
+  if (!parts.some(({ token }) => token.type === "number" || token.type === "word")) {
+    return { kind: "empty" };
+  }
+
+  let depth = 0;
+  for (const { token } of parts) {
+    if (token.type === "open") depth += 1;
+    if (token.type === "close") depth -= 1;
+    if (depth < 0) return describeError(token, t(locale, "calc.unopened"), locale);
+  }
+  if (depth > 0) {
+    const lastOpen = [...parts].reverse().find(({ token }) => token.type === "open");
+    if (lastOpen) return describeError(lastOpen.token, t(locale, "calc.unclosed"), locale);
+  }
+
+  let expression = "";
+  const starts: number[] = [];
+  for (const part of parts) {
+    if (expression) expression += " ";
+    starts.push(expression.length);
+    expression += part.text;
+  }
+
+  let result: unknown;
+  try {
+    result = parser.evaluate(expression, values);
+  } catch (error) {
+    return describeError(
+      locateParseError(parts, starts, (error as Error).message),
+      t(locale, "calc.malformed"),
+      locale
+    );
+  }
+
+  if (typeof result !== "number" || !Number.isFinite(result)) {
+    return {
+      kind: "error",
+      message: t(locale, "calc.nonNumeric")
+    };
+  }
+
+  const measured = measureUnits(parts, input, locale);
+  if ("kind" in measured) return measured;
+  if (target && measured.unit?.dimension !== target.dimension) {
+    return {
+      kind: "error",
+      message: t(locale, "calc.convert", {
+        dimension: t(
+          locale,
+          measured.unit ? `dimension.${measured.unit.dimension}` : "dimension.none"
+        ),
+        unit: target.symbol
+      })
+    };
+  }
+
+  const quantity: Quantity = { base: result, unit: target ?? measured.unit };
+  scope.results.push(quantity);
+  if (assigned) scope.variables.set(assigned, quantity);
+
+  return {
+    kind: "value",
+    expression: input.slice(parts[0].token.index, parts[parts.length - 1].end),
+    result: quantity,
+    assigned
+  };
+}
@@ -0,0 +1,337 @@
+import { formatDay, formatTime, type Plan } from "./planner";
+import { DEFAULT_NAME } from "./settings";
+
+/** Minutes after midnight that bound the time blocks on each working day. */
+export type WorkingHours = {
+  start: number;
+  end: number;
+};
+
+export type TimeBlock = {
+  uid: string;
+  title: string;
+  /** Local wall-clock time (`YYYY-MM-DDTHH:mm`), or a date for all-day blocks. */
+  start: string;
+  end: string;
+  allDay?: boolean;
+  description?: string;
+};
+
+export type CalendarTask = {
+  task: string;
+  effortMinutes?: number;
+};
+
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9 * 60, end: 17 * 60 };
+const MAX_BLOCK_MINUTES = 120;
+const BREAK_MINUTES = 15;
+const MIN_BLOCK_MINUTES = 30;
+const DEFAULT_TASK_MINUTES = 60;
+/** Most steps or tasks, effort per item and blocks one export may contain. */
+export const MAX_CALENDAR_ITEMS = 100;
+export const MAX_EFFORT_MINUTES = 1000 * 60;
+const MAX_BLOCKS = 1000;
+
+function toMinutes(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Parses a window such as `09:00-17:00` or `8-16`. */
+export function parseWorkingHours(value: string): WorkingHours | null {
+  const [from, to, ...rest] = value.split(/\s*[-–]\s*/);
+  if (!from || !to || rest.length) return null;
+  const start = toMinutes(from);
+  const end = toMinutes(to);
+  if (start === null || end === null || end - start < 30) return null;
+  return { start, end };
+}
+
+/** Working hours from `RADIUS_WORKING_HOURS`, falling back to 09:00–17:00. */
+export function defaultWorkingHours(): WorkingHours {
+  const configured = typeof process !== "undefined" ? process.env.RADIUS_WORKING_HOURS : undefined;
+  if (!configured) return DEFAULT_WORKING_HOURS;
+  const parsed = parseWorkingHours(configured);
+  if (!parsed) console.error(`Ignoring malformed RADIUS_WORKING_HOURS "${configured}"`);
+  return parsed ?? DEFAULT_WORKING_HOURS;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function describeWorkingHours({ start, end }: WorkingHours): string {
+  const clock = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  return `${clock(start)}–${clock(end)}`;
+}
+
+function parseLocal(value: string): Date {
+  const [date, time = "00:00"] = value.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+function atMinute(day: Date, minutes: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+}
+
+function minuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function nextDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+/**
+ * Walks forward through working hours handing out blocks of up to two hours,
+ * with a short break between blocks.
+ */
+function createCursor(from: Date, hours: WorkingHours, weekends: boolean) {
+  let cursor = from;
+
+  const isWorkingDay = (date: Date) => weekends || (date.getDay() !== 0 && date.getDay() !== 6);
+
+  // Moves into working hours, skipping slots too short for a useful block.
+  const settle = (minutes: number) => {
+    const shortest = Math.min(minutes, MIN_BLOCK_MINUTES);
+    for (;;) {
+      const minute = minuteOfDay(cursor);
+      if (!isWorkingDay(cursor) || minute > hours.end - shortest) {
+        cursor = atMinute(nextDay(cursor), hours.start);
+      } else if (minute < hours.start) {
+        cursor = atMinute(cursor, hours.start);
+      } else {
+        return;
+      }
+    }
+  };
+
+  return {
+    /** Moves the cursor forward to `date` if it is behind it. */
+    skipTo(date: Date) {
+      if (date > cursor) cursor = date;
+    },
+    take(minutes: number): { start: Date; end: Date } {
+      settle(minutes);
+      const available = hours.end - minuteOfDay(cursor);
+      let length = Math.min(minutes, MAX_BLOCK_MINUTES, available);
+      // Never leave a sliver behind: absorb it or leave a full short block.
+      const leftover = minutes - length;
+      if (leftover > 0 && leftover < MIN_BLOCK_MINUTES) {
+        if (minutes <= available) length = minutes;
+        else if (length - (MIN_BLOCK_MINUTES - leftover) >= MIN_BLOCK_MINUTES) {
+          length -= MIN_BLOCK_MINUTES - leftover;
+        }
+      }
+      const start = cursor;
+      const end = new Date(start.getTime() + length * 60 * 1000);
+      cursor = new Date(end.getTime() + BREAK_MINUTES * 60 * 1000);
+      return { start, end };
+    }
+  };
+}
+
+/** Rounds up to the next quarter hour so blocks start on tidy times. */
+function roundUp(date: Date): Date {
+  const rounded = new Date(date);
+  rounded.setMinutes(Math.ceil(rounded.getMinutes() / 15) * 15, 0, 0);
+  return rounded;
+}
+
+/** Keeps effort finite and bounded so the block loops always end. */
+function clampEffort(minutes: number): number {
+  return Number.isFinite(minutes) ? Math.min(Math.max(minutes, 0), MAX_EFFORT_MINUTES) : 0;
+}
+
+function slug(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 40) || "item"
+  );
+}
+
+/**
+ * Splits a plan into calendar blocks. Day plans are time-blocked inside the
+ * working hours from `from` onwards, never starting a step before its planned
+ * day; milestones become all-day entries. Timed plans keep their exact times.
+ */
+export function blocksForPlan(
+  plan: Plan,
+  hours = defaultWorkingHours(),
+  from = new Date()
+): TimeBlock[] {
+  const prefix = `${plan.start}-${slug(plan.goal)}`;
+
+  if (plan.granularity === "time") {
+    return plan.steps.map((step) => ({
+      uid: `${prefix}-${step.id}`,
+      title: step.title,
+      start: step.start,
+      end: step.end,
+      description: plan.goal
+    }));
+  }
+
+  const weekends = plan.weekends === "only" || plan.weekends === "included";
+  const cursor = createCursor(roundUp(from), hours, weekends);
+  const blocks: TimeBlock[] = [];
+  const ordered = [...plan.steps]
+    .slice(0, MAX_CALENDAR_ITEMS)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  for (const step of ordered) {
+    if (blocks.length >= MAX_BLOCKS) break;
+    if (step.effortMinutes === 0) {
+      blocks.push({
+        uid: `${prefix}-${step.id}`,
+        title: `◆ ${step.title}`,
+        start: step.start,
+        end: formatDay(nextDay(parseLocal(step.start))),
+        allDay: true,
+        description: `Milestone for ${plan.goal}`
+      });
+      continue;
+    }
+
+    cursor.skipTo(atMinute(parseLocal(step.start), hours.start));
+    const parts: Array<{ start: Date; end: Date }> = [];
+    let remaining = clampEffort(step.effortMinutes);
+    while (remaining > 0 && blocks.length + parts.length < MAX_BLOCKS) {
+      const part = cursor.take(remaining);
+      parts.push(part);
+      remaining -= (part.end.getTime() - part.start.getTime()) / 60000;
+    }
+    parts.forEach((part, index) => {
+      blocks.push({
+        uid: `${prefix}-${step.id}-${index + 1}`,
+        title: parts.length > 1 ? `${step.title} (${index + 1}/${parts.length})` : step.title,
+        start: formatTime(part.start),
+        end: formatTime(part.end),
+        description: `Step of ${plan.goal}`
+      });
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Time-blocks ranked tasks in order, starting at the next working slot after
+ * `from`. Tasks without an estimate get an hour.
+ */
+export function blocksForTasks(
+  tasks: CalendarTask[],
+  hours = defaultWorkingHours(),
+  from = new Date()
+): TimeBlock[] {
+  const cursor = createCursor(roundUp(from), hours, false);
+  const prefix = formatDay(from);
+  let total = 0;
+
+  return tasks.slice(0, MAX_CALENDAR_ITEMS).flatMap(({ task, effortMinutes }, taskIndex) => {
+    const blocks: TimeBlock[] = [];
+    let remaining = clampEffort(effortMinutes ?? DEFAULT_TASK_MINUTES);
+    while (remaining > 0 && total < MAX_BLOCKS) {
+      total += 1;
+      const part = cursor.take(remaining);
+      remaining -= (part.end.getTime() - part.start.getTime()) / 60000;
+      blocks.push({
+        uid: `${prefix}-task-${taskIndex + 1}-${blocks.length + 1}-${slug(task)}`,
+        title: task,
+        start: formatTime(part.start),
+        end: formatTime(part.end),
+        description: `Priority ${taskIndex + 1}`
+      });
+    }
+    return blocks;
+  });
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line at 75 octets without splitting UTF-8 characters. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const character of line) {
+    const length = encoder.encode(character).length;
+    const limit = lines.length === 0 ? 75 : 74;
+    if (size + length > limit) {
+      lines.push(current);
+      current = "";
+      size = 0;
+    }
+    current += character;
+    size += length;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+function icsDateTime(value: string): string {
+  return `${value.replace(/-/g, "").replace(":", "")}00`;
+}
+
+function icsDate(value: string): string {
+  return value.slice(0, 10).replace(/-/g, "");
+}
+
+function icsStamp(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+}
+
+/**
+ * Serialises blocks as an RFC 5545 calendar. Times are floating local times,
+ * so calendars place them in the reader's own time zone. `assistant` is the
+ * name the conversation gave the assistant, used for the producer id.
+ */
+export function toICalendar(
+  blocks: TimeBlock[],
+  name = DEFAULT_NAME,
+  now = new Date(),
+  assistant = DEFAULT_NAME
+): string {
+  const stamp = icsStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${escapeText(assistant)}//Planner//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`
+  ];
+  for (const block of blocks) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${block.uid}@radius`,
+      `DTSTAMP:${stamp}`,
+      block.allDay
+        ? `DTSTART;VALUE=DATE:${icsDate(block.start)}`
+        : `DTSTART:${icsDateTime(block.start)}`,
+      block.allDay ? `DTEND;VALUE=DATE:${icsDate(block.end)}` : `DTEND:${icsDateTime(block.end)}`,
+      `SUMMARY:${escapeText(block.title)}`,
+      ...(block.description ? [`DESCRIPTION:${escapeText(block.description)}`] : []),
+      block.allDay ? "TRANSP:TRANSPARENT" : "TRANSP:OPAQUE",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,70 @@
+import { JOINERS } from "./locale/lexicon";
+import type { AgentTool, ToolRegistry } from "./tools";
+
+export type RoutedRequest = {
+  tool: AgentTool;
+  input: string;
+};
+
+// Sentence ends, semicolons, line breaks and joining words mark the places
+// where a message can be split into separate sub-requests. A joining word
+// that opens the next sentence ("… by Friday. Also add …") is part of the break.
+// Spanish, German and French joiners ("und dann", "puis") count too.
+const JOINER = `and then|and also|then|also|plus|${JOINERS}`;
+const SEPARATOR = new RegExp(
+  `(\\s*(?:[.?!](?=\\s)|;|\\n)\\s*(?:(?:${JOINER})\\s+)?|\\s+(?:${JOINER}|and)\\s+)`,
+  "iu"
+);
+
+type Segment = {
+  tool: AgentTool;
+  text: string;
+};
+
+/**
+ * Splits a message into sub-requests, one per matching tool. Segments that
+ * only reach the fallback tool are folded into their neighbours, and greedy
+ * tools (such as task lists) keep everything that follows them. A message
+ * that resolves to a single tool comes back whole.
+ */
+export function routeRequest(input: string, registry: ToolRegistry): RoutedRequest[] {
+  const whole = registry.resolve(input);
+  if (!whole) return [];
+
+  const parts = input.split(SEPARATOR);
+  const segments: Segment[] = [];
+  let pending = "";
+
+  for (let index = 0; index < parts.length; index += 2) {
+    const separator = index > 0 ? parts[index - 1] : "";
+    const text = parts[index];
+    const previous = segments[segments.length - 1];
+
+    if (previous && previous.tool.greedy) {
+      previous.text += separator + text;
+      continue;
+    }
+
+    const tool = text.trim() ? registry.resolve(text) : null;
+    if (!tool || tool.fallback || (previous && previous.tool.id === tool.id)) {
+      if (previous) {
+        previous.text += separator + text;
+      } else {
+        pending += separator + text;
+      }
+      continue;
+    }
+
+    segments.push({ tool, text: pending + (pending ? separator : "") + text });
+    pending = "";
+  }
+
+  if (segments.length <= 1) {
+    return [{ tool: segments[0]?.tool ?? whole, input }];
+  }
+
+  return segments.map(({ tool, text }) => ({
+    tool,
+    input: text.trim().replace(/[\s,:]+$/, "")
+  }));
+}
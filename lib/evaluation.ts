@@ -0,0 +1,224 @@
+import { runAgent, type AgentData, type AgentMessage, type AgentState } from "./agent";
+import type { Locale } from "./locale";
+import type { AssistantSettings } from "./settings";
+import type { ToolRegistry } from "./tools";
+
+/**
+ * One golden transcript: a prompt, optionally after earlier user turns, and
+ * what the reply must look like. Earlier turns are replayed through the agent
+ * so follow-ups see real replies and state.
+ */
+export type GoldenCase = {
+  name: string;
+  /** Earlier user messages, sent one by one before the prompt. */
+  history?: string[];
+  state?: AgentState;
+  /** Language of the prompt and the reply; English when absent. */
+  locale?: Locale;
+  /** A system message that opens the conversation, e.g. a persona. */
+  system?: string;
+  settings?: AssistantSettings;
+  prompt: string;
+  expect: {
+    /** Tool ids the prompt must route to, in order; one for simple requests. */
+    tools: string[];
+    /** Case-insensitive text the reply must contain. */
+    contains?: string[];
+    /** Case-insensitive text the reply must not contain. */
+    excludes?: string[];
+    /** Structured results the reply must carry, e.g. `plan`. */
+    data?: Array<keyof AgentData>;
+  };
+};
+
+export type CaseResult = {
+  name: string;
+  prompt: string;
+  expected: string[];
+  actual: string[];
+  routed: boolean;
+  /** Failed content and data assertions; empty when the reply matched. */
+  failures: string[];
+  passed: boolean;
+};
+
+export type ToolAccuracy = {
+  tool: string;
+  cases: number;
+  /** Cases whose first tool was routed correctly. */
+  routed: number;
+  /** Cases that also passed every content assertion. */
+  passed: number;
+};
+
+export type EvaluationReport = {
+  results: CaseResult[];
+  /** Counts keyed by expected tool, then actual tool (the first of each list). */
+  confusion: Record<string, Record<string, number>>;
+  tools: ToolAccuracy[];
+  passed: number;
+  total: number;
+};
+
+export type EvaluationOptions = {
+  registry?: ToolRegistry;
+};
+
+const NONE = "(none)";
+
+function checkReply(
+  content: string,
+  data: AgentData | undefined,
+  expect: GoldenCase["expect"]
+): string[] {
+  const text = content.toLowerCase();
+  const failures: string[] = [];
+  for (const needle of expect.contains ?? []) {
+    if (!text.includes(needle.toLowerCase())) failures.push(`missing "${needle}"`);
+  }
+  for (const needle of expect.excludes ?? []) {
+    if (text.includes(needle.toLowerCase())) failures.push(`unexpected "${needle}"`);
+  }
+  for (const key of expect.data ?? []) {
+    if (!data?.[key]) failures.push(`no data.${key}`);
+  }
+  return failures;
+}
+
+/**
+ * Runs one case with the model disabled, so results depend only on the
+ * rule-based tools.
+ */
+export async function evaluateCase(
+  golden: GoldenCase,
+  options: EvaluationOptions = {}
+): Promise<CaseResult> {
+  const messages: AgentMessage[] = golden.system
+    ? [{ role: "system", content: golden.system }]
+    : [];
+  let state = golden.state ?? {};
+  const { locale, settings } = golden;
+  for (const turn of golden.history ?? []) {
+    messages.push({ role: "user", content: turn });
+    const reply = await runAgent(messages, {
+      registry: options.registry,
+      state,
+      locale,
+      settings,
+      llm: null
+    });
+    messages.push({ role: "assistant", content: reply.content });
+    state = reply.state ?? state;
+  }
+
+  const actual: string[] = [];
+  messages.push({ role: "user", content: golden.prompt });
+  const reply = await runAgent(messages, {
+    registry: options.registry,
+    state,
+    locale,
+    settings,
+    llm: null,
+    onTool: (id) => actual.push(id)
+  });
+
+  const expected = golden.expect.tools;
+  const routed = expected.join(",") === actual.join(",");
+  const failures = checkReply(reply.content, reply.data, golden.expect);
+  return {
+    name: golden.name,
+    prompt: golden.prompt,
+    expected,
+    actual,
+    routed,
+    failures,
+    passed: routed && failures.length === 0
+  };
+}
+
+export async function evaluateCases(
+  cases: GoldenCase[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const results: CaseResult[] = [];
+  for (const golden of cases) results.push(await evaluateCase(golden, options));
+
+  const confusion: EvaluationReport["confusion"] = {};
+  const accuracy = new Map<string, ToolAccuracy>();
+  for (const result of results) {
+    const expected = result.expected[0] ?? NONE;
+    const actual = result.actual[0] ?? NONE;
+    confusion[expected] = confusion[expected] ?? {};
+    confusion[expected][actual] = (confusion[expected][actual] ?? 0) + 1;
+
+    const entry = accuracy.get(expected) ?? { tool: expected, cases: 0, routed: 0, passed: 0 };
+    entry.cases += 1;
+    if (expected === actual) entry.routed += 1;
+    if (result.passed) entry.passed += 1;
+    accuracy.set(expected, entry);
+  }
+
+  return {
+    results,
+    confusion,
+    tools: Array.from(accuracy.values()).sort((a, b) => a.tool.localeCompare(b.tool)),
+    passed: results.filter((result) => result.passed).length,
+    total: results.length
+  };
+}
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "-" : `${Math.round((part / whole) * 100)}%`;
+}
+
+function pad(value: string | number, width: number): string {
+  return String(value).padStart(width);
+}
+
+/**
+ * Formats the report for a terminal: failures first, then the confusion
+ * matrix (rows are expected tools, columns actual ones) and per-tool accuracy.
+ */
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  const failed = report.results.filter((result) => !result.passed);
+  for (const result of failed) {
+    const problems = [
+      ...(result.routed
+        ? []
+        : [
+            `routed to ${result.actual.join(" + ") || NONE}, expected ${result.expected.join(" + ")}`
+          ]),
+      ...result.failures
+    ];
+    lines.push(`✗ ${result.name}: ${problems.join("; ")}`, `    ${JSON.stringify(result.prompt)}`);
+  }
+  if (failed.length > 0) lines.push("");
+
+  const labels = Array.from(
+    new Set([
+      ...Object.keys(report.confusion),
+      ...Object.values(report.confusion).flatMap((row) => Object.keys(row))
+    ])
+  ).sort();
+  const width = Math.max(...labels.map((label) => label.length), "expected".length) + 2;
+  lines.push(
+    "Routing (rows: expected, columns: actual)",
+    `${"expected".padEnd(width)}${labels.map((label) => pad(label, width)).join("")}`
+  );
+  for (const expected of labels.filter((label) => report.confusion[label])) {
+    const row = report.confusion[expected];
+    lines.push(
+      `${expected.padEnd(width)}${labels.map((label) => pad(row[label] ?? ".", width)).join("")}`
+    );
+  }
+
+  lines.push("", "Per tool            cases   routed   passed");
+  for (const tool of report.tools) {
+    const routed = percent(tool.routed, tool.cases);
+    const passed = percent(tool.passed, tool.cases);
+    lines.push(`${tool.tool.padEnd(18)}${pad(tool.cases, 7)}${pad(routed, 9)}${pad(passed, 9)}`);
+  }
+  lines.push("", `${report.passed}/${report.total} cases passed.`);
+  return lines.join("\n");
+}
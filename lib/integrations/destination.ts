@@ -0,0 +1,91 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+/** Where Slack sends `response_url`s unless `RADIUS_SLACK_ALLOWED_HOSTS` says otherwise. */
+const SLACK_HOSTS = ["hooks.slack.com"];
+
+// Loopback, private, link-local (including cloud metadata), shared and
+// reserved ranges: delayed replies never go there.
+const INTERNAL = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3]
+] as const) {
+  INTERNAL.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  INTERNAL.addSubnet(network, prefix, "ipv6");
+}
+
+function readHosts(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Hosts generic webhooks may name as `response_url`, from `RADIUS_WEBHOOK_ALLOWED_HOSTS`; none by default. */
+export function webhookHosts(): string[] {
+  return readHosts(process.env.RADIUS_WEBHOOK_ALLOWED_HOSTS, []);
+}
+
+/** Hosts Slack `response_url`s may use, from `RADIUS_SLACK_ALLOWED_HOSTS`; `hooks.slack.com` by default. */
+export function slackHosts(): string[] {
+  return readHosts(process.env.RADIUS_SLACK_ALLOWED_HOSTS, SLACK_HOSTS);
+}
+
+/**
+ * Whether `url` is an http(s) URL on one of `hosts`. An entry such as
+ * `*.example.com` also allows every subdomain.
+ */
+export function isAllowedDestination(url: string, hosts: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return false;
+  const host = parsed.hostname.toLowerCase();
+  return hosts.some((allowed) =>
+    allowed.startsWith("*.") ? host.endsWith(allowed.slice(1)) : host === allowed
+  );
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise internal. */
+export function isInternalAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isInternalAddress(mapped);
+  const family = isIP(address);
+  if (family === 0) return true;
+  return INTERNAL.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves the URL's host and throws when any of its addresses is internal,
+ * so an allowed name that points inside the network is still refused. Set
+ * `RADIUS_DELIVERY_ALLOW_PRIVATE=true` to deliver to internal hosts, e.g. in
+ * local tests.
+ */
+export async function assertPublicDestination(url: string): Promise<void> {
+  if (process.env.RADIUS_DELIVERY_ALLOW_PRIVATE === "true") return;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new Error(`Refusing to deliver to ${host}: it resolves to an internal address.`);
+  }
+}
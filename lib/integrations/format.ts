@@ -0,0 +1,164 @@
+import type { AgentReply } from "../agent";
+
+/** The Block Kit blocks Radius sends; see https://api.slack.com/block-kit. */
+export type SlackBlock =
+  | { type: "section"; text: { type: "mrkdwn"; text: string } }
+  | { type: "context"; elements: Array<{ type: "mrkdwn"; text: string }> }
+  | { type: "divider" };
+
+/** A message for Slack's `response_url` or a slash command's HTTP response. */
+export type SlackMessage = {
+  response_type: "ephemeral" | "in_channel";
+  /** Plain fallback shown in notifications and by clients without blocks. */
+  text: string;
+  blocks?: SlackBlock[];
+};
+
+const SECTION_LIMIT = 3000;
+const CONTEXT_LIMIT = 10;
+const STEP_LENGTH = 150;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function convertLine(line: string): string {
+  const heading = line.match(/^#{1,6}\s+(.*)$/);
+  if (heading) return `*${heading[1].replace(/\*\*/g, "")}*`;
+  return line
+    .replace(/^(\s*)[-*+]\s+/, "$1• ")
+    .replace(/(^|[^*])\*([^*\s][^*\n]*?)\*(?!\*)/g, "$1_$2_")
+    .replace(/\*\*([^*\n]+)\*\*/g, "*$1*")
+    .replace(/__([^_\n]+)__/g, "*$1*")
+    .replace(/~~([^~\n]+)~~/g, "~$1~")
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g, "<$2|$1>");
+}
+
+/**
+ * Converts the agent's Markdown to Slack mrkdwn: headings and bold become
+ * `*bold*`, lists get bullets and links use `<url|text>`. Slack has no
+ * tables, so GFM tables are kept aligned inside a code block.
+ */
+export function toMrkdwn(markdown: string): string {
+  const output: string[] = [];
+  let table: string[] = [];
+  let fenced = false;
+  const flushTable = () => {
+    if (table.length > 0) output.push("```", ...table, "```");
+    table = [];
+  };
+
+  for (const raw of markdown.split("\n")) {
+    const line = escapeMrkdwn(raw);
+    if (/^\s*```/.test(raw)) {
+      flushTable();
+      fenced = !fenced;
+      output.push("```");
+    } else if (fenced) {
+      output.push(line);
+    } else if (/^\s*\|.*\|\s*$/.test(raw)) {
+      if (!/^\s*\|[\s:|-]+\|\s*$/.test(raw)) table.push(line);
+    } else {
+      flushTable();
+      output.push(convertLine(line));
+    }
+  }
+  flushTable();
+  return output.join("\n").trim();
+}
+
+/** Splits text into pieces under `limit`, preferring paragraph and line breaks. */
+function chunk(text: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    const cut = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf("\n"));
+    const at = cut > limit / 2 ? cut : limit;
+    pieces.push(rest.slice(0, at).trimEnd());
+    rest = rest.slice(at).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Renders a reply as Block Kit: the answer in sections, the reasoning steps
+ * as a muted context block and the suggestions as follow-up commands.
+ */
+export function toBlocks(reply: AgentReply, command = "/radius"): SlackBlock[] {
+  const blocks: SlackBlock[] = chunk(toMrkdwn(reply.content), SECTION_LIMIT).map((text) => ({
+    type: "section",
+    text: { type: "mrkdwn", text }
+  }));
+
+  if (reply.steps.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: reply.steps.slice(0, CONTEXT_LIMIT).map((step) => ({
+        type: "mrkdwn",
+        text: `*${escapeMrkdwn(step.title)}* — ${toMrkdwn(truncate(step.content, STEP_LENGTH))}`
+      }))
+    });
+  }
+
+  if (reply.suggestions.length > 0) {
+    blocks.push(
+      { type: "divider" },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `Try next: ${reply.suggestions
+              .map((suggestion) => `\`${command} ${escapeMrkdwn(suggestion)}\``)
+              .join(" · ")}`
+          }
+        ]
+      }
+    );
+  }
+  return blocks;
+}
+
+/** Drops emphasis and heading marks, keeping lists and tables readable as text. */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/\*\*([^*\n]+)\*\*/g, "$1")
+    .replace(/__([^_\n]+)__/g, "$1")
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g, "$1 ($2)");
+}
+
+/** Renders a reply as plain text for chat tools without rich formatting. */
+export function toPlainText(reply: AgentReply): string {
+  const sections = [stripMarkdown(reply.content.trim())];
+  if (reply.steps.length > 0) {
+    sections.push(
+      [
+        "Steps:",
+        ...reply.steps.map((step) => `- ${step.title}: ${stripMarkdown(step.content)}`)
+      ].join("\n")
+    );
+  }
+  if (reply.suggestions.length > 0) {
+    sections.push(["Try next:", ...reply.suggestions.map((item) => `- ${item}`)].join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+/** A complete Slack message for a reply, with the plain text as fallback. */
+export function toSlackMessage(
+  reply: AgentReply,
+  options: { command?: string; inChannel?: boolean } = {}
+): SlackMessage {
+  return {
+    response_type: options.inChannel ? "in_channel" : "ephemeral",
+    text: truncate(stripMarkdown(reply.content.trim()), SECTION_LIMIT),
+    blocks: toBlocks(reply, options.command)
+  };
+}
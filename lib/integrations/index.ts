@@ -0,0 +1,82 @@
+import type { AgentReply } from "../agent";
+import { assertPublicDestination } from "./destination";
+import { toPlainText, toSlackMessage } from "./format";
+
+export {
+  isAllowedDestination,
+  isInternalAddress,
+  slackHosts,
+  webhookHosts
+} from "./destination";
+export { toBlocks, toMrkdwn, toPlainText, toSlackMessage } from "./format";
+export type { SlackBlock, SlackMessage } from "./format";
+export { isSslCheck, parseSlashCommand, verifySlackSignature } from "./slack";
+export type { SignatureCheck, SlashCommand } from "./slack";
+
+/** How an integration wants replies: the API's JSON, plain text or Slack blocks. */
+export type ReplyFormat = "json" | "plain" | "slack";
+
+/** Slack expects an answer within three seconds; slower replies go to `response_url`. */
+export const ACK_MS = 2500;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export function formatReply(reply: AgentReply, format: ReplyFormat): unknown {
+  if (format === "plain") return { text: toPlainText(reply) };
+  if (format === "slack") return toSlackMessage(reply);
+  return reply;
+}
+
+/** Resolves with the work's result, or null if it takes longer than `ms`. */
+export async function within<T>(work: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * POSTs a delayed reply as JSON, throwing when the host resolves to an
+ * internal address or the receiver does not accept it. Redirects are not
+ * followed, so they cannot lead somewhere internal either.
+ */
+export async function deliver(url: string, payload: unknown): Promise<void> {
+  await assertPublicDestination(url);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      redirect: "error",
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Delivery to ${new URL(url).host} failed with status ${response.status}.`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends the reply to `url` once it is ready, or `failure` if producing it
+ * throws. Errors are only logged, since nobody is waiting on the request.
+ */
+export function deliverLater(url: string, work: Promise<unknown>, failure: unknown): void {
+  work
+    .then(
+      (payload) => deliver(url, payload),
+      (error) => {
+        console.error(error);
+        return deliver(url, failure);
+      }
+    )
+    .catch((error) => console.error("Could not deliver a delayed reply:", error));
+}
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/** The fields Radius reads from a slash-command payload. */
+export type SlashCommand = {
+  command: string;
+  text: string;
+  userId?: string;
+  teamId?: string;
+  channelId?: string;
+  responseUrl?: string;
+};
+
+/** Slack rejects replays older than five minutes, and so do we. */
+const MAX_AGE_SECONDS = 5 * 60;
+
+export type SignatureCheck = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Verifies `X-Slack-Signature` (`v0=` + HMAC-SHA256 of `v0:{timestamp}:{body}`
+ * with the app's signing secret) and that the timestamp is recent.
+ * See https://api.slack.com/authentication/verifying-requests-from-slack.
+ */
+export function verifySlackSignature(
+  body: string,
+  timestamp: string | null,
+  signature: string | null,
+  secret: string,
+  now = Date.now()
+): SignatureCheck {
+  if (!timestamp || !signature) return { ok: false, reason: "The Slack signature is missing." };
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds) || Math.abs(now / 1000 - seconds) > MAX_AGE_SECONDS) {
+    return { ok: false, reason: "The Slack request is too old." };
+  }
+  const expected = `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+  const given = Buffer.from(signature);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted)
+    ? { ok: true }
+    : { ok: false, reason: "The Slack signature does not match." };
+}
+
+/** Reads a form-encoded slash-command payload. */
+export function parseSlashCommand(body: string): SlashCommand {
+  const form = new URLSearchParams(body);
+  const field = (name: string) => form.get(name)?.trim() || undefined;
+  return {
+    command: field("command") ?? "/radius",
+    text: field("text") ?? "",
+    userId: field("user_id"),
+    teamId: field("team_id"),
+    channelId: field("channel_id"),
+    responseUrl: field("response_url")
+  };
+}
+
+/** True for Slack's periodic certificate checks, which only need a 200. */
+export function isSslCheck(body: string): boolean {
+  return new URLSearchParams(body).get("ssl_check") === "1";
+}
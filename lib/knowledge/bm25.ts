@@ -0,0 +1,114 @@
+import type { Passage } from "./entries";
+
+export type SearchResult = {
+  passage: Passage;
+  score: number;
+  /** Share of the query's weight (by IDF) that this passage matched, from 0 to 1. */
+  coverage: number;
+};
+
+export type SearchIndex = {
+  size: number;
+  search: (query: string, limit?: number) => SearchResult[];
+};
+
+// Okapi BM25 parameters: term-frequency saturation and length normalisation.
+const K1 = 1.2;
+const B = 0.75;
+/** Title, heading and tags count this many times towards a passage. */
+const FIELD_BOOST = 2;
+
+const STOPWORDS = new Set(
+  (
+    "a about an and are as at be but by can could do for from get give have how i if in " +
+    "into is it its me my of on or our should so some than that the their them then there " +
+    "these this to us want was we what when where which while who why will with would you your " +
+    "advice also any best give good help idea ideas just keep know like make more most much need " +
+    "new one really thing things tip tips very way ways"
+  ).split(" ")
+);
+
+/**
+ * Lower-cases, drops stopwords and strips common English suffixes. Long
+ * stems are cut to eight letters so "procrastinating" meets "procrastination".
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !STOPWORDS.has(word))
+    .map(stem);
+}
+
+const MAX_STEM = 8;
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`.slice(0, MAX_STEM);
+  for (const suffix of ["ing", "ed", "s"]) {
+    // Keep the "s" of words such as "focus", "analysis" and "business".
+    if (suffix === "s" && /(?:ss|us|is)$/.test(word)) break;
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length).slice(0, MAX_STEM);
+    }
+  }
+  return word.slice(0, MAX_STEM);
+}
+
+function passageTerms(passage: Passage): string[] {
+  const fields = [passage.title, passage.heading ?? "", passage.tags.join(" ")].join(" ");
+  const boosted = tokenize(fields);
+  return [...tokenize(passage.text), ...Array.from({ length: FIELD_BOOST }, () => boosted).flat()];
+}
+
+/** Builds an in-memory BM25 index over the passages. */
+export function createSearchIndex(passages: Passage[]): SearchIndex {
+  const documents = passages.map((passage) => {
+    const terms = passageTerms(passage);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { passage, length: terms.length, frequencies };
+  });
+  const averageLength =
+    documents.reduce((total, document) => total + document.length, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  // Unknown terms count as if one passage had them, so a single unusual word
+  // in the query does not swamp the coverage of the words that did match.
+  const idf = (term: string) => {
+    const count = documentFrequency.get(term) ?? 1;
+    return Math.log(1 + (documents.length - count + 0.5) / (count + 0.5));
+  };
+
+  return {
+    size: documents.length,
+    search(query, limit = 3) {
+      const terms = Array.from(new Set(tokenize(query)));
+      if (terms.length === 0) return [];
+      const weight = terms.reduce((total, term) => total + idf(term), 0);
+      return documents
+        .map(({ passage, length, frequencies }) => {
+          let score = 0;
+          let matched = 0;
+          for (const term of terms) {
+            const frequency = frequencies.get(term);
+            if (!frequency) continue;
+            const norm = K1 * (1 - B + (B * length) / averageLength);
+            score += (idf(term) * frequency * (K1 + 1)) / (frequency + norm);
+            matched += idf(term);
+          }
+          return {
+            passage,
+            score: Math.round(score * 100) / 100,
+            coverage: Math.round((matched / weight) * 100) / 100
+          };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+export type KnowledgeEntry = {
+  id: string;
+  title: string;
+  /** Markdown body; `##` headings split it into passages. */
+  content: string;
+  tags: string[];
+  /** File the entry was loaded from, relative to the knowledge directory. */
+  source: string;
+};
+
+export type Passage = {
+  id: string;
+  entryId: string;
+  title: string;
+  heading?: string;
+  text: string;
+  tags: string[];
+  /** Human-readable origin, e.g. `productivity.md › Focus blocks`. */
+  source: string;
+};
+
+export type KnowledgeInput = {
+  id?: string;
+  title: string;
+  content: string;
+  tags?: string[];
+};
+
+const SAFE_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const MAX_PASSAGE_LENGTH = 1200;
+
+export function isSafeId(id: string): boolean {
+  return SAFE_ID.test(id);
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64)
+    .replace(/-+$/, "");
+}
+
+function parseTags(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return list
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Reads a Markdown playbook: the first `#` heading is the title and an
+ * optional `Tags:` line right below it lists extra search terms.
+ */
+export function parseMarkdownEntry(id: string, text: string, source: string): KnowledgeEntry {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let title = id;
+  let tags: string[] = [];
+  let start = 0;
+  while (start < lines.length && !lines[start].trim()) start += 1;
+  const heading = lines[start]?.match(/^#\s+(.+)$/);
+  if (heading) {
+    title = heading[1].trim();
+    start += 1;
+  }
+  while (start < lines.length && !lines[start].trim()) start += 1;
+  const tagLine = lines[start]?.match(/^tags:\s*(.*)$/i);
+  if (tagLine) {
+    tags = parseTags(tagLine[1]);
+    start += 1;
+  }
+  return { id, title, content: lines.slice(start).join("\n").trim(), tags, source };
+}
+
+/**
+ * Reads a JSON file holding one entry, an array of entries or
+ * `{ "entries": [...] }`. Entries without a title or content are skipped.
+ */
+export function parseJsonEntries(text: string, fallbackId: string, source: string) {
+  const parsed = JSON.parse(text) as unknown;
+  const list = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { entries?: unknown })?.entries)
+      ? (parsed as { entries: unknown[] }).entries
+      : [parsed];
+  const entries: KnowledgeEntry[] = [];
+  list.forEach((item, index) => {
+    const entry = toEntryInput(item);
+    if (!entry) return;
+    const id = entry.id ?? (list.length === 1 ? fallbackId : `${fallbackId}-${index + 1}`);
+    entries.push({
+      id,
+      title: entry.title,
+      content: entry.content,
+      tags: entry.tags ?? [],
+      source
+    });
+  });
+  return entries;
+}
+
+/** Validates an entry sent to the admin API or found in a JSON file. */
+export function toEntryInput(value: unknown): KnowledgeInput | null {
+  const item = value as Record<string, unknown> | null;
+  if (!item || typeof item !== "object") return null;
+  const title = typeof item.title === "string" ? item.title.trim() : "";
+  const content = typeof item.content === "string" ? item.content.trim() : "";
+  if (!title || !content) return null;
+  const id = typeof item.id === "string" && isSafeId(item.id) ? item.id : undefined;
+  return { id, title, content, tags: parseTags(item.tags) };
+}
+
+export function toMarkdown(entry: Omit<KnowledgeEntry, "source" | "id">): string {
+  const tags = entry.tags.length > 0 ? `Tags: ${entry.tags.join(", ")}\n\n` : "";
+  return `# ${entry.title}\n\n${tags}${entry.content.trim()}\n`;
+}
+
+function chunk(text: string): string[] {
+  if (text.length <= MAX_PASSAGE_LENGTH) return [text];
+  const chunks: string[] = [];
+  let current = "";
+  for (const block of text.split(/\n{2,}/)) {
+    if (current && current.length + block.length > MAX_PASSAGE_LENGTH) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Splits an entry into passages at `##` headings, chunking long sections by paragraph. */
+export function splitPassages(entry: KnowledgeEntry): Passage[] {
+  const sections: Array<{ heading?: string; lines: string[] }> = [{ lines: [] }];
+  for (const line of entry.content.split("\n")) {
+    const heading = line.match(/^#{2,3}\s+(.+)$/);
+    if (heading) sections.push({ heading: heading[1].trim(), lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+
+  const passages: Passage[] = [];
+  for (const { heading, lines } of sections) {
+    const text = lines.join("\n").trim();
+    if (!text) continue;
+    for (const part of chunk(text)) {
+      passages.push({
+        id: `${entry.id}#${passages.length + 1}`,
+        entryId: entry.id,
+        title: entry.title,
+        heading,
+        text: part,
+        tags: entry.tags,
+        source: heading ? `${entry.source} › ${heading}` : entry.source
+      });
+    }
+  }
+  return passages;
+}
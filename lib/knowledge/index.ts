@@ -0,0 +1,190 @@
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createSearchIndex, type SearchIndex, type SearchResult } from "./bm25";
+import {
+  parseJsonEntries,
+  parseMarkdownEntry,
+  slugify,
+  splitPassages,
+  toMarkdown,
+  type KnowledgeEntry,
+  type KnowledgeInput
+} from "./entries";
+
+export type { SearchResult } from "./bm25";
+export { isSafeId, toEntryInput } from "./entries";
+export type { KnowledgeEntry, KnowledgeInput, Passage } from "./entries";
+
+export type KnowledgeStats = {
+  entries: number;
+  passages: number;
+  builtAt: string;
+};
+
+export type KnowledgeBase = {
+  list: () => Promise<KnowledgeEntry[]>;
+  get: (id: string) => Promise<KnowledgeEntry | null>;
+  search: (query: string, limit?: number) => Promise<SearchResult[]>;
+  /** Creates or replaces an entry, writing it as `<id>.md`, and rebuilds the index. */
+  upsert: (input: KnowledgeInput) => Promise<{ entry: KnowledgeEntry; created: boolean }>;
+  remove: (id: string) => Promise<boolean>;
+  /** Re-reads the directory, picking up files changed outside the API. */
+  rebuild: () => Promise<KnowledgeStats>;
+  stats: () => Promise<KnowledgeStats>;
+};
+
+type Loaded = {
+  entries: Map<string, KnowledgeEntry>;
+  index: SearchIndex;
+  builtAt: string;
+};
+
+const MARKDOWN = /\.(?:md|markdown)$/i;
+const JSON_FILE = /\.json$/i;
+
+/**
+ * Playbooks loaded from a directory of Markdown and JSON files and indexed
+ * with BM25. Writes are not coordinated across processes.
+ */
+export function createKnowledgeBase(directory: string): KnowledgeBase {
+  let loaded: Promise<Loaded> | null = null;
+
+  async function readEntries(): Promise<KnowledgeEntry[]> {
+    let files: string[];
+    try {
+      files = (await readdir(directory)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const entries: KnowledgeEntry[] = [];
+    for (const file of files) {
+      if (!MARKDOWN.test(file) && !JSON_FILE.test(file)) continue;
+      const id = slugify(file.replace(/\.[^.]+$/, "")) || "entry";
+      try {
+        const text = await readFile(path.join(directory, file), "utf8");
+        if (MARKDOWN.test(file)) entries.push(parseMarkdownEntry(id, text, file));
+        else entries.push(...parseJsonEntries(text, id, file));
+      } catch (error) {
+        console.error(`Skipping knowledge file "${file}":`, error);
+      }
+    }
+    return entries;
+  }
+
+  async function build(): Promise<Loaded> {
+    const entries = new Map<string, KnowledgeEntry>();
+    for (const entry of await readEntries()) {
+      if (entries.has(entry.id)) {
+        console.error(`Knowledge entry "${entry.id}" in ${entry.source} replaces an earlier one.`);
+      }
+      entries.set(entry.id, entry);
+    }
+    return {
+      entries,
+      index: createSearchIndex(Array.from(entries.values()).flatMap(splitPassages)),
+      builtAt: new Date().toISOString()
+    };
+  }
+
+  function current(): Promise<Loaded> {
+    if (!loaded) {
+      loaded = build().catch((error) => {
+        loaded = null;
+        throw error;
+      });
+    }
+    return loaded;
+  }
+
+  async function rebuild(): Promise<KnowledgeStats> {
+    loaded = null;
+    return describe(await current());
+  }
+
+  function describe({ entries, index, builtAt }: Loaded): KnowledgeStats {
+    return { entries: entries.size, passages: index.size, builtAt };
+  }
+
+  // Removes an entry from the file it came from; JSON files may hold others.
+  async function removeFromFile(entry: KnowledgeEntry) {
+    const file = path.join(directory, entry.source);
+    if (MARKDOWN.test(entry.source)) {
+      await rm(file, { force: true });
+      return;
+    }
+    const id = slugify(entry.source.replace(/\.[^.]+$/, "")) || "entry";
+    const remaining = parseJsonEntries(await readFile(file, "utf8"), id, entry.source).filter(
+      (other) => other.id !== entry.id
+    );
+    if (remaining.length === 0) {
+      await rm(file, { force: true });
+      return;
+    }
+    const serialised = remaining.map(({ id, title, content, tags }) => ({
+      id,
+      title,
+      content,
+      tags
+    }));
+    await writeFile(file, `${JSON.stringify(serialised, null, 2)}\n`, "utf8");
+  }
+
+  return {
+    async list() {
+      return Array.from((await current()).entries.values());
+    },
+    async get(id) {
+      return (await current()).entries.get(id) ?? null;
+    },
+    async search(query, limit) {
+      return (await current()).index.search(query, limit);
+    },
+    async upsert(input) {
+      const id = input.id ?? slugify(input.title);
+      if (!id) throw new Error("Knowledge entries need a title with letters or digits.");
+      const existing = (await current()).entries.get(id);
+      const source = `${id}.md`;
+      if (existing && existing.source !== source) await removeFromFile(existing);
+      const entry: KnowledgeEntry = {
+        id,
+        title: input.title,
+        content: input.content,
+        tags: input.tags ?? [],
+        source
+      };
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, source), toMarkdown(entry), "utf8");
+      await rebuild();
+      return { entry: (await current()).entries.get(id) ?? entry, created: !existing };
+    },
+    async remove(id) {
+      const existing = (await current()).entries.get(id);
+      if (!existing) return false;
+      await removeFromFile(existing);
+      await rebuild();
+      return true;
+    },
+    rebuild,
+    async stats() {
+      return describe(await current());
+    }
+  };
+}
+
+// Route modules are bundled separately, so the shared base lives on
+// globalThis rather than in module scope.
+const globalForKnowledge = globalThis as { radiusKnowledgeBase?: KnowledgeBase };
+
+/**
+ * Returns the process-wide knowledge base, read from `RADIUS_KNOWLEDGE_DIR`
+ * (default `./knowledge`).
+ */
+export function getKnowledgeBase(): KnowledgeBase {
+  if (!globalForKnowledge.radiusKnowledgeBase) {
+    globalForKnowledge.radiusKnowledgeBase = createKnowledgeBase(
+      process.env.RADIUS_KNOWLEDGE_DIR ?? path.join(process.cwd(), "knowledge")
+    );
+  }
+  return globalForKnowledge.radiusKnowledgeBase;
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { apiError } from "../api/errors";
+import type { ApiError } from "../api/types";
+import { createMemoryRateLimitStore } from "./memory";
+import type { RateLimitStore } from "./store";
+
+export { createMemoryRateLimitStore } from "./memory";
+export type { RateLimitHit, RateLimitStore } from "./store";
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  /** Whole seconds until the window resets, as sent in `Retry-After`. */
+  retryAfter: number;
+};
+
+export type RateLimiter = {
+  check: (key: string) => Promise<RateLimitResult>;
+};
+
+export type RateLimitOptions = {
+  store: RateLimitStore;
+  /** Requests allowed per client in each window. */
+  limit: number;
+  windowMs: number;
+};
+
+const DEFAULT_LIMIT = 30;
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_MAX_BODY_BYTES = 256 * 1024;
+
+export function createRateLimiter({ store, limit, windowMs }: RateLimitOptions): RateLimiter {
+  return {
+    async check(key) {
+      const { count, resetAt } = await store.hit(key, windowMs);
+      return {
+        allowed: count <= limit,
+        limit,
+        remaining: Math.max(limit - count, 0),
+        resetAt,
+        retryAfter: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1)
+      };
+    }
+  };
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+// Route modules are bundled separately, so the shared limiter lives on
+// globalThis rather than in module scope.
+const globalForLimits = globalThis as { radiusRateLimiter?: RateLimiter | null };
+
+/**
+ * Returns the process-wide limiter: `RADIUS_RATE_LIMIT` requests (default 30)
+ * per `RADIUS_RATE_LIMIT_WINDOW_MS` (default one minute), counted in memory.
+ * A limit of 0 turns rate limiting off.
+ */
+export function getRateLimiter(): RateLimiter | null {
+  if (globalForLimits.radiusRateLimiter === undefined) {
+    const limit = readNumber(process.env.RADIUS_RATE_LIMIT, DEFAULT_LIMIT);
+    globalForLimits.radiusRateLimiter =
+      limit > 0
+        ? createRateLimiter({
+            store: createMemoryRateLimitStore(),
+            limit,
+            windowMs: readNumber(process.env.RADIUS_RATE_LIMIT_WINDOW_MS, DEFAULT_WINDOW_MS)
+          })
+        : null;
+  }
+  return globalForLimits.radiusRateLimiter;
+}
+
+/** Largest request body accepted, from `RADIUS_MAX_BODY_BYTES` (default 256 KB). */
+export function maxBodyBytes(): number {
+  return readNumber(process.env.RADIUS_MAX_BODY_BYTES, DEFAULT_MAX_BODY_BYTES);
+}
+
+/**
+ * Number of proxies in front of the app that append to `X-Forwarded-For`,
+ * from `RADIUS_TRUST_PROXY` (`true` means one). Zero when unset.
+ */
+export function trustedProxies(): number {
+  const configured = process.env.RADIUS_TRUST_PROXY?.trim();
+  if (configured === "true") return 1;
+  return Math.floor(readNumber(configured, 0));
+}
+
+/**
+ * Identifies the caller by address. Behind `RADIUS_TRUST_PROXY` proxies this
+ * is the right-most hop they did not add, so entries the client made up are
+ * skipped. Without it the forwarded headers are the client's own word (Next.js
+ * only fills them in when missing), so every caller shares one bucket.
+ */
+export function clientKey(request: Request): string {
+  const proxies = trustedProxies();
+  if (proxies === 0) return "ip:direct";
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return `ip:${hops[Math.max(hops.length - proxies, 0)] ?? "unknown"}`;
+}
+
+/**
+ * Counts the request against the caller's limit. Returns the 429 response to
+ * send, or null when the caller may proceed. Requests are let through when
+ * the store fails, so an outage of a shared store does not take chat down.
+ */
+export async function limitRequest(
+  request: Request,
+  key = clientKey(request)
+): Promise<NextResponse<ApiError> | null> {
+  const limiter = getRateLimiter();
+  if (!limiter) return null;
+  let result: RateLimitResult;
+  try {
+    result = await limiter.check(key);
+  } catch (error) {
+    console.error("Rate limit store failed:", error);
+    return null;
+  }
+  if (result.allowed) return null;
+  return apiError(
+    "rate_limited",
+    `Too many requests. Try again in ${result.retryAfter} seconds.`,
+    undefined,
+    {
+      "Retry-After": String(result.retryAfter),
+      "X-RateLimit-Limit": String(result.limit),
+      "X-RateLimit-Remaining": String(result.remaining),
+      "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000))
+    }
+  );
+}
@@ -0,0 +1,32 @@
+import type { RateLimitHit, RateLimitStore } from "./store";
+
+// Expired windows are swept once the map grows past this many clients.
+const SWEEP_THRESHOLD = 10_000;
+
+/** Keeps counters in process memory; each server instance limits on its own. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  function sweep(now: number) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size > SWEEP_THRESHOLD) sweep(now);
+      const current = windows.get(key);
+      const window =
+        current && current.resetAt > now
+          ? { ...current, count: current.count + 1 }
+          : { count: 1, resetAt: now + windowMs };
+      windows.set(key, window);
+      return window;
+    },
+    async reset(key) {
+      windows.delete(key);
+    }
+  };
+}
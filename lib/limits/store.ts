@@ -0,0 +1,17 @@
+/** Requests counted for one client in the current window. */
+export type RateLimitHit = {
+  count: number;
+  /** When the window ends, in milliseconds since the epoch. */
+  resetAt: number;
+};
+
+/**
+ * Counter storage behind the rate limiter. Every method is async so a store
+ * shared between server instances (e.g. Redis `INCR` plus `PEXPIRE`) can
+ * implement the same interface.
+ */
+export type RateLimitStore = {
+  /** Counts one request for `key` in a fixed window of `windowMs` milliseconds. */
+  hit: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  reset: (key: string) => Promise<void>;
+};
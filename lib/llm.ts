@@ -0,0 +1,80 @@
+import type { AgentMessage } from "./agent";
+
+export type LlmConfig = {
+  /** Base URL of an OpenAI-compatible API, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+};
+
+export type LlmClient = {
+  model: string;
+  /** Returns the model's reply, or throws on errors, timeouts and empty answers. */
+  complete: (messages: AgentMessage[]) => Promise<string>;
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+/**
+ * Reads `RADIUS_LLM_BASE_URL`, `RADIUS_LLM_MODEL`, `RADIUS_LLM_API_KEY` and
+ * `RADIUS_LLM_TIMEOUT_MS`. Returns null unless a base URL and model are set.
+ */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmConfig | null {
+  const baseUrl = env.RADIUS_LLM_BASE_URL?.trim();
+  const model = env.RADIUS_LLM_MODEL?.trim();
+  if (!baseUrl || !model) return null;
+  const timeout = Number(env.RADIUS_LLM_TIMEOUT_MS);
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    model,
+    apiKey: env.RADIUS_LLM_API_KEY?.trim() || undefined,
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS
+  };
+}
+
+/** Client for the `/chat/completions` endpoint of an OpenAI-compatible API. */
+export function createLlmClient(config: LlmConfig): LlmClient {
+  return {
+    model: config.model,
+    async complete(messages) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+      try {
+        const response = await fetch(`${config.baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+          },
+          body: JSON.stringify({ model: config.model, messages }),
+          signal: controller.signal
+        });
+        if (!response.ok) {
+          throw new Error(`Chat completion failed with status ${response.status}.`);
+        }
+        const body = (await response.json()) as {
+          choices?: Array<{ message?: { content?: unknown } }>;
+        };
+        const content = body.choices?.[0]?.message?.content;
+        if (typeof content !== "string" || !content.trim()) {
+          throw new Error("Chat completion returned no content.");
+        }
+        return content.trim();
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new Error(`Chat completion timed out after ${config.timeoutMs} ms.`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+/** Returns a client for the model configured in the environment, if any. */
+export function getLlmClient(): LlmClient | null {
+  const config = llmConfigFromEnv();
+  return config ? createLlmClient(config) : null;
+}
@@ -0,0 +1,312 @@
+import type { Locale } from "./index";
+
+/** `groups` are the rule's capture groups; the helpers translate the words in them. */
+type Rule = [source: string, replace: (groups: string[], words: DateWords) => string];
+
+type DateWords = {
+  /** Sunday first, as `Date.getDay()` counts. */
+  weekdays: string[];
+  months: string[];
+  numbers: Record<string, number>;
+  rules: Rule[];
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december"
+];
+
+function lookup(sources: string[], word: string): number {
+  return sources.findIndex((source) => new RegExp(`^(?:${source})$`, "iu").test(word));
+}
+
+const weekday = (word: string, words: DateWords) => WEEKDAYS[lookup(words.weekdays, word)];
+const month = (word: string, words: DateWords) => MONTHS[lookup(words.months, word)];
+const count = (word: string, words: DateWords) =>
+  String(words.numbers[word.toLowerCase()] ?? word.replace(",", "."));
+
+function unit(word: string): string {
+  const lower = word.toLowerCase();
+  if (/^(?:d|t|j)/.test(lower)) return "days";
+  if (/^(?:se|w)/.test(lower)) return "weeks";
+  if (/^(?:mi)/.test(lower)) return "minutes";
+  if (/^(?:h|st)/.test(lower)) return "hours";
+  return "months";
+}
+
+const ES_BY = String.raw`(?:(?:para|antes\s+del?|hasta|a\s+más\s+tardar)\s+)?`;
+const DE_BY = String.raw`(?:(?:bis(?:\s+(?:zum|spätestens))?|vor(?:\s+dem)?|am|für|spätestens(?:\s+am)?)\s+)?`;
+const FR_BY = String.raw`(?:(?:d['’]ici(?:\s+à)?|avant|pour|jusqu['’]à|au\s+plus\s+tard)\s+)?`;
+
+const DATE_WORDS: Partial<Record<Locale, DateWords>> = {
+  es: {
+    weekdays: ["domingo", "lunes", "martes", "mi[eé]rcoles", "jueves", "viernes", "s[aá]bado"],
+    months: [
+      "enero",
+      "febrero",
+      "marzo",
+      "abril",
+      "mayo",
+      "junio",
+      "julio",
+      "agosto",
+      "sep?tiembre",
+      "octubre",
+      "noviembre",
+      "diciembre"
+    ],
+    numbers: {
+      un: 1,
+      uno: 1,
+      una: 1,
+      dos: 2,
+      tres: 3,
+      cuatro: 4,
+      cinco: 5,
+      seis: 6,
+      siete: 7,
+      ocho: 8,
+      nueve: 9,
+      diez: 10
+    },
+    rules: [
+      [
+        String.raw`(?:en|dentro\s+de)\s+{count}\s+(d[ií]as?|semanas?|mes(?:es)?)`,
+        ([n, u], w) => `in ${count(n, w)} ${unit(u)}`
+      ],
+      [
+        String.raw`{count}\s+horas?\s+(?:al|por|cada)\s+d[ií]a`,
+        ([n], w) => `${count(n, w)} hours a day`
+      ],
+      [
+        String.raw`(\d+(?:[.,]\d+)?)\s*(minutos?|horas?)`,
+        ([n, u], w) => `${count(n, w)} ${unit(u)}`
+      ],
+      [
+        ES_BY + String.raw`(?:el\s+)?pr[oó]ximo\s+{weekday}`,
+        ([d], w) => `by next ${weekday(d, w)}`
+      ],
+      [
+        ES_BY + String.raw`(?:el\s+)?{weekday}\s+(?:pr[oó]ximo|que\s+viene)`,
+        ([d], w) => `by next ${weekday(d, w)}`
+      ],
+      [ES_BY + String.raw`(?:el\s+|este\s+)?{weekday}`, ([d], w) => `by ${weekday(d, w)}`],
+      [
+        ES_BY + String.raw`(?:el\s+)?(\d{1,2})\s+de\s+{month}`,
+        ([d, m], w) => `by ${d} ${month(m, w)}`
+      ],
+      [String.raw`por\s+la\s+mañana`, () => "morning"],
+      [String.raw`(?:por\s+la|esta)\s+tarde`, () => "afternoon"],
+      [String.raw`(?:por\s+la|esta)\s+noche`, () => "tonight"],
+      [ES_BY + "mañana", () => "by tomorrow"],
+      [String.raw`(?:para\s+)?hoy`, () => "today"],
+      [
+        ES_BY + String.raw`(?:la\s+)?(?:pr[oó]xima\s+semana|semana\s+que\s+viene)`,
+        () => "next week"
+      ],
+      [ES_BY + String.raw`(?:el\s+)?(?:pr[oó]ximo\s+mes|mes\s+que\s+viene)`, () => "next month"],
+      [
+        ES_BY + String.raw`(?:el\s+)?final\s+de\s+(?:la\s+|esta\s+)?semana|esta\s+semana`,
+        () => "by the end of the week"
+      ],
+      [
+        ES_BY + String.raw`(?:el\s+)?(?:final|fin)\s+de(?:l|\s+este)?\s+mes|este\s+mes`,
+        () => "by the end of the month"
+      ]
+    ]
+  },
+  de: {
+    weekdays: [
+      "sonntag",
+      "montag",
+      "dienstag",
+      "mittwoch",
+      "donnerstag",
+      "freitag",
+      "samstag|sonnabend"
+    ],
+    months: [
+      "januar|jänner",
+      "februar",
+      "märz|maerz",
+      "april",
+      "mai",
+      "juni",
+      "juli",
+      "august",
+      "september",
+      "oktober",
+      "november",
+      "dezember"
+    ],
+    numbers: {
+      ein: 1,
+      eine: 1,
+      einem: 1,
+      einer: 1,
+      zwei: 2,
+      drei: 3,
+      vier: 4,
+      fünf: 5,
+      sechs: 6,
+      sieben: 7,
+      acht: 8,
+      neun: 9,
+      zehn: 10
+    },
+    rules: [
+      [
+        String.raw`(?:in|innerhalb\s+von)\s+{count}\s+(tag(?:en)?|wochen?|monat(?:en)?)`,
+        ([n, u], w) => `in ${count(n, w)} ${unit(u)}`
+      ],
+      [
+        String.raw`{count}\s+stunden?\s+(?:am\s+tag|pro\s+tag|jeden\s+tag|täglich)`,
+        ([n], w) => `${count(n, w)} hours a day`
+      ],
+      [
+        String.raw`(\d+(?:[.,]\d+)?)\s*(minuten|stunden?)`,
+        ([n, u], w) => `${count(n, w)} ${unit(u)}`
+      ],
+      [
+        DE_BY + String.raw`(?:den\s+|dem\s+)?nächste[nmrs]?\s+{weekday}`,
+        ([d], w) => `by next ${weekday(d, w)}`
+      ],
+      [DE_BY + String.raw`{weekday}\s+nächster\s+woche`, ([d], w) => `by next ${weekday(d, w)}`],
+      [
+        DE_BY + String.raw`(?:diesen\s+|kommenden\s+|zum\s+)?{weekday}`,
+        ([d], w) => `by ${weekday(d, w)}`
+      ],
+      [
+        DE_BY + String.raw`(?:zum\s+|dem\s+|den\s+)?(\d{1,2})\.\s*{month}`,
+        ([d, m], w) => `by ${d} ${month(m, w)}`
+      ],
+      [String.raw`heute\s+abend`, () => "tonight"],
+      [String.raw`morgen\s+früh`, () => "tomorrow morning"],
+      [String.raw`(?:heute|am)\s+(?:vormittag|morgen)`, () => "morning"],
+      [String.raw`(?:heute|am)\s+nachmittag`, () => "afternoon"],
+      [String.raw`am\s+abend`, () => "evening"],
+      [DE_BY + "morgen", () => "by tomorrow"],
+      [String.raw`(?:bis\s+)?heute`, () => "today"],
+      [DE_BY + String.raw`(?:nächste[nr]?|kommende[nr]?)\s+woche`, () => "next week"],
+      [DE_BY + String.raw`(?:nächsten|kommenden)\s+monat`, () => "next month"],
+      [
+        DE_BY + String.raw`(?:zum\s+)?ende\s+(?:der|dieser)\s+woche|diese\s+woche`,
+        () => "by the end of the week"
+      ],
+      [
+        DE_BY + String.raw`(?:zum\s+)?(?:ende\s+(?:des|dieses)\s+monats|monatsende)|diesen\s+monat`,
+        () => "by the end of the month"
+      ]
+    ]
+  },
+  fr: {
+    weekdays: ["dimanche", "lundi", "mardi", "mercredi", "jeudi", "vendredi", "samedi"],
+    months: [
+      "janvier",
+      "f[ée]vrier",
+      "mars",
+      "avril",
+      "mai",
+      "juin",
+      "juillet",
+      "ao[uû]t",
+      "septembre",
+      "octobre",
+      "novembre",
+      "d[ée]cembre"
+    ],
+    numbers: {
+      un: 1,
+      une: 1,
+      deux: 2,
+      trois: 3,
+      quatre: 4,
+      cinq: 5,
+      six: 6,
+      sept: 7,
+      huit: 8,
+      neuf: 9,
+      dix: 10
+    },
+    rules: [
+      [
+        String.raw`(?:dans|d['’]ici|en)\s+{count}\s+(jours?|semaines?|mois)`,
+        ([n, u], w) => `in ${count(n, w)} ${unit(u)}`
+      ],
+      [String.raw`{count}\s+heures?\s+par\s+jour`, ([n], w) => `${count(n, w)} hours a day`],
+      [
+        String.raw`(\d+(?:[.,]\d+)?)\s*(minutes?|heures?)`,
+        ([n, u], w) => `${count(n, w)} ${unit(u)}`
+      ],
+      [
+        FR_BY + String.raw`(?:le\s+|ce\s+)?{weekday}\s+prochain`,
+        ([d], w) => `by next ${weekday(d, w)}`
+      ],
+      [FR_BY + String.raw`(?:le\s+|ce\s+)?{weekday}`, ([d], w) => `by ${weekday(d, w)}`],
+      [
+        FR_BY + String.raw`(?:le\s+)?(\d{1,2})(?:er)?\s+{month}`,
+        ([d, m], w) => `by ${d} ${month(m, w)}`
+      ],
+      [String.raw`ce\s+soir`, () => "tonight"],
+      [String.raw`(?:ce|le)\s+matin`, () => "morning"],
+      [String.raw`(?:cet\s+|l['’])après-midi`, () => "afternoon"],
+      [FR_BY + "demain", () => "by tomorrow"],
+      [String.raw`aujourd['’]hui`, () => "today"],
+      [FR_BY + String.raw`la\s+semaine\s+prochaine`, () => "next week"],
+      [FR_BY + String.raw`le\s+mois\s+prochain`, () => "next month"],
+      [
+        FR_BY + String.raw`(?:la\s+)?fin\s+de\s+(?:la\s+|cette\s+)?semaine|cette\s+semaine`,
+        () => "by the end of the week"
+      ],
+      [
+        FR_BY + String.raw`(?:la\s+)?fin\s+(?:du|de\s+ce)\s+mois|ce\s+mois-ci`,
+        () => "by the end of the month"
+      ]
+    ]
+  }
+};
+
+function compile(source: string, words: DateWords): RegExp {
+  const numbers = Object.keys(words.numbers).join("|");
+  const expanded = source
+    .replace("{weekday}", `(${words.weekdays.join("|")})`)
+    .replace("{month}", `(${words.months.join("|")})`)
+    .replace("{count}", `(\\d+|${numbers})`);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${expanded})(?![\\p{L}])`, "giu");
+}
+
+/**
+ * Rewrites the deadlines, durations and times of day in a Spanish, German or
+ * French request into the English phrases the planner reads ("para el
+ * viernes" becomes "by friday"). The rest of the text is left as written.
+ */
+export function normaliseDates(text: string, locale: Locale): string {
+  const words = DATE_WORDS[locale];
+  if (!words) return text;
+  return words.rules.reduce(
+    (result, [source, replace]) =>
+      result.replace(compile(source, words), (_match, ...rest: unknown[]) => {
+        // The capture groups come before the match offset, the first number.
+        const groups = rest.slice(
+          0,
+          rest.findIndex((arg) => typeof arg === "number")
+        );
+        return replace(
+          groups.map((group) => (typeof group === "string" ? group : "")),
+          words
+        );
+      }),
+    text
+  );
+}
@@ -0,0 +1,614 @@
+import type { Catalog } from "./en";
+
+export const de: Catalog = {
+  messages: {
+    "agent.idle.status": "Keine Eingabe erkannt, ich warte also.",
+    "agent.idle.reply": "Ich bin bereit, sobald du es bist.",
+    "agent.empty.status": "Die Werkzeugliste ist leer.",
+    "agent.empty.reply":
+      "Es sind keine Werkzeuge registriert, daher kann ich darauf noch nicht antworten.",
+    "agent.intent.title": "Absichtserkennung",
+    "agent.intent.single": "Die Eingabe verlangt eine Antwort vom Typ **{tool}**.",
+    "agent.intent.compound": "Die Eingabe verbindet {count} Anfragen: {tools}.",
+    "agent.handled": "„{segment}“ erledigt.",
+    "agent.next.title": "Nächster Schritt",
+    "agent.next.single": "Vorschläge, wie es weitergehen kann.",
+    "agent.next.compound": "Vorschläge für jeden Teil der Anfrage.",
+
+    "tone.friendly":
+      "Ich hoffe, das hilft – sag einfach Bescheid, wenn du etwas anpassen möchtest!",
+    "tone.formal": "Bitte teilen Sie mir mit, falls Sie weitere Anpassungen wünschen.",
+
+    "step.method": "Methode",
+    "step.status": "Status",
+    "step.tool": "Werkzeug",
+    "step.memory": "Speicher",
+    "step.tasks": "Aufgabenliste",
+    "step.fallback": "Allgemeine Antwort",
+    "step.knowledge": "Wissen",
+    "step.model": "Modell",
+    "step.followUp": "Nachfrage",
+    "step.finance": "Finanzen",
+    "step.parameters": "Parameter",
+    "step.formula": "Formel",
+
+    "model.drafted": "Antwort mit **{model}** entworfen.",
+    "model.failed":
+      "**{model}** hat nicht geantwortet ({reason}), daher habe ich die eingebauten Heuristiken verwendet.",
+
+    "math.tool": "Den arithmetischen Ausdruck mit dem sicheren Mathe-Parser ausgewertet.",
+    "math.empty":
+      "Ich konnte keinen lösbaren Ausdruck finden. Versuch es mit etwas wie `3,5 * (12 + 4)`.",
+    "math.saved": "`{name}` = **{value}** gespeichert.",
+    "math.result": "Der Ausdruck {expression} ergibt **{value}**.",
+    "math.memory": "Gespeichert als `ans{count}` (auch `ans`).",
+    "math.variables": "Variablen: {variables}.",
+
+    "calc.at": "{reason} bei `{text}` (Zeichen {position} deiner Nachricht).",
+    "calc.unknownVariable": "Ich kenne die Variable nicht",
+    "calc.unopened": "Diese schließende Klammer hat kein Gegenstück",
+    "calc.unclosed": "Diese Klammer wird nie geschlossen",
+    "calc.malformed": "Der Ausdruck ist fehlerhaft",
+    "calc.combine": "Ich kann {first} (`{text}`) nicht mit {second} verrechnen",
+    "calc.convert": "Ich kann {dimension} nicht in {unit} umrechnen.",
+    "calc.nonNumeric":
+      "Der Ausdruck ergibt ein nicht numerisches Ergebnis, das ich noch nicht unterstütze.",
+    "calc.multiply": "Ich kann {first} (`{text}`) und {second} nicht multiplizieren",
+    "calc.divide": "Ich kann {first} nicht durch {second} teilen",
+    "calc.power": "Ich kann {dimension} nicht potenzieren",
+    "calc.function": "`{name}` nimmt nur reine Zahlen, nicht {dimension}",
+    "dimension.length": "eine Länge",
+    "dimension.mass": "eine Masse",
+    "dimension.currency": "eine Währung",
+    "dimension.none": "eine reine Zahl",
+    "finance.parsed": "Die Frage als **{kind}**-Berechnung eingeordnet.",
+    "finance.kind.investment": "Geldanlage",
+    "finance.kind.loan": "Kredit",
+    "finance.kind.goal": "Sparziel",
+    "finance.kind.roi": "Rendite",
+    "finance.money": "{sign}{amount} {currency}",
+    "finance.percent": "{value} %",
+    "finance.years": { one: "{years} Jahr", other: "{years} Jahre" },
+    "finance.and": "und",
+    "finance.horizon":
+      "Das geht über den Horizont von {years} Jahren hinaus, den diese Berechnungen abdecken. {advice}",
+    "finance.horizon.step":
+      "Zeitraum über {years} Jahre erkannt, daher vor der Hochrechnung abgebrochen.",
+    "finance.horizon.timeFrame": "Versuch es mit einem kürzeren Zeitraum.",
+    "finance.horizon.term": "Versuch es mit einer kürzeren Laufzeit.",
+    "finance.horizon.deposit": "Versuch es mit einer höheren Einzahlung oder einem kleineren Ziel.",
+    "finance.horizon.deadline": "Versuch es mit einer näheren Frist.",
+    "finance.missing": "Für diese Berechnung brauche ich {what}. Versuch es etwa mit „{example}“.",
+    "finance.missing.step":
+      "Nicht alle Parameter der Formel erkannt, daher nach den fehlenden Werten gefragt.",
+    "finance.missing.investment": "einen Betrag, einen Jahreszins und einen Zeitraum",
+    "finance.missing.loan": "den Kreditbetrag, den Zinssatz und die Laufzeit",
+    "finance.missing.target": "einen Zielbetrag",
+    "finance.missing.goal":
+      "einen Zielbetrag und entweder eine Frist oder eine regelmäßige Einzahlung",
+    "finance.missing.roi": "den investierten Betrag und was daraus geworden ist",
+    "finance.example.investment":
+      "Wenn ich monatlich 150 € zu 5 % Jahreszins anlege, wie viel habe ich nach 3 Jahren?",
+    "finance.example.loan":
+      "Wie hoch ist die Monatsrate für einen Kredit von 250.000 € zu 6 % über 30 Jahre?",
+    "finance.example.target":
+      "Wie lange brauche ich, um 10.000 € zu sparen, wenn ich 300 € im Monat zu 4 % zurücklege?",
+    "finance.example.goal":
+      "Wie viel muss ich monatlich sparen, um in 3 Jahren 20.000 € bei 4 % zu erreichen?",
+    "finance.example.roi":
+      "Ich habe 5.000 € investiert, und nach 3 Jahren sind sie jetzt 7.200 € wert – wie hoch ist meine Rendite?",
+    "finance.column.year": "Jahr",
+    "finance.column.deposited": "Eingezahlt",
+    "finance.column.interest": "Zinsen",
+    "finance.column.balance": "Kontostand",
+    "finance.column.principalPaid": "Getilgt",
+    "finance.column.interestPaid": "Gezahlte Zinsen",
+    "finance.column.remaining": "Restschuld",
+    "finance.investment.start": "einem Startguthaben von {amount}",
+    "finance.investment.contribution": "{times}× jährlich {amount}",
+    "finance.investment.result":
+      "Mit {parts} zu {rate} Jahreszins wächst das Guthaben über {years} auf **{balance}**.",
+    "finance.investment.split": "Das sind {deposited} Einzahlungen plus {interest} Zinsen.",
+    "finance.investment.parameters":
+      "Kapital {principal}, Einzahlung {payment} × {periods}/Jahr, Zinssatz {rate} bei {compounding}× Verzinsung pro Jahr, {total} Perioden.",
+    "finance.investment.formula":
+      "FV = P × (1 + i)^n + PMT × ((1 + i)^n − 1) / i, wobei i der Zinssatz pro Einzahlungsperiode und n die Zahl der Perioden ist.",
+    "finance.loan.result":
+      "Ein Kredit von {principal} zu {rate}, Laufzeit {years}, kostet **{payment} pro Monat**.",
+    "finance.loan.total": "Insgesamt zahlst du {total} zurück, davon {interest} Zinsen.",
+    "finance.loan.parameters":
+      "Kapital {principal}, Zinssatz {rate} ({monthly} monatlich), {count} Monatsraten.",
+    "finance.loan.formula":
+      "M = P × i / (1 − (1 + i)^−n), die übliche Annuitätenrate mit Monatszins i über n Zahlungen.",
+    "finance.period.week": { one: "{count} Woche", other: "{count} Wochen" },
+    "finance.period.month": { one: "{count} Monat", other: "{count} Monaten" },
+    "finance.period.quarter": { one: "{count} Quartal", other: "{count} Quartalen" },
+    "finance.period.year": { one: "{count} Jahr", other: "{count} Jahren" },
+    "finance.per.week": "pro Woche",
+    "finance.per.month": "pro Monat",
+    "finance.per.quarter": "pro Quartal",
+    "finance.per.year": "pro Jahr",
+    "finance.target.covered":
+      "Deine vorhandenen {current} decken {target} bereits ab – keine weiteren Einzahlungen nötig.",
+    "finance.target.reached":
+      "Mit {payment} {per} zu {rate} erreichst du {target} in **{count}**{about} und hast dann {balance} gespart.",
+    "finance.target.about": " (etwa {years})",
+    "finance.target.parameters":
+      "Ziel {target}, Startguthaben {current}, Einzahlung {payment} × {periods}/Jahr, Zinssatz {rate}.",
+    "finance.target.formula":
+      "n = ln((FV × i + PMT) / (PV × i + PMT)) / ln(1 + i), die nach der Zahl der Einzahlungen aufgelöste und aufgerundete Endwertformel.",
+    "finance.savings.counts": "Das berücksichtigt die {current}, die du schon hast.",
+    "finance.savings.zero": "Das geht davon aus, dass du bei null anfängst.",
+    "finance.goal.grows":
+      "Deine vorhandenen {current} wachsen über {years} von selbst auf mehr als {target} – keine weiteren Einzahlungen nötig.",
+    "finance.goal.result":
+      "Um {target} bei {rate} über {years} anzusparen, lege **{monthly} pro Monat** zurück.",
+    "finance.goal.parameters":
+      "Ziel {target}, Startguthaben {current}, Zinssatz {rate}, {count} Monatseinzahlungen.",
+    "finance.goal.formula":
+      "PMT = (FV − PV × (1 + i)^n) × i / ((1 + i)^n − 1), die nach der Einzahlung aufgelöste Endwertformel.",
+    "finance.roi.parameters": "Kosten {cost}, Endwert {final}.",
+    "finance.roi.parametersOver": "Kosten {cost}, Endwert {final} über {years}.",
+    "finance.roi.formula": "ROI = (Endwert − Kosten) / Kosten.",
+    "finance.roi.formulaAnnualised":
+      "ROI = (Endwert − Kosten) / Kosten; annualisierte Rendite = (Endwert / Kosten)^(1 / Jahre) − 1.",
+    "finance.roi.result":
+      "Aus {cost} werden {final}: eine **Rendite von {roi}** ({change} {direction}).",
+    "finance.roi.gain": "Gewinn",
+    "finance.roi.loss": "Verlust",
+    "finance.roi.annualised": "Über {years} verteilt sind das {rate} pro Jahr.",
+
+    "todo.notFound": "Ich habe „{query}“ nicht auf deiner Liste gefunden.",
+    "todo.notFound.step": "Kein Eintrag passt zu „{query}“, die Liste bleibt unverändert.",
+    "todo.duplicate": "Das steht schon auf deiner Liste.",
+    "todo.duplicate.step": "Alle Einträge waren schon offen, daher wurde nichts hinzugefügt.",
+    "todo.added": "{items} hinzugefügt.",
+    "todo.added.step": {
+      one: "{count} Eintrag zur Liste der Sitzung hinzugefügt.",
+      other: "{count} Einträge zur Liste der Sitzung hinzugefügt."
+    },
+    "todo.alreadyDone": "**{item}** ist schon erledigt.",
+    "todo.alreadyDone.step": "Der Eintrag war bereits abgeschlossen.",
+    "todo.completed": "**{item}** als erledigt markiert.",
+    "todo.completed.step": "„{query}“ als „{item}“ erkannt und abgehakt.",
+    "todo.removed": "**{item}** entfernt.",
+    "todo.removed.step": "„{query}“ als „{item}“ erkannt und entfernt.",
+    "todo.cleared": {
+      one: "{count} erledigten Eintrag gelöscht.",
+      other: "{count} erledigte Einträge gelöscht."
+    },
+    "todo.cleared.step": "Erledigte Einträge aus der Liste der Sitzung entfernt.",
+    "todo.unknownDay":
+      "Ich weiß nicht, welcher Tag mit „{day}“ gemeint ist. Versuch „morgen“, „Freitag“ oder „12. November“.",
+    "todo.unknownDay.step": "Der Tag wurde nicht erkannt, die Liste bleibt unverändert.",
+    "todo.moved": "**{item}** auf {day} verschoben.",
+    "todo.moved.step": "„{day}“ als {due} gelesen und den Eintrag aktualisiert.",
+    "todo.nextUp": "Als Nächstes: **{item}**.",
+    "todo.read.step": {
+      one: "{count} gespeicherten Eintrag gelesen, {open} noch offen.",
+      other: "{count} gespeicherte Einträge gelesen, {open} noch offen."
+    },
+    "todo.shown.step": "Die gespeicherte Liste angezeigt.",
+    "todos.empty":
+      "Deine Liste ist leer. Versuch „füge Flüge buchen und Pass verlängern zu meiner Liste hinzu“.",
+    "todos.allDone": "Nichts mehr offen – alles auf deiner Liste ist erledigt.",
+    "todos.left": "**{count} offen:**",
+    "todos.done": "Erledigt: {items}",
+
+    "plan.method": {
+      one: "{steps} Schritte mit {count} Meilenstein zwischen {start} und {deadline} eingeplant, nach Abhängigkeiten geordnet.",
+      other:
+        "{steps} Schritte mit {count} Meilensteinen zwischen {start} und {deadline} eingeplant, nach Abhängigkeiten geordnet."
+    },
+    "plan.header.day": "Plan für **{goal}**, {start} → {end}:",
+    "plan.header.time": "Plan für **{goal}**, {start}–{end}:",
+    "plan.after": "nach {steps}",
+    "plan.constraints": "**Rahmenbedingungen:** {constraints}.",
+    "plan.goal": "das Ziel",
+    "plan.note.window": "In {window} ab {time} eingepasst.",
+    "plan.note.tomorrow": "Heute bleibt zu wenig Zeit, daher beginnt der Plan morgen um {time}.",
+    "plan.note.shortened": "Auf {count} Minuten gekürzt, damit er um {time} endet.",
+    "plan.note.defaultDays": "Keine Frist angegeben, daher habe ich {count} Tage angenommen.",
+    "plan.note.passed":
+      "Die Frist ({deadline}) ist bereits verstrichen, daher beginnt und endet der Plan heute.",
+    "plan.note.noDays":
+      "Vor der Frist passt kein Arbeitstag mehr, daher fällt alles auf den Stichtag selbst.",
+    "plan.note.fewDays": {
+      one: "Nur {count} Arbeitstag vor der Frist – Schritte teilen sich Tage.",
+      other: "Nur {count} Arbeitstage vor der Frist – Schritte teilen sich Tage."
+    },
+    "plan.note.hours": "{count} konzentrierte Stunden pro Arbeitstag angenommen.",
+    "plan.window.minutes": "{count} Minuten",
+    "plan.window.hours": "{count} Stunden",
+    "plan.window.morning": "den Vormittag",
+    "plan.window.afternoon": "den Nachmittag",
+    "plan.window.evening": "den Abend",
+    "plan.window.tonight": "den heutigen Abend",
+    "plan.constraint.hours": { one: "{count} Stunde pro Tag", other: "{count} Stunden pro Tag" },
+    "plan.constraint.budget": "Budget {amount}",
+    "plan.constraint.weekendsOnly": "Nur am Wochenende",
+    "plan.constraint.weekendsIncluded": "Wochenenden eingeschlossen",
+    "plan.constraint.noWeekends": "Keine Wochenenden",
+    "plan.constraint.evenings": "Nur abends",
+    "plan.constraint.solo": "Allein",
+    "plan.constraint.team": "Zusammen mit {team}",
+    "plan.launch.scope": "Umfang und Erfolgskennzahlen festlegen: {goal}",
+    "plan.launch.build": "Das Produkt selbst fertigstellen und verfeinern",
+    "plan.launch.assets": "Botschaften, Material und Launch-Seite vorbereiten",
+    "plan.launch.test": "Mit einer kleinen Gruppe testen und Fehler beheben",
+    "plan.launch.ready": "Startklar: Produkt getestet und Material freigegeben",
+    "plan.launch.launch": "Starten und ankündigen",
+    "plan.launch.review": "Erste Kennzahlen und Rückmeldungen auswerten",
+    "plan.study.map": "Alle Themen von {goal} sammeln und die eigene Sicherheit je Thema bewerten",
+    "plan.study.weakest": "Zuerst die schwächsten Themen durcharbeiten",
+    "plan.study.practise": "Mit alten Prüfungen oder Übungen üben",
+    "plan.study.mock": "Probelauf unter echten Bedingungen",
+    "plan.study.gaps": "Die Lücken aus dem Probelauf schließen",
+    "plan.study.ready": "Bereit für {goal}",
+    "plan.write.outline": "Gliederung für {goal} und Kernbotschaft abstimmen",
+    "plan.write.research": "Recherche, Daten und Beispiele sammeln",
+    "plan.write.draft": "Den ersten Entwurf komplett schreiben",
+    "plan.write.drafted": "Erster Entwurf fertig",
+    "plan.write.revise": "Mit dem Feedback einer Person überarbeiten",
+    "plan.write.polish": "Letzter Schliff und Übergabe",
+    "plan.write.delivered": "Abgegeben",
+    "plan.event.budget": "Budget, Datum und Gästeliste festlegen: {goal}",
+    "plan.event.book": "Ort, Reise oder wichtige Dienstleister buchen",
+    "plan.event.invite": "Einladungen verschicken und Zusagen sammeln",
+    "plan.event.confirmed": "Buchungen bestätigt",
+    "plan.event.logistics": "Ablauf und Logistik planen",
+    "plan.event.checks": "Letzte Abstimmung mit allen Beteiligten",
+    "plan.event.happens": "{Goal} findet statt",
+    "plan.change.outcome": "Festlegen, wie ein gutes Ergebnis aussieht: {goal}",
+    "plan.change.research": "Optionen recherchieren und die besten drei auswählen",
+    "plan.change.decided": "Entscheidung getroffen",
+    "plan.change.logistics": "Papierkram, Buchungen und Logistik erledigen",
+    "plan.change.execute": "Den Wechsel umsetzen",
+    "plan.change.settle": "Ankommen und offene Enden abschließen",
+    "plan.generic.finish": "Ein messbares Ziel festlegen: {goal}",
+    "plan.generic.gather": "Nötige Informationen, Werkzeuge und Leute zusammenbringen",
+    "plan.generic.work": "Die Kernarbeit in konzentrierten Blöcken erledigen",
+    "plan.generic.done": "Kernarbeit erledigt",
+    "plan.generic.review": "Prüfen, verfeinern und Lücken schließen",
+    "plan.generic.deliver": "Abliefern: {goal}",
+    "plan.timed.warmUp": "Aufwärmen und Mobilität",
+    "plan.timed.cardio": "Cardio, Runde {round}",
+    "plan.timed.strength": "Kraft, Runde {round}",
+    "plan.timed.main": "Hauptteil, Teil {round}",
+    "plan.timed.coolDown": "Abwärmen und Dehnen",
+    "plan.timed.setUp": "Vorbereiten und festlegen, wann es fertig ist",
+    "plan.timed.focusTask": "Fokusblock: Aufgabe {round}",
+    "plan.timed.focusGoal": "Fokusblock: {goal}",
+    "plan.timed.break": "Kurze Pause",
+    "plan.timed.wrapUp": "Abschließen und den nächsten Schritt notieren",
+
+    "priorities.empty":
+      "Schick mir eine Liste von Aufgaben, getrennt durch Kommas oder Zeilenumbrüche, damit ich sie ordnen kann.",
+    "priorities.header": "Geordnet mit **{framework}** – {formula}:",
+    "priorities.line": "{position}. {task} – Priorität {score}",
+    "priorities.stored": "Die offenen Einträge deiner Aufgabenliste verwendet. ",
+    "priorities.method":
+      "{stored}Jede Aufgabe mit {framework} bewertet; Fristen, Aufwand (2h, S/M/L) und Gewichte (w=3, !!) stammen aus dem Text. Frag nach Eisenhower, Aufwand vs. Wirkung oder RICE, um die Methode zu wechseln.",
+    "priorities.column.task": "Aufgabe",
+    "priorities.column.urgency": "Dringlichkeit",
+    "priorities.column.impact": "Wirkung",
+    "priorities.column.weight": "Gewicht",
+    "priorities.column.due": "Fällig",
+    "priorities.column.score": "Punkte",
+    "priorities.column.urgent": "Dringend",
+    "priorities.column.important": "Wichtig",
+    "priorities.column.quadrant": "Quadrant",
+    "priorities.column.effort": "Aufwand",
+    "priorities.column.reach": "Reichweite",
+    "priorities.column.confidence": "Zuversicht",
+    "priorities.yes": "ja",
+    "priorities.no": "nein",
+    "priorities.quadrant.doFirst": "Sofort erledigen",
+    "priorities.quadrant.schedule": "Einplanen",
+    "priorities.quadrant.delegate": "Delegieren",
+    "priorities.quadrant.eliminate": "Streichen",
+    "priorities.quadrant.majorProject": "Großprojekt",
+    "priorities.quadrant.quickWin": "Schneller Erfolg",
+    "priorities.quadrant.thankless": "Undankbar",
+    "priorities.quadrant.fillIn": "Lückenfüller",
+    "framework.weighted": "Gewichtete Bewertung",
+    "framework.weighted.formula": "(Dringlichkeit × 2 + Wirkung) × Gewicht",
+    "framework.eisenhower": "Eisenhower-Matrix",
+    "framework.eisenhower.formula":
+      "zuerst dringend und wichtig, dann wichtig, dann dringend, dann der Rest",
+    "framework.effort-impact": "Aufwand vs. Wirkung",
+    "framework.effort-impact.formula": "Wirkung × Gewicht ÷ Aufwand in Stunden",
+    "framework.rice": "RICE",
+    "framework.rice.formula": "Reichweite × Wirkung × Zuversicht ÷ Aufwand in Stunden",
+
+    "summary.title": {
+      one: "Zusammenfassung von {count} Nachricht:",
+      other: "Zusammenfassung von {count} Nachrichten:"
+    },
+    "summary.heading.points": "Kernpunkte",
+    "summary.heading.decisions": "Entscheidungen",
+    "summary.heading.actions": "Aufgaben",
+    "summary.heading.questions": "Offene Fragen",
+    "summary.count.decisions": { one: "{count} Entscheidung", other: "{count} Entscheidungen" },
+    "summary.count.actions": { one: "{count} Aufgabe", other: "{count} Aufgaben" },
+    "summary.count.questions": { one: "{count} offene Frage", other: "{count} offene Fragen" },
+    "summary.nothing": "Noch nichts Wesentliches.",
+    "summary.empty": "Wir haben gerade erst angefangen, es gibt noch nichts zusammenzufassen.",
+    "summary.due": "fällig {day}",
+    "summary.method":
+      "Jeden Satz aus {source} nach Begriffshäufigkeit, Position und Signalwörtern bewertet, die besten {points} zu einer Zusammenfassung ({length}) verdichtet und {found} gefunden.",
+    "summary.source.pasted": "dem eingefügten Text",
+    "summary.source.conversation": "dem ganzen Gespräch",
+    "summary.length.one-liner": "ein Satz",
+    "summary.length.short": "kurz",
+    "summary.length.detailed": "ausführlich",
+
+    "brainstorm.angle.partners": "Unerwartete Partnerschaften oder Zielgruppen",
+    "brainstorm.angle.journey": "Momente der Customer Journey, die du besonders machen kannst",
+    "brainstorm.angle.experiments": "Kleine Experimente, die du diese Woche starten kannst",
+    "brainstorm.angle.signals": "Signale, die zeigen, dass die Idee funktioniert",
+    "brainstorm.idea":
+      '{angle} — speziell für "{topic}". Überleg, was sich im Vergleich zum Status quo erfrischend anfühlen würde.',
+    "brainstorm.method":
+      "Vier gegensätzliche Ideenrichtungen erzeugt, um divergentes Denken anzuregen.",
+
+    "insight.fallback":
+      "- Fasse dein Ziel in einem Satz zusammen, damit ich prüfen kann, ob ich es richtig verstanden habe.\n" +
+      "- Nenne ein Hindernis oder eine Variable, die dir Sorgen macht.\n" +
+      "- Bitte um etwas Konkretes: einen Plan, eine Gliederung, ein Skript, eine Rechnung oder eine Kritik.",
+    "insight.fallback.step":
+      "Kein Werkzeug passte direkt, daher habe ich eine strukturierte Anregung angeboten, um das Gespräch zu schärfen.",
+    "insight.knowledge": "Die Leitfäden mit BM25 gerankt und die besten Passagen verwendet:",
+
+    "followup.needs":
+      "Dafür brauche ich {what} aus dem bisherigen Gespräch. Teile es und wähle die Nachfrage noch einmal.",
+    "followup.needs.step":
+      "Die vorige Antwort enthielt nichts, womit diese Nachfrage arbeiten kann.",
+    "followup.needs.plan": "einen Plan",
+    "followup.needs.ideas": "eine Ideenliste",
+    "followup.needs.summary": "eine Zusammenfassung",
+    "followup.needs.tasks": "eine priorisierte Aufgabenliste",
+    "followup.needs.takeaways": "eine Liste mit Kernaussagen",
+    "followup.needs.recommendations": "eine Liste mit Empfehlungen",
+    "followup.needs.calculation": "eine Rechnung",
+    "followup.needs.finance": "eine Finanzfrage",
+    "followup.needs.rate": "eine Finanzfrage mit Zinssatz",
+    "followup.needs.monthly": "eine Finanzfrage mit monatlicher Einzahlung",
+    "followup.needs.previous": "eine vorherige Antwort",
+    "followup.starter.goal":
+      'Nenn mir Ziel und Frist in einer Zeile, z. B. "Plane eine Produktdemo bis Freitag", und ich lege die Schritte fest.',
+    "followup.starter.condense":
+      'Füge die Nachricht nach dem Wort "Zusammenfassen:" ein, und ich fasse sie zusammen.',
+    "followup.starter.prioritise":
+      'Schick "Priorisiere:" und danach deine Aufgaben, eine pro Zeile oder durch Kommas getrennt.',
+    "followup.starter.step": "Nach den Angaben gefragt, die diese Aufgabe braucht.",
+    "followup.column.day": "Tag",
+    "followup.column.focus": "Schwerpunkt",
+    "followup.column.time": "Zeit",
+    "followup.column.block": "Block",
+    "followup.column.stage": "Phase",
+    "followup.column.experience": "Erlebnis",
+    "followup.column.recommendation": "Empfehlung",
+    "followup.column.shortTime": "Wenn die Zeit knapp ist",
+    "followup.column.tightBudget": "Wenn das Budget knapp ist",
+    "followup.column.audience": "Für deine Zielgruppe",
+    "followup.column.scenario": "Szenario",
+    "followup.column.expression": "Ausdruck",
+    "followup.column.result": "Ergebnis",
+    "followup.column.rate": "Zinssatz",
+    "followup.column.monthly": "Monatlicher Betrag",
+    "followup.timeline.intro": "Hier ist der Plan, verteilt auf sieben Tage:",
+    "followup.timeline.day": "Tag {day}",
+    "followup.timeline.review":
+      "Ergebnisse am Ziel messen und über den nächsten Durchgang entscheiden.",
+    "followup.timeline.buffer": "Puffer: Liegengebliebenes nachholen und offene Enden aufräumen.",
+    "followup.timeline.step":
+      "{steps} Planschritte auf {days} Arbeitstage verteilt, dazu ein Puffer- und ein Rückblickstag.",
+    "followup.milestone": "**Meilenstein:** {milestone}",
+    "followup.milestone.why":
+      "- **Warum er zählt:** Alles Weitere hängt davon ab, dass er geklärt ist.",
+    "followup.milestone.done":
+      "- **Erledigt, wenn:** du das Ergebnis jemand anderem ohne Vorbehalte zeigen kannst.",
+    "followup.milestone.checkIn":
+      "- **Kontrolle:** Plane 15 Minuten Rückblick für den Tag ein, an dem du ihn erreichen willst.",
+    "followup.milestone.step":
+      "Den Planschritt gewählt, der den Erfolg festlegt oder den Rest freigibt.",
+    "followup.blocks.intro":
+      "Jeder Schritt ist in Fokusblöcke von bis zu zwei Stunden innerhalb von {hours} aufgeteilt:",
+    "followup.blocks.download":
+      "Lade die Kalenderdatei herunter, um diese Blöcke in deinen Kalender zu übernehmen.",
+    "followup.blocks.step": "{steps} Planschritte in {blocks} Kalenderblöcke eingeteilt.",
+    "followup.standout": "**Herausragendes Konzept:** {angle} für {topic}.",
+    "followup.standout.quick":
+      "- Es lässt sich schnell testen, sodass du lernst, bevor Budget gebunden ist.",
+    "followup.standout.talk": "- Es gibt Leuten einen konkreten Grund, über dich zu sprechen.",
+    "followup.standout.runnerUp": "- Zweite Wahl: {idea} – als Reserve behalten.",
+    "followup.standout.none": "keine",
+    "followup.standout.step":
+      "Jede Idee nach Testgeschwindigkeit und Zugkraft beim Publikum bewertet und die beste behalten.",
+    "followup.journey.intro": "Nutzerreise für {topic}:",
+    "followup.journey.discover": "Entdecken",
+    "followup.journey.discover.text":
+      "Jemand hört zum ersten Mal von {topic} – über Freunde, einen Beitrag oder eine Suche.",
+    "followup.journey.consider": "Abwägen",
+    "followup.journey.consider.text":
+      "Die Person vergleicht es mit dem, was sie heute tut, und sucht einen klaren Grund, es zu probieren.",
+    "followup.journey.try": "Ausprobieren",
+    "followup.journey.try.text":
+      "Ein einfacher erster Schritt (Probe, Test, Demo) löst das Versprechen schnell ein.",
+    "followup.journey.adopt": "Übernehmen",
+    "followup.journey.adopt.text":
+      "Ein kleiner Erfolg in der ersten Woche macht aus dem Test eine Gewohnheit.",
+    "followup.journey.share": "Weitersagen",
+    "followup.journey.share.text":
+      "Ein eingebauter Moment lädt dazu ein, anderen davon zu erzählen, und schließt den Kreis.",
+    "followup.journey.step":
+      "Das Konzept auf fünf Phasen der Nutzerreise übertragen, von der Entdeckung bis zur Empfehlung.",
+    "followup.pitch.problem":
+      "Wer sich für {topic} interessiert, hat nur Angebote, die sich alle gleich anfühlen.",
+    "followup.pitch.approach":
+      "Wir beginnen mit {idea}, damit sich das erste Erlebnis erfrischend anders anfühlt.",
+    "followup.pitch.proof":
+      "Gib uns eine Woche, und wir zeigen das Signal, das beweist, dass es wirkt.",
+    "followup.pitch.fallback": "einem neuen Ansatz",
+    "followup.pitch.step":
+      "Einen Pitch nach dem Muster Problem → Ansatz → Beleg rund um die führende Idee geschrieben.",
+    "followup.actions.title": "Aufgaben:",
+    "followup.actions.listed": {
+      one: "Die Aufgabe aus der Zusammenfassung mit Verantwortlichem und Datum aufgelistet.",
+      other:
+        "Die {count} Aufgaben aus der Zusammenfassung mit Verantwortlichen und Terminen aufgelistet."
+    },
+    "followup.actions.none":
+      "Ich finde in der Zusammenfassung keine ausdrücklichen Aufgaben. Ergänze, wer was bis wann erledigt.",
+    "followup.actions.none.step":
+      "Die Zusammenfassung nach Zusagen und Aufforderungen durchsucht; keine gefunden.",
+    "followup.actions.pulled": {
+      one: "{count} Zusage aus der Zusammenfassung übernommen.",
+      other: "{count} Zusagen aus der Zusammenfassung übernommen."
+    },
+    "followup.risks.title": "Risiken und offene Fragen:",
+    "followup.risks.none":
+      "In der Zusammenfassung ist noch nichts als Risiko markiert. Zu klären wäre:",
+    "followup.risks.owner": "- Wer ist für jeden nächsten Schritt verantwortlich?",
+    "followup.risks.deadline": "- Welche Frist steht fest und welche kann sich verschieben?",
+    "followup.risks.stop": "- Was würde uns dazu bringen, aufzuhören oder umzusteuern?",
+    "followup.risks.step":
+      "Die Zusammenfassung nach Fragen, Vorbehalten und Abhängigkeiten durchsucht.",
+    "followup.update.title": "**Statusbericht**",
+    "followup.update.status": "**Status:** im Plan – {highlight}",
+    "followup.update.highlights": "**Höhepunkte:**",
+    "followup.update.next": "**Nächste Schritte:**",
+    "followup.update.nextMissing":
+      "**Nächste Schritte:** Verantwortliche und Termine für die Punkte oben bestätigen.",
+    "followup.update.asks": "**Bitten:** noch keine – Hindernisse früh melden.",
+    "followup.update.step":
+      "Die Zusammenfassung im Format Status / Höhepunkte / nächste Schritte / Bitten neu geschrieben.",
+    "followup.quadrant.quickWins": "Schnelle Erfolge (hohe Wirkung, wenig Aufwand)",
+    "followup.quadrant.majorProjects": "Große Projekte (hohe Wirkung, viel Aufwand)",
+    "followup.quadrant.fillIns": "Lückenfüller (geringe Wirkung, wenig Aufwand)",
+    "followup.quadrant.reconsider": "Überdenken (geringe Wirkung, viel Aufwand)",
+    "followup.quadrant.step":
+      "Angegebene Wirkung und angegebenen Aufwand verwendet, sonst die Formulierung der Aufgabe.",
+    "followup.schedule": "Blocke **{when}** für **{task}** ({minutes} Minuten).",
+    "followup.schedule.slot":
+      "- Das nächste freie Zeitfenster in deiner Arbeitszeit verhindert, dass die wichtigste Aufgabe liegen bleibt.",
+    "followup.schedule.output": "- Leg das fertige Ergebnis fest, bevor der Block beginnt.",
+    "followup.schedule.slip":
+      "- Wenn es sich verschiebt, verschiebe den ganzen Block, statt ihn aufzuteilen.",
+    "followup.schedule.stated":
+      "Die angegebenen {minutes} Minuten verwendet und ins nächste Zeitfenster der Arbeitszeit gelegt.",
+    "followup.schedule.estimated":
+      "{minutes} Minuten geschätzt und ins nächste Zeitfenster der Arbeitszeit gelegt.",
+    "followup.delegate.intro": "Die niedrigsten Prioritäten und was damit zu tun ist:",
+    "followup.delegate.delegate":
+      "- **Delegieren:** {task} – mit erwartetem Ergebnis und Termin übergeben.",
+    "followup.delegate.defer":
+      "- **Aufschieben:** {task} – zurückstellen, bis das Wichtigste erledigt ist, dann neu priorisieren.",
+    "followup.delegate.step":
+      "Das untere Drittel der Rangliste genommen; Routineaufgaben werden delegiert, große aufgeschoben.",
+    "followup.takeaway": "**Kernaussage:** {takeaway}",
+    "followup.takeaway.why":
+      "- **Warum es wirkt:** Es nimmt dir eine Entscheidung genau dann ab, wenn du handeln musst.",
+    "followup.takeaway.start":
+      "- **Heute anfangen:** Probier es einmal in der kleinsten Form aus und notiere, was passiert.",
+    "followup.takeaway.watch": "- **Vorsicht vor:** Perfektion statt Beständigkeit.",
+    "followup.takeaway.step":
+      "Die erste Kernaussage um Begründung, ersten Schritt und Stolperstein erweitert.",
+    "followup.constraints.time": "Mach diese Woche die kleinste Version.",
+    "followup.constraints.budget": "Nutze Werkzeuge und Leute, die du schon hast.",
+    "followup.constraints.audience": "Teste es zuerst mit drei echten Menschen.",
+    "followup.constraints.step":
+      "Jede Empfehlung an den Grenzen von Zeit, Budget und Zielgruppe gemessen.",
+    "followup.checklist.title": "Checkliste:",
+    "followup.checklist.step": {
+      one: "{count} Punkt in einen Checklisteneintrag verwandelt.",
+      other: "{count} Punkte in Checklisteneinträge verwandelt."
+    },
+    "followup.scenarios.intro": "Die erste Zahl in `{expression}` variiert:",
+    "followup.scenarios.baseline": "Ausgangswert",
+    "followup.scenarios.step":
+      "Die vorige Rechnung mit vergrößertem und verkleinertem ersten Wert wiederholt.",
+    "followup.explain":
+      "`{expression}` {operations} die Zahlen, die du angegeben hast.{grouped} Das Ergebnis ist **{result}**.",
+    "followup.explain.multiplies": "multipliziert",
+    "followup.explain.divides": "teilt",
+    "followup.explain.adds": "addiert",
+    "followup.explain.subtracts": "subtrahiert",
+    "followup.explain.power": "potenziert",
+    "followup.explain.combines": "verknüpft",
+    "followup.explain.and": "und",
+    "followup.explain.grouped": " Zuerst wird der Teil in Klammern berechnet, dann der Rest.",
+    "followup.explain.step":
+      "Die Rechenschritte der vorigen Rechnung in einfachen Worten beschrieben.",
+    "followup.rates.intro": "Dieselbe Frage mit anderen Zinssätzen:",
+    "followup.rates.yours": "{rate}% (deiner)",
+    "followup.rates.step": "Die Rechnung mit {count} Zinssätzen rund um {rate}% wiederholt.",
+    "followup.contribution.intro": "Was eine höhere monatliche Einzahlung bewirkt:",
+    "followup.contribution.step":
+      "Die Rechnung mit um 25%, 50% und 100% erhöhtem Monatsbetrag wiederholt."
+  },
+  labels: {
+    "follow-up": "Nachfrage",
+    finance: "Finanzen",
+    math: "Berechnung",
+    plan: "Plan",
+    brainstorm: "Ideen",
+    summarize: "Zusammenfassung",
+    todo: "Aufgabenliste",
+    prioritize: "Prioritäten",
+    insight: "Hinweise"
+  },
+  suggestions: {
+    idle: [
+      "Gib mir ein Ziel mit einer knappen Frist",
+      "Bitte mich, eine lange Nachricht zusammenzufassen",
+      "Teile deine Aufgaben und ich priorisiere sie"
+    ],
+    "follow-up": [
+      "Mach daraus eine umsetzbare Checkliste",
+      "Zeig Risiken oder offene Fragen auf",
+      "Bitte mich, eine Erkenntnis zu vertiefen"
+    ],
+    finance: [
+      "Zeig die Tabelle Jahr für Jahr",
+      "Vergleiche das mit einem anderen Zinssatz",
+      "Was wäre, wenn ich jeden Monat mehr einzahle?"
+    ],
+    math: [
+      "Vergleiche das Ergebnis mit einem anderen Szenario",
+      "Bitte mich, die Zahlen kurz zu erklären",
+      "Erstelle eine Ergebnistabelle mit verschiedenen Variablen"
+    ],
+    plan: [
+      "Fordere einen 7-Tage-Zeitplan für den Plan an",
+      "Frag nach dem wichtigsten Meilenstein",
+      "Mach aus dem Plan Kalenderblöcke"
+    ],
+    brainstorm: [
+      "Grenze die Ideen auf ein herausragendes Konzept ein",
+      "Mach aus diesem Konzept eine User Journey",
+      "Entwirf einen Pitch in 3 Sätzen für die beste Idee"
+    ],
+    summarize: [
+      "Zieh die Aufgaben aus der Zusammenfassung heraus",
+      "Zeig Risiken oder offene Fragen auf",
+      "Überarbeite die Zusammenfassung für ein Stakeholder-Update"
+    ],
+    todo: [
+      "Was steht noch auf meiner Liste?",
+      "Priorisiere meine Liste",
+      "Lösche erledigte Einträge"
+    ],
+    prioritize: [
+      "Gruppiere die Aufgaben nach Aufwand und Wirkung",
+      "Plane die wichtigste Aufgabe in ein realistisches Zeitfenster ein",
+      "Delegiere oder verschiebe die niedrigsten Prioritäten"
+    ],
+    insight: [
+      "Bitte mich, eine Erkenntnis zu vertiefen",
+      "Ergänze echte Rahmenbedingungen (Zeit, Budget, Zielgruppe)",
+      "Mach daraus eine umsetzbare Checkliste"
+    ]
+  }
+};
@@ -0,0 +1,563 @@
+/** A message, or its singular and plural forms chosen by a `count` parameter. */
+export type Message = string | { one: string; other: string };
+
+/**
+ * English messages: the reference every other catalogue translates. Keys
+ * group by the module that uses them; `{name}` marks a placeholder.
+ */
+export const messages = {
+  "agent.idle.status": "No user input detected, so I am idling.",
+  "agent.idle.reply": "I'm ready whenever you are.",
+  "agent.empty.status": "The tool registry is empty.",
+  "agent.empty.reply": "No tools are registered, so I cannot respond to that yet.",
+  "agent.intent.title": "Intent Detection",
+  "agent.intent.single": "Input suggests a **{tool}** style response.",
+  "agent.intent.compound": "Input combines {count} requests: {tools}.",
+  "agent.handled": 'Handled "{segment}".',
+  "agent.next.title": "Next Move",
+  "agent.next.single": "Suggested follow-up paths to continue the session.",
+  "agent.next.compound": "Suggested follow-up paths for each part of the request.",
+
+  "tone.friendly": "Hope that helps — just say if you would like to adjust anything!",
+  "tone.formal": "Please let me know if you require any further adjustments.",
+
+  "step.method": "Method",
+  "step.status": "Status",
+  "step.tool": "Tool",
+  "step.memory": "Memory",
+  "step.tasks": "Task list",
+  "step.fallback": "Fallback",
+  "step.knowledge": "Knowledge",
+  "step.model": "Model",
+  "step.followUp": "Follow-up",
+  "step.finance": "Finance",
+  "step.parameters": "Parameters",
+  "step.formula": "Formula",
+
+  "model.drafted": "Drafted the reply with **{model}**.",
+  "model.failed": "**{model}** did not answer ({reason}), so I used the built-in heuristics.",
+
+  "math.tool": "Evaluated arithmetic expression using the safe math parser.",
+  "math.empty": "I could not detect a solvable expression. Try something like `3 * (12 + 4)`.",
+  "math.saved": "Saved `{name}` = **{value}**.",
+  "math.result": "The expression {expression} evaluates to **{value}**.",
+  "math.memory": "Stored as `ans{count}` (also `ans`).",
+  "math.variables": "Variables: {variables}.",
+
+  "calc.at": "{reason} at `{text}` (character {position} of your message).",
+  "calc.unknownVariable": "I don't know the variable",
+  "calc.unopened": "This closing parenthesis has no partner",
+  "calc.unclosed": "This parenthesis is never closed",
+  "calc.malformed": "That expression is malformed",
+  "calc.combine": "I cannot combine {first} (`{text}`) with {second}",
+  "calc.convert": "I cannot convert {dimension} into {unit}.",
+  "calc.nonNumeric":
+    "That expression resolves to a non-numeric result, which I do not support yet.",
+  "calc.multiply": "I cannot multiply {first} (`{text}`) by {second}",
+  "calc.divide": "I cannot divide {first} by {second}",
+  "calc.power": "I cannot raise {dimension} to a power",
+  "calc.function": "`{name}` only takes plain numbers, not {dimension}",
+  "dimension.length": "length",
+  "dimension.mass": "mass",
+  "dimension.currency": "currency",
+  "dimension.none": "a plain number",
+
+  "finance.parsed": "Parsed the question as a **{kind}** calculation.",
+  "finance.kind.investment": "investment",
+  "finance.kind.loan": "loan",
+  "finance.kind.goal": "goal",
+  "finance.kind.roi": "roi",
+  "finance.money": "{sign}{currency}{amount}",
+  "finance.percent": "{value}%",
+  "finance.years": { one: "{years} year", other: "{years} years" },
+  "finance.and": "and",
+  "finance.horizon": "That runs past the {years}-year horizon these calculations cover. {advice}",
+  "finance.horizon.step":
+    "The time frame exceeded {years} years, so I stopped before projecting it.",
+  "finance.horizon.timeFrame": "Try a shorter time frame.",
+  "finance.horizon.term": "Try a shorter term.",
+  "finance.horizon.deposit": "Try a larger deposit or a smaller target.",
+  "finance.horizon.deadline": "Try a nearer deadline.",
+  "finance.missing": 'I need {what} to run that calculation. Try something like "{example}".',
+  "finance.missing.step":
+    "Could not extract every parameter the formula needs, so I asked for the missing values.",
+  "finance.missing.investment": "an amount, an annual rate and a time frame",
+  "finance.missing.loan": "the loan amount, interest rate and term",
+  "finance.missing.target": "a target amount",
+  "finance.missing.goal": "a target amount and either a deadline or a regular deposit",
+  "finance.missing.roi": "both the amount invested and what it returned",
+  "finance.example.investment":
+    "If I invest $150 monthly at 5% annual interest, what's the balance after 3 years?",
+  "finance.example.loan": "What's the monthly payment on a $250,000 mortgage at 6% over 30 years?",
+  "finance.example.target": "How long to save $10,000 if I put away $300 a month at 4%?",
+  "finance.example.goal": "How much should I save monthly to reach $20,000 in 3 years at 4%?",
+  "finance.example.roi":
+    "I invested $5,000 and it's now worth $7,200 after 3 years — what's my ROI?",
+  "finance.column.year": "Year",
+  "finance.column.deposited": "Deposited",
+  "finance.column.interest": "Interest",
+  "finance.column.balance": "Balance",
+  "finance.column.principalPaid": "Principal paid",
+  "finance.column.interestPaid": "Interest paid",
+  "finance.column.remaining": "Remaining balance",
+  "finance.investment.start": "a starting balance of {amount}",
+  "finance.investment.contribution": "{amount} added {times}× a year",
+  "finance.investment.result":
+    "With {parts} at {rate} annual interest, the balance after {years} is **{balance}**.",
+  "finance.investment.split": "That is {deposited} deposited plus {interest} of interest.",
+  "finance.investment.parameters":
+    "Principal {principal}, contribution {payment} × {periods}/year, rate {rate} compounded {compounding}×/year, {total} periods.",
+  "finance.investment.formula":
+    "FV = P × (1 + i)^n + PMT × ((1 + i)^n − 1) / i, where i is the rate per contribution period and n the number of periods.",
+  "finance.loan.result":
+    "Borrowing {principal} at {rate} over {years} costs **{payment} per month**.",
+  "finance.loan.total": "You would repay {total} in total, of which {interest} is interest.",
+  "finance.loan.parameters":
+    "Principal {principal}, rate {rate} ({monthly} monthly), {count} monthly payments.",
+  "finance.loan.formula":
+    "M = P × i / (1 − (1 + i)^−n), the standard amortising payment with monthly rate i over n payments.",
+  "finance.period.week": { one: "{count} week", other: "{count} weeks" },
+  "finance.period.month": { one: "{count} month", other: "{count} months" },
+  "finance.period.quarter": { one: "{count} quarter", other: "{count} quarters" },
+  "finance.period.year": { one: "{count} year", other: "{count} years" },
+  "finance.per.week": "per week",
+  "finance.per.month": "per month",
+  "finance.per.quarter": "per quarter",
+  "finance.per.year": "per year",
+  "finance.target.covered":
+    "Your existing {current} already covers {target} — no extra deposits needed.",
+  "finance.target.reached":
+    "Saving {payment} {per} at {rate}, you reach {target} after **{count}**{about}, with {balance} saved.",
+  "finance.target.about": " (about {years})",
+  "finance.target.parameters":
+    "Target {target}, starting balance {current}, deposit {payment} × {periods}/year, rate {rate}.",
+  "finance.target.formula":
+    "n = ln((FV × i + PMT) / (PV × i + PMT)) / ln(1 + i), solving the future-value equation for the number of deposits, rounded up.",
+  "finance.savings.counts": "This counts the {current} you already have.",
+  "finance.savings.zero": "This assumes you are starting from zero.",
+  "finance.goal.grows":
+    "Your existing {current} already grows past {target} within {years} — no extra deposits needed.",
+  "finance.goal.result": "To reach {target} in {years} at {rate}, save **{monthly} per month**.",
+  "finance.goal.parameters":
+    "Target {target}, starting balance {current}, rate {rate}, {count} monthly deposits.",
+  "finance.goal.formula":
+    "PMT = (FV − PV × (1 + i)^n) × i / ((1 + i)^n − 1), solving the future-value equation for the deposit.",
+  "finance.roi.parameters": "Cost {cost}, final value {final}.",
+  "finance.roi.parametersOver": "Cost {cost}, final value {final} over {years}.",
+  "finance.roi.formula": "ROI = (final − cost) / cost.",
+  "finance.roi.formulaAnnualised":
+    "ROI = (final − cost) / cost; annualised return = (final / cost)^(1 / years) − 1.",
+  "finance.roi.result":
+    "Turning {cost} into {final} is a **{roi} return on investment** ({change} {direction}).",
+  "finance.roi.gain": "gain",
+  "finance.roi.loss": "loss",
+  "finance.roi.annualised": "Spread over {years}, that is {rate} per year.",
+
+  "todo.notFound": "I couldn't find “{query}” on your list.",
+  "todo.notFound.step": 'No item matched "{query}", so the list is unchanged.',
+  "todo.duplicate": "That is already on your list.",
+  "todo.duplicate.step": "Every item was already pending, so nothing was added.",
+  "todo.added": "Added {items}.",
+  "todo.added.step": {
+    one: "Added {count} item to the session's list.",
+    other: "Added {count} items to the session's list."
+  },
+  "todo.alreadyDone": "**{item}** is already done.",
+  "todo.alreadyDone.step": "The item was already complete.",
+  "todo.completed": "Marked **{item}** as done.",
+  "todo.completed.step": 'Matched "{query}" to "{item}" and marked it complete.',
+  "todo.removed": "Removed **{item}**.",
+  "todo.removed.step": 'Matched "{query}" to "{item}" and removed it.',
+  "todo.cleared": {
+    one: "Cleared {count} completed item.",
+    other: "Cleared {count} completed items."
+  },
+  "todo.cleared.step": "Removed completed items from the session's list.",
+  "todo.unknownDay":
+    "I couldn't tell which day “{day}” means. Try “tomorrow”, “Friday” or “12 Nov”.",
+  "todo.unknownDay.step": "The target day was not recognised, so the list is unchanged.",
+  "todo.moved": "Moved **{item}** to {day}.",
+  "todo.moved.step": 'Read "{day}" as {due} and updated the item.',
+  "todo.nextUp": "Next up: **{item}**.",
+  "todo.read.step": {
+    one: "Read {count} stored item, {open} still open.",
+    other: "Read {count} stored items, {open} still open."
+  },
+  "todo.shown.step": "Showed the stored list.",
+  "todos.empty": "Your list is empty. Try “add book flights and renew passport to my list”.",
+  "todos.allDone": "Nothing left — everything on your list is done.",
+  "todos.left": "**{count} left:**",
+  "todos.done": "Done: {items}",
+
+  "plan.method": {
+    one: "Scheduled {steps} steps with {count} milestone between {start} and {deadline}, ordered by their dependencies.",
+    other:
+      "Scheduled {steps} steps with {count} milestones between {start} and {deadline}, ordered by their dependencies."
+  },
+  "plan.header.day": "Plan for **{goal}**, {start} → {end}:",
+  "plan.header.time": "Plan for **{goal}**, {start}–{end}:",
+  "plan.after": "after {steps}",
+  "plan.constraints": "**Constraints:** {constraints}.",
+  "plan.goal": "the goal",
+  "plan.note.window": "Fitted into {window} starting at {time}.",
+  "plan.note.tomorrow": "Too little time is left today, so the plan starts tomorrow at {time}.",
+  "plan.note.shortened": "Shortened to {count} minutes so it ends by {time}.",
+  "plan.note.defaultDays": "No deadline given, so I assumed {count} days.",
+  "plan.note.passed":
+    "The deadline ({deadline}) has already passed, so the plan starts and ends today.",
+  "plan.note.noDays":
+    "No working days fit before the deadline, so everything lands on the deadline itself.",
+  "plan.note.fewDays": {
+    one: "Only {count} working day before the deadline — steps share days.",
+    other: "Only {count} working days before the deadline — steps share days."
+  },
+  "plan.note.hours": "Assumed {count} focused hours per working day.",
+  "plan.window.minutes": "{count} minutes",
+  "plan.window.hours": "{count} hours",
+  "plan.window.morning": "the morning",
+  "plan.window.afternoon": "the afternoon",
+  "plan.window.evening": "the evening",
+  "plan.window.tonight": "tonight",
+  "plan.constraint.hours": "{count} hours per day",
+  "plan.constraint.budget": "Budget {amount}",
+  "plan.constraint.weekendsOnly": "Weekends only",
+  "plan.constraint.weekendsIncluded": "Weekends included",
+  "plan.constraint.noWeekends": "No weekends",
+  "plan.constraint.evenings": "Evenings only",
+  "plan.constraint.solo": "Working solo",
+  "plan.constraint.team": "Working with {team}",
+  "plan.launch.scope": "Lock the scope and success metrics for {goal}",
+  "plan.launch.build": "Finish and polish the product itself",
+  "plan.launch.assets": "Prepare messaging, assets and the launch page",
+  "plan.launch.test": "Test with a small group and fix what breaks",
+  "plan.launch.ready": "Launch-ready: product tested and assets approved",
+  "plan.launch.launch": "Launch and announce",
+  "plan.launch.review": "Review early metrics and feedback",
+  "plan.study.map": "Map everything {goal} covers and rate your confidence per topic",
+  "plan.study.weakest": "Work through the weakest topics first",
+  "plan.study.practise": "Practise with past papers or exercises",
+  "plan.study.mock": "Mock run under real conditions",
+  "plan.study.gaps": "Revisit the gaps the mock run exposed",
+  "plan.study.ready": "Ready for {goal}",
+  "plan.write.outline": "Outline {goal} and agree on the key message",
+  "plan.write.research": "Collect research, data and examples",
+  "plan.write.draft": "Write the first draft end to end",
+  "plan.write.drafted": "First draft complete",
+  "plan.write.revise": "Revise with feedback from one reviewer",
+  "plan.write.polish": "Final polish and hand-off",
+  "plan.write.delivered": "Delivered",
+  "plan.event.budget": "Set the budget, date and guest list for {goal}",
+  "plan.event.book": "Book the venue, travel or key suppliers",
+  "plan.event.invite": "Send invitations and collect replies",
+  "plan.event.confirmed": "Bookings confirmed",
+  "plan.event.logistics": "Plan the run of show and logistics",
+  "plan.event.checks": "Final checks with everyone involved",
+  "plan.event.happens": "{Goal} happens",
+  "plan.change.outcome": "Define what a good outcome for {goal} looks like",
+  "plan.change.research": "Research options and shortlist the best three",
+  "plan.change.decided": "Decision made",
+  "plan.change.logistics": "Handle the paperwork, bookings and logistics",
+  "plan.change.execute": "Execute the change",
+  "plan.change.settle": "Settle in and close loose ends",
+  "plan.generic.finish": "Define a measurable finish line for {goal}",
+  "plan.generic.gather": "Gather the inputs, tools and people you need",
+  "plan.generic.work": "Do the core work in focused sessions",
+  "plan.generic.done": "Core work done",
+  "plan.generic.review": "Review, refine and close the gaps",
+  "plan.generic.deliver": "Deliver {goal}",
+  "plan.timed.warmUp": "Warm-up and mobility",
+  "plan.timed.cardio": "Cardio round {round}",
+  "plan.timed.strength": "Strength round {round}",
+  "plan.timed.main": "Main set, part {round}",
+  "plan.timed.coolDown": "Cool-down and stretch",
+  "plan.timed.setUp": "Set up and decide what done looks like",
+  "plan.timed.focusTask": "Focus block: task {round}",
+  "plan.timed.focusGoal": "Focus block: {goal}",
+  "plan.timed.break": "Short break",
+  "plan.timed.wrapUp": "Wrap up and note the next step",
+
+  "priorities.empty":
+    "Please provide a list of tasks separated by commas or new lines so I can rank them.",
+  "priorities.header": "Ranked with **{framework}** — {formula}:",
+  "priorities.line": "{position}. {task} — priority score {score}",
+  "priorities.stored": "Used the open items on your task list. ",
+  "priorities.method":
+    "{stored}Scored each task with {framework}, reading due dates, effort (2h, S/M/L) and weights (w=3, !!) from the task text. Ask for Eisenhower, effort vs impact or RICE to switch frameworks.",
+  "priorities.column.task": "Task",
+  "priorities.column.urgency": "Urgency",
+  "priorities.column.impact": "Impact",
+  "priorities.column.weight": "Weight",
+  "priorities.column.due": "Due",
+  "priorities.column.score": "Score",
+  "priorities.column.urgent": "Urgent",
+  "priorities.column.important": "Important",
+  "priorities.column.quadrant": "Quadrant",
+  "priorities.column.effort": "Effort",
+  "priorities.column.reach": "Reach",
+  "priorities.column.confidence": "Confidence",
+  "priorities.yes": "yes",
+  "priorities.no": "no",
+  "priorities.quadrant.doFirst": "Do first",
+  "priorities.quadrant.schedule": "Schedule",
+  "priorities.quadrant.delegate": "Delegate",
+  "priorities.quadrant.eliminate": "Eliminate",
+  "priorities.quadrant.majorProject": "Major project",
+  "priorities.quadrant.quickWin": "Quick win",
+  "priorities.quadrant.thankless": "Thankless",
+  "priorities.quadrant.fillIn": "Fill-in",
+  "framework.weighted": "Weighted scoring",
+  "framework.weighted.formula": "(urgency × 2 + impact) × weight",
+  "framework.eisenhower": "Eisenhower matrix",
+  "framework.eisenhower.formula":
+    "urgent and important first, then important, then urgent, then neither",
+  "framework.effort-impact": "Effort vs impact",
+  "framework.effort-impact.formula": "impact × weight ÷ effort in hours",
+  "framework.rice": "RICE",
+  "framework.rice.formula": "reach × impact × confidence ÷ effort in hours",
+
+  "summary.title": {
+    one: "Summary of {count} message:",
+    other: "Summary of {count} messages:"
+  },
+  "summary.heading.points": "Key points",
+  "summary.heading.decisions": "Decisions",
+  "summary.heading.actions": "Action items",
+  "summary.heading.questions": "Open questions",
+  "summary.count.decisions": { one: "{count} decision", other: "{count} decisions" },
+  "summary.count.actions": { one: "{count} action item", other: "{count} action items" },
+  "summary.count.questions": { one: "{count} open question", other: "{count} open questions" },
+  "summary.nothing": "Nothing substantial yet.",
+  "summary.empty": "We've just started chatting, so there's nothing to summarise yet.",
+  "summary.due": "due {day}",
+  "summary.method":
+    "Scored every sentence in {source} by term frequency, position and cue words, compressed the top {points} into a {length} summary and found {found}.",
+  "summary.source.pasted": "the pasted text",
+  "summary.source.conversation": "the whole conversation",
+  "summary.length.one-liner": "one-liner",
+  "summary.length.short": "short",
+  "summary.length.detailed": "detailed",
+
+  "brainstorm.angle.partners": "Unexpected partnerships or audiences",
+  "brainstorm.angle.journey": "Moments in the customer journey you can delight",
+  "brainstorm.angle.experiments": "Small experiments you can ship this week",
+  "brainstorm.angle.signals": "Signals that prove the idea is working",
+  "brainstorm.idea":
+    '{angle} — specifically for "{topic}". Think about what would feel refreshing compared to the status quo.',
+  "brainstorm.method": "Generated four contrasting idea angles to encourage divergent thinking.",
+
+  "insight.fallback":
+    "- Reflect your objective in one sentence to confirm I understood it correctly.\n" +
+    "- Identify one blocker or variable that worries you.\n" +
+    "- Ask for a concrete artefact: plan, outline, script, calculation, or critique.",
+  "insight.fallback.step":
+    "No direct tool matched, so I offered a structured prompt to refine the conversation.",
+  "insight.knowledge": "Ranked the playbooks with BM25 and used the top passages:",
+
+  "followup.needs":
+    "I need {what} from earlier in the conversation to do that. Share it and pick the follow-up again.",
+  "followup.needs.step": "The previous reply did not contain material this follow-up can work on.",
+  "followup.needs.plan": "a plan",
+  "followup.needs.ideas": "a list of ideas",
+  "followup.needs.summary": "a summary",
+  "followup.needs.tasks": "a ranked task list",
+  "followup.needs.takeaways": "a list of takeaways",
+  "followup.needs.recommendations": "a list of recommendations",
+  "followup.needs.calculation": "a calculation",
+  "followup.needs.finance": "a finance question",
+  "followup.needs.rate": "a finance question with a rate",
+  "followup.needs.monthly": "a finance question with a monthly contribution",
+  "followup.needs.previous": "a previous reply",
+  "followup.starter.goal":
+    'Tell me the goal and the deadline in one line, e.g. "Plan a product demo by Friday", and I will lay out the steps.',
+  "followup.starter.condense":
+    'Paste the message after the word "Summarize:" and I will condense it.',
+  "followup.starter.prioritise":
+    'Send "Prioritise:" followed by your tasks, one per line or separated by commas.',
+  "followup.starter.step": "Asked for the input this task needs.",
+  "followup.column.day": "Day",
+  "followup.column.focus": "Focus",
+  "followup.column.time": "Time",
+  "followup.column.block": "Block",
+  "followup.column.stage": "Stage",
+  "followup.column.experience": "Experience",
+  "followup.column.recommendation": "Recommendation",
+  "followup.column.shortTime": "If time is short",
+  "followup.column.tightBudget": "If budget is tight",
+  "followup.column.audience": "For your audience",
+  "followup.column.scenario": "Scenario",
+  "followup.column.expression": "Expression",
+  "followup.column.result": "Result",
+  "followup.column.rate": "Rate",
+  "followup.column.monthly": "Monthly amount",
+  "followup.timeline.intro": "Here is the plan spread over seven days:",
+  "followup.timeline.day": "Day {day}",
+  "followup.timeline.review": "Review results against the finish line and decide the next cycle.",
+  "followup.timeline.buffer": "Buffer: catch up on anything that slipped and tidy loose ends.",
+  "followup.timeline.step":
+    "Spread {steps} plan steps over {days} working days, then added a buffer and a review day.",
+  "followup.milestone": "**Milestone:** {milestone}",
+  "followup.milestone.why":
+    "- **Why it matters:** everything after it depends on this being settled.",
+  "followup.milestone.done":
+    "- **Done when:** you can show the result to someone else without caveats.",
+  "followup.milestone.checkIn":
+    "- **Check-in:** put a 15-minute review on the calendar for the day you expect to hit it.",
+  "followup.milestone.step": "Picked the plan step that defines success or unblocks the rest.",
+  "followup.blocks.intro":
+    "Each step is split into focus blocks of up to two hours within {hours}:",
+  "followup.blocks.download": "Download the calendar file to add these blocks to your calendar.",
+  "followup.blocks.step": "Time-blocked {steps} plan steps into {blocks} calendar blocks.",
+  "followup.standout": "**Standout concept:** {angle} for {topic}.",
+  "followup.standout.quick": "- It can be tested quickly, so you learn before committing budget.",
+  "followup.standout.talk": "- It gives people a concrete reason to talk about you.",
+  "followup.standout.runnerUp": "- Runner-up: {idea} — keep it as a backup.",
+  "followup.standout.none": "none",
+  "followup.standout.step":
+    "Scored each idea on speed to test and audience pull, then kept the best one.",
+  "followup.journey.intro": "User journey for {topic}:",
+  "followup.journey.discover": "Discover",
+  "followup.journey.discover.text":
+    "Someone first hears about {topic} from a friend, post or search.",
+  "followup.journey.consider": "Consider",
+  "followup.journey.consider.text":
+    "They compare it with what they do today and look for one clear reason to try.",
+  "followup.journey.try": "Try",
+  "followup.journey.try.text":
+    "A low-effort first step (sample, trial, demo) proves the promise quickly.",
+  "followup.journey.adopt": "Adopt",
+  "followup.journey.adopt.text": "A small win in the first week turns the trial into a habit.",
+  "followup.journey.share": "Share",
+  "followup.journey.share.text": "A built-in moment invites them to tell others, closing the loop.",
+  "followup.journey.step":
+    "Mapped the concept onto five journey stages from discovery to advocacy.",
+  "followup.pitch.problem":
+    "People who care about {topic} are stuck with options that feel the same.",
+  "followup.pitch.approach":
+    "We lead with {idea}, so the first experience feels refreshingly different.",
+  "followup.pitch.proof": "Give us one week and we will show the signal that proves it works.",
+  "followup.pitch.fallback": "a fresh angle",
+  "followup.pitch.step": "Wrote a problem → approach → proof pitch around the leading idea.",
+  "followup.actions.title": "Action items:",
+  "followup.actions.listed": {
+    one: "Listed the action item the summary found, with its owner and date.",
+    other: "Listed the {count} action items the summary found, with owners and dates."
+  },
+  "followup.actions.none":
+    "I could not spot explicit action items in the summary. Try adding who will do what by when.",
+  "followup.actions.none.step":
+    "Scanned the summary for commitments and imperative phrasing; none were found.",
+  "followup.actions.pulled": {
+    one: "Pulled {count} commitment out of the summary.",
+    other: "Pulled {count} commitments out of the summary."
+  },
+  "followup.risks.title": "Risks and open questions:",
+  "followup.risks.none": "Nothing in the summary is flagged as a risk yet. Worth confirming:",
+  "followup.risks.owner": "- Who owns each next step?",
+  "followup.risks.deadline": "- Which deadline is fixed and which can move?",
+  "followup.risks.stop": "- What would make us stop or change course?",
+  "followup.risks.step": "Looked for questions, hedges and dependency language in the summary.",
+  "followup.update.title": "**Stakeholder update**",
+  "followup.update.status": "**Status:** on track — {highlight}",
+  "followup.update.highlights": "**Highlights:**",
+  "followup.update.next": "**Next steps:**",
+  "followup.update.nextMissing": "**Next steps:** confirm owners and dates for the items above.",
+  "followup.update.asks": "**Asks:** none yet — flag blockers early.",
+  "followup.update.step":
+    "Rewrote the summary in a status / highlights / next steps / asks format.",
+  "followup.quadrant.quickWins": "Quick wins (high impact, low effort)",
+  "followup.quadrant.majorProjects": "Major projects (high impact, high effort)",
+  "followup.quadrant.fillIns": "Fill-ins (low impact, low effort)",
+  "followup.quadrant.reconsider": "Reconsider (low impact, high effort)",
+  "followup.quadrant.step":
+    "Used stated impact and effort where given, and task wording for the rest.",
+  "followup.schedule": "Block **{when}** for **{task}** ({minutes} minutes).",
+  "followup.schedule.slot":
+    "- The next free slot in your working hours keeps the top task from drifting.",
+  "followup.schedule.output": "- Decide the finished output before the block starts.",
+  "followup.schedule.slip": "- If it slips, move it as a whole block rather than splitting it.",
+  "followup.schedule.stated":
+    "Used the stated {minutes} minutes and placed it in the next working-hours slot.",
+  "followup.schedule.estimated":
+    "Estimated {minutes} minutes and placed it in the next working-hours slot.",
+  "followup.delegate.intro": "Lowest priorities and what to do with them:",
+  "followup.delegate.delegate":
+    "- **Delegate:** {task} — hand it over with the expected outcome and a date.",
+  "followup.delegate.defer":
+    "- **Defer:** {task} — park it until the top items are done, then re-rank.",
+  "followup.delegate.step":
+    "Took the bottom third of the ranking; routine tasks are delegated, heavy ones deferred.",
+  "followup.takeaway": "**Takeaway:** {takeaway}",
+  "followup.takeaway.why":
+    "- **Why it works:** it removes one decision from the moment you need to act.",
+  "followup.takeaway.start":
+    "- **Start today:** try it once, in the smallest possible version, and note what happens.",
+  "followup.takeaway.watch": "- **Watch out for:** doing it perfectly instead of consistently.",
+  "followup.takeaway.step":
+    "Expanded the first takeaway into rationale, a first step and a pitfall.",
+  "followup.constraints.time": "Do the smallest version this week.",
+  "followup.constraints.budget": "Use tools and people you already have.",
+  "followup.constraints.audience": "Test it with three real people first.",
+  "followup.constraints.step":
+    "Re-read each recommendation against time, budget and audience limits.",
+  "followup.checklist.title": "Checklist:",
+  "followup.checklist.step": {
+    one: "Turned {count} point into a checklist item.",
+    other: "Turned {count} points into checklist items."
+  },
+  "followup.scenarios.intro": "Varying the first number in `{expression}`:",
+  "followup.scenarios.baseline": "Baseline",
+  "followup.scenarios.step":
+    "Re-ran the previous calculation with its first input scaled up and down.",
+  "followup.explain":
+    "`{expression}` {operations} the numbers you gave.{grouped} The result is **{result}**.",
+  "followup.explain.multiplies": "multiplies",
+  "followup.explain.divides": "divides",
+  "followup.explain.adds": "adds",
+  "followup.explain.subtracts": "subtracts",
+  "followup.explain.power": "raises to a power",
+  "followup.explain.combines": "combines",
+  "followup.explain.and": "and",
+  "followup.explain.grouped": " The part in parentheses is worked out first, then the rest.",
+  "followup.explain.step":
+    "Described the operations in the previous calculation in plain language.",
+  "followup.rates.intro": "Same question at different interest rates:",
+  "followup.rates.yours": "{rate}% (yours)",
+  "followup.rates.step": "Re-ran the calculation at {count} rates around {rate}%.",
+  "followup.contribution.intro": "What a bigger monthly contribution does:",
+  "followup.contribution.step":
+    "Re-ran the calculation with the monthly amount raised by 25%, 50% and 100%."
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof messages;
+
+/**
+ * Everything one language provides. Labels and suggestions are keyed by tool
+ * id; tools without an entry keep their own English ones.
+ */
+export type Catalog = {
+  messages: Record<MessageKey, Message>;
+  labels: Record<string, string>;
+  suggestions: Record<string, string[]>;
+};
+
+export const en: Catalog = {
+  messages,
+  labels: {
+    "follow-up": "Follow-up",
+    finance: "Finance",
+    math: "Calculation",
+    plan: "Plan",
+    brainstorm: "Ideas",
+    summarize: "Summary",
+    todo: "Task list",
+    prioritize: "Priorities",
+    insight: "Insight"
+  },
+  suggestions: {
+    idle: [
+      "Give me a goal with a tight deadline",
+      "Ask me to condense a long message",
+      "Share tasks and I will prioritise them"
+    ]
+  }
+};
@@ -0,0 +1,603 @@
+import type { Catalog } from "./en";
+
+export const es: Catalog = {
+  messages: {
+    "agent.idle.status": "No he recibido ningún mensaje, así que estoy a la espera.",
+    "agent.idle.reply": "Estoy listo cuando quieras.",
+    "agent.empty.status": "El registro de herramientas está vacío.",
+    "agent.empty.reply":
+      "No hay herramientas registradas, así que todavía no puedo responder a eso.",
+    "agent.intent.title": "Detección de intención",
+    "agent.intent.single": "La petición pide una respuesta de tipo **{tool}**.",
+    "agent.intent.compound": "La petición combina {count} solicitudes: {tools}.",
+    "agent.handled": "He atendido «{segment}».",
+    "agent.next.title": "Siguiente paso",
+    "agent.next.single": "Sugerencias para continuar la sesión.",
+    "agent.next.compound": "Sugerencias para cada parte de la petición.",
+
+    "tone.friendly": "¡Espero que te sirva! Dime si quieres ajustar algo.",
+    "tone.formal": "Quedo a su disposición para cualquier ajuste adicional.",
+
+    "step.method": "Método",
+    "step.status": "Estado",
+    "step.tool": "Herramienta",
+    "step.memory": "Memoria",
+    "step.tasks": "Lista de tareas",
+    "step.fallback": "Respuesta general",
+    "step.knowledge": "Conocimiento",
+    "step.model": "Modelo",
+    "step.followUp": "Seguimiento",
+    "step.finance": "Finanzas",
+    "step.parameters": "Parámetros",
+    "step.formula": "Fórmula",
+
+    "model.drafted": "He redactado la respuesta con **{model}**.",
+    "model.failed":
+      "**{model}** no respondió ({reason}), así que he usado las heurísticas integradas.",
+
+    "math.tool": "He evaluado la expresión aritmética con el analizador matemático seguro.",
+    "math.empty":
+      "No he encontrado ninguna expresión que resolver. Prueba con algo como `3,5 * (12 + 4)`.",
+    "math.saved": "He guardado `{name}` = **{value}**.",
+    "math.result": "La expresión {expression} da **{value}**.",
+    "math.memory": "Guardado como `ans{count}` (también `ans`).",
+    "math.variables": "Variables: {variables}.",
+
+    "calc.at": "{reason} en `{text}` (carácter {position} de tu mensaje).",
+    "calc.unknownVariable": "No conozco la variable",
+    "calc.unopened": "Este paréntesis de cierre no tiene pareja",
+    "calc.unclosed": "Este paréntesis nunca se cierra",
+    "calc.malformed": "La expresión está mal formada",
+    "calc.combine": "No puedo combinar {first} (`{text}`) con {second}",
+    "calc.convert": "No puedo convertir {dimension} a {unit}.",
+    "calc.nonNumeric": "El resultado de esa expresión no es numérico y todavía no lo admito.",
+    "calc.multiply": "No puedo multiplicar {first} (`{text}`) por {second}",
+    "calc.divide": "No puedo dividir {first} entre {second}",
+    "calc.power": "No puedo elevar {dimension} a una potencia",
+    "calc.function": "`{name}` solo admite números sin unidad, no {dimension}",
+    "dimension.length": "longitud",
+    "dimension.mass": "masa",
+    "dimension.currency": "moneda",
+    "dimension.none": "un número sin unidad",
+    "finance.parsed": "He interpretado la pregunta como un cálculo de **{kind}**.",
+    "finance.kind.investment": "inversión",
+    "finance.kind.loan": "préstamo",
+    "finance.kind.goal": "objetivo de ahorro",
+    "finance.kind.roi": "rentabilidad",
+    "finance.money": "{sign}{amount} {currency}",
+    "finance.percent": "{value} %",
+    "finance.years": { one: "{years} año", other: "{years} años" },
+    "finance.and": "y",
+    "finance.horizon":
+      "Eso supera el horizonte de {years} años que cubren estos cálculos. {advice}",
+    "finance.horizon.step":
+      "El plazo superaba los {years} años, así que he parado antes de proyectarlo.",
+    "finance.horizon.timeFrame": "Prueba con un plazo más corto.",
+    "finance.horizon.term": "Prueba con un plazo de devolución más corto.",
+    "finance.horizon.deposit": "Prueba con una aportación mayor o un objetivo menor.",
+    "finance.horizon.deadline": "Prueba con una fecha límite más cercana.",
+    "finance.missing": "Necesito {what} para hacer ese cálculo. Prueba algo como «{example}».",
+    "finance.missing.step":
+      "No he podido extraer todos los parámetros que necesita la fórmula, así que he pedido los que faltan.",
+    "finance.missing.investment": "una cantidad, un tipo de interés anual y un plazo",
+    "finance.missing.loan": "el importe del préstamo, el tipo de interés y el plazo",
+    "finance.missing.target": "una cantidad objetivo",
+    "finance.missing.goal": "una cantidad objetivo y una fecha límite o una aportación periódica",
+    "finance.missing.roi": "la cantidad invertida y lo que te ha devuelto",
+    "finance.example.investment":
+      "Si invierto 150 € al mes al 5 % de interés anual, ¿cuánto tendré en 3 años?",
+    "finance.example.loan":
+      "¿Cuál es la cuota mensual de una hipoteca de 250.000 € al 6 % a 30 años?",
+    "finance.example.target":
+      "¿Cuánto tiempo tardaré en ahorrar 10.000 € si aparto 300 € al mes al 4 %?",
+    "finance.example.goal": "¿Cuánto debo ahorrar al mes para llegar a 20.000 € en 3 años al 4 %?",
+    "finance.example.roi":
+      "Invertí 5.000 € y ahora vale 7.200 € después de 3 años: ¿cuál es mi rentabilidad?",
+    "finance.column.year": "Año",
+    "finance.column.deposited": "Aportado",
+    "finance.column.interest": "Intereses",
+    "finance.column.balance": "Saldo",
+    "finance.column.principalPaid": "Capital amortizado",
+    "finance.column.interestPaid": "Intereses pagados",
+    "finance.column.remaining": "Saldo pendiente",
+    "finance.investment.start": "un saldo inicial de {amount}",
+    "finance.investment.contribution": "{amount} aportados {times} veces al año",
+    "finance.investment.result":
+      "Con {parts} al {rate} de interés anual, el saldo tras {years} es de **{balance}**.",
+    "finance.investment.split": "Son {deposited} aportados más {interest} de intereses.",
+    "finance.investment.parameters":
+      "Capital {principal}, aportación {payment} × {periods}/año, tipo {rate} capitalizado {compounding} veces al año, {total} periodos.",
+    "finance.investment.formula":
+      "FV = P × (1 + i)^n + PMT × ((1 + i)^n − 1) / i, donde i es el tipo por periodo de aportación y n el número de periodos.",
+    "finance.loan.result": "Pedir {principal} al {rate} a {years} cuesta **{payment} al mes**.",
+    "finance.loan.total": "Devolverías {total} en total, de los que {interest} son intereses.",
+    "finance.loan.parameters":
+      "Capital {principal}, tipo {rate} ({monthly} mensual), {count} cuotas mensuales.",
+    "finance.loan.formula":
+      "M = P × i / (1 − (1 + i)^−n), la cuota de amortización estándar con tipo mensual i durante n pagos.",
+    "finance.period.week": { one: "{count} semana", other: "{count} semanas" },
+    "finance.period.month": { one: "{count} mes", other: "{count} meses" },
+    "finance.period.quarter": { one: "{count} trimestre", other: "{count} trimestres" },
+    "finance.period.year": { one: "{count} año", other: "{count} años" },
+    "finance.per.week": "a la semana",
+    "finance.per.month": "al mes",
+    "finance.per.quarter": "al trimestre",
+    "finance.per.year": "al año",
+    "finance.target.covered":
+      "Tus {current} actuales ya cubren {target}: no hace falta aportar nada más.",
+    "finance.target.reached":
+      "Ahorrando {payment} {per} al {rate}, llegas a {target} en **{count}**{about}, con {balance} ahorrados.",
+    "finance.target.about": " (unos {years})",
+    "finance.target.parameters":
+      "Objetivo {target}, saldo inicial {current}, aportación {payment} × {periods}/año, tipo {rate}.",
+    "finance.target.formula":
+      "n = ln((FV × i + PMT) / (PV × i + PMT)) / ln(1 + i), despejando de la ecuación del valor futuro el número de aportaciones y redondeando hacia arriba.",
+    "finance.savings.counts": "Esto cuenta los {current} que ya tienes.",
+    "finance.savings.zero": "Esto supone que empiezas desde cero.",
+    "finance.goal.grows":
+      "Tus {current} actuales ya superan {target} en {years}: no hace falta aportar nada más.",
+    "finance.goal.result":
+      "Para llegar a {target} en {years} al {rate}, ahorra **{monthly} al mes**.",
+    "finance.goal.parameters":
+      "Objetivo {target}, saldo inicial {current}, tipo {rate}, {count} aportaciones mensuales.",
+    "finance.goal.formula":
+      "PMT = (FV − PV × (1 + i)^n) × i / ((1 + i)^n − 1), despejando la aportación de la ecuación del valor futuro.",
+    "finance.roi.parameters": "Coste {cost}, valor final {final}.",
+    "finance.roi.parametersOver": "Coste {cost}, valor final {final} en {years}.",
+    "finance.roi.formula": "ROI = (final − coste) / coste.",
+    "finance.roi.formulaAnnualised":
+      "ROI = (final − coste) / coste; rentabilidad anualizada = (final / coste)^(1 / años) − 1.",
+    "finance.roi.result":
+      "Convertir {cost} en {final} supone una **rentabilidad del {roi}** ({direction} de {change}).",
+    "finance.roi.gain": "ganancia",
+    "finance.roi.loss": "pérdida",
+    "finance.roi.annualised": "Repartido en {years}, es un {rate} al año.",
+
+    "todo.notFound": "No he encontrado «{query}» en tu lista.",
+    "todo.notFound.step": "Ningún elemento coincide con «{query}», así que la lista no cambia.",
+    "todo.duplicate": "Eso ya está en tu lista.",
+    "todo.duplicate.step": "Todos los elementos ya estaban pendientes, así que no he añadido nada.",
+    "todo.added": "He añadido {items}.",
+    "todo.added.step": {
+      one: "He añadido {count} elemento a la lista de la sesión.",
+      other: "He añadido {count} elementos a la lista de la sesión."
+    },
+    "todo.alreadyDone": "**{item}** ya está hecho.",
+    "todo.alreadyDone.step": "El elemento ya estaba completado.",
+    "todo.completed": "He marcado **{item}** como hecho.",
+    "todo.completed.step": "He asociado «{query}» con «{item}» y lo he marcado como hecho.",
+    "todo.removed": "He quitado **{item}**.",
+    "todo.removed.step": "He asociado «{query}» con «{item}» y lo he quitado.",
+    "todo.cleared": {
+      one: "He borrado {count} elemento completado.",
+      other: "He borrado {count} elementos completados."
+    },
+    "todo.cleared.step": "He quitado los elementos completados de la lista de la sesión.",
+    "todo.unknownDay": "No sé qué día es «{day}». Prueba con «tomorrow», «Friday» o «12 Nov».",
+    "todo.unknownDay.step": "No he reconocido el día, así que la lista no cambia.",
+    "todo.moved": "He movido **{item}** al {day}.",
+    "todo.moved.step": "He leído «{day}» como {due} y he actualizado el elemento.",
+    "todo.nextUp": "Lo siguiente: **{item}**.",
+    "todo.read.step": {
+      one: "He leído {count} elemento guardado; quedan {open} pendientes.",
+      other: "He leído {count} elementos guardados; quedan {open} pendientes."
+    },
+    "todo.shown.step": "He mostrado la lista guardada.",
+    "todos.empty":
+      "Tu lista está vacía. Prueba con «añade reservar vuelos y renovar el pasaporte a mi lista».",
+    "todos.allDone": "No queda nada: todo lo de tu lista está hecho.",
+    "todos.left": "**Quedan {count}:**",
+    "todos.done": "Hecho: {items}",
+
+    "plan.method": {
+      one: "He programado {steps} pasos con {count} hito entre {start} y {deadline}, ordenados según sus dependencias.",
+      other:
+        "He programado {steps} pasos con {count} hitos entre {start} y {deadline}, ordenados según sus dependencias."
+    },
+    "plan.header.day": "Plan para **{goal}**, {start} → {end}:",
+    "plan.header.time": "Plan para **{goal}**, {start}–{end}:",
+    "plan.after": "después de {steps}",
+    "plan.constraints": "**Restricciones:** {constraints}.",
+    "plan.goal": "el objetivo",
+    "plan.note.window": "Encajado en {window} a partir de las {time}.",
+    "plan.note.tomorrow": "Queda poco tiempo hoy, así que el plan empieza mañana a las {time}.",
+    "plan.note.shortened": "Lo he acortado a {count} minutos para que termine a las {time}.",
+    "plan.note.defaultDays": "No has indicado una fecha límite, así que he supuesto {count} días.",
+    "plan.note.passed":
+      "La fecha límite ({deadline}) ya ha pasado, así que el plan empieza y termina hoy.",
+    "plan.note.noDays":
+      "No cabe ningún día laborable antes de la fecha límite, así que todo cae en ese mismo día.",
+    "plan.note.fewDays": {
+      one: "Solo queda {count} día laborable antes de la fecha límite: los pasos comparten día.",
+      other:
+        "Solo quedan {count} días laborables antes de la fecha límite: los pasos comparten días."
+    },
+    "plan.note.hours": "He supuesto {count} horas de trabajo concentrado por día laborable.",
+    "plan.window.minutes": "{count} minutos",
+    "plan.window.hours": "{count} horas",
+    "plan.window.morning": "la mañana",
+    "plan.window.afternoon": "la tarde",
+    "plan.window.evening": "la tarde-noche",
+    "plan.window.tonight": "esta noche",
+    "plan.constraint.hours": { one: "{count} hora al día", other: "{count} horas al día" },
+    "plan.constraint.budget": "Presupuesto {amount}",
+    "plan.constraint.weekendsOnly": "Solo fines de semana",
+    "plan.constraint.weekendsIncluded": "Fines de semana incluidos",
+    "plan.constraint.noWeekends": "Sin fines de semana",
+    "plan.constraint.evenings": "Solo por las tardes",
+    "plan.constraint.solo": "Trabajo en solitario",
+    "plan.constraint.team": "Trabajo con {team}",
+    "plan.launch.scope": "Cerrar el alcance y las métricas de éxito: {goal}",
+    "plan.launch.build": "Terminar y pulir el producto",
+    "plan.launch.assets": "Preparar los mensajes, los materiales y la página de lanzamiento",
+    "plan.launch.test": "Probar con un grupo reducido y corregir lo que falle",
+    "plan.launch.ready": "Listo para lanzar: producto probado y materiales aprobados",
+    "plan.launch.launch": "Lanzar y anunciar",
+    "plan.launch.review": "Revisar las primeras métricas y opiniones",
+    "plan.study.map": "Repasar todo lo que abarca {goal} y valorar tu seguridad en cada tema",
+    "plan.study.weakest": "Trabajar primero los temas más flojos",
+    "plan.study.practise": "Practicar con exámenes anteriores o ejercicios",
+    "plan.study.mock": "Simulacro en condiciones reales",
+    "plan.study.gaps": "Repasar las lagunas que mostró el simulacro",
+    "plan.study.ready": "Listo para {goal}",
+    "plan.write.outline": "Esquema de {goal} y acuerdo sobre el mensaje principal",
+    "plan.write.research": "Reunir investigación, datos y ejemplos",
+    "plan.write.draft": "Escribir el primer borrador de principio a fin",
+    "plan.write.drafted": "Primer borrador terminado",
+    "plan.write.revise": "Revisar con los comentarios de una persona",
+    "plan.write.polish": "Últimos retoques y entrega",
+    "plan.write.delivered": "Entregado",
+    "plan.event.budget": "Fijar presupuesto, fecha e invitados: {goal}",
+    "plan.event.book": "Reservar el lugar, los viajes o los proveedores clave",
+    "plan.event.invite": "Enviar las invitaciones y recoger las respuestas",
+    "plan.event.confirmed": "Reservas confirmadas",
+    "plan.event.logistics": "Planificar el programa y la logística",
+    "plan.event.checks": "Comprobaciones finales con todos los implicados",
+    "plan.event.happens": "{Goal}: el gran día",
+    "plan.change.outcome": "Definir qué sería un buen resultado: {goal}",
+    "plan.change.research": "Investigar opciones y quedarse con las tres mejores",
+    "plan.change.decided": "Decisión tomada",
+    "plan.change.logistics": "Resolver papeleo, reservas y logística",
+    "plan.change.execute": "Llevar a cabo el cambio",
+    "plan.change.settle": "Asentarse y cerrar cabos sueltos",
+    "plan.generic.finish": "Definir una meta medible: {goal}",
+    "plan.generic.gather": "Reunir lo necesario: información, herramientas y personas",
+    "plan.generic.work": "Hacer el trabajo principal en sesiones concentradas",
+    "plan.generic.done": "Trabajo principal terminado",
+    "plan.generic.review": "Revisar, pulir y cerrar los huecos",
+    "plan.generic.deliver": "Entregar: {goal}",
+    "plan.timed.warmUp": "Calentamiento y movilidad",
+    "plan.timed.cardio": "Cardio, ronda {round}",
+    "plan.timed.strength": "Fuerza, ronda {round}",
+    "plan.timed.main": "Bloque principal, parte {round}",
+    "plan.timed.coolDown": "Vuelta a la calma y estiramientos",
+    "plan.timed.setUp": "Prepararse y decidir qué significa terminar",
+    "plan.timed.focusTask": "Bloque de concentración: tarea {round}",
+    "plan.timed.focusGoal": "Bloque de concentración: {goal}",
+    "plan.timed.break": "Pausa corta",
+    "plan.timed.wrapUp": "Cerrar y anotar el siguiente paso",
+
+    "priorities.empty":
+      "Envíame una lista de tareas separadas por comas o saltos de línea para poder ordenarlas.",
+    "priorities.header": "Ordenado con **{framework}**: {formula}:",
+    "priorities.line": "{position}. {task} — prioridad {score}",
+    "priorities.stored": "He usado los elementos pendientes de tu lista. ",
+    "priorities.method":
+      "{stored}He puntuado cada tarea con {framework}, leyendo fechas límite, esfuerzo (2h, S/M/L) y pesos (w=3, !!) en el texto. Pide Eisenhower, esfuerzo frente a impacto o RICE para cambiar de método.",
+    "priorities.column.task": "Tarea",
+    "priorities.column.urgency": "Urgencia",
+    "priorities.column.impact": "Impacto",
+    "priorities.column.weight": "Peso",
+    "priorities.column.due": "Fecha límite",
+    "priorities.column.score": "Puntuación",
+    "priorities.column.urgent": "Urgente",
+    "priorities.column.important": "Importante",
+    "priorities.column.quadrant": "Cuadrante",
+    "priorities.column.effort": "Esfuerzo",
+    "priorities.column.reach": "Alcance",
+    "priorities.column.confidence": "Confianza",
+    "priorities.yes": "sí",
+    "priorities.no": "no",
+    "priorities.quadrant.doFirst": "Hacer ya",
+    "priorities.quadrant.schedule": "Planificar",
+    "priorities.quadrant.delegate": "Delegar",
+    "priorities.quadrant.eliminate": "Eliminar",
+    "priorities.quadrant.majorProject": "Proyecto grande",
+    "priorities.quadrant.quickWin": "Victoria rápida",
+    "priorities.quadrant.thankless": "Poco agradecida",
+    "priorities.quadrant.fillIn": "Relleno",
+    "framework.weighted": "Puntuación ponderada",
+    "framework.weighted.formula": "(urgencia × 2 + impacto) × peso",
+    "framework.eisenhower": "Matriz de Eisenhower",
+    "framework.eisenhower.formula":
+      "primero lo urgente e importante, luego lo importante, luego lo urgente y por último lo demás",
+    "framework.effort-impact": "Esfuerzo frente a impacto",
+    "framework.effort-impact.formula": "impacto × peso ÷ esfuerzo en horas",
+    "framework.rice": "RICE",
+    "framework.rice.formula": "alcance × impacto × confianza ÷ esfuerzo en horas",
+
+    "summary.title": {
+      one: "Resumen de {count} mensaje:",
+      other: "Resumen de {count} mensajes:"
+    },
+    "summary.heading.points": "Puntos clave",
+    "summary.heading.decisions": "Decisiones",
+    "summary.heading.actions": "Tareas",
+    "summary.heading.questions": "Preguntas abiertas",
+    "summary.count.decisions": { one: "{count} decisión", other: "{count} decisiones" },
+    "summary.count.actions": { one: "{count} tarea", other: "{count} tareas" },
+    "summary.count.questions": {
+      one: "{count} pregunta abierta",
+      other: "{count} preguntas abiertas"
+    },
+    "summary.nothing": "Todavía no hay nada importante.",
+    "summary.empty": "Acabamos de empezar a hablar, así que aún no hay nada que resumir.",
+    "summary.due": "para el {day}",
+    "summary.method":
+      "He puntuado cada frase de {source} por frecuencia de términos, posición y palabras clave, he condensado las {points} mejores en un resumen {length} y he encontrado {found}.",
+    "summary.source.pasted": "el texto pegado",
+    "summary.source.conversation": "toda la conversación",
+    "summary.length.one-liner": "de una línea",
+    "summary.length.short": "breve",
+    "summary.length.detailed": "detallado",
+
+    "brainstorm.angle.partners": "Alianzas o públicos inesperados",
+    "brainstorm.angle.journey": "Momentos del recorrido del cliente que puedes hacer especiales",
+    "brainstorm.angle.experiments": "Pequeños experimentos que puedes lanzar esta semana",
+    "brainstorm.angle.signals": "Señales que demuestran que la idea funciona",
+    "brainstorm.idea":
+      '{angle} — en concreto para "{topic}". Piensa en qué resultaría refrescante frente a lo habitual.',
+    "brainstorm.method":
+      "He generado cuatro enfoques de ideas contrastados para fomentar el pensamiento divergente.",
+
+    "insight.fallback":
+      "- Resume tu objetivo en una frase para confirmar que lo he entendido bien.\n" +
+      "- Identifica un obstáculo o una variable que te preocupe.\n" +
+      "- Pide algo concreto: un plan, un esquema, un guion, un cálculo o una crítica.",
+    "insight.fallback.step":
+      "Ninguna herramienta encajaba directamente, así que he propuesto una guía para concretar la conversación.",
+    "insight.knowledge": "He ordenado las guías con BM25 y he usado los mejores pasajes:",
+
+    "followup.needs":
+      "Para eso necesito {what} de antes en la conversación. Compártelo y vuelve a elegir el seguimiento.",
+    "followup.needs.step":
+      "La respuesta anterior no tenía material con el que pueda trabajar este seguimiento.",
+    "followup.needs.plan": "un plan",
+    "followup.needs.ideas": "una lista de ideas",
+    "followup.needs.summary": "un resumen",
+    "followup.needs.tasks": "una lista de tareas priorizada",
+    "followup.needs.takeaways": "una lista de ideas clave",
+    "followup.needs.recommendations": "una lista de recomendaciones",
+    "followup.needs.calculation": "un cálculo",
+    "followup.needs.finance": "una pregunta financiera",
+    "followup.needs.rate": "una pregunta financiera con un tipo de interés",
+    "followup.needs.monthly": "una pregunta financiera con una aportación mensual",
+    "followup.needs.previous": "una respuesta anterior",
+    "followup.starter.goal":
+      'Dime el objetivo y el plazo en una línea, por ejemplo "Planifica una demo del producto para el viernes", y te propondré los pasos.',
+    "followup.starter.condense": 'Pega el mensaje después de "Resúmeme:" y lo condensaré.',
+    "followup.starter.prioritise":
+      'Envía "Prioriza:" seguido de tus tareas, una por línea o separadas por comas.',
+    "followup.starter.step": "He pedido los datos que necesita esta tarea.",
+    "followup.column.day": "Día",
+    "followup.column.focus": "Enfoque",
+    "followup.column.time": "Hora",
+    "followup.column.block": "Bloque",
+    "followup.column.stage": "Etapa",
+    "followup.column.experience": "Experiencia",
+    "followup.column.recommendation": "Recomendación",
+    "followup.column.shortTime": "Si falta tiempo",
+    "followup.column.tightBudget": "Si el presupuesto es ajustado",
+    "followup.column.audience": "Para tu público",
+    "followup.column.scenario": "Escenario",
+    "followup.column.expression": "Expresión",
+    "followup.column.result": "Resultado",
+    "followup.column.rate": "Tipo",
+    "followup.column.monthly": "Aportación mensual",
+    "followup.timeline.intro": "Este es el plan repartido en siete días:",
+    "followup.timeline.day": "Día {day}",
+    "followup.timeline.review":
+      "Revisa los resultados frente a la meta y decide el siguiente ciclo.",
+    "followup.timeline.buffer": "Margen: recupera lo que se haya retrasado y cierra cabos sueltos.",
+    "followup.timeline.step":
+      "He repartido {steps} pasos del plan en {days} días de trabajo y he añadido un día de margen y otro de revisión.",
+    "followup.milestone": "**Hito:** {milestone}",
+    "followup.milestone.why":
+      "- **Por qué importa:** todo lo que viene después depende de cerrarlo.",
+    "followup.milestone.done":
+      "- **Está hecho cuando:** puedes enseñar el resultado a otra persona sin matices.",
+    "followup.milestone.checkIn":
+      "- **Revisión:** reserva 15 minutos en el calendario para el día en que esperas alcanzarlo.",
+    "followup.milestone.step":
+      "He elegido el paso del plan que define el éxito o desbloquea el resto.",
+    "followup.blocks.intro":
+      "Cada paso se divide en bloques de concentración de hasta dos horas dentro de {hours}:",
+    "followup.blocks.download":
+      "Descarga el archivo de calendario para añadir estos bloques a tu calendario.",
+    "followup.blocks.step":
+      "He repartido {steps} pasos del plan en {blocks} bloques de calendario.",
+    "followup.standout": "**Idea destacada:** {angle} para {topic}.",
+    "followup.standout.quick":
+      "- Se puede probar rápido, así que aprendes antes de comprometer presupuesto.",
+    "followup.standout.talk": "- Da a la gente un motivo concreto para hablar de ti.",
+    "followup.standout.runnerUp": "- Segunda opción: {idea}; guárdala como reserva.",
+    "followup.standout.none": "ninguna",
+    "followup.standout.step":
+      "He puntuado cada idea por rapidez para probarla y atractivo para el público, y me he quedado con la mejor.",
+    "followup.journey.intro": "Recorrido de usuario para {topic}:",
+    "followup.journey.discover": "Descubrir",
+    "followup.journey.discover.text":
+      "Alguien oye hablar de {topic} por primera vez a través de un amigo, una publicación o una búsqueda.",
+    "followup.journey.consider": "Valorar",
+    "followup.journey.consider.text":
+      "Lo compara con lo que hace hoy y busca una razón clara para probarlo.",
+    "followup.journey.try": "Probar",
+    "followup.journey.try.text":
+      "Un primer paso sencillo (muestra, prueba, demo) demuestra la promesa enseguida.",
+    "followup.journey.adopt": "Adoptar",
+    "followup.journey.adopt.text":
+      "Un pequeño logro en la primera semana convierte la prueba en costumbre.",
+    "followup.journey.share": "Compartir",
+    "followup.journey.share.text":
+      "Un momento pensado para ello le invita a contárselo a otros y cierra el círculo.",
+    "followup.journey.step":
+      "He trasladado el concepto a cinco etapas del recorrido, del descubrimiento a la recomendación.",
+    "followup.pitch.problem":
+      "Quienes se interesan por {topic} están atrapados entre opciones que parecen todas iguales.",
+    "followup.pitch.approach":
+      "Empezamos con {idea}, para que la primera experiencia resulte distinta y refrescante.",
+    "followup.pitch.proof":
+      "Danos una semana y te mostraremos la señal que demuestra que funciona.",
+    "followup.pitch.fallback": "un enfoque nuevo",
+    "followup.pitch.step":
+      "He escrito una presentación problema → enfoque → prueba en torno a la idea principal.",
+    "followup.actions.title": "Tareas:",
+    "followup.actions.listed": {
+      one: "He listado la tarea que encontró el resumen, con su responsable y fecha.",
+      other: "He listado las {count} tareas que encontró el resumen, con responsables y fechas."
+    },
+    "followup.actions.none":
+      "No he encontrado tareas explícitas en el resumen. Prueba a indicar quién hará qué y para cuándo.",
+    "followup.actions.none.step":
+      "He buscado compromisos e instrucciones en el resumen, sin encontrar ninguno.",
+    "followup.actions.pulled": {
+      one: "He extraído {count} compromiso del resumen.",
+      other: "He extraído {count} compromisos del resumen."
+    },
+    "followup.risks.title": "Riesgos y preguntas abiertas:",
+    "followup.risks.none": "Nada del resumen aparece todavía como riesgo. Conviene confirmar:",
+    "followup.risks.owner": "- ¿Quién se encarga de cada siguiente paso?",
+    "followup.risks.deadline": "- ¿Qué plazo es fijo y cuál puede moverse?",
+    "followup.risks.stop": "- ¿Qué nos haría parar o cambiar de rumbo?",
+    "followup.risks.step": "He buscado preguntas, dudas y dependencias en el resumen.",
+    "followup.update.title": "**Informe para los interesados**",
+    "followup.update.status": "**Estado:** según lo previsto — {highlight}",
+    "followup.update.highlights": "**Aspectos destacados:**",
+    "followup.update.next": "**Próximos pasos:**",
+    "followup.update.nextMissing":
+      "**Próximos pasos:** confirmar responsables y fechas de los puntos anteriores.",
+    "followup.update.asks": "**Peticiones:** ninguna por ahora; avisad pronto de los bloqueos.",
+    "followup.update.step":
+      "He reescrito el resumen con el formato estado / aspectos destacados / próximos pasos / peticiones.",
+    "followup.quadrant.quickWins": "Victorias rápidas (mucho impacto, poco esfuerzo)",
+    "followup.quadrant.majorProjects": "Grandes proyectos (mucho impacto, mucho esfuerzo)",
+    "followup.quadrant.fillIns": "Relleno (poco impacto, poco esfuerzo)",
+    "followup.quadrant.reconsider": "Replantear (poco impacto, mucho esfuerzo)",
+    "followup.quadrant.step":
+      "He usado el impacto y el esfuerzo indicados cuando los había, y la redacción de la tarea en el resto.",
+    "followup.schedule": "Reserva **{when}** para **{task}** ({minutes} minutos).",
+    "followup.schedule.slot":
+      "- El siguiente hueco libre en tu horario evita que la tarea principal se quede atrás.",
+    "followup.schedule.output": "- Decide el resultado final antes de que empiece el bloque.",
+    "followup.schedule.slip": "- Si se retrasa, muévelo como bloque entero en lugar de dividirlo.",
+    "followup.schedule.stated":
+      "He usado los {minutes} minutos indicados y lo he colocado en el siguiente hueco del horario.",
+    "followup.schedule.estimated":
+      "He estimado {minutes} minutos y lo he colocado en el siguiente hueco del horario.",
+    "followup.delegate.intro": "Las prioridades más bajas y qué hacer con ellas:",
+    "followup.delegate.delegate":
+      "- **Delegar:** {task} — entrégala con el resultado esperado y una fecha.",
+    "followup.delegate.defer":
+      "- **Aplazar:** {task} — déjala hasta terminar lo principal y vuelve a priorizar.",
+    "followup.delegate.step":
+      "He tomado el tercio inferior de la clasificación; las tareas rutinarias se delegan y las pesadas se aplazan.",
+    "followup.takeaway": "**Idea clave:** {takeaway}",
+    "followup.takeaway.why":
+      "- **Por qué funciona:** elimina una decisión justo cuando tienes que actuar.",
+    "followup.takeaway.start":
+      "- **Empieza hoy:** pruébala una vez, en su versión más pequeña, y apunta qué pasa.",
+    "followup.takeaway.watch": "- **Cuidado con:** hacerlo perfecto en lugar de constante.",
+    "followup.takeaway.step":
+      "He desarrollado la primera idea clave con su razón, un primer paso y un riesgo.",
+    "followup.constraints.time": "Haz la versión más pequeña esta semana.",
+    "followup.constraints.budget": "Usa las herramientas y las personas que ya tienes.",
+    "followup.constraints.audience": "Pruébalo antes con tres personas reales.",
+    "followup.constraints.step":
+      "He revisado cada recomendación frente a los límites de tiempo, presupuesto y público.",
+    "followup.checklist.title": "Lista de comprobación:",
+    "followup.checklist.step": {
+      one: "He convertido {count} punto en un elemento de la lista.",
+      other: "He convertido {count} puntos en elementos de la lista."
+    },
+    "followup.scenarios.intro": "Variando el primer número de `{expression}`:",
+    "followup.scenarios.baseline": "Base",
+    "followup.scenarios.step": "He repetido el cálculo anterior subiendo y bajando su primer dato.",
+    "followup.explain":
+      "`{expression}` {operations} los números que diste.{grouped} El resultado es **{result}**.",
+    "followup.explain.multiplies": "multiplica",
+    "followup.explain.divides": "divide",
+    "followup.explain.adds": "suma",
+    "followup.explain.subtracts": "resta",
+    "followup.explain.power": "eleva a una potencia",
+    "followup.explain.combines": "combina",
+    "followup.explain.and": "y",
+    "followup.explain.grouped": " Primero se calcula la parte entre paréntesis y después el resto.",
+    "followup.explain.step":
+      "He descrito con palabras sencillas las operaciones del cálculo anterior.",
+    "followup.rates.intro": "La misma pregunta con distintos tipos de interés:",
+    "followup.rates.yours": "{rate}% (el tuyo)",
+    "followup.rates.step": "He repetido el cálculo con {count} tipos en torno al {rate} %.",
+    "followup.contribution.intro": "Qué consigue una aportación mensual mayor:",
+    "followup.contribution.step":
+      "He repetido el cálculo subiendo la aportación mensual un 25 %, un 50 % y un 100 %."
+  },
+  labels: {
+    "follow-up": "Seguimiento",
+    finance: "Finanzas",
+    math: "Cálculo",
+    plan: "Plan",
+    brainstorm: "Ideas",
+    summarize: "Resumen",
+    todo: "Lista de tareas",
+    prioritize: "Prioridades",
+    insight: "Sugerencias"
+  },
+  suggestions: {
+    idle: [
+      "Dame un objetivo con un plazo ajustado",
+      "Pídeme que resuma un mensaje largo",
+      "Comparte tus tareas y las priorizaré"
+    ],
+    "follow-up": [
+      "Convierte esto en una lista de comprobación",
+      "Señala riesgos o preguntas abiertas",
+      "Pídeme que profundice en una idea clave"
+    ],
+    finance: [
+      "Muestra la tabla año por año",
+      "Compáralo con otro tipo de interés",
+      "¿Y si aportara más cada mes?"
+    ],
+    math: [
+      "Compara este resultado con otro escenario",
+      "Pídeme que explique los números brevemente",
+      "Crea una tabla de resultados con distintas variables"
+    ],
+    plan: [
+      "Pide un calendario de 7 días para el plan",
+      "Pregunta por el hito más importante",
+      "Convierte el plan en bloques para el calendario"
+    ],
+    brainstorm: [
+      "Quédate con la idea más destacada",
+      "Convierte esta idea en un recorrido de usuario",
+      "Redacta una presentación de 3 frases para la mejor idea"
+    ],
+    summarize: [
+      "Extrae las tareas del resumen",
+      "Señala riesgos o preguntas abiertas",
+      "Adapta el resumen para informar a los interesados"
+    ],
+    todo: ["¿Qué me queda en la lista?", "Prioriza mi lista", "Borra los elementos completados"],
+    prioritize: [
+      "Agrupa las tareas por esfuerzo frente a impacto",
+      "Programa la tarea principal en un hueco realista",
+      "Delega o aplaza las prioridades más bajas"
+    ],
+    insight: [
+      "Pídeme que profundice en una idea clave",
+      "Añade restricciones reales (tiempo, presupuesto, público)",
+      "Convierte esto en una lista de comprobación"
+    ]
+  }
+};
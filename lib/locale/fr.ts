@@ -0,0 +1,601 @@
+import type { Catalog } from "./en";
+
+export const fr: Catalog = {
+  messages: {
+    "agent.idle.status": "Aucun message reçu, je reste en attente.",
+    "agent.idle.reply": "Je suis prêt quand tu veux.",
+    "agent.empty.status": "Le registre des outils est vide.",
+    "agent.empty.reply":
+      "Aucun outil n’est enregistré, je ne peux donc pas encore répondre à cela.",
+    "agent.intent.title": "Détection de l’intention",
+    "agent.intent.single": "La demande appelle une réponse de type **{tool}**.",
+    "agent.intent.compound": "La demande combine {count} requêtes : {tools}.",
+    "agent.handled": "J’ai traité « {segment} ».",
+    "agent.next.title": "Étape suivante",
+    "agent.next.single": "Pistes pour poursuivre la session.",
+    "agent.next.compound": "Pistes pour chaque partie de la demande.",
+
+    "tone.friendly": "J’espère que ça t’aide — dis-moi si tu veux ajuster quelque chose !",
+    "tone.formal": "N’hésitez pas à me faire savoir si vous souhaitez d’autres ajustements.",
+
+    "step.method": "Méthode",
+    "step.status": "Statut",
+    "step.tool": "Outil",
+    "step.memory": "Mémoire",
+    "step.tasks": "Liste de tâches",
+    "step.fallback": "Réponse générale",
+    "step.knowledge": "Connaissances",
+    "step.model": "Modèle",
+    "step.followUp": "Suite",
+    "step.finance": "Finances",
+    "step.parameters": "Paramètres",
+    "step.formula": "Formule",
+
+    "model.drafted": "Réponse rédigée avec **{model}**.",
+    "model.failed":
+      "**{model}** n’a pas répondu ({reason}), j’ai donc utilisé les heuristiques intégrées.",
+
+    "math.tool": "Expression arithmétique évaluée avec l’analyseur mathématique sécurisé.",
+    "math.empty":
+      "Je n’ai trouvé aucune expression à résoudre. Essaie par exemple `3,5 * (12 + 4)`.",
+    "math.saved": "`{name}` = **{value}** enregistré.",
+    "math.result": "L’expression {expression} vaut **{value}**.",
+    "math.memory": "Enregistré sous `ans{count}` (et `ans`).",
+    "math.variables": "Variables : {variables}.",
+
+    "calc.at": "{reason} à `{text}` (caractère {position} de ton message).",
+    "calc.unknownVariable": "Je ne connais pas la variable",
+    "calc.unopened": "Cette parenthèse fermante n’a pas de partenaire",
+    "calc.unclosed": "Cette parenthèse n’est jamais fermée",
+    "calc.malformed": "L’expression est mal formée",
+    "calc.combine": "Je ne peux pas combiner {first} (`{text}`) avec {second}",
+    "calc.convert": "Je ne peux pas convertir {dimension} en {unit}.",
+    "calc.nonNumeric":
+      "Cette expression donne un résultat non numérique, que je ne gère pas encore.",
+    "calc.multiply": "Je ne peux pas multiplier {first} (`{text}`) par {second}",
+    "calc.divide": "Je ne peux pas diviser {first} par {second}",
+    "calc.power": "Je ne peux pas élever {dimension} à une puissance",
+    "calc.function": "`{name}` n’accepte que des nombres sans unité, pas {dimension}",
+    "dimension.length": "une longueur",
+    "dimension.mass": "une masse",
+    "dimension.currency": "une devise",
+    "dimension.none": "un nombre sans unité",
+    "finance.parsed": "Question interprétée comme un calcul de **{kind}**.",
+    "finance.kind.investment": "placement",
+    "finance.kind.loan": "prêt",
+    "finance.kind.goal": "objectif d’épargne",
+    "finance.kind.roi": "rentabilité",
+    "finance.money": "{sign}{amount} {currency}",
+    "finance.percent": "{value} %",
+    "finance.years": { one: "{years} an", other: "{years} ans" },
+    "finance.and": "et",
+    "finance.horizon": "Cela dépasse l’horizon de {years} ans couvert par ces calculs. {advice}",
+    "finance.horizon.step":
+      "Durée supérieure à {years} ans : calcul interrompu avant la projection.",
+    "finance.horizon.timeFrame": "Essaie une durée plus courte.",
+    "finance.horizon.term": "Essaie une durée de prêt plus courte.",
+    "finance.horizon.deposit": "Essaie un versement plus élevé ou un objectif plus modeste.",
+    "finance.horizon.deadline": "Essaie une échéance plus proche.",
+    "finance.missing": "Il me faut {what} pour faire ce calcul. Essaie par exemple « {example} ».",
+    "finance.missing.step":
+      "Impossible d’extraire tous les paramètres de la formule : valeurs manquantes demandées.",
+    "finance.missing.investment": "un montant, un taux annuel et une durée",
+    "finance.missing.loan": "le montant du prêt, le taux d’intérêt et la durée",
+    "finance.missing.target": "un montant cible",
+    "finance.missing.goal": "un montant cible et soit une échéance, soit un versement régulier",
+    "finance.missing.roi": "le montant investi et ce qu’il a rapporté",
+    "finance.example.investment":
+      "Si je place 150 € par mois à 5 % d’intérêt annuel, combien aurai-je au bout de 3 ans ?",
+    "finance.example.loan": "Quelle est la mensualité d’un prêt de 250 000 € à 6 % sur 30 ans ?",
+    "finance.example.target":
+      "Combien de temps pour épargner 10 000 € si je mets de côté 300 € par mois à 4 % ?",
+    "finance.example.goal":
+      "Combien dois-je épargner par mois pour atteindre 20 000 € en 3 ans à 4 % ?",
+    "finance.example.roi":
+      "J’ai investi 5 000 € et ils valent maintenant 7 200 € après 3 ans : quelle est ma rentabilité ?",
+    "finance.column.year": "Année",
+    "finance.column.deposited": "Versé",
+    "finance.column.interest": "Intérêts",
+    "finance.column.balance": "Solde",
+    "finance.column.principalPaid": "Capital remboursé",
+    "finance.column.interestPaid": "Intérêts payés",
+    "finance.column.remaining": "Capital restant dû",
+    "finance.investment.start": "un solde de départ de {amount}",
+    "finance.investment.contribution": "{amount} versés {times} fois par an",
+    "finance.investment.result":
+      "Avec {parts} à {rate} d’intérêt annuel, le solde au bout de {years} est de **{balance}**.",
+    "finance.investment.split": "Soit {deposited} versés plus {interest} d’intérêts.",
+    "finance.investment.parameters":
+      "Capital {principal}, versement {payment} × {periods}/an, taux {rate} composé {compounding} fois par an, {total} périodes.",
+    "finance.investment.formula":
+      "FV = P × (1 + i)^n + PMT × ((1 + i)^n − 1) / i, où i est le taux par période de versement et n le nombre de périodes.",
+    "finance.loan.result":
+      "Emprunter {principal} à {rate} sur {years} coûte **{payment} par mois**.",
+    "finance.loan.total": "Tu rembourserais {total} au total, dont {interest} d’intérêts.",
+    "finance.loan.parameters":
+      "Capital {principal}, taux {rate} ({monthly} par mois), {count} mensualités.",
+    "finance.loan.formula":
+      "M = P × i / (1 − (1 + i)^−n), la mensualité d’un prêt amortissable au taux mensuel i sur n échéances.",
+    "finance.period.week": { one: "{count} semaine", other: "{count} semaines" },
+    "finance.period.month": { one: "{count} mois", other: "{count} mois" },
+    "finance.period.quarter": { one: "{count} trimestre", other: "{count} trimestres" },
+    "finance.period.year": { one: "{count} an", other: "{count} ans" },
+    "finance.per.week": "par semaine",
+    "finance.per.month": "par mois",
+    "finance.per.quarter": "par trimestre",
+    "finance.per.year": "par an",
+    "finance.target.covered":
+      "Tes {current} actuels couvrent déjà {target} : aucun versement supplémentaire nécessaire.",
+    "finance.target.reached":
+      "En épargnant {payment} {per} à {rate}, tu atteins {target} au bout de **{count}**{about}, avec {balance} épargnés.",
+    "finance.target.about": " (environ {years})",
+    "finance.target.parameters":
+      "Objectif {target}, solde de départ {current}, versement {payment} × {periods}/an, taux {rate}.",
+    "finance.target.formula":
+      "n = ln((FV × i + PMT) / (PV × i + PMT)) / ln(1 + i), l’équation de la valeur future résolue pour le nombre de versements, arrondi au supérieur.",
+    "finance.savings.counts": "Cela compte les {current} que tu as déjà.",
+    "finance.savings.zero": "Cela suppose que tu pars de zéro.",
+    "finance.goal.grows":
+      "Tes {current} actuels dépassent déjà {target} en {years} : aucun versement supplémentaire nécessaire.",
+    "finance.goal.result":
+      "Pour atteindre {target} en {years} à {rate}, épargne **{monthly} par mois**.",
+    "finance.goal.parameters":
+      "Objectif {target}, solde de départ {current}, taux {rate}, {count} versements mensuels.",
+    "finance.goal.formula":
+      "PMT = (FV − PV × (1 + i)^n) × i / ((1 + i)^n − 1), l’équation de la valeur future résolue pour le versement.",
+    "finance.roi.parameters": "Coût {cost}, valeur finale {final}.",
+    "finance.roi.parametersOver": "Coût {cost}, valeur finale {final} sur {years}.",
+    "finance.roi.formula": "ROI = (valeur finale − coût) / coût.",
+    "finance.roi.formulaAnnualised":
+      "ROI = (valeur finale − coût) / coût ; rendement annualisé = (valeur finale / coût)^(1 / années) − 1.",
+    "finance.roi.result":
+      "Passer de {cost} à {final} représente un **retour sur investissement de {roi}** ({direction} de {change}).",
+    "finance.roi.gain": "gain",
+    "finance.roi.loss": "perte",
+    "finance.roi.annualised": "Réparti sur {years}, cela fait {rate} par an.",
+
+    "todo.notFound": "Je n’ai pas trouvé « {query} » dans ta liste.",
+    "todo.notFound.step": "Aucun élément ne correspond à « {query} », la liste est inchangée.",
+    "todo.duplicate": "C’est déjà dans ta liste.",
+    "todo.duplicate.step": "Tous les éléments étaient déjà en attente, rien n’a été ajouté.",
+    "todo.added": "Ajouté : {items}.",
+    "todo.added.step": {
+      one: "{count} élément ajouté à la liste de la session.",
+      other: "{count} éléments ajoutés à la liste de la session."
+    },
+    "todo.alreadyDone": "**{item}** est déjà fait.",
+    "todo.alreadyDone.step": "L’élément était déjà terminé.",
+    "todo.completed": "**{item}** marqué comme fait.",
+    "todo.completed.step": "« {query} » associé à « {item} » et marqué comme terminé.",
+    "todo.removed": "**{item}** supprimé.",
+    "todo.removed.step": "« {query} » associé à « {item} » et supprimé.",
+    "todo.cleared": {
+      one: "{count} élément terminé effacé.",
+      other: "{count} éléments terminés effacés."
+    },
+    "todo.cleared.step": "Éléments terminés retirés de la liste de la session.",
+    "todo.unknownDay":
+      "Je ne sais pas quel jour désigne « {day} ». Essaie « demain », « vendredi » ou « 12 novembre ».",
+    "todo.unknownDay.step": "Le jour n’a pas été reconnu, la liste est inchangée.",
+    "todo.moved": "**{item}** déplacé au {day}.",
+    "todo.moved.step": "« {day} » lu comme {due} et élément mis à jour.",
+    "todo.nextUp": "Ensuite : **{item}**.",
+    "todo.read.step": {
+      one: "{count} élément enregistré lu, {open} encore ouverts.",
+      other: "{count} éléments enregistrés lus, {open} encore ouverts."
+    },
+    "todo.shown.step": "Liste enregistrée affichée.",
+    "todos.empty":
+      "Ta liste est vide. Essaie « ajoute réserver les vols et renouveler le passeport à ma liste ».",
+    "todos.allDone": "Plus rien : tout ce qui est sur ta liste est fait.",
+    "todos.left": "**Il en reste {count} :**",
+    "todos.done": "Fait : {items}",
+
+    "plan.method": {
+      one: "{steps} étapes planifiées avec {count} jalon entre {start} et {deadline}, ordonnées selon leurs dépendances.",
+      other:
+        "{steps} étapes planifiées avec {count} jalons entre {start} et {deadline}, ordonnées selon leurs dépendances."
+    },
+    "plan.header.day": "Plan pour **{goal}**, {start} → {end} :",
+    "plan.header.time": "Plan pour **{goal}**, {start}–{end} :",
+    "plan.after": "après {steps}",
+    "plan.constraints": "**Contraintes :** {constraints}.",
+    "plan.goal": "l’objectif",
+    "plan.note.window": "Placé dans {window} à partir de {time}.",
+    "plan.note.tomorrow":
+      "Il reste trop peu de temps aujourd’hui, le plan commence donc demain à {time}.",
+    "plan.note.shortened": "Raccourci à {count} minutes pour se terminer à {time}.",
+    "plan.note.defaultDays": "Aucune échéance donnée, j’ai donc supposé {count} jours.",
+    "plan.note.passed":
+      "L’échéance ({deadline}) est déjà passée, le plan commence et se termine donc aujourd’hui.",
+    "plan.note.noDays": "Aucun jour ouvré ne tient avant l’échéance, tout tombe donc le jour même.",
+    "plan.note.fewDays": {
+      one: "Seulement {count} jour ouvré avant l’échéance : les étapes partagent les jours.",
+      other: "Seulement {count} jours ouvrés avant l’échéance : les étapes partagent les jours."
+    },
+    "plan.note.hours": "J’ai supposé {count} heures de concentration par jour ouvré.",
+    "plan.window.minutes": "{count} minutes",
+    "plan.window.hours": "{count} heures",
+    "plan.window.morning": "la matinée",
+    "plan.window.afternoon": "l’après-midi",
+    "plan.window.evening": "la soirée",
+    "plan.window.tonight": "la soirée de ce soir",
+    "plan.constraint.hours": { one: "{count} heure par jour", other: "{count} heures par jour" },
+    "plan.constraint.budget": "Budget {amount}",
+    "plan.constraint.weekendsOnly": "Week-ends uniquement",
+    "plan.constraint.weekendsIncluded": "Week-ends compris",
+    "plan.constraint.noWeekends": "Pas de week-ends",
+    "plan.constraint.evenings": "Le soir uniquement",
+    "plan.constraint.solo": "Travail en solo",
+    "plan.constraint.team": "Avec {team}",
+    "plan.launch.scope": "Figer le périmètre et les indicateurs de réussite : {goal}",
+    "plan.launch.build": "Terminer et peaufiner le produit",
+    "plan.launch.assets": "Préparer les messages, les supports et la page de lancement",
+    "plan.launch.test": "Tester avec un petit groupe et corriger ce qui casse",
+    "plan.launch.ready": "Prêt au lancement : produit testé et supports validés",
+    "plan.launch.launch": "Lancer et annoncer",
+    "plan.launch.review": "Analyser les premiers indicateurs et retours",
+    "plan.study.map": "Lister tout ce que couvre {goal} et évaluer ta confiance sur chaque thème",
+    "plan.study.weakest": "Travailler d’abord les thèmes les plus faibles",
+    "plan.study.practise": "S’entraîner sur des annales ou des exercices",
+    "plan.study.mock": "Examen blanc en conditions réelles",
+    "plan.study.gaps": "Revoir les lacunes révélées par l’examen blanc",
+    "plan.study.ready": "Prêt pour {goal}",
+    "plan.write.outline": "Faire le plan de {goal} et arrêter le message clé",
+    "plan.write.research": "Rassembler recherches, données et exemples",
+    "plan.write.draft": "Écrire le premier jet du début à la fin",
+    "plan.write.drafted": "Premier jet terminé",
+    "plan.write.revise": "Réviser avec les retours d’une personne",
+    "plan.write.polish": "Dernières retouches et remise",
+    "plan.write.delivered": "Remis",
+    "plan.event.budget": "Fixer le budget, la date et la liste des invités : {goal}",
+    "plan.event.book": "Réserver le lieu, le voyage ou les prestataires clés",
+    "plan.event.invite": "Envoyer les invitations et recueillir les réponses",
+    "plan.event.confirmed": "Réservations confirmées",
+    "plan.event.logistics": "Préparer le déroulé et la logistique",
+    "plan.event.checks": "Dernières vérifications avec tous les participants",
+    "plan.event.happens": "{Goal} : le jour J",
+    "plan.change.outcome": "Définir ce qu’est un bon résultat : {goal}",
+    "plan.change.research": "Étudier les options et garder les trois meilleures",
+    "plan.change.decided": "Décision prise",
+    "plan.change.logistics": "Gérer les démarches, réservations et la logistique",
+    "plan.change.execute": "Mettre en œuvre le changement",
+    "plan.change.settle": "S’installer et régler les derniers détails",
+    "plan.generic.finish": "Définir un objectif mesurable : {goal}",
+    "plan.generic.gather": "Réunir les informations, outils et personnes nécessaires",
+    "plan.generic.work": "Faire le travail principal par sessions concentrées",
+    "plan.generic.done": "Travail principal terminé",
+    "plan.generic.review": "Relire, affiner et combler les manques",
+    "plan.generic.deliver": "Livrer : {goal}",
+    "plan.timed.warmUp": "Échauffement et mobilité",
+    "plan.timed.cardio": "Cardio, série {round}",
+    "plan.timed.strength": "Renforcement, série {round}",
+    "plan.timed.main": "Bloc principal, partie {round}",
+    "plan.timed.coolDown": "Retour au calme et étirements",
+    "plan.timed.setUp": "S’installer et décider à quoi ressemble le résultat",
+    "plan.timed.focusTask": "Bloc de concentration : tâche {round}",
+    "plan.timed.focusGoal": "Bloc de concentration : {goal}",
+    "plan.timed.break": "Courte pause",
+    "plan.timed.wrapUp": "Conclure et noter la prochaine étape",
+
+    "priorities.empty":
+      "Envoie-moi une liste de tâches séparées par des virgules ou des retours à la ligne pour que je puisse les classer.",
+    "priorities.header": "Classé avec **{framework}** — {formula} :",
+    "priorities.line": "{position}. {task} — priorité {score}",
+    "priorities.stored": "J’ai utilisé les éléments ouverts de ta liste. ",
+    "priorities.method":
+      "{stored}Chaque tâche a été notée avec {framework}, en lisant échéances, effort (2h, S/M/L) et poids (w=3, !!) dans le texte. Demande Eisenhower, effort vs impact ou RICE pour changer de méthode.",
+    "priorities.column.task": "Tâche",
+    "priorities.column.urgency": "Urgence",
+    "priorities.column.impact": "Impact",
+    "priorities.column.weight": "Poids",
+    "priorities.column.due": "Échéance",
+    "priorities.column.score": "Score",
+    "priorities.column.urgent": "Urgent",
+    "priorities.column.important": "Important",
+    "priorities.column.quadrant": "Quadrant",
+    "priorities.column.effort": "Effort",
+    "priorities.column.reach": "Portée",
+    "priorities.column.confidence": "Confiance",
+    "priorities.yes": "oui",
+    "priorities.no": "non",
+    "priorities.quadrant.doFirst": "À faire d’abord",
+    "priorities.quadrant.schedule": "Planifier",
+    "priorities.quadrant.delegate": "Déléguer",
+    "priorities.quadrant.eliminate": "Éliminer",
+    "priorities.quadrant.majorProject": "Projet majeur",
+    "priorities.quadrant.quickWin": "Gain rapide",
+    "priorities.quadrant.thankless": "Ingrat",
+    "priorities.quadrant.fillIn": "Bouche-trou",
+    "framework.weighted": "Score pondéré",
+    "framework.weighted.formula": "(urgence × 2 + impact) × poids",
+    "framework.eisenhower": "Matrice d’Eisenhower",
+    "framework.eisenhower.formula":
+      "d’abord urgent et important, puis important, puis urgent, puis le reste",
+    "framework.effort-impact": "Effort vs impact",
+    "framework.effort-impact.formula": "impact × poids ÷ effort en heures",
+    "framework.rice": "RICE",
+    "framework.rice.formula": "portée × impact × confiance ÷ effort en heures",
+
+    "summary.title": {
+      one: "Résumé de {count} message :",
+      other: "Résumé de {count} messages :"
+    },
+    "summary.heading.points": "Points clés",
+    "summary.heading.decisions": "Décisions",
+    "summary.heading.actions": "Actions",
+    "summary.heading.questions": "Questions ouvertes",
+    "summary.count.decisions": { one: "{count} décision", other: "{count} décisions" },
+    "summary.count.actions": { one: "{count} action", other: "{count} actions" },
+    "summary.count.questions": {
+      one: "{count} question ouverte",
+      other: "{count} questions ouvertes"
+    },
+    "summary.nothing": "Rien d’important pour l’instant.",
+    "summary.empty": "Nous venons de commencer, il n’y a encore rien à résumer.",
+    "summary.due": "pour le {day}",
+    "summary.method":
+      "Chaque phrase de {source} a été notée selon la fréquence des termes, la position et les mots-clés ; les {points} meilleures forment un résumé {length}, avec {found}.",
+    "summary.source.pasted": "le texte collé",
+    "summary.source.conversation": "toute la conversation",
+    "summary.length.one-liner": "en une ligne",
+    "summary.length.short": "court",
+    "summary.length.detailed": "détaillé",
+
+    "brainstorm.angle.partners": "Partenariats ou publics inattendus",
+    "brainstorm.angle.journey": "Moments du parcours client à rendre mémorables",
+    "brainstorm.angle.experiments": "Petites expériences à lancer cette semaine",
+    "brainstorm.angle.signals": "Signaux qui prouvent que l’idée fonctionne",
+    "brainstorm.idea":
+      '{angle} — en particulier pour "{topic}". Pense à ce qui paraîtrait rafraîchissant par rapport au statu quo.',
+    "brainstorm.method":
+      "Quatre angles d’idées contrastés générés pour encourager la pensée divergente.",
+
+    "insight.fallback":
+      "- Reformule ton objectif en une phrase pour confirmer que je l’ai bien compris.\n" +
+      "- Identifie un obstacle ou une variable qui t’inquiète.\n" +
+      "- Demande quelque chose de concret : un plan, un canevas, un script, un calcul ou une critique.",
+    "insight.fallback.step":
+      "Aucun outil ne correspondait directement, j’ai donc proposé une piste structurée pour préciser la conversation.",
+    "insight.knowledge": "Guides classés avec BM25, meilleurs passages utilisés :",
+
+    "followup.needs":
+      "Pour cela, il me faut {what} plus tôt dans la conversation. Partage-le et choisis à nouveau la suite.",
+    "followup.needs.step":
+      "La réponse précédente ne contenait rien sur quoi cette suite puisse travailler.",
+    "followup.needs.plan": "un plan",
+    "followup.needs.ideas": "une liste d’idées",
+    "followup.needs.summary": "un résumé",
+    "followup.needs.tasks": "une liste de tâches classée",
+    "followup.needs.takeaways": "une liste de points clés",
+    "followup.needs.recommendations": "une liste de recommandations",
+    "followup.needs.calculation": "un calcul",
+    "followup.needs.finance": "une question financière",
+    "followup.needs.rate": "une question financière avec un taux",
+    "followup.needs.monthly": "une question financière avec un versement mensuel",
+    "followup.needs.previous": "une réponse précédente",
+    "followup.starter.goal":
+      "Donne-moi l’objectif et l’échéance en une ligne, par exemple « Planifie une démo produit pour vendredi », et je détaillerai les étapes.",
+    "followup.starter.condense": "Colle le message après le mot « Résume : » et je le condenserai.",
+    "followup.starter.prioritise":
+      "Envoie « Priorise : » suivi de tes tâches, une par ligne ou séparées par des virgules.",
+    "followup.starter.step": "Données nécessaires à cette tâche demandées.",
+    "followup.column.day": "Jour",
+    "followup.column.focus": "Priorité",
+    "followup.column.time": "Heure",
+    "followup.column.block": "Bloc",
+    "followup.column.stage": "Étape",
+    "followup.column.experience": "Expérience",
+    "followup.column.recommendation": "Recommandation",
+    "followup.column.shortTime": "Si le temps manque",
+    "followup.column.tightBudget": "Si le budget est serré",
+    "followup.column.audience": "Pour ton public",
+    "followup.column.scenario": "Scénario",
+    "followup.column.expression": "Expression",
+    "followup.column.result": "Résultat",
+    "followup.column.rate": "Taux",
+    "followup.column.monthly": "Montant mensuel",
+    "followup.timeline.intro": "Voici le plan réparti sur sept jours :",
+    "followup.timeline.day": "Jour {day}",
+    "followup.timeline.review": "Comparer les résultats à l’objectif et décider du cycle suivant.",
+    "followup.timeline.buffer": "Marge : rattraper ce qui a glissé et régler les détails restants.",
+    "followup.timeline.step":
+      "{steps} étapes du plan réparties sur {days} jours de travail, plus un jour de marge et un jour de bilan.",
+    "followup.milestone": "**Jalon :** {milestone}",
+    "followup.milestone.why": "- **Pourquoi il compte :** tout ce qui suit dépend de lui.",
+    "followup.milestone.done":
+      "- **Terminé quand :** tu peux montrer le résultat à quelqu’un sans réserve.",
+    "followup.milestone.checkIn":
+      "- **Point d’étape :** réserve 15 minutes de bilan le jour où tu comptes l’atteindre.",
+    "followup.milestone.step":
+      "Étape du plan retenue : celle qui définit la réussite ou débloque le reste.",
+    "followup.blocks.intro":
+      "Chaque étape est découpée en blocs de concentration de deux heures au plus, entre {hours} :",
+    "followup.blocks.download":
+      "Télécharge le fichier de calendrier pour ajouter ces blocs à ton agenda.",
+    "followup.blocks.step": "{steps} étapes du plan réparties en {blocks} blocs de calendrier.",
+    "followup.standout": "**Concept phare :** {angle} pour {topic}.",
+    "followup.standout.quick": "- Il se teste vite, donc tu apprends avant d’engager du budget.",
+    "followup.standout.talk": "- Il donne aux gens une raison concrète de parler de toi.",
+    "followup.standout.runnerUp": "- Deuxième choix : {idea} — à garder en réserve.",
+    "followup.standout.none": "aucun",
+    "followup.standout.step":
+      "Chaque idée notée sur la rapidité du test et l’attrait pour le public, puis la meilleure retenue.",
+    "followup.journey.intro": "Parcours utilisateur pour {topic} :",
+    "followup.journey.discover": "Découvrir",
+    "followup.journey.discover.text":
+      "Quelqu’un entend parler de {topic} pour la première fois par un ami, une publication ou une recherche.",
+    "followup.journey.consider": "Envisager",
+    "followup.journey.consider.text":
+      "La personne compare avec ce qu’elle fait aujourd’hui et cherche une raison claire d’essayer.",
+    "followup.journey.try": "Essayer",
+    "followup.journey.try.text":
+      "Un premier pas facile (échantillon, essai, démo) tient vite la promesse.",
+    "followup.journey.adopt": "Adopter",
+    "followup.journey.adopt.text":
+      "Une petite réussite la première semaine transforme l’essai en habitude.",
+    "followup.journey.share": "Partager",
+    "followup.journey.share.text":
+      "Un moment prévu pour cela invite à en parler autour de soi et boucle la boucle.",
+    "followup.journey.step":
+      "Concept projeté sur cinq étapes du parcours, de la découverte à la recommandation.",
+    "followup.pitch.problem":
+      "Les personnes qui s’intéressent à {topic} n’ont que des options qui se ressemblent toutes.",
+    "followup.pitch.approach":
+      "Nous commençons par {idea}, pour que la première expérience paraisse vraiment différente.",
+    "followup.pitch.proof":
+      "Donnez-nous une semaine et nous montrerons le signal qui prouve que ça marche.",
+    "followup.pitch.fallback": "un angle nouveau",
+    "followup.pitch.step": "Pitch problème → approche → preuve rédigé autour de l’idée principale.",
+    "followup.actions.title": "Actions :",
+    "followup.actions.listed": {
+      one: "Action trouvée par le résumé listée, avec son responsable et sa date.",
+      other: "{count} actions trouvées par le résumé listées, avec responsables et dates."
+    },
+    "followup.actions.none":
+      "Je ne repère aucune action explicite dans le résumé. Ajoute qui fera quoi et pour quand.",
+    "followup.actions.none.step":
+      "Résumé parcouru à la recherche d’engagements et de formulations impératives ; aucun trouvé.",
+    "followup.actions.pulled": {
+      one: "{count} engagement extrait du résumé.",
+      other: "{count} engagements extraits du résumé."
+    },
+    "followup.risks.title": "Risques et questions ouvertes :",
+    "followup.risks.none":
+      "Rien dans le résumé n’est encore signalé comme un risque. À confirmer :",
+    "followup.risks.owner": "- Qui est responsable de chaque prochaine étape ?",
+    "followup.risks.deadline": "- Quelle échéance est fixe et laquelle peut bouger ?",
+    "followup.risks.stop": "- Qu’est-ce qui nous ferait arrêter ou changer de cap ?",
+    "followup.risks.step":
+      "Résumé parcouru à la recherche de questions, de réserves et de dépendances.",
+    "followup.update.title": "**Point pour les parties prenantes**",
+    "followup.update.status": "**Statut :** dans les temps — {highlight}",
+    "followup.update.highlights": "**Faits marquants :**",
+    "followup.update.next": "**Prochaines étapes :**",
+    "followup.update.nextMissing":
+      "**Prochaines étapes :** confirmer responsables et dates pour les points ci-dessus.",
+    "followup.update.asks": "**Demandes :** aucune pour l’instant — signalez tôt les blocages.",
+    "followup.update.step":
+      "Résumé réécrit au format statut / faits marquants / prochaines étapes / demandes.",
+    "followup.quadrant.quickWins": "Gains rapides (fort impact, peu d’effort)",
+    "followup.quadrant.majorProjects": "Grands projets (fort impact, gros effort)",
+    "followup.quadrant.fillIns": "Bouche-trous (faible impact, peu d’effort)",
+    "followup.quadrant.reconsider": "À reconsidérer (faible impact, gros effort)",
+    "followup.quadrant.step":
+      "Impact et effort indiqués utilisés quand ils sont donnés, formulation de la tâche sinon.",
+    "followup.schedule": "Réserve **{when}** pour **{task}** ({minutes} minutes).",
+    "followup.schedule.slot":
+      "- Le prochain créneau libre de tes heures de travail empêche la tâche principale de glisser.",
+    "followup.schedule.output": "- Décide du résultat attendu avant le début du bloc.",
+    "followup.schedule.slip": "- S’il glisse, déplace le bloc entier au lieu de le découper.",
+    "followup.schedule.stated":
+      "{minutes} minutes indiquées utilisées et placées dans le prochain créneau de travail.",
+    "followup.schedule.estimated":
+      "{minutes} minutes estimées et placées dans le prochain créneau de travail.",
+    "followup.delegate.intro": "Les priorités les plus basses et quoi en faire :",
+    "followup.delegate.delegate":
+      "- **Déléguer :** {task} — à confier avec le résultat attendu et une date.",
+    "followup.delegate.defer":
+      "- **Reporter :** {task} — à mettre de côté jusqu’à la fin des priorités, puis à reclasser.",
+    "followup.delegate.step":
+      "Dernier tiers du classement retenu ; les tâches routinières sont déléguées, les lourdes reportées.",
+    "followup.takeaway": "**Point clé :** {takeaway}",
+    "followup.takeaway.why":
+      "- **Pourquoi ça marche :** cela t’évite une décision au moment où tu dois agir.",
+    "followup.takeaway.start":
+      "- **Commence aujourd’hui :** essaie une fois, dans la version la plus simple, et note ce qui se passe.",
+    "followup.takeaway.watch": "- **Attention à :** viser la perfection plutôt que la régularité.",
+    "followup.takeaway.step":
+      "Premier point clé développé avec sa raison, un premier pas et un piège.",
+    "followup.constraints.time": "Fais la plus petite version cette semaine.",
+    "followup.constraints.budget": "Utilise les outils et les personnes que tu as déjà.",
+    "followup.constraints.audience": "Teste d’abord avec trois vraies personnes.",
+    "followup.constraints.step":
+      "Chaque recommandation relue à l’aune des limites de temps, de budget et de public.",
+    "followup.checklist.title": "Liste de contrôle :",
+    "followup.checklist.step": {
+      one: "{count} point transformé en élément de liste.",
+      other: "{count} points transformés en éléments de liste."
+    },
+    "followup.scenarios.intro": "En faisant varier le premier nombre de `{expression}` :",
+    "followup.scenarios.baseline": "Référence",
+    "followup.scenarios.step":
+      "Calcul précédent refait avec sa première valeur augmentée et diminuée.",
+    "followup.explain":
+      "`{expression}` {operations} les nombres que tu as donnés.{grouped} Le résultat est **{result}**.",
+    "followup.explain.multiplies": "multiplie",
+    "followup.explain.divides": "divise",
+    "followup.explain.adds": "additionne",
+    "followup.explain.subtracts": "soustrait",
+    "followup.explain.power": "élève à une puissance",
+    "followup.explain.combines": "combine",
+    "followup.explain.and": "et",
+    "followup.explain.grouped": " La partie entre parenthèses est calculée d’abord, puis le reste.",
+    "followup.explain.step": "Opérations du calcul précédent décrites en termes simples.",
+    "followup.rates.intro": "La même question avec d’autres taux d’intérêt :",
+    "followup.rates.yours": "{rate}% (le tien)",
+    "followup.rates.step": "Calcul refait avec {count} taux autour de {rate}%.",
+    "followup.contribution.intro": "Ce que change un versement mensuel plus élevé :",
+    "followup.contribution.step":
+      "Calcul refait avec le versement mensuel augmenté de 25%, 50% et 100%."
+  },
+  labels: {
+    "follow-up": "Suite",
+    finance: "Finances",
+    math: "Calcul",
+    plan: "Plan",
+    brainstorm: "Idées",
+    summarize: "Résumé",
+    todo: "Liste de tâches",
+    prioritize: "Priorités",
+    insight: "Pistes"
+  },
+  suggestions: {
+    idle: [
+      "Donne-moi un objectif avec une échéance serrée",
+      "Demande-moi de condenser un long message",
+      "Partage tes tâches et je les prioriserai"
+    ],
+    "follow-up": [
+      "Transforme ceci en liste de contrôle",
+      "Souligne les risques ou les questions ouvertes",
+      "Demande-moi d’approfondir un point clé"
+    ],
+    finance: [
+      "Affiche le tableau année par année",
+      "Compare avec un autre taux d’intérêt",
+      "Et si je versais davantage chaque mois ?"
+    ],
+    math: [
+      "Compare ce résultat avec un autre scénario",
+      "Demande-moi d’expliquer brièvement les chiffres",
+      "Crée un tableau de résultats avec différentes variables"
+    ],
+    plan: [
+      "Demande un calendrier sur 7 jours pour le plan",
+      "Demande le jalon le plus important",
+      "Transforme le plan en créneaux d’agenda"
+    ],
+    brainstorm: [
+      "Resserre les idées autour d’un concept phare",
+      "Transforme ce concept en parcours utilisateur",
+      "Rédige un pitch de 3 phrases pour la meilleure idée"
+    ],
+    summarize: [
+      "Extrais les actions du résumé",
+      "Souligne les risques ou les questions ouvertes",
+      "Adapte le résumé pour un point avec les parties prenantes"
+    ],
+    todo: ["Que reste-t-il sur ma liste ?", "Priorise ma liste", "Efface les éléments terminés"],
+    prioritize: [
+      "Regroupe les tâches par effort et impact",
+      "Planifie la tâche principale sur un créneau réaliste",
+      "Délègue ou reporte les priorités les plus basses"
+    ],
+    insight: [
+      "Demande-moi d’approfondir un point clé",
+      "Ajoute des contraintes réelles (temps, budget, public)",
+      "Transforme ceci en liste de contrôle"
+    ]
+  }
+};
@@ -0,0 +1,146 @@
+import { de } from "./de";
+import { en, type Catalog, type Message, type MessageKey } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+
+export { normaliseDates } from "./dates";
+export type { Catalog, Message, MessageKey } from "./en";
+
+export const LOCALES = ["en", "es", "de", "fr"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, de, fr };
+
+/** Full tags for `Intl`; British English keeps dates as "Fri 23 Oct". */
+const INTL_TAGS: Record<Locale, string> = {
+  en: "en-GB",
+  es: "es-ES",
+  de: "de-DE",
+  fr: "fr-FR"
+};
+
+/** English names, used when asking a language model to answer in the locale. */
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  fr: "French"
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/** Reads the language of a tag such as "de-AT", "es_MX.UTF-8" or "FR". */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const language = tag
+    ?.trim()
+    .toLowerCase()
+    .split(/[-_.@]/)[0];
+  return isLocale(language) ? language : null;
+}
+
+/** Picks the supported language the client ranks highest in `Accept-Language`. */
+export function negotiateLocale(header: string | null | undefined): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+      return { tag, q: q === undefined ? 1 : Number(q), index };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  for (const { tag } of ranked) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return null;
+}
+
+/**
+ * The locale for a request: an explicit setting wins, then `Accept-Language`,
+ * then the server default from `RADIUS_LOCALE`, then English. Unsupported
+ * languages fall through to the next source.
+ */
+export function resolveLocale(explicit?: string | null, acceptLanguage?: string | null): Locale {
+  return (
+    matchLocale(explicit) ??
+    negotiateLocale(acceptLanguage) ??
+    matchLocale(process.env.RADIUS_LOCALE) ??
+    DEFAULT_LOCALE
+  );
+}
+
+export function intlTag(locale: Locale = DEFAULT_LOCALE): string {
+  return INTL_TAGS[locale];
+}
+
+export function languageName(locale: Locale): string {
+  return LANGUAGE_NAMES[locale];
+}
+
+function interpolate(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+function choose(message: Message, locale: Locale, count: unknown): string {
+  if (typeof message === "string") return message;
+  if (typeof count !== "number") return message.other;
+  return new Intl.PluralRules(INTL_TAGS[locale]).select(count) === "one"
+    ? message.one
+    : message.other;
+}
+
+/**
+ * Looks up a message and fills in its `{placeholders}`. Messages with
+ * singular and plural forms pick one from the `count` parameter. Without a
+ * locale the English catalogue is used.
+ */
+export function t(
+  locale: Locale | undefined,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const language = locale ?? DEFAULT_LOCALE;
+  return interpolate(choose(CATALOGS[language].messages[key], language, params.count), params);
+}
+
+/** A tool's heading in the locale, when the catalogue names it. */
+export function toolLabel(locale: Locale | undefined, id: string): string | undefined {
+  return CATALOGS[locale ?? DEFAULT_LOCALE].labels[id];
+}
+
+/**
+ * Suggestions offered after a tool (or `idle`, before the first message) in
+ * the locale; `fallback` is used when the catalogue has none.
+ */
+export function localSuggestions(
+  locale: Locale | undefined,
+  id: string,
+  fallback: string[]
+): string[] {
+  return CATALOGS[locale ?? DEFAULT_LOCALE].suggestions[id] ?? fallback;
+}
+
+/**
+ * Finds a translated suggestion the user picked, so the reply can treat it
+ * like the English original: returns the tool it belongs to and its position.
+ */
+export function findSuggestion(text: string): { id: string; index: number } | null {
+  const wanted = text.trim().toLowerCase();
+  for (const locale of LOCALES) {
+    if (locale === DEFAULT_LOCALE) continue;
+    for (const [id, list] of Object.entries(CATALOGS[locale].suggestions)) {
+      const index = list.findIndex((item) => item.toLowerCase() === wanted);
+      if (index >= 0) return { id, index };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,644 @@
+/**
+ * Spanish, German and French phrasings of the requests the tools recognise.
+ * English patterns stay next to each tool; these are checked alongside them
+ * whatever the reply language, so a request is understood even when the
+ * browser asks for another locale.
+ */
+
+const LETTER = String.raw`[\p{L}\p{N}]`;
+const APOSTROPHE = "['’]";
+const PLEASE = String.raw`(?:por\s+favor|bitte|s${APOSTROPHE}il\s+(?:te|vous)\s+pla[iî]t)[,\s]+`;
+
+/** Matches any of the phrases as whole words; `\p{L}` makes accents count as letters. */
+function phrases(...sources: string[]): RegExp {
+  return new RegExp(`(?<!${LETTER})(?:${sources.join("|")})(?!${LETTER})`, "iu");
+}
+
+/** Matches at the start of a request, after an optional "please". */
+function leading(source: string): RegExp {
+  return new RegExp(`^\\s*(?:${PLEASE})?(?:${source})`, "iu");
+}
+
+export const PLAN_WORDS = phrases(
+  "cronograma",
+  String.raw`hoja\s+de\s+ruta`,
+  "estrategia",
+  String.raw`pasos\s+a\s+seguir`,
+  "organiza(?:r)?",
+  "strategie",
+  "schritte",
+  "ablauf",
+  String.raw`feuille\s+de\s+route`,
+  "stratégie",
+  "étapes",
+  "organise[rz]?"
+);
+
+export const IDEA_WORDS = phrases(
+  String.raw`lluvia\s+de\s+ideas`,
+  String.raw`creativ[oa]s?`,
+  "ideen",
+  String.raw`kreativ\p{L}*`,
+  "idées?",
+  "remue-méninges",
+  String.raw`créati\p{L}+`
+);
+
+export const NAMING_WORDS = phrases(
+  String.raw`nombres?\s+(?:para|de\s+marca)`,
+  String.raw`(?:sugiere|sugiéreme|propón|dame|necesito)[^.?!]*nombres`,
+  String.raw`namen\s+für`,
+  String.raw`namensvorschläge`,
+  String.raw`(?:schlage|gib\s+mir|brauche)[^.?!]*namen`,
+  String.raw`noms?\s+pour`,
+  String.raw`(?:propose|suggère|donne-moi|trouve)[^.?!]*noms`
+);
+
+const SUMMARY_VERBS = [
+  String.raw`resúme(?:me|lo)?`,
+  String.raw`haz\s+un\s+resumen(?:\s+de)?`,
+  "resumen",
+  String.raw`fass(?:e|t)?\s[^:\n]*?zusammen`,
+  String.raw`zusammenfass\p{L}*`,
+  "résume(?:-moi|z)?",
+  String.raw`fais\s+un\s+résumé(?:\s+de)?`,
+  String.raw`récapitul\p{L}*`
+];
+
+/**
+ * A summary request with the same groups as the English one: the rest of
+ * the ask, then the text pasted after a colon. Plain Spanish "resume" only
+ * counts before a colon, since it is also an English word.
+ */
+export const SUMMARY_REQUEST = leading(
+  `(?:${[...SUMMARY_VERBS, "resume(?=\\s*:)"].join("|")})(?!\\p{L})([^:\\n]*)(?::\\s*([\\s\\S]*))?$`
+);
+
+/** Cues the summariser looks for in Spanish, German and French sentences. */
+export const SUMMARY_CUES = {
+  decision: phrases(
+    String.raw`decidi(?:do|mos|ó)`,
+    String.raw`decisión`,
+    String.raw`acordad[oa]s?`,
+    String.raw`acordamos`,
+    String.raw`aprobad[oa]`,
+    String.raw`entschieden`,
+    String.raw`entscheidung`,
+    String.raw`beschlossen`,
+    String.raw`vereinbart`,
+    String.raw`freigegeben`,
+    String.raw`décidée?s?`,
+    String.raw`décision`,
+    String.raw`convenu`,
+    String.raw`validée?s?`,
+    String.raw`approuvée?s?`
+  ),
+  uncertain: phrases(
+    String.raw`no\s+(?:estoy|estamos)\s+segur[oa]s?`,
+    String.raw`no\s+está\s+claro`,
+    String.raw`por\s+(?:decidir|confirmar)`,
+    String.raw`pregunta\s+abierta`,
+    String.raw`nicht\s+sicher`,
+    String.raw`unklar`,
+    String.raw`offene\s+frage`,
+    String.raw`noch\s+zu\s+(?:klären|entscheiden)`,
+    String.raw`pas\s+sûrs?`,
+    String.raw`pas\s+clair`,
+    String.raw`à\s+(?:décider|confirmer)`,
+    String.raw`question\s+ouverte`
+  ),
+  action: new RegExp(
+    String.raw`^(?:tareas?|pendientes?|próximos?\s+pasos?|aufgaben?|nächster?\s+schritte?|à\s+faire|actions?|prochaines?\s+étapes?)\s*[:-]\s*`,
+    "iu"
+  )
+};
+
+export const SUMMARY_WORDS = phrases(
+  ...SUMMARY_VERBS,
+  String.raw`resume\s+(?:la|nuestra|esta|el)\s+(?:conversación|charla|chat|reunión)`
+);
+
+export const ONE_LINER_WORDS = phrases(
+  String.raw`en\s+una\s+(?:frase|línea)`,
+  "brevemente",
+  String.raw`in\s+einem\s+satz`,
+  String.raw`in\s+einer\s+zeile`,
+  "kurz",
+  String.raw`en\s+une\s+(?:phrase|ligne)`,
+  "brièvement"
+);
+
+export const DETAILED_WORDS = phrases(
+  String.raw`detallad\p{L}*`,
+  String.raw`en\s+detalle`,
+  String.raw`ausführlich\p{L}*`,
+  String.raw`detailliert\p{L}*`,
+  String.raw`détaillée?s?`,
+  String.raw`en\s+détail`
+);
+
+const PRIORITISE_VERBS = String.raw`prioriza|priorice|ordena|priorisiere|priorisieren|ordne|priorise[rz]?|hiérarchise[rz]?|classe[rz]?`;
+
+export const PRIORITISE_ASK = leading(`(?:${PRIORITISE_VERBS})(?!\\p{L})`);
+
+export const PRIORITISE_WORDS = phrases(
+  String.raw`prioriza\p{L}*`,
+  String.raw`priorisier\p{L}*`,
+  "priorise[rz]?",
+  String.raw`qué\s+hago\s+primero`,
+  String.raw`was\s+(?:soll\s+ich|mache\s+ich)\s+zuerst`,
+  String.raw`par\s+quoi\s+commencer`
+);
+
+/** The "Prioriza …:" ask in front of a task list. */
+export const PRIORITISE_HEADER = new RegExp(
+  `^[^:\\n]*?(?<!\\p{L})(?:${PRIORITISE_VERBS})(?!\\p{L})[^:\\n]*:\\s*`,
+  "iu"
+);
+
+/** The session's task list, as in "prioritise my list". */
+export const STORED_LIST = phrases(
+  String.raw`mi\s+lista(?:\s+de\s+(?:tareas|pendientes))?`,
+  String.raw`mis\s+tareas`,
+  String.raw`meine[rn]?\s+[\p{L}-]*liste`,
+  String.raw`meine\s+aufgaben`,
+  String.raw`ma\s+liste(?:\s+de\s+tâches)?`,
+  String.raw`mes\s+tâches`
+);
+
+/** Task words that raise urgency or impact when ranking. */
+export const PRIORITY_WORDS = {
+  urgent: phrases(
+    "urgentes?",
+    String.raw`cuanto\s+antes`,
+    "dringend",
+    "sofort",
+    String.raw`dès\s+que\s+possible`,
+    String.raw`au\s+plus\s+vite`
+  ),
+  soon: phrases("pronto", "demnächst", "bientôt"),
+  high: phrases(
+    "lanzamiento",
+    "clientes?",
+    "ingresos",
+    "hitos?",
+    String.raw`kunde\p{L}*`,
+    "umsatz",
+    String.raw`meilenstein\p{L}*`,
+    String.raw`frist\p{L}*`,
+    "lancement",
+    "revenus",
+    "jalons?",
+    "échéance"
+  ),
+  medium: phrases(
+    "revisar",
+    "revisión",
+    "borrador",
+    "preparar",
+    String.raw`prüf\p{L}*`,
+    "entwurf",
+    String.raw`vorbereit\p{L}*`,
+    "relire",
+    "relecture",
+    "brouillon",
+    "préparer"
+  )
+};
+
+/** "Esfuerzo vs impacto" and its equivalents. */
+export const EFFORT_IMPACT_WORDS = phrases(
+  String.raw`esfuerzo\s*(?:vs\.?|frente\s+a|\/|y|-)\s*impacto`,
+  String.raw`victorias?\s+rápidas?`,
+  String.raw`aufwand\s*(?:vs\.?|gegen|\/|und|-)\s*(?:wirkung|nutzen)`,
+  String.raw`schnelle\s+erfolge`,
+  String.raw`effort\s*(?:vs\.?|contre|\/|et|-)\s*impact`,
+  String.raw`gains?\s+rapides?`
+);
+
+/** Words that join two requests in one message, like English "and then". */
+export const JOINERS = String.raw`y\s+luego|y\s+después|y\s+también|además|und\s+dann|und\s+auch|außerdem|danach|et\s+puis|et\s+aussi|puis|ensuite`;
+
+/** Splits "leche y huevos" or "Milch und Eier" into items. */
+export const AND = String.raw`y|und|et`;
+
+const ES_LIST = String.raw`(?:mi|la)\s+lista(?:\s+de\s+(?:la\s+)?\p{L}+)?`;
+const DE_LIST = String.raw`(?:meine[rn]?|die|der)\s+[\p{L}-]*liste`;
+const FR_LIST = String.raw`(?:ma|la)\s+liste(?:\s+de\s+\p{L}+)?`;
+
+/**
+ * Task list commands; the first group is the item where there is one, and
+ * for moves the second group is the day, still in the request's language.
+ */
+export const TODO_PHRASES: Record<
+  "add" | "complete" | "remove" | "clear" | "move" | "list",
+  RegExp[]
+> = {
+  add: [
+    leading(String.raw`(?:añade|agrega|apunta|pon)\s+([\s\S]+?)\s+(?:a|en)\s+${ES_LIST}`),
+    leading(
+      String.raw`(?:füge|setze?|schreibe?|trage?)\s+([\s\S]+?)\s+(?:zu|auf|in)\s+${DE_LIST}(?:\s+(?:hinzu|ein))?`
+    ),
+    leading(
+      String.raw`(?:ajoute[sz]?|mets|mettez|note[sz]?)\s+([\s\S]+?)\s+(?:à|a|sur|dans)\s+${FR_LIST}`
+    )
+  ],
+  complete: [
+    phrases(
+      String.raw`(?:marca|tacha)\s+(.+?)\s+(?:como\s+)?(?:hech|completad|terminad|list)[oa]s?`
+    ),
+    phrases(String.raw`markiere?\s+(.+?)\s+als\s+(?:erledigt|fertig)`),
+    phrases(String.raw`hake\s+(.+?)\s+ab`),
+    phrases(String.raw`(?:marque[rz]?|coche[rz]?)\s+(.+?)\s+comme\s+(?:fait|terminé|fini)e?s?`)
+  ],
+  remove: [
+    phrases(String.raw`(?:quita|elimina|borra|saca)\s+(.+?)\s+de\s+${ES_LIST}`),
+    phrases(String.raw`(?:entferne|lösche|streiche)\s+(.+?)\s+(?:von|aus)\s+${DE_LIST}`),
+    phrases(String.raw`(?:supprime|retire|enlève|efface)[sz]?\s+(.+?)\s+de\s+${FR_LIST}`)
+  ],
+  clear: [
+    phrases(
+      String.raw`(?:borra|elimina|quita|limpia)\s+(?:los\s+|las\s+)?(?:elementos\s+|tareas\s+)?(?:completad|hech|terminad)[oa]s`
+    ),
+    phrases(
+      String.raw`(?:lösche|entferne)\s+(?:die\s+|alle\s+)?erledigten(?:\s+(?:einträge|aufgaben))?`
+    ),
+    phrases(
+      String.raw`(?:efface|supprime|retire)[sz]?\s+(?:les\s+|tous\s+les\s+)?(?:éléments\s+|tâches\s+)?(?:terminé|fait|fini)e?s`
+    )
+  ],
+  move: [
+    phrases(
+      String.raw`(?:mueve|pasa|aplaza|pospón|cambia)\s+(.+?)\s+(?:al?|para(?:\s+el)?|hasta(?:\s+el)?)\s+(.+?)(?=\s*[.!]?$)`
+    ),
+    phrases(
+      String.raw`(?:verschiebe|verlege|schiebe)\s+(.+?)\s+(?:auf|zu|nach|bis)\s+(?:den\s+|dem\s+)?(.+?)(?=\s*[.!]?$)`
+    ),
+    phrases(
+      String.raw`(?:déplace|reporte|décale|repousse)[sz]?\s+(.+?)\s+(?:à|au|a|pour|jusqu${APOSTROPHE}(?:à|au))\s+(.+?)(?=\s*[.!]?$)`
+    )
+  ],
+  list: [
+    phrases(
+      String.raw`qué\s+(?:me\s+)?queda`,
+      String.raw`qué\s+hay\s+en\s+${ES_LIST}`,
+      String.raw`(?:muestra|muéstrame|enséñame|ver)\s+${ES_LIST}`
+    ),
+    phrases(
+      String.raw`was\s+(?:steht|ist|bleibt)\s+(?:noch\s+)?(?:auf\s+${DE_LIST}|offen|übrig)`,
+      String.raw`zeige?\s+(?:mir\s+)?${DE_LIST}`,
+      String.raw`was\s+muss\s+ich\s+noch`
+    ),
+    phrases(
+      String.raw`qu${APOSTROPHE}est-ce\s+qu${APOSTROPHE}il\s+(?:me\s+)?reste`,
+      String.raw`que\s+me\s+reste-t-il`,
+      String.raw`qu${APOSTROPHE}est-ce\s+qui\s+reste`,
+      String.raw`(?:montre(?:-moi)?|affiche)\s+${FR_LIST}`
+    )
+  ]
+};
+
+/** Words that pick a plan template, by template. */
+export const PLAN_TOPICS: Record<"launch" | "study" | "write" | "event" | "change", RegExp> = {
+  launch: phrases(
+    "lanzamiento",
+    "lanzar",
+    String.raw`\p{L}*einführung`,
+    String.raw`veröffentlich\p{L}*`,
+    "lancement",
+    "lancer"
+  ),
+  study: phrases(
+    "exámenes|examen",
+    "estudiar",
+    "oposiciones",
+    String.raw`\p{L}*prüfung`,
+    "lernen",
+    "étudier",
+    "réviser",
+    "révisions?"
+  ),
+  write: phrases(
+    "escribir",
+    "informe",
+    "ensayo",
+    "artículo",
+    "propuesta",
+    "presentación",
+    "tesis",
+    "libro",
+    String.raw`\p{L}*bericht`,
+    "schreiben",
+    "artikel",
+    "präsentation",
+    "abschlussarbeit",
+    "buch",
+    "rapport",
+    "rédiger",
+    "écrire",
+    "mémoire",
+    "présentation",
+    "livre"
+  ),
+  event: phrases(
+    "evento",
+    "fiesta",
+    "boda",
+    "viaje",
+    "vacaciones",
+    "conferencia",
+    "taller",
+    "cumpleaños",
+    "veranstaltung",
+    String.raw`\p{L}*feier`,
+    "hochzeit",
+    String.raw`\p{L}*reise`,
+    String.raw`\p{L}*urlaub`,
+    "konferenz",
+    "geburtstag",
+    "événement",
+    "fête",
+    "mariage",
+    "voyage",
+    "vacances",
+    "conférence",
+    "atelier",
+    "anniversaire",
+    "séminaire"
+  ),
+  change: phrases(
+    "mudanza",
+    String.raw`mudar(?:me|nos)?`,
+    String.raw`contrata(?:r|ción)`,
+    "umzug",
+    "umziehen",
+    String.raw`einstell(?:en|ung)`,
+    String.raw`déménag\p{L}*`,
+    String.raw`recrut\p{L}*`,
+    "embaucher"
+  )
+};
+
+const POLITE = [
+  String.raw`ayúdame\s+a`,
+  "necesito",
+  "quiero",
+  "quisiera",
+  "puedes",
+  "podrías",
+  String.raw`hilf\s+mir`,
+  String.raw`ich\s+(?:muss|möchte|will)`,
+  String.raw`kannst\s+du`,
+  String.raw`könntest\s+du`,
+  String.raw`aide-moi\s+à`,
+  String.raw`j${APOSTROPHE}ai\s+besoin\s+de`,
+  String.raw`je\s+(?:veux|voudrais)`,
+  "peux-tu",
+  "pourrais-tu"
+].join("|");
+
+const PLAN_VERBS = [
+  String.raw`(?:crea|haz|dame|arma)(?:me)?\s+un\s+(?:plan|cronograma)\s+(?:para|de)`,
+  String.raw`un\s+(?:plan|cronograma)\s+(?:para|de)`,
+  String.raw`plan\s+(?:para|de)`,
+  "planifica(?:r)?",
+  "planea(?:r)?",
+  "organiza(?:r)?",
+  "prepara(?:r)?",
+  String.raw`(?:erstelle|mache?|gib\s+mir)\s+(?:mir\s+)?einen\s+plan\s+(?:für|zum|zur)`,
+  String.raw`(?:einen\s+)?plan\s+(?:für|zum|zur)`,
+  "plane",
+  "planen",
+  "organisiere",
+  String.raw`(?:fais|crée|donne|établis)(?:-moi)?\s+un\s+plan\s+pour`,
+  String.raw`un\s+plan\s+pour`,
+  String.raw`plan\s+pour`,
+  "planifie[rz]?",
+  "organise[rz]?",
+  "prépare[rz]?"
+].join("|");
+
+const ARTICLES = [
+  "el|la|los|las|un|una|mi|mis|nuestro|nuestra",
+  "der|die|das|den|dem|ein|eine|einen|meine[nmr]?|unsere[nmr]?",
+  "le|la|les|un|une|mon|ma|mes|notre|du|des"
+].join("|");
+
+/** "Un plan para", after a verb such as "organiza" that does not say "plan" itself. */
+const PLAN_NOUN = String.raw`(?:un|una|einen|une)\s+(?:plan|cronograma)\s+(?:para|de|für|zum|zur|pour)`;
+
+/** The ask in front of a goal: "planifica el", "erstelle einen Plan für den", "prépare l'". */
+export const GOAL_PREFIX = new RegExp(
+  `^(?:(?:${PLEASE})|(?:${POLITE})[,\\s]+)*(?:${PLAN_VERBS})(?!\\p{L})\\s*(?:${PLAN_NOUN}\\s+)?(?:(?:${ARTICLES})\\s+|l${APOSTROPHE})?`,
+  "iu"
+);
+
+const AMOUNT = String.raw`([$€£]\s?\d[\d.,]*k?|\d[\d.,]*\s?(?:€|euros?|\$|dólares|dollars?))`;
+
+/** Plan constraints; `budget` captures the amount and `team` who is helping. */
+export const CONSTRAINT_WORDS = {
+  budget: new RegExp(
+    `(?:presupuesto|budget)\\s+(?:de\\s+|von\\s+|von\\s+maximal\\s+)?${AMOUNT}`,
+    "iu"
+  ),
+  weekendsOnly: phrases(
+    String.raw`solo\s+(?:los\s+)?fines\s+de\s+semana`,
+    String.raw`nur\s+(?:am\s+|an\s+)?wochenende[n]?`,
+    String.raw`(?:uniquement|seulement)\s+(?:le|les)\s+week-ends?`,
+    String.raw`(?:le|les)\s+week-ends?\s+(?:uniquement|seulement)`
+  ),
+  weekendsIncluded: phrases(
+    String.raw`(?:incluidos|incluyendo|y|con)\s+(?:los\s+)?fines\s+de\s+semana`,
+    String.raw`(?:auch|inklusive|inkl\.?|mit)\s+(?:am\s+)?wochenende[n]?`,
+    String.raw`(?:y\s+compris|avec|et)\s+(?:le|les)\s+week-ends?`,
+    String.raw`week-ends?\s+compris`
+  ),
+  noWeekends: phrases(
+    String.raw`sin\s+(?:los\s+)?fines\s+de\s+semana`,
+    String.raw`(?:keine|ohne)\s+wochenende[n]?`,
+    String.raw`(?:pas\s+(?:de|le)|sans(?:\s+les)?)\s+week-ends?`
+  ),
+  evenings: phrases(
+    String.raw`por\s+las\s+(?:tardes|noches)`,
+    String.raw`después\s+del\s+trabajo`,
+    "abends",
+    String.raw`nach\s+der\s+arbeit`,
+    String.raw`le\s+soir`,
+    String.raw`en\s+soirée`,
+    String.raw`après\s+le\s+travail`
+  ),
+  solo: phrases(
+    String.raw`(?:yo|trabajando|trabajo)\s+sol[oa]`,
+    String.raw`por\s+mi\s+cuenta`,
+    String.raw`sin\s+ayuda`,
+    "allein",
+    String.raw`seul(?:e)?`,
+    String.raw`tout\s+seul(?:e)?`
+  ),
+  team: phrases(
+    String.raw`con\s+(?:mi|nuestro|nuestra|un|una)?\s*(equipo|socio|socia|compañer[oa]s?|amig[oa]s?|cofundador(?:es|a)?)`,
+    String.raw`mit\s+(?:meinem|meiner|unserem|unserer|einem|einer|meinen)?\s*(team|partner(?:in)?|kolleg(?:en|innen|e|in)|mitgründer(?:n|in)?|freunde(?:n)?)`,
+    String.raw`avec\s+(?:mon|ma|mes|notre|nos|un|une)?\s*(équipe|associée?|collègues?|cofondat(?:eur|rice)s?|ami(?:e)?s?)`
+  ),
+  workout: phrases(
+    "entrenamiento",
+    "entrenar",
+    "ejercicio",
+    "gimnasio",
+    "trainieren",
+    String.raw`\p{L}*training`,
+    "sport",
+    "entraînement",
+    "séance",
+    "musculation"
+  ),
+  strength: phrases("fuerza", "kraft", "renforcement", "musculation")
+};
+
+/** Finance questions: words that route to the calculators and pick one. */
+export const FINANCE_WORDS = phrases(
+  String.raw`invert\p{L}*`,
+  "invierto",
+  "inversión",
+  String.raw`inter[eé]s(?:es)?`,
+  "préstamo",
+  "hipoteca",
+  String.raw`ahorr\p{L}*`,
+  String.raw`depósitos?`,
+  String.raw`aport\p{L}*`,
+  "rentabilidad",
+  "compuesto",
+  String.raw`invest\p{L}*`,
+  "anlage",
+  String.raw`anleg\p{L}*`,
+  String.raw`zins\p{L}*`,
+  String.raw`kredit\p{L}*`,
+  "darlehen",
+  "hypothek",
+  String.raw`spar\p{L}*`,
+  String.raw`einzahl\p{L}*`,
+  "rendite",
+  "placements?",
+  "intérêts?",
+  "prêt",
+  String.raw`emprunt\p{L}*`,
+  "hypothèque",
+  String.raw`épargn\p{L}*`,
+  "dépôts?",
+  String.raw`versements?`,
+  "rendement",
+  String.raw`composée?s?`
+);
+
+export const FINANCE_KINDS = {
+  loan: phrases(
+    "préstamo",
+    "hipoteca",
+    String.raw`pedir\s+prestado`,
+    String.raw`kredit\p{L}*`,
+    "darlehen",
+    "hypothek",
+    String.raw`leihen`,
+    "prêt",
+    String.raw`emprunt\p{L}*`,
+    "hypothèque",
+    String.raw`crédit\s+immobilier`
+  ),
+  roi: phrases(
+    "rentabilidad",
+    String.raw`retorno\s+de\s+(?:la\s+|mi\s+)?inversión`,
+    String.raw`kapitalrendite`,
+    String.raw`rendite\s+(?:meiner|der)\s+(?:investition|anlage)`,
+    String.raw`meine\s+rendite`,
+    String.raw`retour\s+sur\s+investissement`,
+    "rentabilité"
+  ),
+  /** A sale or current value, which makes two amounts without a rate an ROI question. */
+  outcome: phrases(
+    String.raw`ahora\s+vale`,
+    String.raw`vale\s+ahora`,
+    String.raw`(?:lo\s+)?vend[ií]\s+por`,
+    "gané",
+    "recuperé",
+    String.raw`jetzt\s+[^?!]{0,20}?wert`,
+    String.raw`verkauft\s+für`,
+    "verdient",
+    "zurückbekommen",
+    String.raw`vaut\s+maintenant`,
+    String.raw`(?:re)?vendu\s+pour`,
+    "gagné",
+    "récupéré"
+  ),
+  goal: phrases(
+    "objetivo",
+    "meta",
+    "alcanzar",
+    String.raw`llegar\s+a`,
+    String.raw`cuánto\s+(?:tiempo|debo|tengo\s+que)`,
+    String.raw`cuántos\s+(?:meses|años|semanas|trimestres)`,
+    "ziel",
+    "erreichen",
+    String.raw`wie\s+lange`,
+    String.raw`wie\s+viele\s+(?:monate|jahre|wochen|quartale)`,
+    String.raw`wie\s+viel\s+(?:muss|sollte)\s+ich`,
+    "objectif",
+    "atteindre",
+    String.raw`combien\s+de\s+(?:temps|mois|années|ans|semaines|trimestres)`,
+    String.raw`combien\s+(?:dois-je|devrais-je)`
+  )
+};
+
+/** Words naming each contribution period, in any form ("al mes", "monatlich", "mensuel"). */
+export const FINANCE_PERIODS: Array<[RegExp, number]> = [
+  [/semana|wöchentlich|woche|semaine|hebdo/iu, 52],
+  [/\bmes(?:es)?\b|mensual|monat|mois|mensuel/iu, 12],
+  [/trimestr|quartal|vierteljähr/iu, 4],
+  [/año|anual|jahr|jährlich|\bans?\b|année|annuel/iu, 1]
+];
+
+/** A period written after an amount: "150 € al mes", "150 € pro Monat", "150 € par mois". */
+export const FINANCE_FREQUENCY_AFTER = new RegExp(
+  String.raw`^\s*(?:(?:al|a\s+la|por|cada|pro|im|je|jede[nm]?|par|chaque|tous\s+les)\s+(?:semanas?|mes(?:es)?|trimestres?|años?|woche|monat|quartal|jahr|semaines?|mois|trimestres?|ans?|années?)|semanal(?:es)?|mensual(?:es)?|trimestral(?:es)?|anual(?:es)?|wöchentlich|monatlich|vierteljährlich|jährlich|hebdomadaires?|mensuel(?:le)?s?|trimestriel(?:le)?s?|annuel(?:le)?s?)(?!\p{L})`,
+  "iu"
+);
+
+/** A period written before an amount: "aporto mensualmente 150 €", "monatlich 150 €". */
+export const FINANCE_FREQUENCY_BEFORE = new RegExp(
+  String.raw`(semanalmente|mensualmente|trimestralmente|anualmente|wöchentlich|monatlich|vierteljährlich|jährlich|chaque\s+(?:semaine|mois|année)|mensuellement|annuellement)\s+(?:\p{L}+\s+){0,2}(?:de\s+)?$`,
+  "iu"
+);
+
+/** Units a time frame is given in: "3 años", "6 Monate", "10 ans". */
+export const DURATION_UNITS = String.raw`años?|mes(?:es)?|semanas?|trimestres?|jahren?|jahre|monaten?|monate|wochen?|quartale?n?|ans?|années?|mois|semaines?`;
+
+export const PERCENT_WORDS = String.raw`por\s+ciento|prozent|pour\s+cent`;
+
+/** Currency names, by the symbol they stand for. */
+export const CURRENCY_NAMES: Record<string, string> = {
+  dólares: "$",
+  dolares: "$",
+  libras: "£",
+  pfund: "£",
+  livres: "£"
+};
+
+/** "Capitalizado mensualmente", "monatlich verzinst", "capitalisés chaque mois"; captures the period. */
+export const COMPOUNDING_WORDS = new RegExp(
+  String.raw`(?:compuesto|capitalizad[oa]s?|capitalisée?s?|composée?s?)\s+(diari\p{L}*|semanal\p{L}*|mensual\p{L}*|trimestral\p{L}*|anual\p{L}*|quotidienne\p{L}*|chaque\s+(?:jour|semaine|mois|année)|mensuellement|trimestriellement|annuellement)|(täglich|wöchentlich|monatlich|vierteljährlich|jährlich)\s+verzinst`,
+  "iu"
+);
+
+/** Daily compounding in any of the languages. */
+export const DAILY_WORDS = /diari|täglich|quotidien|jour/iu;
+
+/** A request for the year-by-year breakdown. */
+export const TABLE_WORDS = phrases(
+  "tabla",
+  String.raw`año\s+(?:por|a)\s+año`,
+  "desglose",
+  "tabelle",
+  String.raw`jahr\s+für\s+jahr`,
+  "aufschlüsselung",
+  "tableau",
+  String.raw`année\s+(?:par|après)\s+année`
+);
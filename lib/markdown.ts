@@ -0,0 +1,23 @@
+export type TableRow = Record<string, string | number>;
+
+function escapeCell(value: string | number): string {
+  return String(value)
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Formats rows as a GFM table, which the chat UI renders natively. Columns
+ * follow the keys of the first row unless `columns` is given.
+ */
+export function markdownTable(rows: TableRow[], columns?: string[]): string {
+  if (rows.length === 0) return "";
+  const headers = columns ?? Object.keys(rows[0]);
+  return [
+    `| ${headers.map(escapeCell).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (row) => `| ${headers.map((header) => escapeCell(row[header] ?? "")).join(" | ")} |`
+    )
+  ].join("\n");
+}
@@ -0,0 +1,784 @@
+import { DEFAULT_LOCALE, intlTag, normaliseDates, t, type Locale, type MessageKey } from "./locale";
+import { CONSTRAINT_WORDS, GOAL_PREFIX, PLAN_TOPICS } from "./locale/lexicon";
+
+export type PlanStep = {
+  id: string;
+  title: string;
+  /** Local wall-clock start: `YYYY-MM-DD` for day plans, `YYYY-MM-DDTHH:mm` for timed plans. */
+  start: string;
+  end: string;
+  effortMinutes: number;
+  dependsOn: string[];
+  milestone: boolean;
+};
+
+export type Plan = {
+  goal: string;
+  /** Day plans span calendar days; timed plans fit inside a single sitting. */
+  granularity: "day" | "time";
+  start: string;
+  deadline: string;
+  constraints: string[];
+  /** How the request treated weekends, when it said; the calendar export reads this. */
+  weekends?: "only" | "included" | "excluded";
+  /** Assumptions made where the request was silent. */
+  notes: string[];
+  steps: PlanStep[];
+};
+
+type Phase = {
+  title: string;
+  weight: number;
+  /** Indexes of earlier phases in the same template. */
+  after?: number[];
+  /** Marks a moment rather than work, so it has no weight and no effort. */
+  milestone?: boolean;
+};
+
+/** Resolves a phase title in the plan's language, with `{goal}` filled in. */
+type Title = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+type Template = {
+  pattern: RegExp;
+  /** The same topics in Spanish, German and French. */
+  words?: RegExp;
+  /** Horizon in days when the request gives no deadline. */
+  defaultDays: number;
+  phases: (title: Title) => Phase[];
+};
+
+type Deadline = {
+  date: Date;
+  label: string;
+  /** Where the deadline phrase starts in the request. */
+  index: number;
+};
+
+type Window = {
+  start: Date;
+  minutes: number;
+  label: string;
+  /** Why the window differs from what was asked, e.g. moved to tomorrow. */
+  notes: string[];
+};
+
+type Constraints = {
+  /** Human-readable constraints, as shown with the plan. */
+  labels: string[];
+  weekends?: Plan["weekends"];
+  evenings: boolean;
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10
+};
+const COUNT = "(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)";
+const DEFAULT_HOURS_PER_DAY = 4;
+
+type Part = "morning" | "afternoon" | "evening" | "tonight";
+
+const TEMPLATES: Template[] = [
+  {
+    pattern: /\b(?:launch|release|ship|go live|rollout|roll out)\b/i,
+    words: PLAN_TOPICS.launch,
+    defaultDays: 21,
+    phases: (title) => [
+      { title: title("plan.launch.scope"), weight: 1 },
+      { title: title("plan.launch.build"), weight: 4, after: [0] },
+      { title: title("plan.launch.assets"), weight: 2, after: [0] },
+      { title: title("plan.launch.test"), weight: 2, after: [1] },
+      { title: title("plan.launch.ready"), weight: 0, after: [2, 3], milestone: true },
+      { title: title("plan.launch.launch"), weight: 1, after: [4] },
+      { title: title("plan.launch.review"), weight: 1, after: [5] }
+    ]
+  },
+  {
+    pattern: /\b(?:exams?|study|studying|learn|learning|course|certification|revise for)\b/i,
+    words: PLAN_TOPICS.study,
+    defaultDays: 28,
+    phases: (title) => [
+      { title: title("plan.study.map"), weight: 1 },
+      { title: title("plan.study.weakest"), weight: 4, after: [0] },
+      { title: title("plan.study.practise"), weight: 3, after: [1] },
+      { title: title("plan.study.mock"), weight: 0, after: [2], milestone: true },
+      { title: title("plan.study.gaps"), weight: 2, after: [3] },
+      { title: title("plan.study.ready"), weight: 0, after: [4], milestone: true }
+    ]
+  },
+  {
+    pattern:
+      /\b(?:write|report|essay|article|proposal|thesis|paper|deck|presentation|book|chapter|blog)\b/i,
+    words: PLAN_TOPICS.write,
+    defaultDays: 14,
+    phases: (title) => [
+      { title: title("plan.write.outline"), weight: 1 },
+      { title: title("plan.write.research"), weight: 2, after: [0] },
+      { title: title("plan.write.draft"), weight: 4, after: [1] },
+      { title: title("plan.write.drafted"), weight: 0, after: [2], milestone: true },
+      { title: title("plan.write.revise"), weight: 2, after: [3] },
+      { title: title("plan.write.polish"), weight: 1, after: [4] },
+      { title: title("plan.write.delivered"), weight: 0, after: [5], milestone: true }
+    ]
+  },
+  {
+    pattern:
+      /\b(?:event|party|wedding|trip|holiday|vacation|conference|meetup|workshop|offsite|birthday)\b/i,
+    words: PLAN_TOPICS.event,
+    defaultDays: 30,
+    phases: (title) => [
+      { title: title("plan.event.budget"), weight: 1 },
+      { title: title("plan.event.book"), weight: 2, after: [0] },
+      { title: title("plan.event.invite"), weight: 2, after: [0] },
+      { title: title("plan.event.confirmed"), weight: 0, after: [1, 2], milestone: true },
+      { title: title("plan.event.logistics"), weight: 2, after: [3] },
+      { title: title("plan.event.checks"), weight: 1, after: [4] },
+      { title: title("plan.event.happens"), weight: 0, after: [5], milestone: true }
+    ]
+  },
+  {
+    pattern: /\b(?:move|moving|relocat\w*|hire|hiring|recruit\w*)\b/i,
+    words: PLAN_TOPICS.change,
+    defaultDays: 30,
+    phases: (title) => [
+      { title: title("plan.change.outcome"), weight: 1 },
+      { title: title("plan.change.research"), weight: 2, after: [0] },
+      { title: title("plan.change.decided"), weight: 0, after: [1], milestone: true },
+      { title: title("plan.change.logistics"), weight: 3, after: [2] },
+      { title: title("plan.change.execute"), weight: 2, after: [3] },
+      { title: title("plan.change.settle"), weight: 1, after: [4] }
+    ]
+  }
+];
+
+const GENERIC_TEMPLATE: Template = {
+  pattern: /./,
+  defaultDays: 14,
+  phases: (title) => [
+    { title: title("plan.generic.finish"), weight: 1 },
+    { title: title("plan.generic.gather"), weight: 1, after: [0] },
+    { title: title("plan.generic.work"), weight: 4, after: [1] },
+    { title: title("plan.generic.done"), weight: 0, after: [2], milestone: true },
+    { title: title("plan.generic.review"), weight: 2, after: [3] },
+    { title: title("plan.generic.deliver"), weight: 0.5, after: [4] }
+  ]
+};
+
+function capitalise(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function parseCount(text: string): number {
+  return NUMBER_WORDS[text.toLowerCase()] ?? Number(text);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatTime(date: Date): string {
+  return `${formatDay(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function nextWeekday(today: Date, weekday: number, skipWeek: boolean): Date {
+  let offset = (weekday - today.getDay() + 7) % 7;
+  if (offset === 0) offset = 7;
+  if (skipWeek && offset < 7) offset += 7;
+  return addDays(today, offset);
+}
+
+function endOfWeek(today: Date): Date {
+  const offset = (5 - today.getDay() + 7) % 7;
+  return addDays(today, offset);
+}
+
+const RELATIVE_DEADLINES: Array<{
+  pattern: RegExp;
+  label: string;
+  date: (today: Date) => Date;
+}> = [
+  { pattern: /\b(?:today|tonight)\b/i, label: "today", date: (today) => today },
+  { pattern: /\btomorrow\b/i, label: "tomorrow", date: (today) => addDays(today, 1) },
+  {
+    pattern: /\b(?:(?:by )?(?:the )?end of (?:the )?week|this week)\b/i,
+    label: "the end of the week",
+    date: endOfWeek
+  },
+  {
+    pattern: /\bnext week\b/i,
+    label: "next week",
+    date: (today) => addDays(endOfWeek(today), 7)
+  },
+  {
+    pattern: /\b(?:(?:by )?(?:the )?end of (?:the )?month|this month)\b/i,
+    label: "the end of the month",
+    date: (today) => new Date(today.getFullYear(), today.getMonth() + 1, 0)
+  },
+  {
+    pattern: /\bnext month\b/i,
+    label: "the end of next month",
+    date: (today) => new Date(today.getFullYear(), today.getMonth() + 2, 0)
+  }
+];
+
+/** Finds a deadline such as "by Friday", "in 3 weeks" or "before 12 March". */
+export function parseDeadline(text: string, now: Date): Deadline | null {
+  const today = startOfDay(now);
+  const found = (date: Date, label: string, match: RegExpMatchArray): Deadline => ({
+    date,
+    label,
+    index: match.index ?? 0
+  });
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return found(new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])), iso[0], iso);
+  }
+
+  const monthName =
+    "(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)(?:uary|ruary|ch|il|e|y|ust|t|tember|ober|ember)?\\.?\\b";
+  const dayFirst = text.match(
+    new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${monthName}`, "i")
+  );
+  const monthFirst = text.match(
+    new RegExp(`\\b${monthName}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i")
+  );
+  const dated = dayFirst ?? monthFirst;
+  if (dated) {
+    const day = Number(dayFirst ? dayFirst[1] : dated[2]);
+    const month = MONTHS.indexOf((dayFirst ? dayFirst[2] : dated[1]).toLowerCase());
+    let date = new Date(today.getFullYear(), month, day);
+    if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+    return found(date, dated[0], dated);
+  }
+
+  const weekday = text.match(
+    /\b(?:by|on|before|until|for|due|this|next)\s+(next\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i
+  );
+  if (weekday) {
+    const skipWeek = Boolean(weekday[1]) || /^next\s/i.test(weekday[0]);
+    return found(
+      nextWeekday(today, WEEKDAYS.indexOf(weekday[2].toLowerCase()), skipWeek),
+      capitalise(weekday[2].toLowerCase()) + (skipWeek ? " next week" : ""),
+      weekday
+    );
+  }
+
+  const relative = text.match(
+    new RegExp(
+      `\\b(?:in|within|over|for|next)\\s+(?:the\\s+next\\s+)?${COUNT}\\s+(day|week|month)s?\\b`,
+      "i"
+    )
+  );
+  const span = relative ?? text.match(new RegExp(`\\b${COUNT}-(day|week|month)\\b`, "i"));
+  if (span) {
+    const count = parseCount(span[1]);
+    const unit = span[2].toLowerCase();
+    const days = unit === "day" ? count : unit === "week" ? count * 7 : count * 30;
+    return found(addDays(today, Math.max(days - 1, 0)), span[0].trim(), span);
+  }
+
+  for (const { pattern, label, date } of RELATIVE_DEADLINES) {
+    const match = text.match(pattern);
+    if (match) return found(date(today), label, match);
+  }
+  return null;
+}
+
+/** Where each part of the day starts and ends, in hours. */
+const PARTS: Record<Part, [number, number]> = {
+  morning: [9, 12],
+  afternoon: [13, 17],
+  evening: [18, 22],
+  tonight: [19, 23]
+};
+const MIN_WINDOW_MINUTES = 15;
+const NEXT_DAY_START_HOUR = 9;
+
+/**
+ * Finds a single-sitting window such as "30-minute", "2 hours" or "this
+ * afternoon". A part of the day that is already over moves to tomorrow, one
+ * that has begun is cut off at its end, and no window runs past midnight.
+ */
+function parseWindow(text: string, now: Date, locale?: Locale): Window | null {
+  const duration = text.match(
+    /\b(\d+(?:\.\d+)?)[\s-]*(minutes?|mins?|hours?|hrs?|h)\b(?!\s*(?:a|per|each)\s+(?:day|week))/i
+  );
+  const partMatch = text.match(/\b(morning|afternoon|evening|tonight)\b/i);
+  if (!duration && !partMatch) return null;
+  const part = partMatch?.[1].toLowerCase() as Part | undefined;
+
+  let total = 0;
+  if (duration) {
+    const value = Number(duration[1]);
+    total = /^m/i.test(duration[2]) ? value : value * 60;
+  } else {
+    total = (PARTS[part!][1] - PARTS[part!][0]) * 60;
+  }
+  if (total <= 0 || total > 16 * 60) return null;
+
+  // Part windows run between their hours; plain durations until midnight.
+  const bounds = (day: Date): [Date, Date] => {
+    const at = (hour: number) => {
+      const date = new Date(day);
+      date.setHours(hour, 0, 0, 0);
+      return date;
+    };
+    return part ? [at(PARTS[part][0]), at(PARTS[part][1])] : [at(NEXT_DAY_START_HOUR), at(24)];
+  };
+  const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+  let [opens, closes] = bounds(now);
+  const start = part ? new Date(Math.max(opens.getTime(), now.getTime())) : new Date(now);
+  // Round up to the next quarter hour so blocks start on tidy times.
+  start.setMinutes(Math.ceil(start.getMinutes() / 15) * 15, 0, 0);
+
+  const notes: string[] = [];
+  const late = part ? start > opens : false;
+  const room = minutesBetween(start, closes);
+  if (room < Math.min(total, MIN_WINDOW_MINUTES) || (!part && room < total)) {
+    [opens, closes] = bounds(addDays(now, 1));
+    start.setTime(opens.getTime());
+    notes.push(t(locale, "plan.note.tomorrow", { time: formatTime(start).slice(11) }));
+  }
+  // A part of the day that has begun ends on time; nothing runs past midnight.
+  const midnight = addDays(new Date(start.getFullYear(), start.getMonth(), start.getDate()), 1);
+  const limit = !notes.length && late ? closes : midnight;
+  if (minutesBetween(start, limit) < total) {
+    total = minutesBetween(start, limit);
+    notes.push(
+      t(locale, "plan.note.shortened", {
+        count: Math.round(total),
+        time: formatTime(limit).slice(11)
+      })
+    );
+  }
+
+  return {
+    start,
+    minutes: Math.round(total),
+    label: duration
+      ? t(locale, /^m/i.test(duration[2]) ? "plan.window.minutes" : "plan.window.hours", {
+          count: Number(duration[1])
+        })
+      : t(locale, `plan.window.${part!}`),
+    notes
+  };
+}
+
+function parseHoursPerDay(text: string): number | null {
+  const match = text.match(
+    /\b(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\s*(?:a|per|each|every)\s+day\b|\b(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\s+daily\b/i
+  );
+  if (!match) return null;
+  const hours = Number(match[1] ?? match[2]);
+  return hours > 0 && hours <= 16 ? hours : null;
+}
+
+function parseConstraints(text: string, locale?: Locale): Constraints {
+  const labels: string[] = [];
+  let weekends: Constraints["weekends"];
+  const hours = parseHoursPerDay(text);
+  if (hours) labels.push(t(locale, "plan.constraint.hours", { count: hours }));
+  const budget =
+    text.match(
+      /\bbudget\s+(?:of\s+)?([$€£]\s?\d[\d,]*(?:\.\d+)?k?)|([$€£]\s?\d[\d,]*(?:\.\d+)?k?)\s+budget\b/i
+    ) ?? text.match(CONSTRAINT_WORDS.budget);
+  if (budget) {
+    labels.push(t(locale, "plan.constraint.budget", { amount: budget[1] ?? budget[2] }));
+  }
+  if (
+    /\b(?:weekends?\s+only|only\s+(?:on\s+)?weekends?)\b/i.test(text) ||
+    CONSTRAINT_WORDS.weekendsOnly.test(text)
+  ) {
+    weekends = "only";
+    labels.push(t(locale, "plan.constraint.weekendsOnly"));
+  } else if (
+    /\b(?:including|incl\.?|and|plus)\s+weekends?\b|\bweekends?\s+too\b/i.test(text) ||
+    CONSTRAINT_WORDS.weekendsIncluded.test(text)
+  ) {
+    weekends = "included";
+    labels.push(t(locale, "plan.constraint.weekendsIncluded"));
+  } else if (
+    /\b(?:no|without|skip)\s+weekends?\b/i.test(text) ||
+    CONSTRAINT_WORDS.noWeekends.test(text)
+  ) {
+    weekends = "excluded";
+    labels.push(t(locale, "plan.constraint.noWeekends"));
+  }
+  const evenings =
+    (/\b(?:evenings?|after work)\b/i.test(text) || CONSTRAINT_WORDS.evenings.test(text)) && !hours;
+  if (evenings) labels.push(t(locale, "plan.constraint.evenings"));
+  // "solo" is Spanish for "only" ("solo los fines de semana"), so these words count in English only.
+  const english = (locale ?? DEFAULT_LOCALE) === DEFAULT_LOCALE;
+  if (
+    (english && /\b(?:alone|solo|by myself|on my own)\b/i.test(text)) ||
+    CONSTRAINT_WORDS.solo.test(text)
+  ) {
+    labels.push(t(locale, "plan.constraint.solo"));
+  }
+  const team =
+    text.match(/\bwith (?:my |our |a )?(team|partner|colleagues?|co-?founders?|friends?)\b/i) ??
+    text.match(CONSTRAINT_WORDS.team);
+  if (team) labels.push(t(locale, "plan.constraint.team", { team: team[1].toLowerCase() }));
+  return { labels, weekends, evenings };
+}
+
+const POLITE_PREFIX =
+  /^(?:(?:please|can you|could you|help me|i need|i want|i'd like|let's|lets)\s+(?:to\s+)?)+/i;
+const PLAN_PREFIX =
+  /^(?:(?:create|make|build|draft|give me|write|put together|come up with)\s+)?(?:(?:a|an|the|me a)\s+)?(?:plan|schedule|roadmap|strategy|steps)(?:\s+(?:for|to|of|on|out))?\s+/i;
+
+/** Reduces the request to the goal itself, dropping the ask and the deadline. */
+function extractGoal(text: string, deadline: Deadline | null, locale?: Locale): string {
+  let goal = text;
+  if (deadline && deadline.index > 0) goal = goal.slice(0, deadline.index);
+  goal = goal
+    .replace(/[\s,.?!:;-]+$/, "")
+    .replace(/\s+(?:by|on|before|until|due|in|within|over|for|this|next)$/i, "")
+    .replace(/,.*$/, "")
+    .replace(/\s+(?:with|using)\s+(?:a\s+)?(?:budget|\d+\s*hours?)\b.*$/i, "")
+    .replace(POLITE_PREFIX, "")
+    .replace(PLAN_PREFIX, "")
+    .replace(GOAL_PREFIX, "")
+    .replace(/^(?:write|finish|complete|prepare|organi[sz]e|host|get)\s+(?=\S+)/i, "")
+    .replace(/^(?:a|an|the|my|our)\s+/i, "")
+    .trim();
+  return goal || t(locale, "plan.goal");
+}
+
+function pickTemplate(text: string): Template {
+  return (
+    TEMPLATES.find(({ pattern, words }) => pattern.test(text) || words?.test(text)) ??
+    GENERIC_TEMPLATE
+  );
+}
+
+function workingDays(start: Date, end: Date, constraints: Constraints): Date[] {
+  const weekendsOnly = constraints.weekends === "only";
+  const weekends = weekendsOnly || constraints.weekends === "included";
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    const weekend = day.getDay() === 0 || day.getDay() === 6;
+    if (weekendsOnly ? weekend : weekends || !weekend) days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Lays phases out along their dependencies: a phase starts once everything it
+ * depends on is finished, so independent phases run side by side. `slot`
+ * maps a phase's position on that timeline and its share of the total work
+ * to concrete start, end and effort values.
+ */
+function toSteps(
+  phases: Phase[],
+  slot: (from: number, to: number, share: number) => [string, string, number]
+): PlanStep[] {
+  const work = phases.reduce((sum, phase) => sum + phase.weight, 0) || 1;
+  const finish: number[] = [];
+  const depends = phases.map((phase, index) => phase.after ?? (index > 0 ? [index - 1] : []));
+  phases.forEach((phase, index) => {
+    const begin = Math.max(0, ...depends[index].map((dep) => finish[dep]));
+    finish.push(begin + phase.weight);
+  });
+  const span = Math.max(...finish) || 1;
+
+  const steps: PlanStep[] = [];
+  phases.forEach((phase, index) => {
+    const dependsOn = depends[index].map((dep) => `step-${dep + 1}`);
+    const base = { id: `step-${index + 1}`, title: phase.title, dependsOn };
+    if (phase.milestone) {
+      const latest = dependsOn
+        .map((dep) => steps.find((step) => step.id === dep)!)
+        .reduce((last, step) => (step.end > last.end ? step : last));
+      steps.push({
+        ...base,
+        start: latest.end,
+        end: latest.end,
+        effortMinutes: 0,
+        milestone: true
+      });
+      return;
+    }
+    const from = (finish[index] - phase.weight) / span;
+    const [start, end, effortMinutes] = slot(from, finish[index] / span, phase.weight / work);
+    steps.push({ ...base, start, end, effortMinutes, milestone: false });
+  });
+  return steps;
+}
+
+function timedPhases(text: string, title: Title): Phase[] {
+  if (
+    /\b(?:workout|exercise|training|gym|run|yoga|hiit)\b/i.test(text) ||
+    CONSTRAINT_WORDS.workout.test(text)
+  ) {
+    const alternating =
+      /\bcardio\b/i.test(text) &&
+      (/\bstrength\b/i.test(text) || CONSTRAINT_WORDS.strength.test(text));
+    const rounds = alternating
+      ? [
+          { title: title("plan.timed.cardio", { round: 1 }), weight: 2 },
+          { title: title("plan.timed.strength", { round: 1 }), weight: 2 },
+          { title: title("plan.timed.cardio", { round: 2 }), weight: 2 },
+          { title: title("plan.timed.strength", { round: 2 }), weight: 2 }
+        ]
+      : [
+          { title: title("plan.timed.main", { round: 1 }), weight: 4 },
+          { title: title("plan.timed.main", { round: 2 }), weight: 4 }
+        ];
+    return [
+      { title: title("plan.timed.warmUp"), weight: 1.5 },
+      ...rounds,
+      { title: title("plan.timed.coolDown"), weight: 1.5 }
+    ];
+  }
+
+  const tasks = text.match(
+    new RegExp(
+      `\\b${COUNT}\\s+(?:tasks?|things|items|jobs|tareas|aufgaben|tâches)(?![\\p{L}])`,
+      "iu"
+    )
+  );
+  const count = tasks ? Math.min(parseCount(tasks[1]), 6) : 1;
+  const work: Phase[] = [];
+  for (let task = 1; task <= count; task += 1) {
+    work.push({
+      title:
+        count > 1 ? title("plan.timed.focusTask", { round: task }) : title("plan.timed.focusGoal"),
+      weight: 6
+    });
+    if (task < count) work.push({ title: title("plan.timed.break"), weight: 1 });
+  }
+  return [
+    { title: title("plan.timed.setUp"), weight: 1 },
+    ...work,
+    { title: title("plan.timed.wrapUp"), weight: 1 }
+  ];
+}
+
+function planTimed(
+  text: string,
+  goal: string,
+  window: Window,
+  constraints: Constraints,
+  locale?: Locale
+): Plan {
+  const phases = timedPhases(text, phaseTitle(goal, locale));
+  const at = (fraction: number) => {
+    const minutes = Math.round((fraction * window.minutes) / 5) * 5;
+    return new Date(window.start.getTime() + minutes * 60 * 1000);
+  };
+  const steps = toSteps(phases, (from, to) => {
+    const start = at(from);
+    const end = at(to);
+    return [
+      formatTime(start),
+      formatTime(end),
+      Math.round((end.getTime() - start.getTime()) / 60000)
+    ];
+  });
+  return {
+    goal,
+    granularity: "time",
+    start: formatTime(window.start),
+    deadline: formatTime(at(1)),
+    constraints: constraints.labels,
+    weekends: constraints.weekends,
+    notes: [
+      t(locale, "plan.note.window", {
+        window: window.label,
+        time: formatTime(window.start).slice(11)
+      }),
+      ...window.notes
+    ],
+    steps
+  };
+}
+
+function planDays(
+  text: string,
+  goal: string,
+  deadline: Deadline | null,
+  constraints: Constraints,
+  now: Date,
+  locale?: Locale
+): Plan {
+  const template = pickTemplate(text);
+  const notes: string[] = [];
+  const today = startOfDay(now);
+  let end = deadline?.date ?? addDays(today, template.defaultDays - 1);
+  if (!deadline) {
+    notes.push(t(locale, "plan.note.defaultDays", { count: template.defaultDays }));
+  } else if (end < today) {
+    notes.push(t(locale, "plan.note.passed", { deadline: deadline.label }));
+    end = today;
+  }
+
+  let days = workingDays(today, end, constraints);
+  if (days.length === 0) {
+    notes.push(t(locale, "plan.note.noDays"));
+    days = [end];
+  } else if (days.length < 3) {
+    notes.push(t(locale, "plan.note.fewDays", { count: days.length }));
+  }
+
+  const hoursPerDay = parseHoursPerDay(text) ?? (constraints.evenings ? 2 : DEFAULT_HOURS_PER_DAY);
+  if (!parseHoursPerDay(text)) {
+    notes.push(t(locale, "plan.note.hours", { count: hoursPerDay }));
+  }
+
+  const pick = (fraction: number) =>
+    Math.min(days.length - 1, Math.max(0, Math.floor(fraction * days.length)));
+  const steps = toSteps(template.phases(phaseTitle(goal, locale)), (from, to, share) => {
+    const first = pick(from);
+    const last = Math.max(first, pick(to - 1e-9));
+    const effort = Math.max(30, Math.round((share * days.length * hoursPerDay * 60) / 30) * 30);
+    return [formatDay(days[first]), formatDay(days[last]), effort];
+  });
+  // A closing milestone is the deadline itself, even when that is a day off.
+  const final = steps[steps.length - 1];
+  if (final.milestone && final.effortMinutes === 0) {
+    final.start = final.end = formatDay(end);
+  }
+
+  return {
+    goal,
+    granularity: "day",
+    start: formatDay(today),
+    deadline: formatDay(end),
+    constraints: constraints.labels,
+    weekends: constraints.weekends,
+    notes,
+    steps
+  };
+}
+
+function phaseTitle(goal: string, locale?: Locale): Title {
+  return (key, params) => t(locale, key, { goal, Goal: capitalise(goal), ...params });
+}
+
+/**
+ * Turns a request into a dated plan. Deadlines, daily hours and constraints
+ * are read from the text; the goal type picks the phases and dependencies.
+ * Short single-sitting requests ("30-minute workout") get clock times.
+ * Requests in another `locale` have their dates read in that language, and
+ * the plan is written in it.
+ */
+export function buildPlan(request: string, now = new Date(), locale?: Locale): Plan {
+  const text = locale ? normaliseDates(request.trim(), locale) : request.trim();
+  const deadline = parseDeadline(text, now);
+  const constraints = parseConstraints(text, locale);
+  const window = deadline && deadline.label !== "today" ? null : parseWindow(text, now, locale);
+  const goal = extractGoal(text, deadline, locale);
+  return window
+    ? planTimed(text, goal, window, constraints, locale)
+    : planDays(text, goal, deadline, constraints, now, locale);
+}
+
+const SHORT_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const SHORT_MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec"
+];
+
+/** A short day such as "Fri 23 Oct"; other locales use their own `Intl` format. */
+export function describeDay(day: string, locale: Locale = DEFAULT_LOCALE): string {
+  const [year, month, date] = day.split("-").map(Number);
+  const value = new Date(year, month - 1, date);
+  if (locale !== DEFAULT_LOCALE) {
+    return new Intl.DateTimeFormat(intlTag(locale), {
+      weekday: "short",
+      day: "numeric",
+      month: "short"
+    }).format(value);
+  }
+  return `${SHORT_DAYS[value.getDay()]} ${date} ${SHORT_MONTHS[month - 1]}`;
+}
+
+function describeSpan(step: PlanStep, granularity: Plan["granularity"], locale?: Locale): string {
+  if (granularity === "time") return `${step.start.slice(11)}–${step.end.slice(11)}`;
+  if (step.start === step.end) return describeDay(step.start, locale);
+  return `${describeDay(step.start, locale)} → ${describeDay(step.end, locale)}`;
+}
+
+export function formatEffort(minutes: number, locale: Locale = DEFAULT_LOCALE): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  const digits = Number.isInteger(hours) ? 0 : 1;
+  return `${hours.toLocaleString(intlTag(locale), {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  })}h`;
+}
+
+/** Renders a plan as the numbered Markdown list shown in the chat. */
+export function describePlan(plan: Plan, locale?: Locale): string {
+  const numbers = new Map(plan.steps.map((step, index) => [step.id, index + 1]));
+  const header =
+    plan.granularity === "time"
+      ? t(locale, "plan.header.time", {
+          goal: plan.goal,
+          start: plan.start.slice(11),
+          end: plan.deadline.slice(11)
+        })
+      : t(locale, "plan.header.day", {
+          goal: plan.goal,
+          start: describeDay(plan.start, locale),
+          end: describeDay(plan.deadline, locale)
+        });
+  const lines = plan.steps.map((step, index) => {
+    const details = [describeSpan(step, plan.granularity, locale)];
+    if (!step.milestone) details.push(formatEffort(step.effortMinutes, locale));
+    // Only non-linear dependencies are spelled out; the order covers the rest.
+    const after = step.dependsOn.map((id) => numbers.get(id));
+    if (after.length > 1 || (after.length === 1 && after[0] !== index)) {
+      details.push(t(locale, "plan.after", { steps: after.join(" & ") }));
+    }
+    const title = step.milestone ? `◆ **${step.title}**` : `**${step.title}**`;
+    return `${index + 1}. ${title} — ${details.join(" · ")}`;
+  });
+  const extras = [
+    plan.constraints.length
+      ? t(locale, "plan.constraints", { constraints: plan.constraints.join(", ") })
+      : "",
+    plan.notes.length ? `*${plan.notes.join(" ")}*` : ""
+  ].filter(Boolean);
+  return [header, lines.join("\n"), ...extras].join("\n\n");
+}
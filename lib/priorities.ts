@@ -0,0 +1,288 @@
+import { normaliseDates, t, type Locale } from "./locale";
+import { EFFORT_IMPACT_WORDS, PRIORITISE_HEADER, PRIORITY_WORDS } from "./locale/lexicon";
+import type { TableRow } from "./markdown";
+import { formatDay, formatEffort, parseDeadline } from "./planner";
+
+export type Framework = "weighted" | "eisenhower" | "effort-impact" | "rice";
+
+export type RankedTask = {
+  task: string;
+  score: number;
+  /** Estimated effort, used when the tasks are time-blocked. */
+  effortMinutes?: number;
+  /** Due date as `YYYY-MM-DD`. */
+  due?: string;
+  /** The inputs behind the score, keyed by the column they appear under. */
+  components?: TableRow;
+};
+
+export type Ranking = {
+  framework: Framework;
+  tasks: RankedTask[];
+};
+
+type ParsedTask = {
+  task: string;
+  index: number;
+  urgency: number;
+  impact: number;
+  weight: number;
+  effortMinutes?: number;
+  due?: Date;
+  reach?: number;
+  confidence?: number;
+};
+
+type FrameworkSpec = {
+  pattern: RegExp;
+  /** The framework's name in Spanish, German or French. */
+  words?: RegExp;
+  score: (task: ParsedTask) => number;
+  components: (task: ParsedTask, score: number) => TableRow;
+};
+
+const SIZES: Record<string, number> = { XS: 30, S: 60, M: 240, L: 480, XL: 960 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EFFORT_MINUTES = 60;
+
+const EFFORT = /\b(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b|\b(\d+(?:\.\d+)?)d\b/i;
+const EFFORT_HOURS = /\beffort\s*[:=]?\s*(\d+(?:\.\d+)?)\b(?!\s*(?:h|m|d|%))/i;
+const SIZE = /\((XS|S|M|L|XL)\)|\[(XS|S|M|L|XL)\]|\b(?:size|effort)\s*[:=]?\s*(XS|S|M|L|XL)\b/i;
+const WEIGHT = /\b(?:w|weight)\s*[:=]?\s*(\d+(?:\.\d+)?)\b/i;
+const BANGS = /(?:^|\s)(!{1,3})(?=\s|$)/;
+const REACH = /\breach\s*[:=]?\s*(\d[\d,]*)\b/i;
+const IMPACT = /\bimpact\s*[:=]?\s*(\d+(?:\.\d+)?)\b/i;
+const CONFIDENCE = /\bconfidence\s*[:=]?\s*(\d+(?:\.\d+)?)\s*%?/i;
+const DUE =
+  /\b(?:due|by|before|until|on)\s+(?:next\s+)?(?:\d{4}-\d{2}-\d{2}|today|tonight|tomorrow|(?:mon|tues|wednes|thurs|fri|satur|sun)day|\d{1,2}(?:st|nd|rd|th)?\s+[a-z]{3,9}|[a-z]{3,9}\s+\d{1,2}(?:st|nd|rd|th)?)\b|\b(?:today|tonight|tomorrow)\b|\b(?:in|within)\s+\d+\s+(?:days?|weeks?)\b/i;
+
+const FRAMEWORKS: Record<Framework, FrameworkSpec> = {
+  weighted: {
+    pattern: /\bweight(?:ed|s)?\b|\bscor(?:e|ing)\b/i,
+    score: (task) => round((task.urgency * 2 + task.impact) * task.weight),
+    components: (task, score) => ({
+      Urgency: task.urgency,
+      Impact: task.impact,
+      Weight: task.weight,
+      Due: describeDue(task),
+      Score: score
+    })
+  },
+  eisenhower: {
+    pattern: /\beisenhower\b|\burgent\b.*\bimportant\b.*\bmatrix\b/i,
+    score: (task) => {
+      const important = isImportant(task);
+      const urgent = isUrgent(task);
+      return important ? (urgent ? 4 : 3) : urgent ? 2 : 1;
+    },
+    components: (task, score) => ({
+      Urgent: isUrgent(task) ? "yes" : "no",
+      Important: isImportant(task) ? "yes" : "no",
+      Quadrant: ["Eliminate", "Delegate", "Schedule", "Do first"][score - 1],
+      Due: describeDue(task),
+      Score: score
+    })
+  },
+  "effort-impact": {
+    pattern:
+      /\beffort\s*(?:vs\.?|versus|\/|and|-)\s*impact\b|\bimpact\s*(?:vs\.?|versus|\/|and|-)\s*effort\b|\bquick wins?\b/i,
+    words: EFFORT_IMPACT_WORDS,
+    score: (task) => round((task.impact * task.weight) / effortHours(task)),
+    components: (task, score) => ({
+      Impact: task.impact * task.weight,
+      Effort: formatEffort(task.effortMinutes ?? DEFAULT_EFFORT_MINUTES),
+      Quadrant: effortQuadrant(task),
+      Score: score
+    })
+  },
+  rice: {
+    pattern: /\brice\b/i,
+    score: (task) =>
+      round(((task.reach ?? 1) * task.impact * (task.confidence ?? 1)) / effortHours(task)),
+    components: (task, score) => ({
+      Reach: task.reach ?? 1,
+      Impact: task.impact,
+      Confidence: `${Math.round((task.confidence ?? 1) * 100)}%`,
+      Effort: formatEffort(task.effortMinutes ?? DEFAULT_EFFORT_MINUTES),
+      Score: score
+    })
+  }
+};
+
+const FRAMEWORK_ORDER: Framework[] = ["rice", "eisenhower", "effort-impact", "weighted"];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function effortHours(task: ParsedTask): number {
+  return (task.effortMinutes ?? DEFAULT_EFFORT_MINUTES) / 60;
+}
+
+function isUrgent(task: ParsedTask): boolean {
+  return task.urgency >= 2;
+}
+
+function isImportant(task: ParsedTask): boolean {
+  return task.impact >= 2 || task.weight > 1;
+}
+
+function effortQuadrant(task: ParsedTask): string {
+  const high = task.impact * task.weight >= 2;
+  const heavy = effortHours(task) > 2;
+  if (high) return heavy ? "Major project" : "Quick win";
+  return heavy ? "Thankless" : "Fill-in";
+}
+
+function describeDue(task: ParsedTask): string {
+  return task.due ? formatDay(task.due) : "—";
+}
+
+function urgencyFor(text: string, due: Date | undefined, now: Date): number {
+  if (/\b(?:urgent|asap|now|today|tonight)\b/i.test(text) || PRIORITY_WORDS.urgent.test(text)) {
+    return 3;
+  }
+  if (due) {
+    const days = Math.round((due.getTime() - now.getTime()) / DAY_MS);
+    if (days <= 2) return 3;
+    if (days <= 7) return 2;
+    return 1;
+  }
+  return /\bsoon\b/i.test(text) || PRIORITY_WORDS.soon.test(text) ? 2 : 1;
+}
+
+function impactFor(text: string): number {
+  const explicit = text.match(IMPACT);
+  if (explicit) return Number(explicit[1]);
+  if (/launch|client|revenue|milestone|deadline/i.test(text) || PRIORITY_WORDS.high.test(text)) {
+    return 3;
+  }
+  if (/review|prep|draft/i.test(text) || PRIORITY_WORDS.medium.test(text)) return 2;
+  return 1;
+}
+
+function effortFor(text: string): number | undefined {
+  const size = text.match(SIZE);
+  if (size) return SIZES[(size[1] ?? size[2] ?? size[3]).toUpperCase()];
+  const hours = text.match(EFFORT_HOURS);
+  if (hours) return Math.round(Number(hours[1]) * 60);
+  const effort = text.match(EFFORT);
+  if (!effort) return undefined;
+  if (effort[3]) return Number(effort[3]) * 8 * 60;
+  const value = Number(effort[1]);
+  return Math.round(/^m/i.test(effort[2]) ? value : value * 60);
+}
+
+function weightFor(text: string): number {
+  const weight = text.match(WEIGHT);
+  if (weight) return Number(weight[1]) || 1;
+  const bangs = text.match(BANGS);
+  return bangs ? 1 + bangs[1].length : 1;
+}
+
+/** Removes the annotations that were parsed out, leaving the task name. */
+function cleanTask(text: string): string {
+  return text
+    .replace(SIZE, "")
+    .replace(EFFORT_HOURS, "")
+    .replace(EFFORT, "")
+    .replace(/\beffort\s*[:=]?\s*(?=\s|$)/i, "")
+    .replace(WEIGHT, "")
+    .replace(REACH, "")
+    .replace(IMPACT, "")
+    .replace(CONFIDENCE, "")
+    .replace(DUE, "")
+    .replace(BANGS, " ")
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/\s*[-–—:]\s*$/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/** With a locale, dates such as "para el viernes" are rewritten in English first. */
+function parseTask(line: string, index: number, now: Date, locale?: Locale): ParsedTask {
+  const text = locale ? normaliseDates(line, locale) : line;
+  const due = DUE.test(text) ? parseDeadline(text, now)?.date : undefined;
+  const reach = text.match(REACH);
+  const confidence = text.match(CONFIDENCE);
+  const confidenceValue = confidence ? Number(confidence[1]) : undefined;
+  return {
+    task: cleanTask(text) || text.trim(),
+    index,
+    urgency: urgencyFor(text, due, now),
+    impact: impactFor(text),
+    weight: weightFor(text),
+    effortMinutes: effortFor(text),
+    due,
+    reach: reach ? Number(reach[1].replace(/,/g, "")) : undefined,
+    confidence:
+      confidenceValue === undefined
+        ? undefined
+        : Math.min(confidenceValue > 1 ? confidenceValue / 100 : confidenceValue, 1)
+  };
+}
+
+/** The framework the request names, else `fallback`. */
+export function detectFramework(input: string, fallback: Framework = "weighted"): Framework {
+  const header = input.includes(":") ? input.slice(0, input.indexOf(":")) : input;
+  return (
+    FRAMEWORK_ORDER.find(
+      (id) => FRAMEWORKS[id].pattern.test(header) || FRAMEWORKS[id].words?.test(header)
+    ) ?? fallback
+  );
+}
+
+export function frameworkName(framework: Framework, locale?: Locale): string {
+  return t(locale, `framework.${framework}`);
+}
+
+export function frameworkFormula(framework: Framework, locale?: Locale): string {
+  return t(locale, `framework.${framework}.formula`);
+}
+
+/** Splits a request into task lines, dropping a leading "Prioritise …:" ask. */
+export function splitTasks(input: string): string[] {
+  const body = input
+    .replace(PRIORITISE_HEADER, "")
+    .replace(
+      /^[^:\n]*\b(?:prioriti[sz]e|rank|ranking|order)\b[^:\n]*:\s*|^\s*(?:please\s+)?prioriti[sz]e\s+(?:these\s+|my\s+)?(?:tasks\s+)?/i,
+      ""
+    );
+  return body
+    .split(/\n|,|;/)
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim())
+    .filter((line) => line.length > 4);
+}
+
+/**
+ * Ranks tasks with the chosen framework. Due dates, effort ("2h", "(M)"),
+ * weights ("w=3", "!!") and RICE inputs ("reach 500", "confidence 80%") are
+ * read from each task; ties keep the original order. With a locale, due
+ * dates are read in that language too.
+ */
+export function rankTasks(
+  lines: string[],
+  framework: Framework = "weighted",
+  now = new Date(),
+  locale?: Locale
+): Ranking {
+  const spec = FRAMEWORKS[framework];
+  const parsed = lines.map((line, index) => parseTask(line, index, now, locale));
+  const scored = parsed.map((task) => ({ task, score: spec.score(task) }));
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.task.due?.getTime() ?? Infinity) - (b.task.due?.getTime() ?? Infinity) ||
+      a.task.index - b.task.index
+  );
+  return {
+    framework,
+    tasks: scored.map(({ task, score }) => ({
+      task: task.task,
+      score,
+      ...(task.effortMinutes !== undefined && { effortMinutes: task.effortMinutes }),
+      ...(task.due && { due: formatDay(task.due) }),
+      components: spec.components(task, score)
+    }))
+  };
+}
@@ -0,0 +1,97 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  appendToSession,
+  createSession,
+  sortByRecent,
+  summarizeSession,
+  type ChatSession,
+  type SessionStore
+} from "./store";
+
+const SAFE_ID = /^[a-zA-Z0-9-]+$/;
+
+/**
+ * Stores one JSON document per session inside `directory`. Changes to a
+ * session are queued so concurrent requests in one process do not overwrite
+ * each other; writes are not coordinated across processes.
+ */
+export function createFileSessionStore(directory: string): SessionStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  const queues = new Map<string, Promise<unknown>>();
+
+  function queued<T>(id: string, change: () => Promise<T>): Promise<T> {
+    const next = (queues.get(id) ?? Promise.resolve()).then(change);
+    const settled = next.catch(() => undefined);
+    queues.set(id, settled);
+    void settled.then(() => {
+      if (queues.get(id) === settled) queues.delete(id);
+    });
+    return next;
+  }
+
+  async function read(id: string): Promise<ChatSession | null> {
+    if (!SAFE_ID.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(fileFor(id), "utf8")) as ChatSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async function write(session: ChatSession) {
+    await mkdir(directory, { recursive: true });
+    const temporary = `${fileFor(session.id)}.tmp`;
+    await writeFile(temporary, JSON.stringify(session, null, 2), "utf8");
+    await rename(temporary, fileFor(session.id));
+  }
+
+  return {
+    async create(init) {
+      const session = createSession(init);
+      await write(session);
+      return session;
+    },
+    get: read,
+    async list() {
+      let entries: string[];
+      try {
+        entries = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+      const sessions = await Promise.all(
+        entries
+          .filter((entry) => entry.endsWith(".json"))
+          .map((entry) => read(entry.slice(0, -".json".length)))
+      );
+      return sessions
+        .filter((session): session is ChatSession => session !== null)
+        .map(summarizeSession)
+        .sort(sortByRecent);
+    },
+    append(id, messages, state) {
+      return queued(id, async () => {
+        const session = await read(id);
+        if (!session) return null;
+        const updated = appendToSession(session, messages, state);
+        await write(updated);
+        return updated;
+      });
+    },
+    async remove(id) {
+      if (!SAFE_ID.test(id)) return false;
+      return queued(id, async () => {
+        try {
+          await rm(fileFor(id));
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+          throw error;
+        }
+      });
+    }
+  };
+}
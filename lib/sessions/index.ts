@@ -0,0 +1,89 @@
+import path from "node:path";
+import { runAgent, type AgentOptions, type AgentReply } from "../agent";
+import { createFileSessionStore } from "./file";
+import { createMemorySessionStore } from "./memory";
+import type { ChatSession, SessionMessage, SessionStore } from "./store";
+
+export { createFileSessionStore } from "./file";
+export { createMemorySessionStore } from "./memory";
+export type {
+  ChatSession,
+  SessionInit,
+  SessionMessage,
+  SessionStore,
+  SessionSummary
+} from "./store";
+
+// Route modules are bundled separately, so the shared store lives on
+// globalThis rather than in module scope.
+const globalForSessions = globalThis as { radiusSessionStore?: SessionStore };
+
+/**
+ * Returns the process-wide session store. Set `RADIUS_SESSION_STORE=file`
+ * (and optionally `RADIUS_SESSION_DIR`) to persist sessions to disk.
+ */
+export function getSessionStore(): SessionStore {
+  if (!globalForSessions.radiusSessionStore) {
+    globalForSessions.radiusSessionStore =
+      process.env.RADIUS_SESSION_STORE === "file"
+        ? createFileSessionStore(
+            process.env.RADIUS_SESSION_DIR ?? path.join(process.cwd(), "data", "sessions")
+          )
+        : createMemorySessionStore();
+  }
+  return globalForSessions.radiusSessionStore;
+}
+
+/**
+ * A view of the store limited to one owner's sessions: new sessions are
+ * theirs, and everyone else's look missing. A null owner sees every session.
+ */
+export function sessionsOwnedBy(store: SessionStore, owner: string | null): SessionStore {
+  if (owner === null) return store;
+  const get = async (id: string) => {
+    const session = await store.get(id);
+    return session?.owner === owner ? session : null;
+  };
+  return {
+    create: (init) => store.create({ ...init, owner }),
+    get,
+    list: async () => (await store.list()).filter((session) => session.owner === owner),
+    append: async (id, messages, state) =>
+      (await get(id)) ? store.append(id, messages, state) : null,
+    remove: async (id) => ((await get(id)) ? store.remove(id) : false)
+  };
+}
+
+/**
+ * Runs the agent over the session's history plus a new user message and
+ * stores both once the reply is ready, so a failed run leaves the session
+ * unchanged. Returns null when the session is unknown.
+ */
+export async function sendMessage(
+  store: SessionStore,
+  sessionId: string,
+  content: string,
+  options: Pick<AgentOptions, "onTool" | "locale" | "settings"> = {}
+): Promise<{ session: ChatSession; reply: AgentReply } | null> {
+  const existing = await store.get(sessionId);
+  if (!existing) return null;
+  const userMessage: SessionMessage = {
+    id: crypto.randomUUID(),
+    role: "user",
+    content,
+    createdAt: new Date().toISOString()
+  };
+
+  const reply = await runAgent(
+    { sessionId },
+    { ...options, sessions: store, pending: [{ role: "user", content }] }
+  );
+  const { state, ...message } = reply;
+  const session = await store.append(
+    sessionId,
+    [userMessage, { id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...message }],
+    state
+  );
+  if (!session) return null;
+  return { session, reply };
+}
@@ -0,0 +1,36 @@
+import {
+  appendToSession,
+  createSession,
+  sortByRecent,
+  summarizeSession,
+  type ChatSession,
+  type SessionStore
+} from "./store";
+
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, ChatSession>();
+
+  return {
+    async create(init) {
+      const session = createSession(init);
+      sessions.set(session.id, session);
+      return session;
+    },
+    async get(id) {
+      return sessions.get(id) ?? null;
+    },
+    async list() {
+      return Array.from(sessions.values()).map(summarizeSession).sort(sortByRecent);
+    },
+    async append(id, messages, state) {
+      const session = sessions.get(id);
+      if (!session) return null;
+      const updated = appendToSession(session, messages, state);
+      sessions.set(id, updated);
+      return updated;
+    },
+    async remove(id) {
+      return sessions.delete(id);
+    }
+  };
+}
@@ -0,0 +1,89 @@
+import type { AgentData, AgentMessage, AgentState, AgentStep } from "../agent";
+
+export type SessionMessage = AgentMessage & {
+  id: string;
+  createdAt: string;
+  steps?: AgentStep[];
+  suggestions?: string[];
+  data?: AgentData;
+};
+
+export type ChatSession = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+  /** Tool state that outlives single messages, such as the task list. */
+  state?: AgentState;
+  /** Who created the session, e.g. `key:<id>` or `browser:<id>`; only they can use it. */
+  owner?: string;
+};
+
+export type SessionSummary = Omit<ChatSession, "messages" | "state"> & {
+  messageCount: number;
+};
+
+export type SessionInit = { title?: string; owner?: string };
+
+/**
+ * Persistence boundary for conversations. Every method is async so stores
+ * backed by files or a database can share the same interface.
+ */
+export type SessionStore = {
+  create: (init?: SessionInit) => Promise<ChatSession>;
+  get: (id: string) => Promise<ChatSession | null>;
+  list: () => Promise<SessionSummary[]>;
+  /** Adds messages and, when given, replaces the session state. */
+  append: (
+    id: string,
+    messages: SessionMessage[],
+    state?: AgentState
+  ) => Promise<ChatSession | null>;
+  remove: (id: string) => Promise<boolean>;
+};
+
+export const DEFAULT_SESSION_TITLE = "New conversation";
+
+export function createSession(init: SessionInit = {}): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    title: init.title?.trim() || DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    ...(init.owner && { owner: init.owner })
+  };
+}
+
+export function appendToSession(
+  session: ChatSession,
+  messages: SessionMessage[],
+  state?: AgentState
+): ChatSession {
+  const firstUser = messages.find((message) => message.role === "user");
+  const title =
+    session.title === DEFAULT_SESSION_TITLE && firstUser
+      ? firstUser.content.replace(/\s+/g, " ").trim().slice(0, 60)
+      : session.title;
+  return {
+    ...session,
+    title,
+    updatedAt: new Date().toISOString(),
+    messages: [...session.messages, ...messages],
+    ...(state && { state })
+  };
+}
+
+export function summarizeSession({
+  messages,
+  state: _state,
+  ...session
+}: ChatSession): SessionSummary {
+  return { ...session, messageCount: messages.length };
+}
+
+export function sortByRecent(a: SessionSummary, b: SessionSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
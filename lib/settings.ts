@@ -0,0 +1,190 @@
+import type { AgentMessage } from "./agent";
+import type { Framework } from "./priorities";
+
+export type Tone = "neutral" | "friendly" | "formal";
+
+export type Verbosity = "brief" | "normal" | "detailed";
+
+/**
+ * How the assistant presents itself in one conversation. Absent fields keep
+ * the defaults: Radius, a neutral tone, normal length and every tool.
+ */
+export type AssistantSettings = {
+  /** The name the assistant goes by. */
+  name?: string;
+  tone?: Tone;
+  verbosity?: Verbosity;
+  /** Ids of the tools it may use; the fallback tool is always available. */
+  tools?: string[];
+  /** Ranking framework for requests that do not name one. */
+  framework?: Framework;
+};
+
+export const DEFAULT_NAME = "Radius";
+export const MAX_NAME_LENGTH = 40;
+
+export const TONES: Tone[] = ["neutral", "friendly", "formal"];
+export const VERBOSITIES: Verbosity[] = ["brief", "normal", "detailed"];
+export const FRAMEWORK_IDS: Framework[] = ["weighted", "eisenhower", "effort-impact", "rice"];
+
+/** Built-in tools a conversation can switch off; insight answers whatever is left. */
+export const OPTIONAL_TOOLS = [
+  "follow-up",
+  "finance",
+  "math",
+  "plan",
+  "brainstorm",
+  "summarize",
+  "todo",
+  "prioritize"
+];
+
+// "name: Ada" style lines; everything else in a system message is read as prose.
+const FIELD = /^\s*(name|tone|verbosity|length|tools|framework)\s*[:=]\s*(.*?)\s*$/gim;
+// "You are Ada, …" names the assistant; "You are a helpful assistant" does not.
+const PERSONA =
+  /\b(?:[Yy]ou are|[Yy]ou're|[Yy]our name is|[Cc]all yourself)\s+(?!An?\b|The\b)(\p{Lu}[\p{L}\d-]*)/u;
+const TONE_WORDS: [Tone, RegExp][] = [
+  ["formal", /\b(?:formal|professional|polite)\b/i],
+  ["friendly", /\b(?:friendly|warm|casual|cheerful)\b/i],
+  ["neutral", /\bneutral\b/i]
+];
+const VERBOSITY_WORDS: [Verbosity, RegExp][] = [
+  ["brief", /\b(?:brief|concise|terse|short)\b/i],
+  ["detailed", /\b(?:detailed|thorough|verbose|in depth)\b/i],
+  ["normal", /\bnormal\b/i]
+];
+const FRAMEWORK_WORDS: [Framework, RegExp][] = [
+  ["eisenhower", /\beisenhower\b/i],
+  ["rice", /\brice\b/i],
+  ["effort-impact", /\beffort[\s-]+(?:(?:vs\.?|versus|and|\/)\s*)?impact\b/i],
+  ["weighted", /\bweighted\b/i]
+];
+// Prose only sets a framework when it talks about ranking.
+const RANKING = /prioriti[sz]|\brank|\bframework\b/i;
+
+function pick<T>(text: string, words: [T, RegExp][]): T | undefined {
+  return words.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+function readName(value: string): string | undefined {
+  const name = value.replace(/^["'“”]+|["'“”.]+$/g, "").trim();
+  return name ? name.slice(0, MAX_NAME_LENGTH) : undefined;
+}
+
+/** Tool ids from "plan, math"; "all" lifts the restriction. */
+function readTools(value: string): string[] | undefined {
+  const ids = value
+    .toLowerCase()
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+  return ids.includes("all") ? undefined : ids;
+}
+
+/** Copies the defined values; `replace` decides whether set fields are overwritten. */
+function assignDefined(
+  settings: AssistantSettings,
+  values: AssistantSettings,
+  replace: boolean
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && (replace || !(key in settings))) {
+      Object.assign(settings, { [key]: value });
+    }
+  }
+}
+
+/**
+ * Reads the settings a system message asks for, from `key: value` lines
+ * (name, tone, verbosity, tools, framework) or plain instructions such as
+ * "You are Ada. Be brief and friendly."
+ */
+export function readSettings(content: string): AssistantSettings {
+  const settings: AssistantSettings = {};
+  const prose = content.replace(FIELD, (_, key: string, value: string) => {
+    const field = key.toLowerCase();
+    if (field === "tools") settings.tools = readTools(value);
+    const read: AssistantSettings = {
+      name: field === "name" ? readName(value) : undefined,
+      tone: field === "tone" ? pick(value, TONE_WORDS) : undefined,
+      verbosity:
+        field === "verbosity" || field === "length" ? pick(value, VERBOSITY_WORDS) : undefined,
+      framework: field === "framework" ? pick(value, FRAMEWORK_WORDS) : undefined
+    };
+    assignDefined(settings, read, true);
+    return "";
+  });
+  const persona = prose.match(PERSONA)?.[1];
+  const found: AssistantSettings = {
+    name: persona ? readName(persona) : undefined,
+    tone: pick(prose, TONE_WORDS),
+    verbosity: pick(prose, VERBOSITY_WORDS),
+    framework: RANKING.test(prose) ? pick(prose, FRAMEWORK_WORDS) : undefined
+  };
+  assignDefined(settings, found, false);
+  return settings;
+}
+
+/**
+ * The settings for a request: each system message in order, then the
+ * request's own settings, with later values winning.
+ */
+export function resolveSettings(
+  messages: AgentMessage[],
+  explicit: AssistantSettings = {}
+): AssistantSettings {
+  return [
+    ...messages
+      .filter((message) => message.role === "system")
+      .map((message) => readSettings(message.content)),
+    explicit
+  ].reduce<AssistantSettings>((settings, next) => ({ ...settings, ...next }), {});
+}
+
+/**
+ * What the system messages say beyond the `key: value` settings lines, such
+ * as "Answer as a product manager would", for prompts to a language model.
+ */
+export function systemInstructions(messages: AgentMessage[]): string {
+  return messages
+    .filter((message) => message.role === "system")
+    .map((message) =>
+      message.content
+        .replace(FIELD, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim()
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Whether the settings allow a tool; fallback tools are always allowed. */
+export function toolEnabled(
+  settings: AssistantSettings,
+  tool: { id: string; fallback?: boolean }
+): boolean {
+  return !settings.tools || Boolean(tool.fallback) || settings.tools.includes(tool.id);
+}
+
+const TONE_INSTRUCTIONS: Record<Tone, string> = {
+  neutral: "",
+  friendly: "Use a warm, friendly tone.",
+  formal: "Use a formal, professional tone."
+};
+
+const VERBOSITY_INSTRUCTIONS: Record<Verbosity, string> = {
+  brief: "Keep the reply brief: a few sentences or bullet points at most.",
+  normal: "",
+  detailed: "Be thorough: explain your reasoning and cover edge cases."
+};
+
+/** Opens a model prompt: who the assistant is, in which tone and at what length. */
+export function describePersona(role: string, settings: AssistantSettings = {}): string {
+  return [
+    `You are ${settings.name ?? DEFAULT_NAME}, ${role}.`,
+    TONE_INSTRUCTIONS[settings.tone ?? "neutral"],
+    VERBOSITY_INSTRUCTIONS[settings.verbosity ?? "normal"]
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,382 @@
+import type { AgentMessage } from "./agent";
+import { tokenize } from "./knowledge/bm25";
+import { normaliseDates, t, type Locale } from "./locale";
+import {
+  DETAILED_WORDS,
+  ONE_LINER_WORDS,
+  SUMMARY_CUES,
+  SUMMARY_REQUEST as LOCAL_SUMMARY_REQUEST
+} from "./locale/lexicon";
+import { describeDay, formatDay, parseDeadline } from "./planner";
+import { DEFAULT_NAME } from "./settings";
+
+export type SummaryLength = "one-liner" | "short" | "detailed";
+
+export type ActionItem = {
+  text: string;
+  owner?: string;
+  /** Due date as `YYYY-MM-DD`, when one was mentioned. */
+  due?: string;
+};
+
+export type ConversationSummary = {
+  length: SummaryLength;
+  /** Number of messages the summary was built from. */
+  messages: number;
+  keyPoints: string[];
+  decisions: string[];
+  actions: ActionItem[];
+  questions: string[];
+};
+
+type Sentence = {
+  text: string;
+  /** Who said it: "You", the assistant's name or a speaker label from pasted notes. */
+  speaker?: string;
+  role: AgentMessage["role"];
+  /** Position among all sentences, used to restore the original order. */
+  order: number;
+  /** First sentence of its message. */
+  lead: boolean;
+  /** Asked by the user and already answered by the next reply. */
+  answered: boolean;
+  terms: string[];
+};
+
+const LIMITS: Record<SummaryLength, { points: number; items: number }> = {
+  "one-liner": { points: 1, items: 0 },
+  short: { points: 3, items: 4 },
+  detailed: { points: 7, items: 12 }
+};
+
+/** A request for a summary, optionally followed by pasted text after a colon. */
+const SUMMARY_REQUEST =
+  /^\s*(?:please\s+)?(?:summari[sz]e|recap|tl;?dr)\b([^:\n]*)(?::\s*([\s\S]*))?$/i;
+const MIN_PASTED_LENGTH = 40;
+
+const ONE_LINER = /\b(?:one[- ]liner|one line|(?:in )?(?:a|one) sentence|tl;?dr|briefly)\b/i;
+const DETAILED = /\b(?:detailed|in detail|in full|full|thorough(?:ly)?|longer|everything)\b/i;
+
+const DECISION =
+  /\b(?:decided|decision|agreed|agree on|settled on|going with|go with|chose|chosen|approved|signed off|final(?:i[sz]ed)?)\b/i;
+const ACTION_CUE = /^(?:action(?: item)?|todo|to-do|next step|follow[- ]up)s?\s*[:-]\s*/i;
+const OWNER_ACTION =
+  /(?:^|[^\w@])(@[A-Za-z][\w-]*|[A-Z][a-z]+|I|[Ww]e|[Yy]ou)(?:'ll|\s+(?:will|shall|must|needs? to|has to|have to|(?:is|are|am) going to|to))\s+(?!be\b|have been\b|need\b|see\b)([a-z]+)/;
+const SPEAKER_LABEL = /^([A-Z][\w.-]*(?: [A-Z][\w.-]*)?):\s+(.+)$/;
+const MENTION = /@([A-Za-z][\w-]*)/;
+const REMIND = /\bremind (?:me|us) to\b/i;
+const UNCERTAIN =
+  /\b(?:not sure|unsure|unclear|unknown|tbd|to be (?:decided|confirmed)|open question|undecided|need to (?:check|confirm|find out)|no idea)\b/i;
+
+/** Capitalised words that start a sentence without naming anyone. */
+const NOT_NAMES = new Set(
+  (
+    "It This That There These Those They He She Which What Who When Where Why How Then " +
+    "Here Everyone Someone Nobody Each Every All Both Radius"
+  ).split(" ")
+);
+
+const FILLER = [
+  /\b(?:I think|I guess|I feel like|I mean|to be honest|honestly|basically|actually|literally|you know|kind of|sort of)\b,?\s*/gi,
+  /\b(?:just|really|very|quite|pretty much)\s+/gi,
+  /^(?:so|well|ok(?:ay)?|right|also|and|but|um+|uh+|hmm+)\b[,\s]+/i,
+  /\s*\((?:[^()]{0,3})\)/g
+];
+
+/** The length the request asks for, else `fallback`. */
+export function detectSummaryLength(
+  input: string,
+  fallback: SummaryLength = "short"
+): SummaryLength {
+  // Only the request itself counts, not any text pasted after the colon.
+  const request = input.split(":")[0];
+  if (ONE_LINER.test(request) || ONE_LINER_WORDS.test(request)) return "one-liner";
+  if (DETAILED.test(request) || DETAILED_WORDS.test(request)) return "detailed";
+  return fallback;
+}
+
+/** Matches "Summarize: …" in English or one of the other supported languages. */
+export function matchSummaryRequest(input: string): RegExpMatchArray | null {
+  return input.match(SUMMARY_REQUEST) ?? input.match(LOCAL_SUMMARY_REQUEST);
+}
+
+/** Returns the text pasted after "Summarize:", if there is enough of it to summarise. */
+export function pastedText(input: string): string | null {
+  const pasted = matchSummaryRequest(input)?.[2]?.trim();
+  return pasted && pasted.length >= MIN_PASTED_LENGTH ? pasted : null;
+}
+
+export function isSummaryRequest(input: string): boolean {
+  return matchSummaryRequest(input) !== null;
+}
+
+type Line = {
+  text: string;
+  /** Came from a list item, such as a step in a plan. */
+  listed: boolean;
+};
+
+function plainText(content: string): Line[] {
+  const lines: Line[] = [];
+  let fenced = false;
+  for (const raw of content.split("\n")) {
+    if (/^\s*```/.test(raw)) {
+      fenced = !fenced;
+      continue;
+    }
+    if (fenced || /^\s*\|/.test(raw)) continue;
+    const listed = /^\s*(?:[-*+]|\d+[.)])\s+/.test(raw);
+    const text = raw
+      .replace(/^\s*(?:#{1,6}\s+|>\s*|(?:[-*+]|\d+[.)])\s+(?:\[[ x]\]\s+|☐\s+)?)/, "")
+      .replace(/\*\*(.+?)\*\*/g, "$1")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+      .trim();
+    if (text) lines.push({ text, listed });
+  }
+  return lines;
+}
+
+function splitSentences(line: string): string[] {
+  return line
+    .split(/(?<=[.!?])\s+(?=["'(@¿¡\p{Lu}0-9])/u)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[a-z]{2}/i.test(sentence));
+}
+
+/** Drops filler words and hedges, keeping the sentence readable. */
+export function compress(sentence: string): string {
+  let text = sentence;
+  for (const pattern of FILLER) text = text.replace(pattern, "");
+  text = text
+    .replace(/\s{2,}/g, " ")
+    .replace(/\s+([,.!?])/g, "$1")
+    .trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Splits messages into sentences, skipping earlier summary requests and the
+ * replies to them so a summary never summarises itself.
+ */
+function collectSentences(messages: AgentMessage[], assistant: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  messages.forEach((message, index) => {
+    if (message.role === "system") return;
+    if (message.role === "user" && isSummaryRequest(message.content)) return;
+    const previous = messages[index - 1];
+    if (message.role === "assistant" && previous && isSummaryRequest(previous.content)) return;
+    const answered = message.role === "user" && messages[index + 1]?.role === "assistant";
+    let lead = true;
+    let speaker =
+      message.role === "assistant" ? assistant : messages.length > 1 ? "You" : undefined;
+    for (const line of plainText(message.content)) {
+      // Replies list plans and rankings step by step; only their prose is summarised.
+      if (message.role === "assistant" && line.listed) continue;
+      for (const raw of splitSentences(line.text)) {
+        // Pasted notes often carry speaker labels such as "Alice: ...".
+        const labelled = ACTION_CUE.test(raw) ? null : raw.match(SPEAKER_LABEL);
+        if (labelled) speaker = labelled[1];
+        const sentence = labelled ? labelled[2] : raw;
+        if (/:$/.test(sentence)) continue;
+        sentences.push({
+          text: compress(sentence),
+          speaker,
+          role: message.role,
+          order: sentences.length,
+          lead,
+          answered,
+          terms: tokenize(sentence)
+        });
+        lead = false;
+      }
+    }
+  });
+  return sentences;
+}
+
+function isQuestion(sentence: Sentence): boolean {
+  return /\?\s*$/.test(sentence.text);
+}
+
+function isDecision(sentence: Sentence): boolean {
+  return (
+    !isQuestion(sentence) &&
+    (DECISION.test(sentence.text) || SUMMARY_CUES.decision.test(sentence.text))
+  );
+}
+
+function isOpenQuestion(sentence: Sentence): boolean {
+  if (UNCERTAIN.test(sentence.text) || SUMMARY_CUES.uncertain.test(sentence.text)) return true;
+  return isQuestion(sentence) && !sentence.answered;
+}
+
+function resolveOwner(who: string, sentence: Sentence): string | undefined {
+  if (who.startsWith("@")) return who.slice(1);
+  if (who === "I") return sentence.speaker;
+  if (/^we$/i.test(who)) return "Team";
+  if (/^you$/i.test(who)) return sentence.role === "assistant" ? "You" : undefined;
+  return NOT_NAMES.has(who) ? undefined : who;
+}
+
+function toAction(sentence: Sentence, now: Date, locale?: Locale): ActionItem | null {
+  if (isQuestion(sentence)) return null;
+  const cue = sentence.text.match(ACTION_CUE) ?? sentence.text.match(SUMMARY_CUES.action);
+  const owned = sentence.text.match(OWNER_ACTION);
+  const mention = sentence.text.match(MENTION);
+  const owner = owned ? resolveOwner(owned[1], sentence) : undefined;
+  if (!cue && !REMIND.test(sentence.text) && !(owned && (owner || owned[1] === "I"))) return null;
+
+  const deadline = parseDeadline(
+    locale ? normaliseDates(sentence.text, locale) : sentence.text,
+    now
+  );
+  const text = sentence.text
+    .replace(ACTION_CUE, "")
+    .replace(SUMMARY_CUES.action, "")
+    .replace(/[.!]+$/, "");
+  return {
+    text: text.charAt(0).toUpperCase() + text.slice(1),
+    owner: mention ? mention[1] : owner,
+    due: deadline ? formatDay(deadline.date) : undefined
+  };
+}
+
+/**
+ * Scores sentences by how many of the conversation's frequent terms they
+ * carry, with small boosts for opening sentences, the user's own words and
+ * decisions, and picks the best ones without repeating itself.
+ */
+function keyPoints(sentences: Sentence[], limit: number): Sentence[] {
+  const frequency = new Map<string, number>();
+  for (const { terms } of sentences) {
+    for (const term of new Set(terms)) frequency.set(term, (frequency.get(term) ?? 0) + 1);
+  }
+  const top = Math.max(1, ...frequency.values());
+
+  const scored = sentences
+    .filter((sentence) => sentence.terms.length >= 3 && !isQuestion(sentence))
+    .map((sentence) => {
+      const weight = sentence.terms.reduce(
+        (total, term) => total + (frequency.get(term) ?? 0) / top,
+        0
+      );
+      let score = weight / Math.sqrt(sentence.terms.length);
+      if (sentence.lead) score *= 1.2;
+      if (sentence.role === "user") score *= 1.2;
+      if (isDecision(sentence)) score *= 1.3;
+      if (sentence.text.length > 240) score *= 0.7;
+      return { sentence, score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const picked: Sentence[] = [];
+  for (const { sentence } of scored) {
+    if (picked.length >= limit) break;
+    if (picked.some((other) => overlap(other.terms, sentence.terms) > 0.6)) continue;
+    picked.push(sentence);
+  }
+  return picked.sort((a, b) => a.order - b.order);
+}
+
+function overlap(a: string[], b: string[]): number {
+  const left = new Set(a);
+  const right = new Set(b);
+  const shared = Array.from(left).filter((term) => right.has(term)).length;
+  return shared / (new Set([...a, ...b]).size || 1);
+}
+
+function unique<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const id = key(item).toLowerCase();
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Builds an extractive summary of the whole conversation, or of pasted text.
+ * Due dates are read in `locale`; replies are credited to `assistant`.
+ */
+export function summarizeMessages(
+  messages: AgentMessage[],
+  length: SummaryLength = "short",
+  now = new Date(),
+  locale?: Locale,
+  assistant = DEFAULT_NAME
+): ConversationSummary {
+  const sentences = collectSentences(messages, assistant);
+  const { points, items } = LIMITS[length];
+  const itemLimit = items || sentences.length;
+  return {
+    length,
+    messages: messages.filter((message) => message.role !== "system").length,
+    keyPoints: keyPoints(sentences, points).map((sentence) => sentence.text),
+    decisions: unique(sentences.filter(isDecision), (sentence) => sentence.text)
+      .slice(0, itemLimit)
+      .map((sentence) => sentence.text),
+    actions: unique(
+      sentences
+        // A decision is listed once, under decisions, even when it is phrased as a plan.
+        .filter((sentence) => !isDecision(sentence))
+        .map((sentence) => toAction(sentence, now, locale))
+        .filter((action): action is ActionItem => Boolean(action)),
+      (action) => action.text
+    ).slice(0, itemLimit),
+    questions: unique(sentences.filter(isOpenQuestion), (sentence) => sentence.text)
+      .slice(0, itemLimit)
+      .map((sentence) => sentence.text)
+  };
+}
+
+function describeAction(action: ActionItem, locale?: Locale): string {
+  const details = [
+    action.owner ? `**${action.owner}**` : "",
+    action.due ? t(locale, "summary.due", { day: describeDay(action.due, locale) }) : ""
+  ].filter(Boolean);
+  return `- ☐ ${action.text}${details.length ? ` — ${details.join(", ")}` : ""}`;
+}
+
+/** Counts of decisions, action items and open questions, such as "2 decisions, 1 action item". */
+function describeCounts(summary: ConversationSummary, locale?: Locale): string {
+  const { decisions, actions, questions } = summary;
+  return [
+    decisions.length ? t(locale, "summary.count.decisions", { count: decisions.length }) : "",
+    actions.length ? t(locale, "summary.count.actions", { count: actions.length }) : "",
+    questions.length ? t(locale, "summary.count.questions", { count: questions.length }) : ""
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** Renders a summary as Markdown; the one-liner collapses to a single sentence. */
+export function describeSummary(summary: ConversationSummary, locale?: Locale): string {
+  const { keyPoints: points, decisions, actions, questions } = summary;
+  if (summary.length === "one-liner") {
+    const counts = describeCounts(summary, locale);
+    const line = points[0] ?? decisions[0] ?? actions[0]?.text ?? t(locale, "summary.nothing");
+    return counts ? `${line} (${counts})` : line;
+  }
+
+  const heading = (key: "points" | "decisions" | "actions" | "questions") =>
+    `### ${t(locale, `summary.heading.${key}`)}`;
+  const sections = [t(locale, "summary.title", { count: summary.messages })];
+  if (points.length) {
+    sections.push([heading("points"), ...points.map((point) => `- ${point}`)].join("\n"));
+  }
+  if (decisions.length) {
+    sections.push([heading("decisions"), ...decisions.map((item) => `- ${item}`)].join("\n"));
+  }
+  if (actions.length) {
+    sections.push(
+      [heading("actions"), ...actions.map((action) => describeAction(action, locale))].join("\n")
+    );
+  }
+  if (questions.length) {
+    sections.push([heading("questions"), ...questions.map((item) => `- ${item}`)].join("\n"));
+  }
+  if (sections.length === 1) return t(locale, "summary.empty");
+  return sections.join("\n\n");
+}
@@ -0,0 +1,178 @@
+import { normaliseDates, t, type Locale } from "./locale";
+import { AND } from "./locale/lexicon";
+import { describeDay, formatDay, parseDeadline } from "./planner";
+
+export type TodoItem = {
+  id: string;
+  text: string;
+  done: boolean;
+  /** Day the item is planned for, as `YYYY-MM-DD`. */
+  due?: string;
+  createdAt: string;
+  completedAt?: string;
+};
+
+export const MAX_TODOS = 200;
+
+function normalise(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function words(text: string): string[] {
+  return normalise(text)
+    .split(" ")
+    .filter((word) => word.length > 2 && !["the", "and", "for", "with", "from"].includes(word));
+}
+
+/** Open items, dated ones first, in the order the numbered list shows them. */
+export function pendingTodos(todos: TodoItem[]): TodoItem[] {
+  return todos
+    .filter((item) => !item.done)
+    .sort((a, b) => (a.due ?? "9999").localeCompare(b.due ?? "9999"));
+}
+
+/** Splits "buy milk, call Sam and book flights" (or "… y …", "… und …") into separate items. */
+export function splitTodoItems(text: string): string[] {
+  return text
+    .split(new RegExp(String.raw`\n|,|;|\s+(?:and|${AND})\s+`, "i"))
+    .map((item) =>
+      item
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")
+        .replace(/^\s*(?:and|also)\s+/i, "")
+        .trim()
+        .replace(/^["“]|["”]$/g, "")
+    )
+    .filter((item) => item.length > 1);
+}
+
+/** Adds items that are not already pending, returning the new list and what was added. */
+export function addTodos(
+  todos: TodoItem[],
+  texts: string[],
+  now = new Date()
+): { todos: TodoItem[]; added: TodoItem[] } {
+  const open = new Set(pendingTodos(todos).map((item) => normalise(item.text)));
+  const added: TodoItem[] = [];
+  for (const text of texts) {
+    const key = normalise(text);
+    if (!key || open.has(key)) continue;
+    open.add(key);
+    added.push({
+      id: crypto.randomUUID(),
+      text: text.charAt(0).toUpperCase() + text.slice(1),
+      done: false,
+      createdAt: now.toISOString()
+    });
+  }
+  return { todos: [...todos, ...added].slice(-MAX_TODOS), added };
+}
+
+/**
+ * Finds the item a phrase refers to: a position in the pending list ("2"),
+ * an exact or partial name, or the best word overlap. Pending items win
+ * over completed ones.
+ */
+export function findTodo(todos: TodoItem[], query: string): TodoItem | null {
+  const pending = pendingTodos(todos);
+  const position = query
+    .trim()
+    .match(/^(?:#|(?:number|item|n[úu]mero|nummer|num[ée]ro)\s+)?(\d{1,3})$/i);
+  if (position) return pending[Number(position[1]) - 1] ?? null;
+
+  const needle = normalise(
+    query.replace(
+      /^(?:(?:the|my|el|la|los|las|mi|der|die|das|den|meine?n?|le|les|ma|mon|mes)\s+|l['’])/i,
+      ""
+    )
+  );
+  if (!needle) return null;
+  const ordered = [...pending, ...todos.filter((item) => item.done)];
+  const exact = ordered.find((item) => normalise(item.text) === needle);
+  if (exact) return exact;
+  const partial = ordered.find((item) => {
+    const text = normalise(item.text);
+    return text.includes(needle) || needle.includes(text);
+  });
+  if (partial) return partial;
+
+  const wanted = words(needle);
+  let best: TodoItem | null = null;
+  let bestOverlap = 0;
+  for (const item of ordered) {
+    const overlap = words(item.text).filter((word) => wanted.includes(word)).length;
+    if (overlap > bestOverlap) {
+      best = item;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+}
+
+function update(todos: TodoItem[], id: string, change: Partial<TodoItem>): TodoItem[] {
+  return todos.map((item) => (item.id === id ? { ...item, ...change } : item));
+}
+
+export function completeTodo(todos: TodoItem[], id: string, now = new Date()): TodoItem[] {
+  return update(todos, id, { done: true, completedAt: now.toISOString() });
+}
+
+export function removeTodo(todos: TodoItem[], id: string): TodoItem[] {
+  return todos.filter((item) => item.id !== id);
+}
+
+export function clearCompleted(todos: TodoItem[]): TodoItem[] {
+  return todos.filter((item) => !item.done);
+}
+
+/**
+ * Moves an item to a day such as "tomorrow", "Friday" or "12 Nov", written
+ * in `locale`. Returns null if the day is unclear.
+ */
+export function moveTodo(
+  todos: TodoItem[],
+  id: string,
+  when: string,
+  now = new Date(),
+  locale?: Locale
+): { todos: TodoItem[]; due: string } | null {
+  const day = locale ? normaliseDates(when, locale) : when;
+  const deadline = parseDeadline(/^by\s/i.test(day) ? day : `by ${day}`, now);
+  if (!deadline) return null;
+  const due = formatDay(deadline.date);
+  return { todos: update(todos, id, { due, done: false, completedAt: undefined }), due };
+}
+
+/** Renders an item as a task line the prioritisation frameworks can read. */
+export function todoLine(item: TodoItem): string {
+  return item.due ? `${item.text} due ${item.due}` : item.text;
+}
+
+export function describeTodo(item: TodoItem, locale?: Locale): string {
+  return item.due ? `${item.text} · ${describeDay(item.due, locale)}` : item.text;
+}
+
+/** Numbered pending items (the numbers can be used to refer to them), then recent completions. */
+export function describeTodos(todos: TodoItem[], locale?: Locale): string {
+  const pending = pendingTodos(todos);
+  const done = todos.filter((item) => item.done).slice(-5);
+  if (pending.length === 0 && done.length === 0) {
+    return t(locale, "todos.empty");
+  }
+  const sections = [
+    pending.length === 0
+      ? t(locale, "todos.allDone")
+      : `${t(locale, "todos.left", { count: pending.length })}\n\n${pending
+          .map((item, index) => `${index + 1}. ${describeTodo(item, locale)}`)
+          .join("\n")}`
+  ];
+  if (done.length > 0) {
+    sections.push(
+      t(locale, "todos.done", { items: done.map((item) => `~~${item.text}~~`).join(", ") })
+    );
+  }
+  return sections.join("\n\n");
+}
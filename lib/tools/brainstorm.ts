@@ -0,0 +1,52 @@
+import { t, type Locale } from "../locale";
+import { IDEA_WORDS as LOCAL_IDEA_WORDS, NAMING_WORDS } from "../locale/lexicon";
+import { askModel } from "./model";
+import type { AgentTool } from "./registry";
+
+const ROLE = "a creative partner";
+const INSTRUCTIONS =
+  "Reply with a numbered list of four contrasting, concrete ideas for the request, one or two " +
+  "sentences each.";
+
+const IDEA_WORDS = /\b(?:ideas?|brainstorm\w*|creative)\b/i;
+// "Names" only counts when new ones are wanted, not "the names of my team".
+const NAMING =
+  /\b(?:names?|taglines?|slogans?)\s+(?:for|ideas)\b|\b(?:suggest|come up with|think of|give me|need)\b[^.?!]*\bnames\b/i;
+
+function brainstormIdeas(topic: string, locale?: Locale): string {
+  const angles = [
+    t(locale, "brainstorm.angle.partners"),
+    t(locale, "brainstorm.angle.journey"),
+    t(locale, "brainstorm.angle.experiments"),
+    t(locale, "brainstorm.angle.signals")
+  ];
+  const ideas = angles.map(
+    (angle, idx) => `${idx + 1}. ${t(locale, "brainstorm.idea", { angle, topic: topic.trim() })}`
+  );
+  return ideas.join("\n");
+}
+
+export const brainstormTool: AgentTool = {
+  id: "brainstorm",
+  label: "Ideas",
+  score: (input) =>
+    [IDEA_WORDS, NAMING, LOCAL_IDEA_WORDS, NAMING_WORDS].some((pattern) => pattern.test(input))
+      ? 40
+      : 0,
+  run: async (context) => {
+    const model = await askModel(context, ROLE, INSTRUCTIONS);
+    if (model.result) return model.result;
+    return {
+      content: brainstormIdeas(context.input, context.locale),
+      steps: [
+        ...model.steps,
+        { title: t(context.locale, "step.method"), content: t(context.locale, "brainstorm.method") }
+      ]
+    };
+  },
+  suggestions: [
+    "Narrow ideas down to one standout concept",
+    "Turn this concept into a user journey",
+    "Draft a 3-sentence pitch for the top idea"
+  ]
+};
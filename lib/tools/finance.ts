@@ -0,0 +1,640 @@
+import type { AgentStep } from "../agent";
+import { parseNumber, usesDecimalComma } from "../calculator";
+import { intlTag, t, type Locale, type MessageKey } from "../locale";
+import {
+  COMPOUNDING_WORDS,
+  CURRENCY_NAMES,
+  DAILY_WORDS,
+  DURATION_UNITS,
+  FINANCE_FREQUENCY_AFTER,
+  FINANCE_FREQUENCY_BEFORE,
+  FINANCE_KINDS,
+  FINANCE_PERIODS,
+  FINANCE_WORDS,
+  PERCENT_WORDS,
+  TABLE_WORDS
+} from "../locale/lexicon";
+import { markdownTable, type TableRow } from "../markdown";
+import type { AgentTool, ToolResult } from "./registry";
+
+type FinanceKind = "investment" | "loan" | "goal" | "roi";
+
+type Amount = {
+  value: number;
+  perYear: number | null;
+  /** Where the figure (digits and any k/m suffix) sits in the input. */
+  start: number;
+  end: number;
+};
+
+type FinanceRequest = {
+  kind: FinanceKind;
+  currency: string;
+  amounts: Amount[];
+  annualRate: number | null;
+  years: number | null;
+  compoundingPerYear: number;
+  wantsTable: boolean;
+  locale?: Locale;
+};
+
+const FINANCE_KEYWORDS =
+  /\binvest|\binterest\b|\bloan\b|mortgage|\bborrow|\bsav(?:e|ings?)\b|\bdeposit|contribut|\broi\b|return on (?:my |an |the )?investment|compound|\bapr\b|amorti[sz]/i;
+
+const CURRENCY_WORDS = `dollars|usd|euros?|eur|pounds|gbp|${Object.keys(CURRENCY_NAMES).join("|")}`;
+
+const NUMBER = String.raw`\d[\d,]*(?:\.\d+)?`;
+/** Grouped with dots or spaces ("20.000", "10 000") or a plain decimal with either mark. */
+const DECIMAL_COMMA_NUMBER = String.raw`[1-9]\d{0,2}(?:[.\u00a0\u202f ]\d{3})+(?:,\d+)?(?!\d)|\d+(?:[.,]\d+)?`;
+
+/** "$150", "150 dollars" and, as written in most of Europe, "150 €". */
+function amountPattern(locale?: Locale): RegExp {
+  const number = usesDecimalComma(locale) ? DECIMAL_COMMA_NUMBER : NUMBER;
+  return new RegExp(
+    String.raw`([$€£])\s?(${number})\s*(k|m)?\b|\b(${number})\s*(k|m)?\s*(?:(${CURRENCY_WORDS})(?!\p{L})|([$€£]))`,
+    "giu"
+  );
+}
+
+function rateNumber(locale?: Locale): string {
+  return usesDecimalComma(locale) ? String.raw`\d+(?:[.,]\d+)?` : String.raw`\d+(?:\.\d+)?`;
+}
+
+const FREQUENCIES: Array<[RegExp, number]> = [
+  [/week/i, 52],
+  [/month|\/mo\b/i, 12],
+  [/quarter/i, 4],
+  [/year|annual|annum/i, 1]
+];
+
+const FREQUENCY_AFTER =
+  /^\s*(?:(?:per|a|each|every|\/)\s*(?:week|month|mo|quarter|year|annum)\b|weekly|monthly|quarterly|yearly|annually)/i;
+const FREQUENCY_BEFORE = /(weekly|monthly|quarterly|yearly|annual)\s+(?:\w+\s+){0,2}(?:of\s+)?$/i;
+
+/** Longest horizon the calculators accept, so a typo like "100000 years" is refused rather than ground through. */
+const MAX_YEARS = 100;
+
+const SYMBOLS: Record<string, string> = {
+  dollars: "$",
+  usd: "$",
+  euro: "€",
+  euros: "€",
+  eur: "€",
+  pounds: "£",
+  gbp: "£"
+};
+
+function frequencyOf(text: string): number | null {
+  const match =
+    FREQUENCIES.find(([pattern]) => pattern.test(text)) ??
+    FINANCE_PERIODS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : null;
+}
+
+function parseAmounts(input: string, locale?: Locale): { amounts: Amount[]; currency: string } {
+  const amounts: Amount[] = [];
+  let currency = "$";
+  for (const match of input.matchAll(amountPattern(locale))) {
+    const [text, symbol, symbolValue, symbolSuffix, wordValue, wordSuffix, word, trailing] = match;
+    const digits = symbolValue ?? wordValue;
+    const raw = parseNumber(digits.replace(/ /g, "\u00a0"), locale);
+    const suffix = (symbolSuffix ?? wordSuffix ?? "").toLowerCase();
+    const value = raw * (suffix === "k" ? 1_000 : suffix === "m" ? 1_000_000 : 1);
+    if (!Number.isFinite(value)) continue;
+
+    const start = match.index ?? 0;
+    const figure = text.indexOf(digits);
+    const figureEnd = suffix ? text.indexOf(suffix, figure + digits.length) + 1 : figure + digits.length;
+    const following = input.slice(start + text.length, start + text.length + 24);
+    const preceding = input.slice(Math.max(0, start - 40), start);
+    const after = following.match(FREQUENCY_AFTER) ?? following.match(FINANCE_FREQUENCY_AFTER);
+    const before = preceding.match(FREQUENCY_BEFORE) ?? preceding.match(FINANCE_FREQUENCY_BEFORE);
+    const perYear = after ? frequencyOf(after[0]) : before ? frequencyOf(before[1]) : null;
+
+    if (amounts.length === 0) {
+      currency = symbol ?? trailing ?? SYMBOLS[word?.toLowerCase() ?? ""] ?? "$";
+    }
+    amounts.push({ value, perYear, start: start + figure, end: start + figureEnd });
+  }
+  return { amounts, currency };
+}
+
+function parseRate(input: string, locale?: Locale): number | null {
+  const rate = interestRate(input, locale);
+  return rate ? rate.value / 100 : null;
+}
+
+/** The percentage in a finance question and where its number sits, so it can be varied. */
+export function interestRate(
+  input: string,
+  locale?: Locale
+): { value: number; start: number; end: number } | null {
+  const match = input.match(
+    new RegExp(String.raw`(${rateNumber(locale)})\s*(?:%|percent\b|${PERCENT_WORDS})`, "iu")
+  );
+  if (!match) return null;
+  const start = match.index ?? 0;
+  return { value: parseNumber(match[1], locale), start, end: start + match[1].length };
+}
+
+/** The monthly contribution in a finance question and where its figure sits, so it can be varied. */
+export function monthlyContribution(
+  input: string,
+  locale?: Locale
+): { value: number; start: number; end: number; currency: string } | null {
+  const { amounts, currency } = parseAmounts(input, locale);
+  const contribution = amounts.find((amount) => amount.perYear === 12);
+  if (!contribution) return null;
+  return { value: contribution.value, start: contribution.start, end: contribution.end, currency };
+}
+
+function parseYears(input: string, locale?: Locale): number | null {
+  const match = input.match(
+    new RegExp(
+      String.raw`(${rateNumber(locale)})\s*(years?|yrs?|months?|weeks?|${DURATION_UNITS})(?!\p{L})`,
+      "iu"
+    )
+  );
+  if (!match) return null;
+  return parseNumber(match[1], locale) / (frequencyOf(match[2]) ?? 1);
+}
+
+function parseCompounding(input: string, fallback: number): number {
+  const match = input.match(/compound(?:ed|ing)?\s+(daily|weekly|monthly|quarterly|annually|yearly)/i);
+  const local = match ? null : input.match(COMPOUNDING_WORDS);
+  const period = match?.[1] ?? local?.[1] ?? local?.[2];
+  if (!period) return fallback;
+  return /daily/i.test(period) || DAILY_WORDS.test(period) ? 365 : frequencyOf(period) ?? fallback;
+}
+
+function detectKind(input: string, amounts: Amount[], annualRate: number | null): FinanceKind {
+  if (/\bloan\b|mortgage|\bborrow|amorti[sz]/i.test(input) || FINANCE_KINDS.loan.test(input)) {
+    return "loan";
+  }
+  if (
+    /\broi\b|return on (?:my |an |the )?investment/i.test(input) ||
+    FINANCE_KINDS.roi.test(input) ||
+    (amounts.length >= 2 &&
+      annualRate === null &&
+      (/now worth|grew to|sold (?:it )?for|made|earned|returned|got back/i.test(input) ||
+        FINANCE_KINDS.outcome.test(input)))
+  ) {
+    return "roi";
+  }
+  if (
+    /\bgoal\b|\btarget\b|\breach\b|save up|need to save|how much (?:should|do|must|can) i|how long|how many (?:weeks|months|quarters|years)/i.test(input) ||
+    FINANCE_KINDS.goal.test(input)
+  ) {
+    return "goal";
+  }
+  return "investment";
+}
+
+function parseFinanceRequest(input: string, locale?: Locale): FinanceRequest {
+  const { amounts, currency } = parseAmounts(input, locale);
+  const annualRate = parseRate(input, locale);
+  const contributionFrequency = amounts.find((amount) => amount.perYear)?.perYear ?? 12;
+  return {
+    kind: detectKind(input, amounts, annualRate),
+    currency,
+    amounts,
+    annualRate,
+    years: parseYears(input, locale),
+    compoundingPerYear: parseCompounding(input, contributionFrequency),
+    wantsTable:
+      /table|year[- ]by[- ]year|breakdown|each year|per year schedule/i.test(input) ||
+      TABLE_WORDS.test(input),
+    locale
+  };
+}
+
+/** Up to two decimals, with the locale's decimal mark. */
+function formatDecimal(value: number, locale?: Locale): string {
+  return value.toLocaleString(intlTag(locale), { maximumFractionDigits: 2, useGrouping: false });
+}
+
+function formatMoney(value: number, currency: string, locale?: Locale): string {
+  const amount = Math.abs(value).toLocaleString(intlTag(locale), {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+  return t(locale, "finance.money", { sign: value < 0 ? "-" : "", currency, amount });
+}
+
+function formatPercent(rate: number, locale?: Locale): string {
+  return t(locale, "finance.percent", { value: formatDecimal(rate * 100, locale) });
+}
+
+function formatYears(years: number, locale?: Locale): string {
+  const rounded = Number(years.toFixed(2));
+  return t(locale, "finance.years", { count: rounded, years: formatDecimal(rounded, locale) });
+}
+
+/** Converts an annual rate compounded `m` times a year into a per-period rate. */
+function periodicRate(annualRate: number, compoundingPerYear: number, periodsPerYear: number) {
+  return Math.pow(1 + annualRate / compoundingPerYear, compoundingPerYear / periodsPerYear) - 1;
+}
+
+/** Closed-form balance after `periods` of growth at `rate` with `payment` added each period. */
+function futureValue(present: number, payment: number, rate: number, periods: number): number {
+  if (rate === 0) return present + payment * periods;
+  const growth = Math.pow(1 + rate, periods);
+  return present * growth + (payment * (growth - 1)) / rate;
+}
+
+/** Period numbers that close each year of the horizon, plus the final (possibly partial) one. */
+function yearEnds(totalPeriods: number, periodsPerYear: number): number[] {
+  const ends: number[] = [];
+  for (let year = 1; year * periodsPerYear < totalPeriods; year += 1) ends.push(year * periodsPerYear);
+  if (totalPeriods > 0) ends.push(totalPeriods);
+  return ends;
+}
+
+function beyondHorizon(advice: MessageKey, locale?: Locale): ToolResult {
+  return {
+    content: t(locale, "finance.horizon", { years: MAX_YEARS, advice: t(locale, advice) }),
+    steps: [
+      {
+        title: t(locale, "step.finance"),
+        content: t(locale, "finance.horizon.step", { years: MAX_YEARS })
+      }
+    ]
+  };
+}
+
+function missing(what: MessageKey, example: MessageKey, locale?: Locale): ToolResult {
+  return {
+    content: t(locale, "finance.missing", { what: t(locale, what), example: t(locale, example) }),
+    steps: [
+      {
+        title: t(locale, "step.finance"),
+        content: t(locale, "finance.missing.step")
+      }
+    ]
+  };
+}
+
+function startingPoint(current: number, currency: string, locale?: Locale): string {
+  return current
+    ? t(locale, "finance.savings.counts", { current: formatMoney(current, currency, locale) })
+    : t(locale, "finance.savings.zero");
+}
+
+function projectInvestment(request: FinanceRequest): ToolResult {
+  const { amounts, annualRate, years, currency, compoundingPerYear, locale } = request;
+  if (annualRate === null || years === null || amounts.length === 0) {
+    return missing("finance.missing.investment", "finance.example.investment", locale);
+  }
+  if (years > MAX_YEARS) return beyondHorizon("finance.horizon.timeFrame", locale);
+
+  const contribution = amounts.find((amount) => amount.perYear !== null);
+  const principal = amounts.find((amount) => amount.perYear === null)?.value ?? 0;
+  const periodsPerYear = contribution?.perYear ?? compoundingPerYear;
+  const payment = contribution?.value ?? 0;
+  const rate = periodicRate(annualRate, compoundingPerYear, periodsPerYear);
+  const totalPeriods = Math.round(years * periodsPerYear);
+  const money = (value: number) => formatMoney(value, currency, locale);
+
+  const balance = futureValue(principal, payment, rate, totalPeriods);
+  const deposited = principal + payment * totalPeriods;
+
+  const parts = [
+    principal ? t(locale, "finance.investment.start", { amount: money(principal) }) : null,
+    payment
+      ? t(locale, "finance.investment.contribution", { amount: money(payment), times: periodsPerYear })
+      : null
+  ].filter(Boolean);
+
+  const content = [
+    t(locale, "finance.investment.result", {
+      parts: parts.join(` ${t(locale, "finance.and")} `),
+      rate: formatPercent(annualRate, locale),
+      years: formatYears(years, locale),
+      balance: money(balance)
+    }),
+    t(locale, "finance.investment.split", {
+      deposited: money(deposited),
+      interest: money(balance - deposited)
+    })
+  ];
+  if (request.wantsTable) {
+    const rows: TableRow[] = yearEnds(totalPeriods, periodsPerYear).map((period) => {
+      const yearBalance = futureValue(principal, payment, rate, period);
+      const yearDeposited = principal + payment * period;
+      return {
+        [t(locale, "finance.column.year")]: formatDecimal(period / periodsPerYear, locale),
+        [t(locale, "finance.column.deposited")]: money(yearDeposited),
+        [t(locale, "finance.column.interest")]: money(yearBalance - yearDeposited),
+        [t(locale, "finance.column.balance")]: money(yearBalance)
+      };
+    });
+    content.push(markdownTable(rows));
+  }
+
+  return {
+    content: content.join("\n\n"),
+    steps: [
+      {
+        title: t(locale, "step.parameters"),
+        content: t(locale, "finance.investment.parameters", {
+          principal: money(principal),
+          payment: money(payment),
+          periods: periodsPerYear,
+          rate: formatPercent(annualRate, locale),
+          compounding: compoundingPerYear,
+          total: totalPeriods
+        })
+      },
+      { title: t(locale, "step.formula"), content: t(locale, "finance.investment.formula") }
+    ]
+  };
+}
+
+function amortiseLoan(request: FinanceRequest): ToolResult {
+  const { amounts, annualRate, years, currency, locale } = request;
+  if (annualRate === null || years === null || amounts.length === 0) {
+    return missing("finance.missing.loan", "finance.example.loan", locale);
+  }
+  if (years > MAX_YEARS) return beyondHorizon("finance.horizon.term", locale);
+
+  const principal = amounts[0].value;
+  const rate = annualRate / 12;
+  const totalPeriods = Math.round(years * 12);
+  const payment =
+    rate === 0
+      ? principal / totalPeriods
+      : (principal * rate) / (1 - Math.pow(1 + rate, -totalPeriods));
+  const money = (value: number) => formatMoney(value, currency, locale);
+
+  const totalPaid = payment * totalPeriods;
+  const content = [
+    t(locale, "finance.loan.result", {
+      principal: money(principal),
+      rate: formatPercent(annualRate, locale),
+      years: formatYears(years, locale),
+      payment: money(payment)
+    }),
+    t(locale, "finance.loan.total", { total: money(totalPaid), interest: money(totalPaid - principal) })
+  ];
+  if (request.wantsTable) {
+    const remaining = (period: number) => Math.max(futureValue(principal, -payment, rate, period), 0);
+    const rows: TableRow[] = yearEnds(totalPeriods, 12).map((period, index, ends) => {
+      const previous = index === 0 ? 0 : ends[index - 1];
+      const principalPaid = remaining(previous) - remaining(period);
+      return {
+        [t(locale, "finance.column.year")]: String(Math.ceil(period / 12)),
+        [t(locale, "finance.column.principalPaid")]: money(principalPaid),
+        [t(locale, "finance.column.interestPaid")]: money(payment * (period - previous) - principalPaid),
+        [t(locale, "finance.column.remaining")]: money(remaining(period))
+      };
+    });
+    content.push(markdownTable(rows));
+  }
+
+  return {
+    content: content.join("\n\n"),
+    steps: [
+      {
+        title: t(locale, "step.parameters"),
+        content: t(locale, "finance.loan.parameters", {
+          principal: money(principal),
+          rate: formatPercent(annualRate, locale),
+          monthly: formatPercent(rate, locale),
+          count: totalPeriods
+        })
+      },
+      { title: t(locale, "step.formula"), content: t(locale, "finance.loan.formula") }
+    ]
+  };
+}
+
+const PERIOD_NAMES: Record<number, { count: MessageKey; per: MessageKey }> = {
+  52: { count: "finance.period.week", per: "finance.per.week" },
+  12: { count: "finance.period.month", per: "finance.per.month" },
+  4: { count: "finance.period.quarter", per: "finance.per.quarter" },
+  1: { count: "finance.period.year", per: "finance.per.year" }
+};
+
+/** Solves the future-value equation for the number of deposits needed to reach a target. */
+function timeToSavingsGoal(request: FinanceRequest, contribution: Amount): ToolResult {
+  const { amounts, currency, locale } = request;
+  const annualRate = request.annualRate ?? 0;
+  const lumps = amounts.filter((amount) => amount.perYear === null);
+  if (lumps.length === 0) {
+    return missing("finance.missing.target", "finance.example.target", locale);
+  }
+
+  const target = Math.max(...lumps.map((amount) => amount.value));
+  const current = lumps.find((amount) => amount.value !== target)?.value ?? 0;
+  const periodsPerYear = contribution.perYear ?? 12;
+  const period = PERIOD_NAMES[periodsPerYear] ?? PERIOD_NAMES[12];
+  const payment = contribution.value;
+  const rate = periodicRate(annualRate, request.compoundingPerYear, periodsPerYear);
+  const exact =
+    current >= target
+      ? 0
+      : rate === 0
+        ? (target - current) / payment
+        : Math.log((target * rate + payment) / (current * rate + payment)) / Math.log(1 + rate);
+  if (!Number.isFinite(exact) || exact / periodsPerYear > MAX_YEARS) {
+    return beyondHorizon("finance.horizon.deposit", locale);
+  }
+  const totalPeriods = Math.ceil(exact - 1e-9);
+  const balance = futureValue(current, payment, rate, totalPeriods);
+  const money = (value: number) => formatMoney(value, currency, locale);
+
+  const content = [
+    totalPeriods === 0
+      ? t(locale, "finance.target.covered", { current: money(current), target: money(target) })
+      : t(locale, "finance.target.reached", {
+          payment: money(payment),
+          per: t(locale, period.per),
+          rate: formatPercent(annualRate, locale),
+          target: money(target),
+          count: t(locale, period.count, { count: totalPeriods }),
+          about:
+            periodsPerYear === 1
+              ? ""
+              : t(locale, "finance.target.about", {
+                  years: formatYears(totalPeriods / periodsPerYear, locale)
+                }),
+          balance: money(balance)
+        }),
+    startingPoint(current, currency, locale)
+  ];
+  if (request.wantsTable && totalPeriods > 0) {
+    const rows: TableRow[] = yearEnds(totalPeriods, periodsPerYear).map((index) => ({
+      [t(locale, "finance.column.year")]: formatDecimal(index / periodsPerYear, locale),
+      [t(locale, "finance.column.balance")]: money(futureValue(current, payment, rate, index))
+    }));
+    content.push(markdownTable(rows));
+  }
+
+  return {
+    content: content.join("\n\n"),
+    steps: [
+      {
+        title: t(locale, "step.parameters"),
+        content: t(locale, "finance.target.parameters", {
+          target: money(target),
+          current: money(current),
+          payment: money(payment),
+          periods: periodsPerYear,
+          rate: formatPercent(annualRate, locale)
+        })
+      },
+      { title: t(locale, "step.formula"), content: t(locale, "finance.target.formula") }
+    ]
+  };
+}
+
+function planSavingsGoal(request: FinanceRequest): ToolResult {
+  const { amounts, years, currency, locale } = request;
+  const annualRate = request.annualRate ?? 0;
+  const contribution = amounts.find((amount) => amount.perYear !== null);
+  if (years === null && contribution) return timeToSavingsGoal(request, contribution);
+  if (years === null || amounts.length === 0) {
+    return missing("finance.missing.goal", "finance.example.goal", locale);
+  }
+  if (years > MAX_YEARS) return beyondHorizon("finance.horizon.deadline", locale);
+
+  const target = Math.max(...amounts.map((amount) => amount.value));
+  const current = amounts.find((amount) => amount.value !== target)?.value ?? 0;
+  const totalPeriods = Math.round(years * 12);
+  const rate = periodicRate(annualRate, request.compoundingPerYear, 12);
+  const growth = Math.pow(1 + rate, totalPeriods);
+  const shortfall = target - current * growth;
+  const monthly =
+    shortfall <= 0 ? 0 : rate === 0 ? shortfall / totalPeriods : (shortfall * rate) / (growth - 1);
+  const money = (value: number) => formatMoney(value, currency, locale);
+
+  const content = [
+    shortfall <= 0
+      ? t(locale, "finance.goal.grows", {
+          current: money(current),
+          target: money(target),
+          years: formatYears(years, locale)
+        })
+      : t(locale, "finance.goal.result", {
+          target: money(target),
+          years: formatYears(years, locale),
+          rate: formatPercent(annualRate, locale),
+          monthly: money(monthly)
+        }),
+    startingPoint(current, currency, locale)
+  ];
+  if (request.wantsTable) {
+    const rows: TableRow[] = yearEnds(totalPeriods, 12).map((period) => ({
+      [t(locale, "finance.column.year")]: formatDecimal(period / 12, locale),
+      [t(locale, "finance.column.balance")]: money(futureValue(current, monthly, rate, period))
+    }));
+    content.push(markdownTable(rows));
+  }
+
+  return {
+    content: content.join("\n\n"),
+    steps: [
+      {
+        title: t(locale, "step.parameters"),
+        content: t(locale, "finance.goal.parameters", {
+          target: money(target),
+          current: money(current),
+          rate: formatPercent(annualRate, locale),
+          count: totalPeriods
+        })
+      },
+      { title: t(locale, "step.formula"), content: t(locale, "finance.goal.formula") }
+    ]
+  };
+}
+
+function returnOnInvestment(request: FinanceRequest): ToolResult {
+  const { amounts, years, currency, locale } = request;
+  if (amounts.length < 2) {
+    return missing("finance.missing.roi", "finance.example.roi", locale);
+  }
+
+  const [cost, final] = [amounts[0].value, amounts[1].value];
+  const roi = (final - cost) / cost;
+  const money = (value: number) => formatMoney(value, currency, locale);
+  const steps: AgentStep[] = [
+    {
+      title: t(locale, "step.parameters"),
+      content: years
+        ? t(locale, "finance.roi.parametersOver", {
+            cost: money(cost),
+            final: money(final),
+            years: formatYears(years, locale)
+          })
+        : t(locale, "finance.roi.parameters", { cost: money(cost), final: money(final) })
+    },
+    {
+      title: t(locale, "step.formula"),
+      content: t(locale, years ? "finance.roi.formulaAnnualised" : "finance.roi.formula")
+    }
+  ];
+  const content = [
+    t(locale, "finance.roi.result", {
+      cost: money(cost),
+      final: money(final),
+      roi: formatPercent(roi, locale),
+      change: money(final - cost),
+      direction: t(locale, final >= cost ? "finance.roi.gain" : "finance.roi.loss")
+    })
+  ];
+  if (years) {
+    const annualised = Math.pow(final / cost, 1 / years) - 1;
+    content.push(
+      t(locale, "finance.roi.annualised", {
+        years: formatYears(years, locale),
+        rate: formatPercent(annualised, locale)
+      })
+    );
+  }
+  return { content: content.join("\n\n"), steps };
+}
+
+const CALCULATORS: Record<FinanceKind, (request: FinanceRequest) => ToolResult> = {
+  investment: projectInvestment,
+  loan: amortiseLoan,
+  goal: planSavingsGoal,
+  roi: returnOnInvestment
+};
+
+const KIND_NAMES: Record<FinanceKind, MessageKey> = {
+  investment: "finance.kind.investment",
+  loan: "finance.kind.loan",
+  goal: "finance.kind.goal",
+  roi: "finance.kind.roi"
+};
+
+const FIGURE = new RegExp(
+  String.raw`[$€£]\s?\d|\d\s*(?:k\b|%|percent|${CURRENCY_WORDS}|[$€£]|${PERCENT_WORDS})`,
+  "iu"
+);
+
+export const financeTool: AgentTool = {
+  id: "finance",
+  label: "Finance",
+  score: (input) =>
+    (FINANCE_KEYWORDS.test(input) || FINANCE_WORDS.test(input)) && FIGURE.test(input) ? 70 : 0,
+  run: ({ input, locale }) => {
+    const request = parseFinanceRequest(input, locale);
+    const result = CALCULATORS[request.kind](request);
+    return {
+      content: result.content,
+      steps: [
+        {
+          title: t(locale, "step.tool"),
+          content: t(locale, "finance.parsed", { kind: t(locale, KIND_NAMES[request.kind]) })
+        },
+        ...result.steps
+      ]
+    };
+  },
+  suggestions: [
+    "Show the year-by-year table",
+    "Compare this with a different interest rate",
+    "What if I contributed more each month?"
+  ]
+};
@@ -0,0 +1,781 @@
+import type { AgentMessage, AgentState, AgentStep } from "../agent";
+import { evaluate, formatQuantity, parseNumber, usesDecimalComma } from "../calculator";
+import {
+  blocksForPlan,
+  blocksForTasks,
+  defaultWorkingHours,
+  describeWorkingHours
+} from "../calendar";
+import { intlTag, t, toolLabel, type Locale, type MessageKey } from "../locale";
+import { markdownTable } from "../markdown";
+import { buildPlan, describeDay } from "../planner";
+import { detectFramework, rankTasks, type Framework, type RankedTask } from "../priorities";
+import { financeTool, interestRate, monthlyContribution } from "./finance";
+import { restoreScope } from "./math";
+import { taskLinesFor } from "./prioritize";
+import type { AgentTool, ToolContext, ToolResult } from "./registry";
+
+/** The exchange a follow-up works on: the last reply and the request behind it. */
+type Previous = {
+  reply: string;
+  request: string;
+  history: AgentMessage[];
+};
+
+type FollowUp = {
+  pattern: RegExp;
+  /** Tool whose section to read from a compound reply, if any. */
+  section?: string;
+  run: (previous: Previous, context: ToolContext) => ToolResult | Promise<ToolResult>;
+};
+
+const HEADING_LINE = /^#{1,6}\s+(.+?)\s*$/;
+const LIST_LINE = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ x]\]\s+|☐\s+)?(.*)$/;
+
+const LOW_EFFORT =
+  /\b(?:email|call|reply|review|check|book|schedule|send|update|ping|quick|fix|sign|confirm)\b/i;
+const HIGH_EFFORT =
+  /\b(?:build|write|draft|launch|design|research|plan|prepare|migrate|develop|create|deck|report|strategy|rewrite)\b/i;
+
+/** Speaker labels from summaries and command words echoed back by tools. */
+const SPEAKER_PREFIX = /^(?:\s*(?:You|Radius|Summari[sz]e|Prioriti[sz]e):\s*)+/i;
+
+function stripInline(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(SPEAKER_PREFIX, "")
+    .trim();
+}
+
+function joinWords(words: string[], locale?: Locale): string {
+  if (words.length < 2) return words.join("");
+  const last = words[words.length - 1];
+  return `${words.slice(0, -1).join(", ")} ${t(locale, "followup.explain.and")} ${last}`;
+}
+
+function listItems(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.match(LIST_LINE)?.[1])
+    .filter((item): item is string => Boolean(item))
+    .map(stripInline);
+}
+
+const MILESTONE = "◆";
+
+/** Plan steps without their dates and effort, optionally skipping milestones. */
+function planItems(content: string, milestones = false): string[] {
+  return listItems(content)
+    .filter((item) => milestones || !item.startsWith(MILESTONE))
+    .map((item) => item.split(" — ")[0]);
+}
+
+function sentences(content: string): string[] {
+  return content
+    .split("\n")
+    .filter((line) => !HEADING_LINE.test(line))
+    .map((line) => stripInline(line.replace(LIST_LINE, "$1")))
+    .flatMap((line) => line.match(/[^.!?]+[.!?]*/g) ?? [])
+    .map((line) => line.trim())
+    .filter((line) => line.length > 3);
+}
+
+/** List items under a `### Heading` inside a reply, such as a summary's action items. */
+function headedItems(content: string, heading: string): string[] {
+  const lines = content.split("\n");
+  const start = lines.findIndex(
+    (line) => line.match(HEADING_LINE)?.[1].toLowerCase() === heading.toLowerCase()
+  );
+  if (start < 0) return [];
+  const end = lines.findIndex((line, index) => index > start && HEADING_LINE.test(line));
+  return listItems(lines.slice(start + 1, end < 0 ? undefined : end).join("\n"));
+}
+
+/**
+ * Returns the body of one tool's `**Label**` section in a compound reply,
+ * whether the heading is in English or the reply's language.
+ */
+function sectionOf(content: string, tool?: string, locale?: Locale): string {
+  if (!tool) return content;
+  const labels = [toolLabel(locale, tool), toolLabel("en", tool)].map((label) =>
+    label?.toLowerCase()
+  );
+  const parts = content.split(/^\*\*(.+?)\*\*\s*$/m);
+  for (let index = 1; index < parts.length; index += 2) {
+    if (labels.includes(parts[index].toLowerCase())) return parts[index + 1].trim();
+  }
+  return content;
+}
+
+function quotedTopic(content: string, request: string): string {
+  const quoted = content.match(/(?:specifically for|finish line for|— [^"\n]*?)"([^"]+)"/);
+  return (quoted?.[1] ?? request)
+    .replace(/^.*?\b(?:ideas?|names?|brainstorm(?:ing)?)\s+(?:for|about|on)\s+/i, "")
+    .replace(/[.?!\s]+$/, "");
+}
+
+/**
+ * Finds the most recent reply that did not come from a follow-up itself, so
+ * chained follow-ups keep working on the original plan, list or calculation.
+ */
+function findPrevious(messages: AgentMessage[]): Previous | null {
+  let lastUser = -1;
+  messages.forEach((message, index) => {
+    if (message.role === "user") lastUser = index;
+  });
+  for (let index = lastUser - 1; index >= 0; index -= 1) {
+    if (messages[index].role !== "assistant") continue;
+    const requestIndex = messages
+      .slice(0, index)
+      .map((message) => message.role)
+      .lastIndexOf("user");
+    const request = messages[requestIndex]?.content ?? "";
+    if (isFollowUp(request)) continue;
+    return {
+      reply: messages[index].content,
+      request,
+      history: messages.slice(0, Math.max(requestIndex, 0))
+    };
+  }
+  return null;
+}
+
+/** What a follow-up asks for when the previous reply has nothing to work on. */
+type Needed =
+  | "plan"
+  | "ideas"
+  | "summary"
+  | "tasks"
+  | "takeaways"
+  | "recommendations"
+  | "calculation"
+  | "finance"
+  | "rate"
+  | "monthly"
+  | "previous";
+
+function needs(what: Needed, locale?: Locale): ToolResult {
+  return {
+    content: t(locale, "followup.needs", { what: t(locale, `followup.needs.${what}`) }),
+    steps: step(t(locale, "followup.needs.step"), locale)
+  };
+}
+
+function step(content: string, locale?: Locale): AgentStep[] {
+  return [{ title: t(locale, "step.followUp"), content }];
+}
+
+function effortOf(task: string): "low" | "high" {
+  if (HIGH_EFFORT.test(task)) return "high";
+  if (LOW_EFFORT.test(task) || task.split(/\s+/).length <= 4) return "low";
+  return "high";
+}
+
+function effortMinutes(task: RankedTask): number {
+  return task.effortMinutes ?? (effortOf(task.task) === "high" ? 90 : 45);
+}
+
+/** Re-ranks the tasks behind the original request, keeping its framework. */
+function rankRequest(
+  request: string,
+  { state, locale, settings }: ToolContext,
+  framework?: Framework
+): RankedTask[] {
+  const { lines } = taskLinesFor(request, state?.todos ?? []);
+  const used = framework ?? detectFramework(request, settings?.framework);
+  return rankTasks(lines, used, new Date(), locale).tasks;
+}
+
+/** Scales the first number in an expression, keeping the locale's decimal mark. */
+function replaceFirstNumber(
+  text: string,
+  replacement: (value: number) => number,
+  locale?: Locale
+): string {
+  const comma = usesDecimalComma(locale);
+  return text.replace(comma ? /\d[\d.\u00a0\u202f]*(?:,\d+)?/ : /\d[\d,]*(?:\.\d+)?/, (match) => {
+    const value = String(Number(replacement(parseNumber(match, locale)).toPrecision(10)));
+    return comma ? value.replace(".", ",") : value;
+  });
+}
+
+function headline(content: string): string {
+  return content.match(/\*\*(.+?)\*\*/)?.[1] ?? stripInline(content.split("\n")[0]);
+}
+
+/** Writes a number the way the locale's requests do, so the finance parser reads it back. */
+function writeNumber(value: number, locale?: Locale): string {
+  const text = String(value);
+  return usesDecimalComma(locale) ? text.replace(".", ",") : text;
+}
+
+async function runFinance(input: string, history: AgentMessage[], locale?: Locale) {
+  return financeTool.run({
+    input,
+    messages: [...history, { role: "user", content: input }],
+    locale
+  });
+}
+
+const JOURNEY_STAGES = ["discover", "consider", "try", "adopt", "share"] as const;
+
+const QUADRANTS: MessageKey[] = [
+  "followup.quadrant.quickWins",
+  "followup.quadrant.majorProjects",
+  "followup.quadrant.fillIns",
+  "followup.quadrant.reconsider"
+];
+
+const OPERATIONS: Array<[RegExp, MessageKey]> = [
+  [/\*/, "followup.explain.multiplies"],
+  [/\//, "followup.explain.divides"],
+  [/\+/, "followup.explain.adds"],
+  [/-/, "followup.explain.subtracts"],
+  [/\^/, "followup.explain.power"]
+];
+
+const FOLLOW_UPS: FollowUp[] = [
+  {
+    pattern: /\b7-day timeline\b/i,
+    section: "plan",
+    run: ({ reply }, { locale }) => {
+      const items = planItems(reply);
+      if (items.length === 0) return needs("plan", locale);
+      const days = 7;
+      const work = Math.min(items.length, days - 2);
+      const focus: string[][] = Array.from({ length: work }, () => []);
+      items.forEach((item, index) => focus[Math.floor((index * work) / items.length)].push(item));
+      const dayColumn = t(locale, "followup.column.day");
+      const focusColumn = t(locale, "followup.column.focus");
+      const rows = Array.from({ length: days }, (_, index) => {
+        const day = t(locale, "followup.timeline.day", { day: index + 1 });
+        if (index < work) return { [dayColumn]: day, [focusColumn]: focus[index].join(" + ") };
+        return {
+          [dayColumn]: day,
+          [focusColumn]:
+            index === days - 1
+              ? t(locale, "followup.timeline.review")
+              : t(locale, "followup.timeline.buffer")
+        };
+      });
+      return {
+        content: [t(locale, "followup.timeline.intro"), markdownTable(rows)].join("\n\n"),
+        steps: step(
+          t(locale, "followup.timeline.step", { steps: items.length, days: work }),
+          locale
+        )
+      };
+    }
+  },
+  {
+    pattern: /\bmost important milestone\b/i,
+    section: "plan",
+    run: ({ reply }, { locale }) => {
+      const items = planItems(reply, true);
+      if (items.length === 0) return needs("plan", locale);
+      const marked = items.find((item) => item.startsWith(MILESTONE));
+      const milestone = marked
+        ? marked.slice(MILESTONE.length).trim()
+        : (items.find((item) =>
+            /measurable|finish line|milestone|deliver|launch|ship/i.test(item)
+          ) ?? items[Math.floor(items.length / 2)]);
+      return {
+        content: [
+          t(locale, "followup.milestone", { milestone }),
+          t(locale, "followup.milestone.why"),
+          t(locale, "followup.milestone.done"),
+          t(locale, "followup.milestone.checkIn")
+        ].join("\n"),
+        steps: step(t(locale, "followup.milestone.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bcalendar-friendly blocks\b/i,
+    section: "plan",
+    run: ({ request }, { locale }) => {
+      if (!request.trim()) return needs("plan", locale);
+      const plan = buildPlan(request, new Date(), locale);
+      const hours = defaultWorkingHours();
+      const blocks = blocksForPlan(plan, hours).filter((block) => !block.allDay);
+      const rows = blocks.map((block) => ({
+        [t(locale, "followup.column.day")]: describeDay(block.start.slice(0, 10), locale),
+        [t(locale, "followup.column.time")]: `${block.start.slice(11)}–${block.end.slice(11)}`,
+        [t(locale, "followup.column.block")]: block.title
+      }));
+      return {
+        content: [
+          t(locale, "followup.blocks.intro", { hours: describeWorkingHours(hours) }),
+          markdownTable(rows),
+          t(locale, "followup.blocks.download")
+        ].join("\n\n"),
+        steps: step(
+          t(locale, "followup.blocks.step", { steps: plan.steps.length, blocks: blocks.length }),
+          locale
+        ),
+        data: { plan }
+      };
+    }
+  },
+  {
+    pattern: /\bnarrow ideas down\b/i,
+    section: "brainstorm",
+    run: ({ reply, request }, { locale }) => {
+      const items = listItems(reply);
+      if (items.length === 0) return needs("ideas", locale);
+      const scored = items.map((item, index) => ({
+        item,
+        score:
+          (/this week|experiment|small|quick/i.test(item) ? 2 : 0) +
+          (/customer|audience|journey|delight/i.test(item) ? 1 : 0) -
+          index * 0.1
+      }));
+      scored.sort((a, b) => b.score - a.score);
+      const [top] = scored;
+      const angle = top.item.split(" — ")[0];
+      const runnerUp = scored[1]?.item.split(" — ")[0] ?? t(locale, "followup.standout.none");
+      return {
+        content: [
+          t(locale, "followup.standout", { angle, topic: quotedTopic(reply, request) }),
+          t(locale, "followup.standout.quick"),
+          t(locale, "followup.standout.talk"),
+          t(locale, "followup.standout.runnerUp", { idea: runnerUp })
+        ].join("\n"),
+        steps: step(t(locale, "followup.standout.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\buser journey\b/i,
+    section: "brainstorm",
+    run: ({ reply, request }, { locale }) => {
+      const topic = quotedTopic(reply, request);
+      const rows = JOURNEY_STAGES.map((stage) => ({
+        [t(locale, "followup.column.stage")]: t(locale, `followup.journey.${stage}`),
+        [t(locale, "followup.column.experience")]: t(locale, `followup.journey.${stage}.text`, {
+          topic
+        })
+      }));
+      return {
+        content: [t(locale, "followup.journey.intro", { topic }), markdownTable(rows)].join("\n\n"),
+        steps: step(t(locale, "followup.journey.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\b3-sentence pitch\b/i,
+    section: "brainstorm",
+    run: ({ reply, request }, { locale }) => {
+      const topic = quotedTopic(reply, request);
+      const top = listItems(reply)[0]?.split(" — ")[0] ?? t(locale, "followup.pitch.fallback");
+      return {
+        content: [
+          t(locale, "followup.pitch.problem", { topic }),
+          t(locale, "followup.pitch.approach", { idea: top.toLowerCase() }),
+          t(locale, "followup.pitch.proof")
+        ].join(" "),
+        steps: step(t(locale, "followup.pitch.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bextract action items\b/i,
+    section: "summarize",
+    run: ({ reply }, { locale }) => {
+      const listed = headedItems(reply, t(locale, "summary.heading.actions"));
+      if (listed.length > 0) {
+        return {
+          content: [
+            t(locale, "followup.actions.title"),
+            ...listed.map((action) => `- ☐ ${action}`)
+          ].join("\n"),
+          steps: step(t(locale, "followup.actions.listed", { count: listed.length }), locale)
+        };
+      }
+      const actions = sentences(reply).filter((sentence) =>
+        /\b(?:will|need to|needs to|should|must|todo|to-do|action|next|follow up|send|schedule|prepare|draft|review|finish|book)\b/i.test(
+          sentence
+        )
+      );
+      if (actions.length === 0) {
+        return {
+          content: t(locale, "followup.actions.none"),
+          steps: step(t(locale, "followup.actions.none.step"), locale)
+        };
+      }
+      return {
+        content: [
+          t(locale, "followup.actions.title"),
+          ...actions.map((action) => `- ☐ ${action}`)
+        ].join("\n"),
+        steps: step(t(locale, "followup.actions.pulled", { count: actions.length }), locale)
+      };
+    }
+  },
+  {
+    pattern: /\brisks or open questions\b/i,
+    section: "summarize",
+    run: ({ reply }, { locale }) => {
+      const questions = headedItems(reply, t(locale, "summary.heading.questions"));
+      const flagged = [
+        ...questions,
+        ...sentences(reply).filter(
+          (sentence) =>
+            !questions.includes(sentence) &&
+            /\?|\b(?:risk|blocker|blocked|concern|unclear|unknown|depend|maybe|might|assume|worr)/i.test(
+              sentence
+            )
+        )
+      ];
+      return {
+        content: flagged.length
+          ? [t(locale, "followup.risks.title"), ...flagged.map((item) => `- ${item}`)].join("\n")
+          : [
+              t(locale, "followup.risks.none"),
+              t(locale, "followup.risks.owner"),
+              t(locale, "followup.risks.deadline"),
+              t(locale, "followup.risks.stop")
+            ].join("\n"),
+        steps: step(t(locale, "followup.risks.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bstakeholder update\b/i,
+    section: "summarize",
+    run: ({ reply }, { locale }) => {
+      const points = headedItems(reply, t(locale, "summary.heading.points"));
+      const highlights = (points.length ? points : sentences(reply))
+        .filter((sentence) => !/:$/.test(sentence))
+        .slice(0, 3);
+      if (highlights.length === 0) return needs("summary", locale);
+      const actions = headedItems(reply, t(locale, "summary.heading.actions"));
+      return {
+        content: [
+          t(locale, "followup.update.title"),
+          t(locale, "followup.update.status", { highlight: highlights[0] }),
+          [t(locale, "followup.update.highlights"), ...highlights.map((item) => `- ${item}`)].join(
+            "\n"
+          ),
+          actions.length
+            ? [t(locale, "followup.update.next"), ...actions.map((item) => `- ${item}`)].join("\n")
+            : t(locale, "followup.update.nextMissing"),
+          t(locale, "followup.update.asks")
+        ].join("\n\n"),
+        steps: step(t(locale, "followup.update.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\beffort versus impact\b/i,
+    section: "prioritize",
+    run: ({ request }, context) => {
+      const { locale } = context;
+      const tasks = rankRequest(request, context, "effort-impact");
+      if (tasks.length === 0) return needs("tasks", locale);
+      const quadrants: string[][] = QUADRANTS.map(() => []);
+      for (const task of tasks) {
+        const highImpact = Number(task.components?.Impact) >= 2;
+        const highEffort = effortMinutes(task) > 120 || effortOf(task.task) === "high";
+        quadrants[(highImpact ? 0 : 2) + (highEffort ? 1 : 0)].push(task.task);
+      }
+      return {
+        content: QUADRANTS.map((name, index) => ({ name, tasks: quadrants[index] }))
+          .filter(({ tasks: quadrant }) => quadrant.length)
+          .map(({ name, tasks: quadrant }) =>
+            [`**${t(locale, name)}**`, ...quadrant.map((task) => `- ${task}`)].join("\n")
+          )
+          .join("\n\n"),
+        steps: step(t(locale, "followup.quadrant.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bschedule the top task\b/i,
+    section: "prioritize",
+    run: ({ request }, context) => {
+      const { locale } = context;
+      const [top] = rankRequest(request, context);
+      if (!top) return needs("tasks", locale);
+      const minutes = effortMinutes(top);
+      const [block] = blocksForTasks([{ task: top.task, effortMinutes: minutes }]);
+      const when = `${describeDay(block.start.slice(0, 10), locale)} ${block.start.slice(11)}–${block.end.slice(11)}`;
+      return {
+        content: [
+          t(locale, "followup.schedule", { when, task: top.task, minutes }),
+          t(locale, "followup.schedule.slot"),
+          t(locale, "followup.schedule.output"),
+          t(locale, "followup.schedule.slip")
+        ].join("\n"),
+        steps: step(
+          t(
+            locale,
+            top.effortMinutes ? "followup.schedule.stated" : "followup.schedule.estimated",
+            {
+              minutes
+            }
+          ),
+          locale
+        ),
+        data: { tasks: [{ ...top, effortMinutes: minutes }] }
+      };
+    }
+  },
+  {
+    pattern: /\bdelegate or defer\b/i,
+    section: "prioritize",
+    run: ({ request }, context) => {
+      const { locale } = context;
+      const tasks = rankRequest(request, context);
+      if (tasks.length === 0) return needs("tasks", locale);
+      const lowest = tasks.slice(-Math.max(1, Math.floor(tasks.length / 3)));
+      return {
+        content: [
+          t(locale, "followup.delegate.intro"),
+          ...lowest.map((task) =>
+            t(
+              locale,
+              effortMinutes(task) <= 60 ? "followup.delegate.delegate" : "followup.delegate.defer",
+              { task: task.task }
+            )
+          )
+        ].join("\n"),
+        steps: step(t(locale, "followup.delegate.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bdive deeper into one takeaway\b/i,
+    run: ({ reply }, { locale }) => {
+      const [takeaway] = listItems(reply);
+      if (!takeaway) return needs("takeaways", locale);
+      return {
+        content: [
+          t(locale, "followup.takeaway", { takeaway }),
+          t(locale, "followup.takeaway.why"),
+          t(locale, "followup.takeaway.start"),
+          t(locale, "followup.takeaway.watch")
+        ].join("\n"),
+        steps: step(t(locale, "followup.takeaway.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\blayer in real constraints\b/i,
+    run: ({ reply }, { locale }) => {
+      const items = listItems(reply);
+      if (items.length === 0) return needs("recommendations", locale);
+      return {
+        content: markdownTable(
+          items.map((item) => ({
+            [t(locale, "followup.column.recommendation")]: item,
+            [t(locale, "followup.column.shortTime")]: t(locale, "followup.constraints.time"),
+            [t(locale, "followup.column.tightBudget")]: t(locale, "followup.constraints.budget"),
+            [t(locale, "followup.column.audience")]: t(locale, "followup.constraints.audience")
+          }))
+        ),
+        steps: step(t(locale, "followup.constraints.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bactionable checklist\b/i,
+    run: ({ reply }, { locale }) => {
+      const items = listItems(reply);
+      if (items.length === 0) return needs("recommendations", locale);
+      return {
+        content: [
+          t(locale, "followup.checklist.title"),
+          ...items.map((item) => `- ☐ ${item}`)
+        ].join("\n"),
+        steps: step(t(locale, "followup.checklist.step", { count: items.length }), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bcompare this result with another scenario\b|\btable of outcomes\b/i,
+    section: "math",
+    run: ({ request, history }, { locale }) => {
+      const scope = restoreScope([...history, { role: "user", content: request }], locale);
+      const base = evaluate(request, { ...scope, results: [...scope.results] }, locale);
+      if (base.kind !== "value") return needs("calculation", locale);
+      const factors = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5];
+      const rows = factors.map((factor) => {
+        const variant = replaceFirstNumber(base.expression, (value) => value * factor, locale);
+        const result = evaluate(
+          variant,
+          { variables: new Map(scope.variables), results: [...scope.results] },
+          locale
+        );
+        return {
+          [t(locale, "followup.column.scenario")]:
+            factor === 1
+              ? t(locale, "followup.scenarios.baseline")
+              : `${factor > 1 ? "+" : ""}${Math.round((factor - 1) * 100)}%`,
+          [t(locale, "followup.column.expression")]: `\`${variant}\``,
+          [t(locale, "followup.column.result")]:
+            result.kind === "value" ? formatQuantity(result.result, locale) : "—"
+        };
+      });
+      return {
+        content: [
+          t(locale, "followup.scenarios.intro", { expression: base.expression }),
+          markdownTable(rows)
+        ].join("\n\n"),
+        steps: step(t(locale, "followup.scenarios.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\bnumbers into a short explanation\b/i,
+    section: "math",
+    run: ({ request, history }, { locale }) => {
+      const scope = restoreScope([...history, { role: "user", content: request }], locale);
+      const base = evaluate(request, scope, locale);
+      if (base.kind !== "value") return needs("calculation", locale);
+      const operations = OPERATIONS.filter(([pattern]) => pattern.test(base.expression)).map(
+        ([, verb]) => t(locale, verb)
+      );
+      return {
+        content: t(locale, "followup.explain", {
+          expression: base.expression,
+          operations: joinWords(operations, locale) || t(locale, "followup.explain.combines"),
+          grouped: base.expression.includes("(") ? t(locale, "followup.explain.grouped") : "",
+          result: formatQuantity(base.result, locale)
+        }),
+        steps: step(t(locale, "followup.explain.step"), locale)
+      };
+    }
+  },
+  {
+    pattern: /\byear-by-year table\b/i,
+    section: "finance",
+    run: ({ request, history }, { locale }) => {
+      if (!financeTool.score(request)) return needs("finance", locale);
+      return runFinance(`${request} (year-by-year table)`, history, locale);
+    }
+  },
+  {
+    pattern: /\bdifferent interest rate\b/i,
+    section: "finance",
+    run: async ({ request, history }, { locale }) => {
+      const rate = interestRate(request, locale);
+      if (!rate || !financeTool.score(request)) return needs("rate", locale);
+      const base = rate.value;
+      const rates = [base - 2, base - 1, base, base + 1, base + 2].filter((value) => value >= 0);
+      const rows = [];
+      for (const value of rates) {
+        const shown = Number(value.toFixed(2));
+        const variant =
+          request.slice(0, rate.start) + writeNumber(shown, locale) + request.slice(rate.end);
+        const result = await runFinance(variant, history, locale);
+        const label = shown.toLocaleString(intlTag(locale));
+        rows.push({
+          [t(locale, "followup.column.rate")]:
+            value === base ? t(locale, "followup.rates.yours", { rate: label }) : `${label}%`,
+          [t(locale, "followup.column.result")]: headline(result.content)
+        });
+      }
+      return {
+        content: [t(locale, "followup.rates.intro"), markdownTable(rows)].join("\n\n"),
+        steps: step(
+          t(locale, "followup.rates.step", {
+            count: rates.length,
+            rate: base.toLocaleString(intlTag(locale))
+          }),
+          locale
+        )
+      };
+    }
+  },
+  {
+    pattern: /\bcontributed more each month\b/i,
+    section: "finance",
+    run: async ({ request, history }, { locale }) => {
+      const contribution = monthlyContribution(request, locale);
+      if (!contribution || !financeTool.score(request)) return needs("monthly", locale);
+      const rows = [];
+      for (const factor of [1, 1.25, 1.5, 2]) {
+        const amount = Math.round(contribution.value * factor * 100) / 100;
+        const variant =
+          request.slice(0, contribution.start) +
+          writeNumber(amount, locale) +
+          request.slice(contribution.end);
+        const result = await runFinance(variant, history, locale);
+        rows.push({
+          [t(locale, "followup.column.monthly")]: t(locale, "finance.money", {
+            sign: "",
+            currency: contribution.currency,
+            amount: amount.toLocaleString(intlTag(locale))
+          }),
+          [t(locale, "followup.column.result")]: headline(result.content)
+        });
+      }
+      return {
+        content: [t(locale, "followup.contribution.intro"), markdownTable(rows)].join("\n\n"),
+        steps: step(t(locale, "followup.contribution.step"), locale)
+      };
+    }
+  }
+];
+
+/** Prompts that need fresh input rather than a previous reply. */
+const STARTERS: Array<{ pattern: RegExp; content: MessageKey }> = [
+  {
+    pattern: /^give me a goal with a tight deadline$/i,
+    content: "followup.starter.goal"
+  },
+  {
+    pattern: /^ask me to condense a long message$/i,
+    content: "followup.starter.condense"
+  },
+  {
+    pattern: /^share tasks and i will prioritise them$/i,
+    content: "followup.starter.prioritise"
+  }
+];
+
+function matchFollowUp(input: string): FollowUp | undefined {
+  return FOLLOW_UPS.find(({ pattern }) => pattern.test(input));
+}
+
+function isFollowUp(input: string): boolean {
+  return (
+    Boolean(matchFollowUp(input)) || STARTERS.some(({ pattern }) => pattern.test(input.trim()))
+  );
+}
+
+/**
+ * Fulfils the follow-up suggestions offered by the other tools. Each one
+ * works on the previous assistant reply rather than starting over.
+ */
+export const followUpTool: AgentTool = {
+  id: "follow-up",
+  label: "Follow-up",
+  score: (input) => (isFollowUp(input) ? 90 : 0),
+  run: async (context) => {
+    const { locale } = context;
+    const starter = STARTERS.find(({ pattern }) => pattern.test(context.input.trim()));
+    if (starter) {
+      return {
+        content: t(locale, starter.content),
+        steps: step(t(locale, "followup.starter.step"), locale)
+      };
+    }
+
+    const followUp = matchFollowUp(context.input);
+    const previous = findPrevious(context.messages);
+    if (!followUp || !previous) return needs("previous", locale);
+
+    return followUp.run(
+      { ...previous, reply: sectionOf(previous.reply, followUp.section, locale) },
+      context
+    );
+  },
+  suggestions: [
+    "Convert this into an actionable checklist",
+    "Highlight risks or open questions",
+    "Ask me to dive deeper into one takeaway"
+  ]
+};
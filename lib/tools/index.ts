@@ -0,0 +1,31 @@
+import { brainstormTool } from "./brainstorm";
+import { financeTool } from "./finance";
+import { followUpTool } from "./followup";
+import { insightTool } from "./insight";
+import { mathTool } from "./math";
+import { planTool } from "./plan";
+import { prioritizeTool } from "./prioritize";
+import { createToolRegistry } from "./registry";
+import { summarizeTool } from "./summarize";
+import { todoTool } from "./todo";
+
+export { createToolRegistry } from "./registry";
+export type { AgentTool, ToolContext, ToolRegistry, ToolResult } from "./registry";
+
+export const builtinTools = [
+  followUpTool,
+  financeTool,
+  mathTool,
+  planTool,
+  brainstormTool,
+  summarizeTool,
+  todoTool,
+  prioritizeTool,
+  insightTool
+];
+
+/**
+ * Registry used by `runAgent` when no other registry is supplied. Register
+ * additional tools here to make them available to every request.
+ */
+export const defaultRegistry = createToolRegistry(builtinTools);
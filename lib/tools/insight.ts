@@ -0,0 +1,98 @@
+import type { AgentStep } from "../agent";
+import { getKnowledgeBase, type SearchResult } from "../knowledge";
+import { t, type Locale } from "../locale";
+import { askModel } from "./model";
+import type { AgentTool } from "./registry";
+
+// The best passage must match enough of the request's distinctive words
+// (by IDF) and score above noise; otherwise the generic prompt is used.
+const MIN_COVERAGE = 0.3;
+const MIN_SCORE = 0.5;
+// Further passages are shown when they score at least this share of the best.
+const RELATED_SHARE = 0.6;
+const MAX_PASSAGES = 2;
+
+const ROLE = "a concise productivity assistant";
+const INSTRUCTIONS =
+  "Answer the request or draft what it asks for in clear Markdown. Prefer short paragraphs and " +
+  "bullet points, and ground your advice in the reference material when it is relevant.";
+
+async function findPassages(input: string): Promise<SearchResult[]> {
+  try {
+    const results = await getKnowledgeBase().search(input, 3);
+    const [best] = results;
+    if (!best || best.score < MIN_SCORE || best.coverage < MIN_COVERAGE) return [];
+    return results
+      .filter((result) => result.score >= best.score * RELATED_SHARE)
+      .slice(0, MAX_PASSAGES);
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+}
+
+function describePassages(results: SearchResult[]): string {
+  return results
+    .map(({ passage }) =>
+      results.length > 1 || passage.heading
+        ? `**${passage.heading ?? passage.title}**\n\n${passage.text}`
+        : passage.text
+    )
+    .join("\n\n");
+}
+
+/** Names the passages a reply draws on, whether the model or the passages answer. */
+function knowledgeStep(results: SearchResult[], locale?: Locale): AgentStep {
+  return {
+    title: t(locale, "step.knowledge"),
+    content: `${t(locale, "insight.knowledge")}\n\n${results
+      .map(
+        ({ passage, score }, index) =>
+          `${index + 1}. ${passage.title} — \`${passage.source}\` (score ${score})`
+      )
+      .join("\n")}`
+  };
+}
+
+/**
+ * Catch-all tool: scores just above zero so any more specific tool wins.
+ */
+export const insightTool: AgentTool = {
+  id: "insight",
+  label: "Insight",
+  fallback: true,
+  score: () => 1,
+  run: async (context) => {
+    const passages = await findPassages(context.input);
+    const reference = passages.length > 0 ? describePassages(passages) : undefined;
+    const model = await askModel(context, ROLE, INSTRUCTIONS, reference);
+    if (model.result) {
+      if (passages.length === 0) return model.result;
+      return {
+        ...model.result,
+        steps: [...model.result.steps, knowledgeStep(passages, context.locale)]
+      };
+    }
+    if (passages.length > 0) {
+      return {
+        content: describePassages(passages),
+        steps: [...model.steps, knowledgeStep(passages, context.locale)]
+      };
+    }
+    return {
+      content: t(context.locale, "insight.fallback"),
+      steps: [
+        ...model.steps,
+        {
+          title: t(context.locale, "step.fallback"),
+          content: t(context.locale, "insight.fallback.step")
+        }
+      ]
+    };
+  },
+  suggestions: [
+    "Ask me to dive deeper into one takeaway",
+    "Layer in real constraints (time, budget, audience)",
+    "Convert this into an actionable checklist"
+  ]
+};
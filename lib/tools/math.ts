@@ -0,0 +1,88 @@
+import type { AgentMessage, AgentStep } from "../agent";
+import { createScope, evaluate, formatQuantity, type CalculatorScope } from "../calculator";
+import { t, type Locale } from "../locale";
+import type { AgentTool } from "./registry";
+
+const UNIT_WORDS =
+  "mm|cm|m|km|inch(?:es)?|ft|feet|foot|yd|yards?|mi|miles?|g|kg|kilos?|t|tonnes?|oz|ounces?|lbs?|pounds?|usd|eur|gbp|jpy|cad|aud|chf|inr";
+
+const CONVERT_WORDS = "in|to|as|into|en|a|nach";
+
+const CALCULATION_PATTERNS = [
+  // Requires an operator between two numbers so amounts like "$2,000" or
+  // "3 calls" are not mistaken for arithmetic.
+  /[0-9.)]\s*[+\-*/%^][\s+\-*/%^]*[(0-9]/,
+  /^\s*(?:let\s+|set\s+)?[a-z_][a-z0-9_]*\s*=\s*\S/i,
+  /\bans\d*\b/i,
+  /\b[a-z_][a-z0-9_]*\s+[+\-*/^]\s+[0-9(]|[0-9)]\s+[+\-*/^]\s+[a-z_]/i,
+  new RegExp(`\\d\\s*(?:${UNIT_WORDS})\\s+(?:${CONVERT_WORDS})\\s+(?:${UNIT_WORDS})\\b`, "i"),
+  new RegExp(
+    `^\\s*[a-z_][a-z0-9_]*\\s+(?:${CONVERT_WORDS})\\s+(?:${UNIT_WORDS})\\s*[?.!]?\\s*$`,
+    "i"
+  ),
+  new RegExp(`[$€£¥]\\s?\\d[\\d,.]*\\s+(?:${CONVERT_WORDS})\\s+(?:${UNIT_WORDS})\\b`, "i")
+];
+
+export function isCalculation(input: string): boolean {
+  return CALCULATION_PATTERNS.some((pattern) => pattern.test(input));
+}
+
+/**
+ * Rebuilds variables and previous results by replaying earlier calculator
+ * inputs, so state survives even though each request carries only history.
+ */
+export function restoreScope(messages: AgentMessage[], locale?: Locale): CalculatorScope {
+  const scope = createScope();
+  let lastUser = -1;
+  messages.forEach((message, index) => {
+    if (message.role === "user") lastUser = index;
+  });
+  messages.slice(0, Math.max(lastUser, 0)).forEach((message) => {
+    if (message.role === "user" && isCalculation(message.content)) {
+      evaluate(message.content, scope, locale);
+    }
+  });
+  return scope;
+}
+
+function describeScope(scope: CalculatorScope, locale?: Locale): string {
+  const variables = Array.from(scope.variables.entries()).map(
+    ([name, quantity]) => `${name} = ${formatQuantity(quantity, locale)}`
+  );
+  const memory = t(locale, "math.memory", { count: scope.results.length });
+  return variables.length
+    ? `${memory} ${t(locale, "math.variables", { variables: variables.join(", ") })}`
+    : memory;
+}
+
+export const mathTool: AgentTool = {
+  id: "math",
+  label: "Calculation",
+  score: (input) => (isCalculation(input) ? 60 : 0),
+  run: ({ input, messages, locale }) => {
+    const scope = restoreScope(messages, locale);
+    const evaluation = evaluate(input, scope, locale);
+    const steps: AgentStep[] = [{ title: t(locale, "step.tool"), content: t(locale, "math.tool") }];
+
+    if (evaluation.kind === "empty") {
+      return { content: t(locale, "math.empty"), steps };
+    }
+    if (evaluation.kind === "error") {
+      return { content: evaluation.message, steps };
+    }
+
+    steps.push({ title: t(locale, "step.memory"), content: describeScope(scope, locale) });
+    const value = formatQuantity(evaluation.result, locale);
+    return {
+      content: evaluation.assigned
+        ? t(locale, "math.saved", { name: evaluation.assigned, value })
+        : t(locale, "math.result", { expression: evaluation.expression.trim(), value }),
+      steps
+    };
+  },
+  suggestions: [
+    "Compare this result with another scenario",
+    "Ask me to turn the numbers into a short explanation",
+    "Create a table of outcomes with different variables"
+  ]
+};
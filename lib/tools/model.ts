@@ -0,0 +1,83 @@
+import type { AgentMessage, AgentStep } from "../agent";
+import { DEFAULT_LOCALE, languageName, t } from "../locale";
+import { describePersona, systemInstructions } from "../settings";
+import type { ToolContext, ToolResult } from "./registry";
+
+/** Earlier messages sent along with the request, so replies stay in context. */
+const MAX_HISTORY = 12;
+
+export type ModelAttempt = {
+  /** The model's reply, when a model is configured and answered. */
+  result?: ToolResult;
+  /** Notes to show before the heuristic reply when the model failed. */
+  steps: AgentStep[];
+};
+
+/**
+ * Asks the configured language model to answer the request, in the
+ * request's language and as the persona the settings describe; `role` says
+ * what the assistant is for this tool, e.g. "a creative partner". Free-form
+ * instructions in the system messages are passed on after it. Without a
+ * model, or when it errors or times out, the caller falls back to its
+ * heuristics.
+ */
+export async function askModel(
+  { input, messages, llm, locale, settings }: ToolContext,
+  role: string,
+  instructions: string,
+  reference?: string
+): Promise<ModelAttempt> {
+  if (!llm) return { steps: [] };
+  const persona = `${describePersona(role, settings)} ${instructions}`;
+  const prompted =
+    locale && locale !== DEFAULT_LOCALE ? `${persona} Reply in ${languageName(locale)}.` : persona;
+  const context = systemInstructions(messages);
+  const system = [
+    prompted,
+    context &&
+      `Instructions from the conversation (the settings above win where they disagree):\n\n${context}`,
+    reference && `Reference material:\n\n${reference}`
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  // System messages are folded into the prompt above, so they are not repeated.
+  const conversation = messages.filter((message) => message.role !== "system");
+  const lastUser = conversation.map((message) => message.role).lastIndexOf("user");
+  const history = (lastUser >= 0 ? conversation.slice(0, lastUser) : conversation).slice(
+    -MAX_HISTORY
+  );
+  const prompt: AgentMessage[] = [
+    { role: "system", content: system },
+    ...history,
+    { role: "user", content: input }
+  ];
+  try {
+    const content = await llm.complete(prompt);
+    return {
+      result: {
+        content,
+        drafted: true,
+        steps: [
+          {
+            title: t(locale, "step.model"),
+            content: t(locale, "model.drafted", { model: llm.model })
+          }
+        ]
+      },
+      steps: []
+    };
+  } catch (error) {
+    console.error("Language model request failed:", error);
+    return {
+      steps: [
+        {
+          title: t(locale, "step.model"),
+          content: t(locale, "model.failed", {
+            model: llm.model,
+            reason: error instanceof Error ? error.message : "unknown error"
+          })
+        }
+      ]
+    };
+  }
+}
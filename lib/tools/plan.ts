@@ -0,0 +1,35 @@
+import { t } from "../locale";
+import { PLAN_WORDS } from "../locale/lexicon";
+import { buildPlan, describePlan } from "../planner";
+import type { AgentTool } from "./registry";
+
+export const planTool: AgentTool = {
+  id: "plan",
+  label: "Plan",
+  score: (input) =>
+    /plan|schedule|roadmap|steps|strategy/i.test(input) || PLAN_WORDS.test(input) ? 50 : 0,
+  run: ({ input, locale }) => {
+    const plan = buildPlan(input, new Date(), locale);
+    const milestones = plan.steps.filter((step) => step.milestone).length;
+    return {
+      content: describePlan(plan, locale),
+      steps: [
+        {
+          title: t(locale, "step.method"),
+          content: t(locale, "plan.method", {
+            steps: plan.steps.length,
+            count: milestones,
+            start: plan.start,
+            deadline: plan.deadline
+          })
+        }
+      ],
+      data: { plan }
+    };
+  },
+  suggestions: [
+    "Request a 7-day timeline for the plan",
+    "Ask for the single most important milestone",
+    "Turn the plan into calendar-friendly blocks"
+  ]
+};
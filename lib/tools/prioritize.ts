@@ -0,0 +1,134 @@
+import { t, type Locale, type MessageKey } from "../locale";
+import {
+  PRIORITISE_ASK,
+  PRIORITISE_WORDS,
+  STORED_LIST as LOCAL_STORED_LIST
+} from "../locale/lexicon";
+import { markdownTable, type TableRow } from "../markdown";
+import {
+  detectFramework,
+  frameworkFormula,
+  frameworkName,
+  rankTasks,
+  splitTasks,
+  type Ranking
+} from "../priorities";
+import { pendingTodos, todoLine, type TodoItem } from "../todos";
+import type { AgentTool } from "./registry";
+
+export type { RankedTask } from "../priorities";
+
+const STORED_LIST = /\b(?:my|the)\s+(?:to-?do\s+|task\s+)?(?:list|to-?dos)\b/i;
+
+/**
+ * Task lines for the request: the pasted tasks, or the open items on the
+ * session's list when the request refers to it or names no tasks.
+ */
+export function taskLinesFor(
+  input: string,
+  todos: TodoItem[]
+): { lines: string[]; stored: boolean } {
+  const pending = pendingTodos(todos);
+  const pasted = splitTasks(input);
+  const named = STORED_LIST.test(input) || LOCAL_STORED_LIST.test(input);
+  if (pending.length > 0 && (named || pasted.length === 0)) {
+    return { lines: pending.map(todoLine), stored: true };
+  }
+  return { lines: pasted, stored: false };
+}
+
+/** Catalogue keys for the component columns and the words that fill them. */
+const COLUMNS: Record<string, MessageKey> = {
+  Task: "priorities.column.task",
+  Urgency: "priorities.column.urgency",
+  Impact: "priorities.column.impact",
+  Weight: "priorities.column.weight",
+  Due: "priorities.column.due",
+  Score: "priorities.column.score",
+  Urgent: "priorities.column.urgent",
+  Important: "priorities.column.important",
+  Quadrant: "priorities.column.quadrant",
+  Effort: "priorities.column.effort",
+  Reach: "priorities.column.reach",
+  Confidence: "priorities.column.confidence"
+};
+
+const VALUES: Record<string, MessageKey> = {
+  yes: "priorities.yes",
+  no: "priorities.no",
+  "Do first": "priorities.quadrant.doFirst",
+  Schedule: "priorities.quadrant.schedule",
+  Delegate: "priorities.quadrant.delegate",
+  Eliminate: "priorities.quadrant.eliminate",
+  "Major project": "priorities.quadrant.majorProject",
+  "Quick win": "priorities.quadrant.quickWin",
+  Thankless: "priorities.quadrant.thankless",
+  "Fill-in": "priorities.quadrant.fillIn"
+};
+
+/** Translates a table row for display; the ranking data keeps the English keys. */
+function localRow(row: TableRow, locale?: Locale): TableRow {
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [
+      column in COLUMNS ? t(locale, COLUMNS[column]) : column,
+      typeof value === "string" && value in VALUES ? t(locale, VALUES[value]) : value
+    ])
+  );
+}
+
+/** Brief replies keep the ranked list and leave out the table of scores. */
+function describeRanking({ framework, tasks }: Ranking, locale?: Locale, brief = false): string {
+  if (tasks.length === 0) return t(locale, "priorities.empty");
+  const rows = tasks.map((item, position) =>
+    localRow({ "#": position + 1, Task: item.task, ...item.components }, locale)
+  );
+  return [
+    t(locale, "priorities.header", {
+      framework: frameworkName(framework, locale),
+      formula: frameworkFormula(framework, locale)
+    }),
+    tasks
+      .map((item, position) =>
+        t(locale, "priorities.line", { position: position + 1, task: item.task, score: item.score })
+      )
+      .join("\n"),
+    ...(brief ? [] : [markdownTable(rows)])
+  ].join("\n\n");
+}
+
+export const prioritizeTool: AgentTool = {
+  id: "prioritize",
+  label: "Priorities",
+  greedy: true,
+  // Leading with the ask ("Prioritise: …") beats task names such as "plan offsite".
+  score: (input) =>
+    /^\s*(?:please\s+)?(?:prioriti[sz]e|rank)\b/i.test(input) || PRIORITISE_ASK.test(input)
+      ? 55
+      : /prioriti[sz]e|ranking|order.*tasks|what to do first/i.test(input) ||
+          PRIORITISE_WORDS.test(input)
+        ? 20
+        : 0,
+  run: ({ input, state, locale, settings }) => {
+    const { lines, stored } = taskLinesFor(input, state?.todos ?? []);
+    const framework = detectFramework(input, settings?.framework);
+    const ranking = rankTasks(lines, framework, new Date(), locale);
+    return {
+      content: describeRanking(ranking, locale, settings?.verbosity === "brief"),
+      steps: [
+        {
+          title: t(locale, "step.method"),
+          content: t(locale, "priorities.method", {
+            stored: stored ? t(locale, "priorities.stored") : "",
+            framework: frameworkName(ranking.framework, locale)
+          })
+        }
+      ],
+      ...(ranking.tasks.length > 0 && { data: { tasks: ranking.tasks } })
+    };
+  },
+  suggestions: [
+    "Group tasks by effort versus impact",
+    "Schedule the top task with a realistic time slot",
+    "Delegate or defer the lowest priorities"
+  ]
+};
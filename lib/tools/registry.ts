@@ -0,0 +1,84 @@
+import type { AgentData, AgentMessage, AgentState, AgentStep } from "../agent";
+import type { LlmClient } from "../llm";
+import type { Locale } from "../locale";
+import type { AssistantSettings } from "../settings";
+
+export type ToolContext = {
+  input: string;
+  messages: AgentMessage[];
+  /** Per-session state such as the task list. */
+  state?: AgentState;
+  /** Language model for free-form replies, when one is configured. */
+  llm?: LlmClient;
+  /** Language to reply in; English when absent. */
+  locale?: Locale;
+  /** The conversation's persona, tone, verbosity and default framework. */
+  settings?: AssistantSettings;
+};
+
+export type ToolResult = {
+  content: string;
+  steps: AgentStep[];
+  /** Structured counterpart of the content, passed through on the reply. */
+  data?: AgentData;
+  /** Parts of the session state this tool changed; merged over the current state. */
+  state?: AgentState;
+  /** Written by the language model, which already follows the tone settings. */
+  drafted?: boolean;
+};
+
+export type AgentTool = {
+  id: string;
+  /** Heading used for this tool's section in compound replies. */
+  label?: string;
+  /**
+   * Returns how strongly the input calls for this tool. Zero (or less) means
+   * the tool does not apply; the highest positive score wins.
+   */
+  score: (input: string) => number;
+  run: (context: ToolContext) => ToolResult | Promise<ToolResult>;
+  suggestions: string[];
+  /** Catch-all tool; never splits a compound request on its own. */
+  fallback?: boolean;
+  /** Keeps the rest of the message as input, e.g. a list of tasks. */
+  greedy?: boolean;
+};
+
+export type ToolRegistry = {
+  register: (tool: AgentTool) => void;
+  unregister: (id: string) => boolean;
+  get: (id: string) => AgentTool | undefined;
+  list: () => AgentTool[];
+  resolve: (input: string) => AgentTool | null;
+};
+
+export function createToolRegistry(initial: AgentTool[] = []): ToolRegistry {
+  const tools = new Map<string, AgentTool>();
+
+  function register(tool: AgentTool) {
+    tools.set(tool.id, tool);
+  }
+
+  function resolve(input: string): AgentTool | null {
+    let best: AgentTool | null = null;
+    let bestScore = 0;
+    for (const tool of tools.values()) {
+      const score = tool.score(input);
+      if (score > bestScore) {
+        best = tool;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  initial.forEach(register);
+
+  return {
+    register,
+    unregister: (id) => tools.delete(id),
+    get: (id) => tools.get(id),
+    list: () => Array.from(tools.values()),
+    resolve
+  };
+}
@@ -0,0 +1,68 @@
+import { t, type Locale } from "../locale";
+import { SUMMARY_WORDS } from "../locale/lexicon";
+import {
+  describeSummary,
+  detectSummaryLength,
+  matchSummaryRequest,
+  pastedText,
+  summarizeMessages,
+  type ConversationSummary,
+  type SummaryLength
+} from "../summarizer";
+import type { Verbosity } from "../settings";
+import type { AgentTool } from "./registry";
+
+function describeMethod(summary: ConversationSummary, pasted: boolean, locale?: Locale): string {
+  const found = [
+    t(locale, "summary.count.decisions", { count: summary.decisions.length }),
+    t(locale, "summary.count.actions", { count: summary.actions.length }),
+    t(locale, "summary.count.questions", { count: summary.questions.length })
+  ].join(", ");
+  return t(locale, "summary.method", {
+    source: t(locale, pasted ? "summary.source.pasted" : "summary.source.conversation"),
+    points: summary.keyPoints.length,
+    length: t(locale, `summary.length.${summary.length}`),
+    found
+  });
+}
+
+/** Summary length for requests that do not ask for one. */
+const LENGTHS: Record<Verbosity, SummaryLength> = {
+  brief: "one-liner",
+  normal: "short",
+  detailed: "detailed"
+};
+
+export const summarizeTool: AgentTool = {
+  id: "summarize",
+  label: "Summary",
+  score: (input) =>
+    matchSummaryRequest(input)?.[2] !== undefined
+      ? 75
+      : /summarise|summarize|recap|tl;dr/i.test(input) || SUMMARY_WORDS.test(input)
+        ? 30
+        : 0,
+  // Pasted notes after "Summarize:" stay whole instead of being split into requests.
+  greedy: true,
+  run: ({ input, messages, locale, settings }) => {
+    const pasted = pastedText(input);
+    const source = pasted ? [{ role: "user" as const, content: pasted }] : messages;
+    const length = detectSummaryLength(input, LENGTHS[settings?.verbosity ?? "normal"]);
+    const summary = summarizeMessages(source, length, new Date(), locale, settings?.name);
+    return {
+      content: describeSummary(summary, locale),
+      steps: [
+        {
+          title: t(locale, "step.method"),
+          content: describeMethod(summary, Boolean(pasted), locale)
+        }
+      ],
+      data: { summary }
+    };
+  },
+  suggestions: [
+    "Extract action items from the summary",
+    "Highlight risks or open questions",
+    "Refine the summary for a stakeholder update"
+  ]
+};
@@ -0,0 +1,218 @@
+import type { AgentStep } from "../agent";
+import { t, type Locale } from "../locale";
+import { TODO_PHRASES } from "../locale/lexicon";
+import { describeDay } from "../planner";
+import {
+  addTodos,
+  clearCompleted,
+  completeTodo,
+  describeTodo,
+  describeTodos,
+  findTodo,
+  moveTodo,
+  pendingTodos,
+  removeTodo,
+  splitTodoItems,
+  type TodoItem
+} from "../todos";
+import type { AgentTool, ToolResult } from "./registry";
+
+type TodoAction = {
+  /** English phrasing first, then the other languages'. */
+  patterns: RegExp[];
+  run: (match: RegExpMatchArray, todos: TodoItem[], locale?: Locale) => ToolResult;
+};
+
+const LIST = String.raw`(?:my|the)\s+(?:to-?do\s+|task\s+)?(?:list|to-?dos?|tasks)`;
+const DAY = String.raw`(?:today|tonight|tomorrow|next\s+week|next\s+month|(?:next\s+)?(?:mon|tues|wednes|thurs|fri|satur|sun)day|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+[a-z]{3,9}|[a-z]{3,9}\s+\d{1,2}(?:st|nd|rd|th)?)`;
+
+function step(content: string, locale?: Locale): AgentStep[] {
+  return [{ title: t(locale, "step.tasks"), content }];
+}
+
+function unknown(query: string, todos: TodoItem[], locale?: Locale): ToolResult {
+  return {
+    content: [
+      t(locale, "todo.notFound", { query }),
+      pendingTodos(todos).length > 0 ? describeTodos(todos, locale) : ""
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    steps: step(t(locale, "todo.notFound.step", { query }), locale)
+  };
+}
+
+function changed(todos: TodoItem[], content: string, summary: string, locale?: Locale): ToolResult {
+  return {
+    content: `${content}\n\n${describeTodos(todos, locale)}`,
+    steps: step(summary, locale),
+    state: { todos }
+  };
+}
+
+// Checked in order; the first matching phrasing wins.
+const ACTIONS: TodoAction[] = [
+  {
+    patterns: [
+      new RegExp(
+        String.raw`^\s*(?:please\s+)?(?:add|put)\s+([\s\S]+?)\s+(?:to|on(?:to)?)\s+${LIST}\b|^\s*(?:to-?do|remind me to)\s*:?\s+([\s\S]+)`,
+        "i"
+      ),
+      ...TODO_PHRASES.add
+    ],
+    run: (match, todos, locale) => {
+      const result = addTodos(todos, splitTodoItems(match[1] ?? match[2]));
+      if (result.added.length === 0) {
+        return {
+          content: `${t(locale, "todo.duplicate")}\n\n${describeTodos(todos, locale)}`,
+          steps: step(t(locale, "todo.duplicate.step"), locale)
+        };
+      }
+      return changed(
+        result.todos,
+        t(locale, "todo.added", {
+          items: result.added.map((item) => `**${item.text}**`).join(", ")
+        }),
+        t(locale, "todo.added.step", { count: result.added.length }),
+        locale
+      );
+    }
+  },
+  {
+    patterns: [
+      /\b(?:mark|tick|check|cross)\s+(?:off\s+)?(.+?)\s+(?:as\s+)?(?:done|complete|completed|finished|off)\b|\b(?:tick|check|cross)\s+off\s+(.+?)\s*[.!]?$/i,
+      ...TODO_PHRASES.complete
+    ],
+    run: (match, todos, locale) => {
+      const query = (match[1] ?? match[2]).trim();
+      const item = findTodo(todos, query);
+      if (!item) return unknown(query, todos, locale);
+      if (item.done) {
+        return {
+          content: `${t(locale, "todo.alreadyDone", { item: item.text })}\n\n${describeTodos(todos, locale)}`,
+          steps: step(t(locale, "todo.alreadyDone.step"), locale)
+        };
+      }
+      return changed(
+        completeTodo(todos, item.id),
+        t(locale, "todo.completed", { item: item.text }),
+        t(locale, "todo.completed.step", { query, item: item.text }),
+        locale
+      );
+    }
+  },
+  {
+    patterns: [
+      new RegExp(String.raw`\b(?:remove|delete|drop)\s+(.+?)\s+(?:from|off)\s+${LIST}\b`, "i"),
+      ...TODO_PHRASES.remove
+    ],
+    run: (match, todos, locale) => {
+      const item = findTodo(todos, match[1]);
+      if (!item) return unknown(match[1], todos, locale);
+      return changed(
+        removeTodo(todos, item.id),
+        t(locale, "todo.removed", { item: item.text }),
+        t(locale, "todo.removed.step", { query: match[1], item: item.text }),
+        locale
+      );
+    }
+  },
+  {
+    patterns: [
+      /\bclear\s+(?:out\s+)?(?:the\s+|my\s+)?(?:done|completed|finished)\b/i,
+      ...TODO_PHRASES.clear
+    ],
+    run: (_match, todos, locale) => {
+      const remaining = clearCompleted(todos);
+      return changed(
+        remaining,
+        t(locale, "todo.cleared", { count: todos.length - remaining.length }),
+        t(locale, "todo.cleared.step"),
+        locale
+      );
+    }
+  },
+  {
+    patterns: [
+      new RegExp(
+        String.raw`\b(?:move|push|postpone|defer|reschedule|bump)\s+(.+?)\s+(?:to|until|till|for)\s+(${DAY})\b`,
+        "i"
+      ),
+      ...TODO_PHRASES.move
+    ],
+    run: (match, todos, locale) => {
+      const item = findTodo(todos, match[1]);
+      if (!item) return unknown(match[1], todos, locale);
+      const moved = moveTodo(todos, item.id, match[2], new Date(), locale);
+      if (!moved) {
+        return {
+          content: t(locale, "todo.unknownDay", { day: match[2] }),
+          steps: step(t(locale, "todo.unknownDay.step"), locale)
+        };
+      }
+      return changed(
+        moved.todos,
+        t(locale, "todo.moved", { item: item.text, day: describeDay(moved.due, locale) }),
+        t(locale, "todo.moved.step", { day: match[2], due: moved.due }),
+        locale
+      );
+    }
+  },
+  {
+    patterns: [
+      new RegExp(
+        String.raw`\bwhat(?:'|’)?s\s+(?:left|still\s+open|on\s+(?:my\s+(?:list|plate)|the\s+list))|\bwhat\s+is\s+left\b|\bwhat\s+do\s+i\s+(?:still\s+)?(?:have|need)\s+to\s+do\b|\b(?:show|list|see|view|read)\s+(?:me\s+)?${LIST}\b`,
+        "i"
+      ),
+      ...TODO_PHRASES.list
+    ],
+    run: (_match, todos, locale) => {
+      const pending = pendingTodos(todos);
+      const [next] = pending;
+      return {
+        content: [
+          describeTodos(todos, locale),
+          next ? t(locale, "todo.nextUp", { item: describeTodo(next, locale) }) : ""
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+        steps: step(
+          t(locale, "todo.read.step", { count: todos.length, open: pending.length }),
+          locale
+        )
+      };
+    }
+  }
+];
+
+function matchAction(input: string) {
+  for (const action of ACTIONS) {
+    for (const pattern of action.patterns) {
+      const match = input.match(pattern);
+      if (match) return { action, match };
+    }
+  }
+  return null;
+}
+
+/**
+ * Keeps a task list in the session state: add, complete, remove, move to
+ * another day and review what is left. Items are matched by number or name.
+ */
+export const todoTool: AgentTool = {
+  id: "todo",
+  label: "Task list",
+  score: (input) => (matchAction(input) ? 60 : 0),
+  run: ({ input, state, locale }) => {
+    const todos = state?.todos ?? [];
+    const found = matchAction(input);
+    if (!found) {
+      return {
+        content: describeTodos(todos, locale),
+        steps: step(t(locale, "todo.shown.step"), locale)
+      };
+    }
+    return found.action.run(found.match, todos, locale);
+  },
+  suggestions: ["What's left on my list?", "Prioritise my list", "Clear completed items"]
+};
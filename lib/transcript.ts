@@ -0,0 +1,114 @@
+import { transcriptSchema, validate } from "./api/schema";
+import { DEFAULT_NAME, type AssistantSettings } from "./settings";
+import {
+  TRANSCRIPT_FORMAT,
+  TRANSCRIPT_VERSION,
+  type AgentMessage,
+  type AgentState,
+  type DisplayMessage,
+  type Transcript
+} from "./api/types";
+
+export type TranscriptSource = {
+  title: string;
+  createdAt?: string;
+  messages: DisplayMessage[];
+  state?: AgentState;
+  settings?: AssistantSettings;
+};
+
+/** Builds the JSON export, keeping only the fields the format defines. */
+export function createTranscript(source: TranscriptSource, now = new Date()): Transcript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    title: source.title,
+    exportedAt: now.toISOString(),
+    ...(source.createdAt && { createdAt: source.createdAt }),
+    messages: source.messages.map(({ role, content, steps, suggestions, data }) => ({
+      role,
+      content,
+      ...(steps?.length && { steps }),
+      ...(suggestions?.length && { suggestions }),
+      ...(data && { data })
+    })),
+    ...(source.state && { state: source.state }),
+    ...(source.settings && { settings: source.settings })
+  };
+}
+
+/**
+ * Reads a JSON export, throwing an error with a readable message when the
+ * file is not a transcript or was written by a newer version.
+ */
+export function parseTranscript(text: string): Transcript {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const { format, version } = (value ?? {}) as Partial<Transcript>;
+  if (format !== TRANSCRIPT_FORMAT) throw new Error("The file is not a Radius transcript.");
+  if (typeof version === "number" && version > TRANSCRIPT_VERSION) {
+    throw new Error(
+      `The transcript uses format version ${version}, but this version of Radius reads up to ${TRANSCRIPT_VERSION}.`
+    );
+  }
+  const issue = validate(transcriptSchema, value, "transcript");
+  if (issue) throw new Error(issue.message);
+  return value as Transcript;
+}
+
+/** The transcript as agent history: roles and text, without blank messages. */
+export function transcriptHistory(transcript: Transcript): AgentMessage[] {
+  return transcript.messages
+    .filter((message) => message.content.trim())
+    .map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * Renders the conversation as Markdown for docs and wikis. Each reply keeps
+ * its reasoning steps and suggestions; the task list follows at the end.
+ */
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const exported = transcript.exportedAt.slice(0, 10);
+  const lines = [`# ${transcript.title}`, "", `_Exported from Radius on ${exported}._`];
+  const assistant = transcript.settings?.name ?? DEFAULT_NAME;
+
+  for (const message of transcript.messages) {
+    lines.push("", `## ${message.role === "user" ? "You" : assistant}`, "", message.content.trim());
+    if (message.steps?.length) {
+      lines.push("", "**Steps**", "");
+      message.steps.forEach((step, index) => {
+        lines.push(`${index + 1}. **${step.title}** — ${step.content.replace(/\s*\n\s*/g, " ")}`);
+      });
+    }
+    if (message.suggestions?.length) {
+      lines.push("", "**Suggestions**", "", ...message.suggestions.map((item) => `- ${item}`));
+    }
+  }
+
+  const todos = transcript.state?.todos ?? [];
+  if (todos.length > 0) {
+    lines.push(
+      "",
+      "## Task list",
+      "",
+      ...todos.map(
+        (todo) => `- [${todo.done ? "x" : " "}] ${todo.text}${todo.due ? ` (due ${todo.due})` : ""}`
+      )
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** A file name such as `launch-plan.md` for the conversation's title. */
+export function transcriptFilename(title: string, extension: "md" | "json"): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "radius-conversation"}.${extension}`;
+}
@@ -0,0 +1,102 @@
+export type Dimension = "length" | "mass" | "currency";
+
+export type Unit = {
+  symbol: string;
+  dimension: Dimension;
+  /** Multiplier that converts one of this unit into the dimension's base unit. */
+  factor: number;
+};
+
+/**
+ * Static USD exchange rates: one unit of each currency in US dollars.
+ * Override with `RADIUS_CURRENCY_RATES`, a JSON object such as `{"EUR": 1.1}`.
+ */
+export const DEFAULT_CURRENCY_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  JPY: 0.0067,
+  CAD: 0.73,
+  AUD: 0.66,
+  CHF: 1.12,
+  INR: 0.012
+};
+
+function currencyRates(): Record<string, number> {
+  const override = typeof process !== "undefined" ? process.env.RADIUS_CURRENCY_RATES : undefined;
+  if (!override) return DEFAULT_CURRENCY_RATES;
+  try {
+    const parsed = JSON.parse(override) as Record<string, unknown>;
+    const rates = { ...DEFAULT_CURRENCY_RATES };
+    for (const [code, rate] of Object.entries(parsed)) {
+      if (typeof rate === "number" && rate > 0) rates[code.toUpperCase()] = rate;
+    }
+    return rates;
+  } catch (error) {
+    console.error("Ignoring malformed RADIUS_CURRENCY_RATES", error);
+    return DEFAULT_CURRENCY_RATES;
+  }
+}
+
+const LENGTH_UNITS: Array<[string[], number]> = [
+  [["mm", "millimeter", "millimeters", "millimetre", "millimetres"], 0.001],
+  [["cm", "centimeter", "centimeters", "centimetre", "centimetres"], 0.01],
+  [["m", "meter", "meters", "metre", "metres"], 1],
+  [["km", "kilometer", "kilometers", "kilometre", "kilometres"], 1000],
+  [["inch", "inches"], 0.0254],
+  [["ft", "foot", "feet"], 0.3048],
+  [["yd", "yard", "yards"], 0.9144],
+  [["mi", "mile", "miles"], 1609.344]
+];
+
+const MASS_UNITS: Array<[string[], number]> = [
+  [["g", "gram", "grams"], 0.001],
+  [["kg", "kilogram", "kilograms", "kilo", "kilos"], 1],
+  [["t", "tonne", "tonnes"], 1000],
+  [["oz", "ounce", "ounces"], 0.028349523125],
+  [["lb", "lbs", "pound", "pounds"], 0.45359237]
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY"
+};
+
+function buildUnitTable(): Map<string, Unit> {
+  const table = new Map<string, Unit>();
+  const add = (dimension: Dimension, groups: Array<[string[], number]>) => {
+    for (const [aliases, factor] of groups) {
+      for (const alias of aliases) {
+        table.set(alias.toLowerCase(), { symbol: aliases[0], dimension, factor });
+      }
+    }
+  };
+  add("length", LENGTH_UNITS);
+  add("mass", MASS_UNITS);
+  add(
+    "currency",
+    Object.entries(currencyRates()).map(([code, rate]) => [[code.toLowerCase()], rate])
+  );
+  for (const unit of table.values()) {
+    if (unit.dimension === "currency") unit.symbol = unit.symbol.toUpperCase();
+  }
+  return table;
+}
+
+let unitTable: Map<string, Unit> | null = null;
+
+export function findUnit(name: string): Unit | null {
+  unitTable ??= buildUnitTable();
+  return unitTable.get(name.toLowerCase()) ?? null;
+}
+
+export function currencyForSymbol(symbol: string): Unit | null {
+  const code = CURRENCY_SYMBOLS[symbol];
+  return code ? findUnit(code) : null;
+}
+
+export function convert(value: number, from: Unit, to: Unit): number {
+  return (value * from.factor) / to.factor;
+}